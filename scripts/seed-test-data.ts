@@ -41,13 +41,24 @@ const env = loadEnv();
 
 const supabaseUrl = env.VITE_SUPABASE_URL;
 const supabaseAnonKey = env.VITE_SUPABASE_ANON_KEY;
+const supabaseServiceKey = env.SUPABASE_SERVICE_ROLE_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
   console.error('Missing VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY in .env.local');
   process.exit(1);
 }
 
+// Clients cannot insert messages directly (create_message RPC only), and the
+// fixtures include delivered/failed rows, so seeding writes as service role
+if (!supabaseServiceKey) {
+  console.error('Missing SUPABASE_SERVICE_ROLE_KEY in .env.local (needed to write test messages)');
+  process.exit(1);
+}
+
 const supabase = createClient(supabaseUrl, supabaseAnonKey);
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { persistSession: false },
+});
 
 // Test user credentials - can be overridden via environment variables
 const TEST_EMAIL = process.env.TEST_EMAIL || 'sendaway.test+user1@gmail.com';
@@ -216,7 +227,7 @@ async function signInOrSignUp(): Promise<string> {
 async function deleteExistingTestMessages(userId: string): Promise<void> {
   console.log('\nDeleting existing test messages...');
 
-  const { error } = await supabase
+  const { error } = await supabaseAdmin
     .from('messages')
     .delete()
     .eq('user_id', userId);
@@ -242,7 +253,7 @@ async function createTestMessages(userId: string): Promise<void> {
       delivery_token: generateUUID(),
     };
 
-    const { data, error } = await supabase
+    const { data, error } = await supabaseAdmin
       .from('messages')
       .insert(insertData)
       .select()
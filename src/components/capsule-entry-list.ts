@@ -0,0 +1,94 @@
+import type { SharedCapsuleEntry } from '../services/message.service';
+
+/**
+ * Styles for renderCapsuleEntries; include once in the view's <style> block
+ */
+export function getCapsuleEntryStyles(): string {
+  return `
+    .capsule-entries {
+      padding: 20px 25px;
+      border-top: 2px solid #eee;
+    }
+    .capsule-entries-title {
+      margin: 0 0 15px 0;
+      font-size: 1.1rem;
+    }
+    .capsule-entry {
+      background: #F9F9F9;
+      border: 2px solid black;
+      border-radius: 8px;
+      padding: 15px;
+      margin-bottom: 12px;
+    }
+    .capsule-entry-author {
+      font-weight: 700;
+      margin-bottom: 8px;
+    }
+    .capsule-entry-text {
+      white-space: pre-wrap;
+      line-height: 1.6;
+    }
+    .capsule-entry video,
+    .capsule-entry audio {
+      width: 100%;
+      margin-top: 10px;
+      border-radius: 8px;
+      border: 2px solid black;
+    }
+    .capsule-entry-error {
+      margin-top: 10px;
+      color: #991B1B;
+      font-size: 0.9rem;
+    }
+  `;
+}
+
+/**
+ * Renders a shared capsule's entries into container. Author names and text
+ * are user content and are set as text, never parsed as HTML.
+ */
+export function renderCapsuleEntries(container: HTMLElement, entries: SharedCapsuleEntry[]): void {
+  container.innerHTML = '';
+  if (entries.length === 0) return;
+
+  const section = document.createElement('div');
+  section.className = 'capsule-entries';
+
+  const title = document.createElement('h3');
+  title.className = 'capsule-entries-title';
+  title.textContent = entries.length === 1 ? '1 Contribution' : `${entries.length} Contributions`;
+  section.appendChild(title);
+
+  entries.forEach((entry) => {
+    const card = document.createElement('div');
+    card.className = 'capsule-entry';
+
+    const author = document.createElement('div');
+    author.className = 'capsule-entry-author';
+    author.textContent = entry.authorName;
+    card.appendChild(author);
+
+    if (entry.text) {
+      const text = document.createElement('div');
+      text.className = 'capsule-entry-text';
+      text.textContent = entry.text;
+      card.appendChild(text);
+    }
+
+    if (entry.mediaKind && entry.mediaUrl) {
+      const player = document.createElement(entry.mediaKind === 'audio' ? 'audio' : 'video');
+      player.controls = true;
+      player.src = entry.mediaUrl;
+      card.appendChild(player);
+    } else if (entry.mediaKind) {
+      const error = document.createElement('div');
+      error.className = 'capsule-entry-error';
+      error.textContent = `⚠ ${entry.mediaKind === 'audio' ? 'Voice note' : 'Video'} unavailable`;
+      card.appendChild(error);
+    }
+
+    section.appendChild(card);
+  });
+
+  container.appendChild(section);
+}
@@ -0,0 +1,630 @@
+import { capsuleService, buildJoinLink, CapsuleEntryData, CapsuleRole } from '../services/capsule.service';
+import { videoService } from '../services/video.service';
+import { formatDuration } from '../utils/video-duration';
+import { authService } from '../services/auth.service';
+import { toast } from './toast';
+import { formatDateTime } from '../utils/countdown';
+import { validateCapsuleEntry, MAX_AUTHOR_NAME_LENGTH } from '../utils/validation';
+import type { CapsuleEntry, CapsuleInvitation, CapsuleMember } from '../types/database';
+
+export interface CapsuleSummary {
+  id: string;
+  deliverAt: string;
+  timezone: string;
+  // Entries can still be added or changed (pending and before the lock date)
+  open: boolean;
+}
+
+const ROLE_LABELS: Record<CapsuleRole, string> = {
+  owner: 'Owner',
+  organizer: 'Organizer',
+  contributor: 'Contributor',
+};
+
+class CapsulePanel {
+  private overlay: HTMLElement | null = null;
+  private capsule: CapsuleSummary | null = null;
+  private role: CapsuleRole | null = null;
+  private members: CapsuleMember[] = [];
+  private invitations: CapsuleInvitation[] = [];
+  private entries: CapsuleEntry[] = [];
+  // Entry loaded into the form; null adds a new one
+  private editingEntry: CapsuleEntry | null = null;
+  private saving = false;
+  // Entries or members changed; the dashboard is refreshed on close
+  private changed = false;
+
+  /**
+   * Opens a shared capsule for the current user: their own entries (add,
+   * edit, delete while open) and, for the owner and organizers, everyone's
+   * entries, members and invitations. Stacks above the message detail view.
+   */
+  async show(capsule: CapsuleSummary): Promise<void> {
+    this.hide();
+
+    this.capsule = capsule;
+    this.editingEntry = null;
+    this.changed = false;
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'capsule-panel-overlay';
+    document.body.appendChild(this.overlay);
+    this.renderShell('<p style="padding: 25px; margin: 0;">Loading capsule...</p>');
+
+    await this.load();
+    this.render();
+  }
+
+  /**
+   * Removes overlay from DOM and refreshes the dashboard after changes
+   */
+  hide(): void {
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = null;
+    }
+
+    if (this.changed) {
+      this.changed = false;
+      import('./messages-dashboard').then(({ messagesDashboard }) => {
+        messagesDashboard.refresh();
+      });
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (!this.capsule) return;
+
+    const userId = authService.getUser()?.id;
+    const [members, entries] = await Promise.all([
+      capsuleService.getMembers(this.capsule.id),
+      capsuleService.getEntries(this.capsule.id),
+    ]);
+
+    this.members = members;
+    this.entries = entries;
+    this.role = members.find((member) => member.user_id === userId)?.role ?? null;
+    this.invitations = this.canManage() ? await capsuleService.getInvitations(this.capsule.id) : [];
+  }
+
+  /**
+   * Owner and organizers invite people and moderate entries
+   */
+  private canManage(): boolean {
+    return this.role === 'owner' || this.role === 'organizer';
+  }
+
+  /**
+   * Members the current user may remove: anyone for the owner, contributors
+   * for organizers, and themselves (leave) for everyone but the owner
+   */
+  private canRemove(member: CapsuleMember): boolean {
+    if (member.role === 'owner') return false;
+    if (member.user_id === authService.getUser()?.id) return true;
+    return this.role === 'owner' || (this.role === 'organizer' && member.role === 'contributor');
+  }
+
+  /**
+   * Writes overlay HTML with shared styles and card body
+   */
+  private renderShell(cardHtml: string): void {
+    if (!this.overlay) return;
+
+    this.overlay.style.background = '#E0F2FE';
+    this.overlay.innerHTML = `
+      <style>
+        .capsule-panel-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 1001;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 20px;
+          overflow-y: auto;
+        }
+        .capsule-back-btn {
+          position: absolute;
+          top: 20px;
+          left: 20px;
+          background: white;
+          border: 2px solid black;
+          border-radius: 50px;
+          padding: 10px 20px;
+          font-family: inherit;
+          font-weight: 700;
+          cursor: pointer;
+        }
+        .capsule-card {
+          background: white;
+          border: 4px solid black;
+          border-radius: 12px;
+          box-shadow: 10px 10px 0px 0px black;
+          width: 100%;
+          max-width: 600px;
+          margin: 60px 0 40px;
+          overflow: hidden;
+        }
+        .capsule-header {
+          padding: 25px;
+          border-bottom: 3px solid black;
+          background: var(--pastel-blue);
+        }
+        .capsule-section {
+          padding: 20px 25px;
+          border-top: 2px solid #eee;
+        }
+        .capsule-section h3 {
+          margin: 0 0 15px 0;
+          font-size: 1.1rem;
+        }
+        .capsule-form label {
+          display: block;
+          font-weight: 700;
+          margin-bottom: 5px;
+        }
+        .capsule-form textarea,
+        .capsule-form input[type="text"],
+        .capsule-form input[type="email"],
+        .capsule-form select {
+          width: 100%;
+          padding: 12px;
+          border: 2px solid black;
+          border-radius: 8px;
+          font-family: inherit;
+          font-size: 1rem;
+          margin-bottom: 15px;
+        }
+        .capsule-form textarea {
+          min-height: 120px;
+          resize: vertical;
+        }
+        .capsule-attachment {
+          background: #F5F5F5;
+          border: 2px solid black;
+          border-radius: 8px;
+          padding: 15px;
+          margin-bottom: 15px;
+          font-size: 0.9rem;
+        }
+        .capsule-row {
+          background: #F9F9F9;
+          border: 2px solid black;
+          border-radius: 8px;
+          padding: 12px 15px;
+          margin-bottom: 10px;
+        }
+        .capsule-row-title {
+          font-weight: 700;
+        }
+        .capsule-row-meta {
+          font-size: 0.85rem;
+          color: #555;
+          margin-top: 4px;
+        }
+        .capsule-row-text {
+          white-space: pre-wrap;
+          margin-top: 8px;
+          line-height: 1.5;
+        }
+        .capsule-actions {
+          margin-top: 10px;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 15px;
+        }
+        .capsule-actions button {
+          background: none;
+          border: none;
+          color: #666;
+          font-family: inherit;
+          font-size: 0.9rem;
+          cursor: pointer;
+          padding: 0;
+        }
+        .capsule-actions button:hover {
+          color: black;
+        }
+        .capsule-actions button.danger:hover {
+          color: #dc2626;
+        }
+      </style>
+
+      <button class="capsule-back-btn" id="capsuleBackBtn">&larr; Back</button>
+
+      <div class="capsule-card">${cardHtml}</div>
+    `;
+
+    this.overlay.querySelector('#capsuleBackBtn')?.addEventListener('click', () => {
+      this.hide();
+    });
+  }
+
+  private render(): void {
+    if (!this.capsule || !this.overlay) return;
+
+    if (!this.role) {
+      this.renderShell(`
+        <div class="capsule-header" style="background: #FEE2E2;">
+          <h2 style="margin: 0; font-size: 1.5rem;">Capsule Not Available</h2>
+          <p style="margin: 5px 0 0 0; color: #555;">You are not part of this capsule anymore.</p>
+        </div>
+      `);
+      return;
+    }
+
+    const userId = authService.getUser()?.id;
+    const isPro = authService.isPro();
+    const accept = isPro ? '.webm, .mp4, .mov, .m4a, .mp3, .weba' : '.m4a, .mp3, .weba';
+    const lockDate = formatDateTime(new Date(this.capsule.deliverAt), this.capsule.timezone);
+    const editing = this.editingEntry;
+    const canManage = this.canManage();
+
+    this.renderShell(`
+      <div class="capsule-header">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#128101; Shared Capsule</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          ${this.capsule.open
+            ? `Contributions close <strong>${lockDate}</strong>. Everything is delivered together.`
+            : 'This capsule is locked. Entries can no longer be changed.'}
+        </p>
+      </div>
+
+      ${this.capsule.open ? `
+        <form class="capsule-section capsule-form" id="entryForm">
+          <h3>${editing ? 'Edit Your Entry' : 'Add Your Entry'}</h3>
+          <label for="entryAuthorInput">Sign As</label>
+          <input type="text" id="entryAuthorInput" maxlength="${MAX_AUTHOR_NAME_LENGTH}" placeholder="e.g. Aunt May">
+
+          <label for="entryTextInput">Your Note</label>
+          <textarea id="entryTextInput" maxlength="4000"></textarea>
+
+          <div class="capsule-attachment">
+            <label for="entryVideoInput">${isPro ? 'Video or Voice Note' : 'Voice Note'} (Max 3 min, counts against your storage)</label>
+            ${editing?.video_storage_path ? `
+              <p style="margin: 0 0 10px 0;">
+                Current ${editing.media_kind === 'audio' ? 'voice note' : 'video'}: ${formatDuration(editing.video_duration_seconds)}
+              </p>
+              <label style="font-weight: 400; margin-bottom: 10px;">
+                <input type="checkbox" id="entryRemoveVideo"> Remove ${editing.media_kind === 'audio' ? 'voice note' : 'video'}
+              </label>
+            ` : ''}
+            <input type="file" id="entryVideoInput" accept="${accept}">
+          </div>
+
+          <div style="display: flex; gap: 10px;">
+            <button type="submit" class="btn" id="saveEntryBtn">${editing ? 'Save Entry' : 'Add Entry'}</button>
+            ${editing ? '<button type="button" class="btn btn-outline" id="cancelEntryBtn">Cancel</button>' : ''}
+          </div>
+        </form>
+      ` : ''}
+
+      <div class="capsule-section">
+        <h3>${canManage ? 'Entries' : 'Your Entries'} (${this.entries.length})</h3>
+        ${this.entries.length === 0 ? '<p style="margin: 0; color: #555;">No entries yet.</p>' : ''}
+        ${this.entries.map((entry) => `
+          <div class="capsule-row">
+            <div class="capsule-row-title" data-entry-author="${entry.id}"></div>
+            ${entry.media_kind ? `
+              <div class="capsule-row-meta">
+                ${entry.media_kind === 'audio' ? '&#127897; Voice note' : '&#127909; Video'}, ${formatDuration(entry.video_duration_seconds)}
+              </div>
+            ` : ''}
+            <div class="capsule-row-text" data-entry-text="${entry.id}"></div>
+            ${this.capsule!.open && (entry.user_id === userId || canManage) ? `
+              <div class="capsule-actions">
+                ${entry.user_id === userId ? `<button type="button" data-edit-entry="${entry.id}">&#9998; Edit</button>` : ''}
+                <button type="button" class="danger" data-delete-entry="${entry.id}">&#128465; Delete</button>
+              </div>
+            ` : ''}
+          </div>
+        `).join('')}
+      </div>
+
+      <div class="capsule-section">
+        <h3>Members (${this.members.length})</h3>
+        ${this.members.map((member) => `
+          <div class="capsule-row">
+            <div class="capsule-row-title" data-member-email="${member.user_id}"></div>
+            <div class="capsule-row-meta">${ROLE_LABELS[member.role]}${member.user_id === userId ? ' (you)' : ''}</div>
+            ${this.capsule!.open && this.canRemove(member) ? `
+              <div class="capsule-actions">
+                <button type="button" class="danger" data-remove-member="${member.user_id}">
+                  ${member.user_id === userId ? 'Leave capsule' : 'Remove'}
+                </button>
+              </div>
+            ` : ''}
+          </div>
+        `).join('')}
+      </div>
+
+      ${canManage && this.capsule.open ? `
+        <div class="capsule-section">
+          <h3>Invite People</h3>
+          <form class="capsule-form" id="inviteForm">
+            <label for="inviteEmailInput">Email</label>
+            <input type="email" id="inviteEmailInput" placeholder="friend@example.com">
+            ${this.role === 'owner' ? `
+              <label for="inviteRoleSelect">Role</label>
+              <select id="inviteRoleSelect">
+                <option value="contributor">Contributor: adds their own entries</option>
+                <option value="organizer">Organizer: also invites people and removes entries</option>
+              </select>
+            ` : ''}
+            <button type="submit" class="btn" id="inviteBtn">Create Invite Link</button>
+          </form>
+          <p style="margin: 10px 0 15px 0; font-size: 0.85rem; color: #555;">
+            Send the link yourself. It only works for someone signed in with the invited email.
+          </p>
+          ${this.invitations.map((invitation) => `
+            <div class="capsule-row">
+              <div class="capsule-row-title" data-invitation-email="${invitation.id}"></div>
+              <div class="capsule-row-meta">Invited as ${ROLE_LABELS[invitation.role].toLowerCase()}, not joined yet</div>
+              <div class="capsule-actions">
+                <button type="button" data-copy-invitation="${invitation.id}">&#128279; Copy link</button>
+                <button type="button" class="danger" data-revoke-invitation="${invitation.id}">Withdraw</button>
+              </div>
+            </div>
+          `).join('')}
+        </div>
+      ` : ''}
+    `);
+
+    // Names, notes and emails are user content; set as text only
+    this.entries.forEach((entry) => {
+      const authorEl = this.overlay?.querySelector(`[data-entry-author="${entry.id}"]`);
+      if (authorEl) authorEl.textContent = entry.author_name;
+      const textEl = this.overlay?.querySelector(`[data-entry-text="${entry.id}"]`);
+      if (textEl) textEl.textContent = entry.entry_text;
+    });
+    this.members.forEach((member) => {
+      const emailEl = this.overlay?.querySelector(`[data-member-email="${member.user_id}"]`);
+      if (emailEl) emailEl.textContent = member.email;
+    });
+    this.invitations.forEach((invitation) => {
+      const emailEl = this.overlay?.querySelector(`[data-invitation-email="${invitation.id}"]`);
+      if (emailEl) emailEl.textContent = invitation.email;
+    });
+
+    const authorInput = this.overlay.querySelector('#entryAuthorInput') as HTMLInputElement | null;
+    const textInput = this.overlay.querySelector('#entryTextInput') as HTMLTextAreaElement | null;
+    if (authorInput && textInput) {
+      // New entries are signed with the name used last time
+      const lastName = this.entries.find((entry) => entry.user_id === userId)?.author_name ?? '';
+      authorInput.value = editing ? editing.author_name : lastName;
+      textInput.value = editing ? editing.entry_text : '';
+    }
+
+    this.bindEvents();
+  }
+
+  private bindEvents(): void {
+    if (!this.overlay) return;
+
+    this.overlay.querySelector('#entryForm')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.handleSaveEntry();
+    });
+
+    this.overlay.querySelector('#cancelEntryBtn')?.addEventListener('click', () => {
+      this.editingEntry = null;
+      this.render();
+    });
+
+    this.overlay.querySelector('#inviteForm')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.handleInvite();
+    });
+
+    this.overlay.querySelectorAll<HTMLElement>('[data-edit-entry]').forEach((button) => {
+      button.addEventListener('click', () => {
+        this.editingEntry = this.entries.find((entry) => entry.id === button.dataset.editEntry) ?? null;
+        this.render();
+        this.overlay?.querySelector('#entryForm')?.scrollIntoView({ behavior: 'smooth' });
+      });
+    });
+
+    this.overlay.querySelectorAll<HTMLElement>('[data-delete-entry]').forEach((button) => {
+      button.addEventListener('click', () => {
+        const entry = this.entries.find((e) => e.id === button.dataset.deleteEntry);
+        if (entry) this.handleDeleteEntry(entry);
+      });
+    });
+
+    this.overlay.querySelectorAll<HTMLElement>('[data-remove-member]').forEach((button) => {
+      button.addEventListener('click', () => {
+        const member = this.members.find((m) => m.user_id === button.dataset.removeMember);
+        if (member) this.handleRemoveMember(member);
+      });
+    });
+
+    this.overlay.querySelectorAll<HTMLElement>('[data-copy-invitation]').forEach((button) => {
+      button.addEventListener('click', () => {
+        const invitation = this.invitations.find((i) => i.id === button.dataset.copyInvitation);
+        if (invitation) this.copyLink(buildJoinLink(invitation.token));
+      });
+    });
+
+    this.overlay.querySelectorAll<HTMLElement>('[data-revoke-invitation]').forEach((button) => {
+      button.addEventListener('click', () => {
+        const invitation = this.invitations.find((i) => i.id === button.dataset.revokeInvitation);
+        if (invitation) this.handleRevokeInvitation(invitation);
+      });
+    });
+  }
+
+  /**
+   * Validates, uploads a new attachment (charged to the current user) and
+   * adds or updates the entry
+   */
+  private async handleSaveEntry(): Promise<void> {
+    if (!this.capsule || !this.overlay || this.saving) return;
+
+    const authorInput = this.overlay.querySelector('#entryAuthorInput') as HTMLInputElement;
+    const textInput = this.overlay.querySelector('#entryTextInput') as HTMLTextAreaElement;
+    const videoInput = this.overlay.querySelector('#entryVideoInput') as HTMLInputElement;
+    const removeVideoInput = this.overlay.querySelector('#entryRemoveVideo') as HTMLInputElement | null;
+    const saveBtn = this.overlay.querySelector('#saveEntryBtn') as HTMLButtonElement;
+    const editing = this.editingEntry;
+
+    const file = videoInput.files?.[0];
+    const removeVideo = removeVideoInput?.checked ?? false;
+    const hasAttachment = !!file || (!!editing?.video_storage_path && !removeVideo);
+
+    const validationError = validateCapsuleEntry(authorInput.value, textInput.value, hasAttachment);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    this.saving = true;
+    saveBtn.disabled = true;
+    saveBtn.textContent = 'Saving...';
+
+    const data: CapsuleEntryData = {
+      authorName: authorInput.value,
+      entryText: textInput.value,
+    };
+
+    if (file) {
+      const upload = await videoService.uploadVideo(file, editing?.video_size_bytes ?? 0, {
+        onProgress: (progress) => {
+          saveBtn.textContent = `Uploading... ${progress.percent}%`;
+        }
+      });
+
+      if (!upload.success) {
+        toast.error(upload.error || 'Upload failed');
+        this.saving = false;
+        saveBtn.disabled = false;
+        saveBtn.textContent = editing ? 'Save Entry' : 'Add Entry';
+        return;
+      }
+
+      data.videoStoragePath = upload.path;
+      data.videoSizeBytes = upload.size;
+      data.videoDurationSeconds = upload.duration;
+      data.mediaKind = upload.kind;
+    } else if (removeVideo) {
+      data.videoStoragePath = null;
+    }
+
+    const result = editing
+      ? await capsuleService.updateEntry(editing, data)
+      : await capsuleService.addEntry(this.capsule.id, data);
+
+    this.saving = false;
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save your entry');
+      saveBtn.disabled = false;
+      saveBtn.textContent = editing ? 'Save Entry' : 'Add Entry';
+      return;
+    }
+
+    toast.success(editing ? 'Entry saved' : 'Entry added');
+    this.editingEntry = null;
+    this.changed = true;
+    await this.load();
+    this.render();
+  }
+
+  private async handleDeleteEntry(entry: CapsuleEntry): Promise<void> {
+    if (!confirm('Delete this entry? This cannot be undone.')) return;
+
+    const result = await capsuleService.deleteEntry(entry);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete entry');
+      return;
+    }
+
+    toast.success('Entry deleted');
+    if (this.editingEntry?.id === entry.id) this.editingEntry = null;
+    this.changed = true;
+    await this.load();
+    this.render();
+  }
+
+  private async handleInvite(): Promise<void> {
+    if (!this.capsule || !this.overlay) return;
+
+    const emailInput = this.overlay.querySelector('#inviteEmailInput') as HTMLInputElement;
+    const roleSelect = this.overlay.querySelector('#inviteRoleSelect') as HTMLSelectElement | null;
+    const inviteBtn = this.overlay.querySelector('#inviteBtn') as HTMLButtonElement;
+    const role = roleSelect?.value === 'organizer' ? 'organizer' : 'contributor';
+
+    inviteBtn.disabled = true;
+    const result = await capsuleService.invite(this.capsule.id, emailInput.value, role);
+    inviteBtn.disabled = false;
+
+    if (!result.success || !result.link) {
+      toast.error(result.error || 'Failed to create the invitation');
+      return;
+    }
+
+    await this.copyLink(result.link);
+    this.invitations = await capsuleService.getInvitations(this.capsule.id);
+    this.render();
+  }
+
+  private async handleRevokeInvitation(invitation: CapsuleInvitation): Promise<void> {
+    if (!this.capsule) return;
+
+    const result = await capsuleService.revokeInvitation(invitation.id);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to withdraw the invitation');
+      return;
+    }
+
+    toast.success('Invitation withdrawn');
+    this.invitations = await capsuleService.getInvitations(this.capsule.id);
+    this.render();
+  }
+
+  /**
+   * Removes a member (their entries go with them), or leaves the capsule
+   */
+  private async handleRemoveMember(member: CapsuleMember): Promise<void> {
+    if (!this.capsule) return;
+
+    const isSelf = member.user_id === authService.getUser()?.id;
+    const question = isSelf
+      ? 'Leave this capsule? Your entries will be deleted.'
+      : 'Remove this member? Their entries will be deleted.';
+    if (!confirm(question)) return;
+
+    const result = await capsuleService.removeMember(this.capsule.id, member.user_id);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to remove the member');
+      return;
+    }
+
+    this.changed = true;
+
+    if (isSelf) {
+      toast.success('You left the capsule');
+      this.hide();
+      return;
+    }
+
+    toast.success('Member removed');
+    await this.load();
+    this.render();
+  }
+
+  private async copyLink(link: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Invite link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  }
+}
+
+export const capsulePanel = new CapsulePanel();
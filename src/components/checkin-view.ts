@@ -0,0 +1,142 @@
+import { messageService, CheckinLinkState } from '../services/message.service';
+import { formatDateTime } from '../utils/countdown';
+
+class CheckinView {
+  private overlay: HTMLElement | null = null;
+
+  /**
+   * Checks in with the token from a reminder email and renders the outcome.
+   * Works without a session; the Edge Function resolves the sender.
+   */
+  async show(token: string): Promise<void> {
+    this.hide();
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'checkin-view-overlay';
+    document.body.appendChild(this.overlay);
+    this.renderShell('#FFFDF7', '<p style="padding: 25px; margin: 0;">Checking you in...</p>');
+
+    const result = await messageService.checkInWithToken(token);
+
+    if (!result.success || !result.checkin) {
+      this.renderError(result.error || 'This check-in link is invalid.');
+      return;
+    }
+
+    this.renderResult(result.checkin);
+  }
+
+  /**
+   * Removes overlay from DOM
+   */
+  hide(): void {
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = null;
+    }
+  }
+
+  /**
+   * Writes overlay HTML with shared styles, background color, and card body
+   */
+  private renderShell(bgColor: string, cardHtml: string): void {
+    if (!this.overlay) return;
+
+    this.overlay.style.background = bgColor;
+    this.overlay.innerHTML = `
+      <style>
+        .checkin-view-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 1000;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 20px;
+          overflow-y: auto;
+        }
+        .checkin-home-btn {
+          position: absolute;
+          top: 20px;
+          left: 20px;
+          background: white;
+          border: 2px solid black;
+          border-radius: 50px;
+          padding: 10px 20px;
+          font-weight: 700;
+          text-decoration: none;
+          color: black;
+        }
+        .checkin-card {
+          background: white;
+          border: 4px solid black;
+          border-radius: 12px;
+          box-shadow: 10px 10px 0px 0px black;
+          width: 100%;
+          max-width: 600px;
+          margin-top: 60px;
+          overflow: hidden;
+        }
+        .checkin-header {
+          padding: 25px;
+          border-bottom: 3px solid black;
+        }
+      </style>
+
+      <a class="checkin-home-btn" href="/">FTRMSG</a>
+
+      <div class="checkin-card">${cardHtml}</div>
+    `;
+  }
+
+  /**
+   * Confirms the check-in, or explains that this link's switch already fired
+   */
+  private renderResult(checkin: CheckinLinkState): void {
+    if (checkin.triggered) {
+      this.renderShell('#FECDD3', `
+        <div class="checkin-header" style="background: #FDE68A;">
+          <h2 style="margin: 0; font-size: 1.5rem;">&#128232; Already Delivered</h2>
+          <p style="margin: 5px 0 0 0; color: #555;">
+            The check-in window for this message closed and it is being delivered.
+            ${checkin.checkedIn > 0 ? 'Your other check-in messages were reset.' : ''}
+          </p>
+        </div>
+      `);
+      return;
+    }
+
+    const next = checkin.nextCheckinDueAt
+      ? formatDateTime(new Date(checkin.nextCheckinDueAt), checkin.timezone)
+      : null;
+
+    this.renderShell('#BBF7D0', `
+      <div class="checkin-header" style="background: var(--pastel-green);">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#128147; You're Checked In</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          Your messages stay locked.${next ? ` Next check-in due <strong>${next}</strong>.` : ''}
+        </p>
+      </div>
+    `);
+  }
+
+  /**
+   * Renders error card for unknown or malformed tokens
+   */
+  private renderError(error: string): void {
+    this.renderShell('#FECDD3', `
+      <div class="checkin-header" style="background: #FEE2E2;">
+        <h2 style="margin: 0; font-size: 1.5rem;">Check-in Failed</h2>
+        <p style="margin: 5px 0 0 0; color: #555;" id="checkinError"></p>
+      </div>
+    `);
+
+    const errorEl = this.overlay?.querySelector('#checkinError');
+    if (errorEl) errorEl.textContent = error;
+  }
+}
+
+export const checkinView = new CheckinView();
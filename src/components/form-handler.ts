@@ -1,7 +1,12 @@
 import { authService } from '../services/auth.service';
-import { videoService } from '../services/video.service';
-import { validateForm, getDateMonthsFromNow } from '../utils/validation';
-import { validateVideo, formatDuration } from '../utils/video-duration';
+import { videoService, UploadControls } from '../services/video.service';
+import { imageService, UploadedImage } from '../services/image.service';
+import { validateForm, validatePassphrase, validateEmailWording, validateRecurrence, validateCheckin, validateEncryptedDelivery, getDateMonthsFromNow, parseEmailList, getBrowserTimeZone } from '../utils/validation';
+import { toRecurrence, getRepeatValueLabel, RepeatMode } from '../utils/recurrence';
+import { getCheckinDeadline, DeliveryMode } from '../utils/checkin';
+import { getDefaultEmailLocale, renderEmailLocaleOptions, EmailLocale } from '../utils/email-locale';
+import { validateMedia, getMediaKind, formatDuration, MediaKind } from '../utils/video-duration';
+import { generateMessageKey } from '../utils/e2e-crypto';
 import { authModal } from './auth-modal';
 import { planModal } from './plan-modal';
 import { toast } from './toast';
@@ -11,9 +16,34 @@ interface FormElements {
   messageInput: HTMLTextAreaElement;
   charCount: HTMLElement;
   videoInput: HTMLInputElement;
+  recordVideoBtn: HTMLButtonElement;
   fileNameDisplay: HTMLElement;
+  uploadProgress: HTMLElement;
+  uploadProgressBar: HTMLElement;
+  uploadProgressText: HTMLElement;
+  uploadPauseBtn: HTMLButtonElement;
+  uploadRetryBtn: HTMLButtonElement;
+  imageInput: HTMLInputElement;
+  imageGallery: HTMLElement;
+  clearImagesBtn: HTMLButtonElement;
+  passphraseInput: HTMLInputElement;
+  passphraseHintInput: HTMLInputElement;
+  encryptToggle: HTMLInputElement;
+  giftToggle: HTMLInputElement;
+  deliveryModeSelect: HTMLSelectElement;
+  dateFields: HTMLElement;
+  checkinFields: HTMLElement;
+  checkinIntervalInput: HTMLInputElement;
+  checkinGraceInput: HTMLInputElement;
   dateInput: HTMLInputElement;
+  timezoneHint: HTMLElement | null;
+  repeatSelect: HTMLSelectElement;
+  repeatValueInput: HTMLInputElement;
+  repeatValueLabel: HTMLElement;
   emailInput: HTMLInputElement;
+  emailSubjectInput: HTMLInputElement;
+  emailSignOffInput: HTMLInputElement;
+  emailLocaleSelect: HTMLSelectElement;
   sendBtn: HTMLButtonElement;
   chips: NodeListOf<HTMLElement>;
 }
@@ -24,7 +54,16 @@ class FormHandler {
     path: string;
     size: number;
     duration: number;
+    kind: MediaKind;
   } | null = null;
+  private uploadedImages: UploadedImage[] = [];
+  // Active upload controls and the file to retry after a failed upload
+  private uploadControls: UploadControls | null = null;
+  private uploadPaused = false;
+  private failedUploadFile: File | null = null;
+  private unfinishedUploadsChecked = false;
+  // Key for an end-to-end encrypted message, created on first use
+  private encryptionKey: CryptoKey | null = null;
 
   /**
    * Initialize the form handler
@@ -35,9 +74,34 @@ class FormHandler {
       messageInput: document.getElementById('messageInput') as HTMLTextAreaElement,
       charCount: document.getElementById('charCount') as HTMLElement,
       videoInput: document.getElementById('videoInput') as HTMLInputElement,
+      recordVideoBtn: document.getElementById('recordVideoBtn') as HTMLButtonElement,
       fileNameDisplay: document.getElementById('fileName') as HTMLElement,
+      uploadProgress: document.getElementById('uploadProgress') as HTMLElement,
+      uploadProgressBar: document.getElementById('uploadProgressBar') as HTMLElement,
+      uploadProgressText: document.getElementById('uploadProgressText') as HTMLElement,
+      uploadPauseBtn: document.getElementById('uploadPauseBtn') as HTMLButtonElement,
+      uploadRetryBtn: document.getElementById('uploadRetryBtn') as HTMLButtonElement,
+      imageInput: document.getElementById('imageInput') as HTMLInputElement,
+      imageGallery: document.getElementById('imageGallery') as HTMLElement,
+      clearImagesBtn: document.getElementById('clearImagesBtn') as HTMLButtonElement,
+      passphraseInput: document.getElementById('passphraseInput') as HTMLInputElement,
+      passphraseHintInput: document.getElementById('passphraseHintInput') as HTMLInputElement,
+      encryptToggle: document.getElementById('encryptToggle') as HTMLInputElement,
+      giftToggle: document.getElementById('giftToggle') as HTMLInputElement,
+      deliveryModeSelect: document.getElementById('deliveryModeSelect') as HTMLSelectElement,
+      dateFields: document.getElementById('dateFields') as HTMLElement,
+      checkinFields: document.getElementById('checkinFields') as HTMLElement,
+      checkinIntervalInput: document.getElementById('checkinIntervalInput') as HTMLInputElement,
+      checkinGraceInput: document.getElementById('checkinGraceInput') as HTMLInputElement,
       dateInput: document.getElementById('dateInput') as HTMLInputElement,
+      timezoneHint: document.getElementById('timezoneHint'),
+      repeatSelect: document.getElementById('repeatSelect') as HTMLSelectElement,
+      repeatValueInput: document.getElementById('repeatValueInput') as HTMLInputElement,
+      repeatValueLabel: document.getElementById('repeatValueLabel') as HTMLElement,
       emailInput: document.getElementById('emailInput') as HTMLInputElement,
+      emailSubjectInput: document.getElementById('emailSubjectInput') as HTMLInputElement,
+      emailSignOffInput: document.getElementById('emailSignOffInput') as HTMLInputElement,
+      emailLocaleSelect: document.getElementById('emailLocaleSelect') as HTMLSelectElement,
       sendBtn: document.getElementById('sendBtn') as HTMLButtonElement,
       chips: document.querySelectorAll('.chip') as NodeListOf<HTMLElement>
     };
@@ -47,8 +111,16 @@ class FormHandler {
       return;
     }
 
+    if (this.elements.timezoneHint) {
+      this.elements.timezoneHint.textContent = `Time zone: ${getBrowserTimeZone()}`;
+    }
+
+    // Marked selected, so form.reset() returns to it
+    this.elements.emailLocaleSelect.innerHTML = renderEmailLocaleOptions(getDefaultEmailLocale());
+
     this.setupEventListeners();
     this.prefillEmailIfLoggedIn();
+    this.notifyUnfinishedUploads();
   }
 
   private setupEventListeners(): void {
@@ -62,6 +134,30 @@ class FormHandler {
     // Video file selection
     el.videoInput.addEventListener('change', (e) => this.handleVideoSelect(e));
 
+    // In-browser recording
+    el.recordVideoBtn.addEventListener('click', () => this.openRecorder());
+
+    // Upload pause/resume and retry
+    el.uploadPauseBtn.addEventListener('click', () => this.toggleUploadPause());
+    el.uploadRetryBtn.addEventListener('click', () => {
+      if (this.failedUploadFile) {
+        this.startUpload(this.failedUploadFile);
+      }
+    });
+
+    // Photo selection
+    el.imageInput.addEventListener('change', () => this.handleImageSelect());
+    el.clearImagesBtn.addEventListener('click', () => this.clearImages());
+
+    // End-to-end encryption
+    el.encryptToggle.addEventListener('change', () => this.handleEncryptToggle());
+
+    // Repeat picker
+    el.repeatSelect.addEventListener('change', () => this.handleRepeatChange());
+
+    // Date or dead man's switch
+    el.deliveryModeSelect.addEventListener('change', () => this.handleDeliveryModeChange());
+
     // Date preset chips
     el.chips.forEach(chip => {
       chip.addEventListener('click', () => {
@@ -95,6 +191,79 @@ class FormHandler {
     });
   }
 
+  /**
+   * Tells a returning user about partial uploads left by a reload or lost connection
+   */
+  private notifyUnfinishedUploads(): void {
+    authService.onAuthStateChange(async (state) => {
+      if (!state.user || this.unfinishedUploadsChecked) return;
+      this.unfinishedUploadsChecked = true;
+
+      const fileNames = await videoService.getUnfinishedUploads();
+      if (fileNames.length > 0) {
+        toast.info(`Unfinished upload: ${fileNames[0]}. Select the same file to resume.`);
+      }
+    });
+  }
+
+  /**
+   * Attachments are encrypted at upload time, so the mode can only change
+   * while nothing is attached
+   */
+  private handleEncryptToggle(): void {
+    const el = this.elements!;
+
+    if (this.uploadedVideo || this.uploadedImages.length > 0 || this.uploadControls || el.sendBtn.disabled) {
+      el.encryptToggle.checked = !el.encryptToggle.checked;
+      toast.info('Encryption cannot be changed once files are attached.');
+      return;
+    }
+
+    this.encryptionKey = null;
+    if (el.encryptToggle.checked) {
+      toast.info('You will get a private link after scheduling. Share it with every recipient yourself: without it, nobody can open this message.');
+    }
+  }
+
+  /**
+   * Key for the message being written, or undefined when encryption is off
+   */
+  private async getEncryptionKey(): Promise<CryptoKey | undefined> {
+    if (!this.elements!.encryptToggle.checked) return undefined;
+
+    if (!this.encryptionKey) {
+      this.encryptionKey = await generateMessageKey();
+    }
+    return this.encryptionKey;
+  }
+
+  /**
+   * Shows the years/months input for repeat modes that take a number
+   */
+  private handleRepeatChange(): void {
+    const el = this.elements!;
+    const label = getRepeatValueLabel(el.repeatSelect.value as RepeatMode);
+
+    el.repeatValueInput.style.display = label ? '' : 'none';
+    el.repeatValueLabel.style.display = label ? '' : 'none';
+    el.repeatValueLabel.textContent = label ?? '';
+    if (label && !el.repeatValueInput.value) {
+      el.repeatValueInput.value = label === 'years' ? '5' : '6';
+    }
+  }
+
+  /**
+   * Swaps the date and repeat fields for the check-in interval and grace
+   * period; a switch delivers once, whenever check-ins stop
+   */
+  private handleDeliveryModeChange(): void {
+    const el = this.elements!;
+    const isCheckin = (el.deliveryModeSelect.value as DeliveryMode) === 'checkin';
+
+    el.dateFields.style.display = isCheckin ? 'none' : '';
+    el.checkinFields.style.display = isCheckin ? '' : 'none';
+  }
+
   private setPresetDate(months: number, btn: HTMLElement): void {
     if (!this.elements) return;
 
@@ -123,7 +292,8 @@ class FormHandler {
       return;
     }
 
-    if (!authService.isPro()) {
+    // Free users can attach voice notes; videos wait for the Pro upgrade
+    if (!authService.isPro() && getMediaKind(file) === 'video') {
       toast.info('Video uploads are available for Pro users. Upgrade after filling out your message.');
       // Keep the file selected but don't upload yet
       el.fileNameDisplay.textContent = `Selected: ${file.name} (will upload after Pro upgrade)`;
@@ -131,59 +301,257 @@ class FormHandler {
       return;
     }
 
-    // Validate video
+    if (!(await this.validateMediaFile(file))) {
+      input.value = '';
+    }
+  }
+
+  /**
+   * Opens the camera recorder; the recording goes through the same
+   * validation and upload as a selected file
+   */
+  private openRecorder(): void {
+    if (!authService.isLoggedIn()) {
+      authModal.show(() => this.openRecorder());
+      return;
+    }
+
+    if (!authService.isPro()) {
+      toast.info('Video recording is available for Pro users.');
+      return;
+    }
+
+    import('./video-recorder').then(({ videoRecorder }) => {
+      videoRecorder.show((file) => {
+        this.elements!.videoInput.value = '';
+        this.validateMediaFile(file);
+      });
+    });
+  }
+
+  /**
+   * Validates a selected or recorded video (or voice note) and starts its upload.
+   * Returns false if the file was rejected.
+   */
+  private async validateMediaFile(file: File): Promise<boolean> {
+    const el = this.elements!;
+
     const remainingStorage = authService.getRemainingStorage();
-    const validation = await validateVideo(file, remainingStorage);
+    const validation = await validateMedia(file, remainingStorage);
 
     if (!validation.valid) {
-      toast.error(validation.error || 'Invalid video');
-      input.value = '';
+      // Storage packs are Pro-only; free users just see the allowance error
+      if (validation.quotaExceeded && authService.isPro()) {
+        planModal.showStorageAddon(validation.error || 'Not enough storage remaining');
+      } else {
+        toast.error(validation.error || 'Invalid video');
+      }
       el.fileNameDisplay.style.display = 'none';
-      return;
+      return false;
     }
 
-    // Show uploading state
-    el.fileNameDisplay.textContent = 'Uploading video...';
+    await this.startUpload(file);
+    return true;
+  }
+
+  /**
+   * Runs the resumable upload with progress bar and pause/resume.
+   * On failure the file is kept so Retry continues from the last chunk.
+   */
+  private async startUpload(file: File): Promise<void> {
+    const el = this.elements!;
+
+    this.failedUploadFile = null;
+    this.uploadPaused = false;
+    el.fileNameDisplay.textContent = `Uploading: ${file.name}`;
     el.fileNameDisplay.style.display = 'block';
+    el.uploadPauseBtn.textContent = 'Pause';
+    el.uploadPauseBtn.style.display = '';
+    el.uploadRetryBtn.style.display = 'none';
+    el.uploadProgress.style.display = 'block';
+    this.setUploadProgress(0);
     el.sendBtn.disabled = true;
 
-    // Upload video
-    const result = await videoService.uploadVideo(file);
+    const result = await videoService.uploadVideo(file, 0, {
+      encryptionKey: await this.getEncryptionKey(),
+      onProgress: (progress) => this.setUploadProgress(progress.percent),
+      onStart: (controls, resumed) => {
+        this.uploadControls = controls;
+        if (resumed) {
+          toast.info('Resuming your previous upload');
+        }
+      }
+    });
+
+    this.uploadControls = null;
+    el.sendBtn.disabled = false;
 
     if (!result.success) {
+      if (result.quotaExceeded) {
+        if (authService.isPro()) {
+          planModal.showStorageAddon(result.error || 'Not enough storage remaining');
+        } else {
+          toast.error(result.error || 'Not enough storage remaining');
+        }
+        el.videoInput.value = '';
+        el.fileNameDisplay.style.display = 'none';
+        el.uploadProgress.style.display = 'none';
+        return;
+      }
+
       toast.error(result.error || 'Upload failed');
-      input.value = '';
-      el.fileNameDisplay.style.display = 'none';
-      el.sendBtn.disabled = false;
+      this.failedUploadFile = file;
+      el.fileNameDisplay.textContent = `Upload interrupted: ${file.name}`;
+      el.uploadPauseBtn.style.display = 'none';
+      el.uploadRetryBtn.style.display = '';
       return;
     }
 
     this.uploadedVideo = {
       path: result.path!,
       size: result.size!,
-      duration: result.duration!
+      duration: result.duration!,
+      kind: result.kind!
     };
 
+    el.uploadProgress.style.display = 'none';
     el.fileNameDisplay.textContent = `Uploaded: ${file.name} (${formatDuration(result.duration!)})`;
     el.fileNameDisplay.style.display = 'block';
+
+    toast.success(result.kind === 'audio' ? 'Voice note uploaded successfully' : 'Video uploaded successfully');
+  }
+
+  /**
+   * Uploads the selected photos (with thumbnails) and adds them to the gallery
+   */
+  private async handleImageSelect(): Promise<void> {
+    const el = this.elements!;
+    const files = Array.from(el.imageInput.files || []);
+    el.imageInput.value = '';
+
+    if (files.length === 0) return;
+
+    if (!authService.isLoggedIn()) {
+      toast.info('Sign in to add photos');
+      return;
+    }
+
+    if (!authService.isPro()) {
+      toast.info('Photo attachments are available for Pro users.');
+      return;
+    }
+
+    el.sendBtn.disabled = true;
+    el.clearImagesBtn.disabled = true;
+    el.clearImagesBtn.style.display = '';
+    el.clearImagesBtn.textContent = `Uploading 0/${files.length}...`;
+
+    const result = await imageService.uploadImages(files, this.uploadedImages.length, 0, (uploaded, total) => {
+      el.clearImagesBtn.textContent = `Uploading ${uploaded}/${total}...`;
+    }, await this.getEncryptionKey());
+
     el.sendBtn.disabled = false;
+    el.clearImagesBtn.disabled = false;
 
-    toast.success('Video uploaded successfully');
+    if (!result.success) {
+      if (result.quotaExceeded) {
+        planModal.showStorageAddon(result.error || 'Not enough storage remaining');
+      } else {
+        toast.error(result.error || 'Photo upload failed');
+      }
+    } else {
+      this.uploadedImages.push(...result.images!);
+      toast.success(result.images!.length === 1 ? 'Photo uploaded' : `${result.images!.length} photos uploaded`);
+    }
+
+    this.renderImageGallery();
+  }
+
+  private renderImageGallery(): void {
+    const el = this.elements!;
+
+    el.imageGallery.innerHTML = '';
+    this.uploadedImages.forEach(image => {
+      const img = document.createElement('img');
+      img.src = image.previewUrl;
+      img.alt = 'Attached photo';
+      el.imageGallery.appendChild(img);
+    });
+
+    const count = this.uploadedImages.length;
+    el.imageGallery.style.display = count > 0 ? '' : 'none';
+    el.clearImagesBtn.style.display = count > 0 ? '' : 'none';
+    el.clearImagesBtn.textContent = count === 1 ? 'Remove photo' : `Remove ${count} photos`;
+  }
+
+  /**
+   * Deletes the uploaded photos; nothing references them before the message is sent
+   */
+  private async clearImages(): Promise<void> {
+    const images = this.uploadedImages;
+    this.uploadedImages = [];
+    this.renderImageGallery();
+    await imageService.discardUploads(images);
+  }
+
+  private setUploadProgress(percent: number): void {
+    const el = this.elements!;
+    el.uploadProgressBar.style.width = `${percent}%`;
+    el.uploadProgressText.textContent = this.uploadPaused ? `Paused at ${percent}%` : `${percent}%`;
+  }
+
+  private toggleUploadPause(): void {
+    const el = this.elements!;
+    if (!this.uploadControls) return;
+
+    this.uploadPaused = !this.uploadPaused;
+
+    if (this.uploadPaused) {
+      this.uploadControls.pause();
+      el.uploadPauseBtn.textContent = 'Resume';
+      el.uploadProgressText.textContent = `Paused at ${el.uploadProgressBar.style.width}`;
+    } else {
+      this.uploadControls.resume();
+      el.uploadPauseBtn.textContent = 'Pause';
+      el.uploadProgressText.textContent = el.uploadProgressBar.style.width;
+    }
   }
 
   private async handleSubmit(): Promise<void> {
     const el = this.elements!;
 
     // Reset validation styles
-    [el.messageInput, el.dateInput, el.emailInput].forEach(input => {
+    [
+      el.messageInput, el.dateInput, el.emailInput, el.passphraseInput, el.passphraseHintInput,
+      el.repeatValueInput, el.checkinIntervalInput, el.checkinGraceInput, el.emailSubjectInput, el.emailSignOffInput
+    ].forEach(input => {
       input.style.borderColor = 'black';
     });
 
+    // A switch has no date; its first deadline stands in for it
+    const isCheckin = (el.deliveryModeSelect.value as DeliveryMode) === 'checkin';
+    const checkin = isCheckin
+      ? { intervalDays: Number(el.checkinIntervalInput.value), graceDays: Number(el.checkinGraceInput.value) }
+      : null;
+
+    if (checkin) {
+      const checkinError = validateCheckin(checkin.intervalDays, checkin.graceDays);
+      if (checkinError) {
+        el.checkinIntervalInput.style.borderColor = 'red';
+        el.checkinGraceInput.style.borderColor = 'red';
+        toast.error(checkinError);
+        return;
+      }
+    }
+
+    const deliverAt = checkin ? getCheckinDeadline(checkin).toISOString() : el.dateInput.value;
+
     // Validate form
+    const deliveryEmails = parseEmailList(el.emailInput.value);
     const validation = validateForm(
       el.messageInput.value,
-      el.dateInput.value,
-      el.emailInput.value
+      deliverAt,
+      deliveryEmails
     );
 
     if (!validation.valid) {
@@ -202,6 +570,36 @@ class FormHandler {
       return;
     }
 
+    const passphraseError = validatePassphrase(el.passphraseInput.value, el.passphraseHintInput.value);
+    if (passphraseError) {
+      el.passphraseInput.style.borderColor = 'red';
+      toast.error(passphraseError);
+      return;
+    }
+
+    const wordingError = validateEmailWording(el.emailSubjectInput.value, el.emailSignOffInput.value);
+    if (wordingError) {
+      el.emailSubjectInput.style.borderColor = 'red';
+      el.emailSignOffInput.style.borderColor = 'red';
+      toast.error(wordingError);
+      return;
+    }
+
+    const repeatMode = isCheckin ? 'once' : el.repeatSelect.value as RepeatMode;
+    const repeatValue = Number(el.repeatValueInput.value);
+    const recurrenceError = validateRecurrence(repeatMode, repeatValue);
+    if (recurrenceError) {
+      el.repeatValueInput.style.borderColor = 'red';
+      toast.error(recurrenceError);
+      return;
+    }
+
+    const encryptionError = validateEncryptedDelivery(el.encryptToggle.checked, isCheckin, el.giftToggle.checked);
+    if (encryptionError) {
+      toast.error(encryptionError);
+      return;
+    }
+
     // Check if logged in
     if (!authService.isLoggedIn()) {
       // Show auth modal, then continue after login
@@ -212,24 +610,40 @@ class FormHandler {
       return;
     }
 
-    // Check if free user trying to attach video
-    const hasVideoSelected = el.videoInput.files && el.videoInput.files.length > 0;
-    const hasVideoUploaded = this.uploadedVideo !== null;
+    // Check if free user trying to attach video (voice notes are allowed)
+    const selectedFile = el.videoInput.files?.[0];
+    const hasVideoSelected = !!selectedFile && getMediaKind(selectedFile) === 'video';
+    const hasVideoUploaded = this.uploadedVideo?.kind === 'video';
 
     // Prepare message data
     const messageData = {
       messageText: el.messageInput.value.trim(),
-      scheduledDate: el.dateInput.value,
-      deliveryEmail: el.emailInput.value.trim(),
+      // datetime-local value is in browser time; convert to an absolute instant
+      deliverAt: new Date(deliverAt).toISOString(),
+      timezone: getBrowserTimeZone(),
+      deliveryEmails,
       videoStoragePath: this.uploadedVideo?.path,
       videoSizeBytes: this.uploadedVideo?.size,
-      videoDurationSeconds: this.uploadedVideo?.duration
+      videoDurationSeconds: this.uploadedVideo?.duration,
+      mediaKind: this.uploadedVideo?.kind,
+      images: this.uploadedImages.length > 0 ? [...this.uploadedImages] : undefined,
+      encryptionKey: await this.getEncryptionKey(),
+      passphrase: el.passphraseInput.value.trim() || undefined,
+      passphraseHint: el.passphraseHintInput.value.trim() || undefined,
+      recurrence: toRecurrence(repeatMode, repeatValue),
+      checkin,
+      gift: el.giftToggle.checked,
+      emailSubject: el.emailSubjectInput.value,
+      emailSignOff: el.emailSignOffInput.value,
+      emailLocale: el.emailLocaleSelect.value as EmailLocale
     };
 
     // Show plan modal
     planModal.show({
       messageData,
       hasVideo: hasVideoSelected || hasVideoUploaded,
+      hasAudio: this.uploadedVideo?.kind === 'audio',
+      imageCount: this.uploadedImages.length,
       onSuccess: () => this.resetForm()
     });
   }
@@ -240,8 +654,18 @@ class FormHandler {
     el.form.reset();
     el.charCount.textContent = '0';
     el.fileNameDisplay.style.display = 'none';
+    el.uploadProgress.style.display = 'none';
     el.chips.forEach(c => c.classList.remove('active'));
+    el.repeatValueInput.value = '';
+    this.handleRepeatChange();
+    this.handleDeliveryModeChange();
     this.uploadedVideo = null;
+    this.failedUploadFile = null;
+    this.encryptionKey = null;
+    // The message references the photos now; only the previews go
+    this.uploadedImages.forEach(image => URL.revokeObjectURL(image.previewUrl));
+    this.uploadedImages = [];
+    this.renderImageGallery();
 
     // Re-prefill email if logged in
     this.prefillEmailIfLoggedIn();
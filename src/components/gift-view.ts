@@ -0,0 +1,176 @@
+import { authService } from '../services/auth.service';
+import { messageService } from '../services/message.service';
+
+class GiftView {
+  private overlay: HTMLElement | null = null;
+  private token: string | null = null;
+  private claiming = false;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Claims the gift behind token for the signed-in user, asking them to sign
+   * in (or sign up) first. Claiming needs an account: the gift is kept in it.
+   */
+  show(token: string): void {
+    this.hide();
+
+    this.token = token;
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'gift-view-overlay';
+    document.body.appendChild(this.overlay);
+    this.renderShell('#FFFDF7', '<p style="padding: 25px; margin: 0;">Loading your gift...</p>');
+
+    // Fires immediately and again once the session is restored or the user signs in
+    this.unsubscribe = authService.onAuthStateChange((state) => {
+      if (state.user) {
+        this.claim();
+      } else if (!this.claiming) {
+        this.renderSignIn();
+      }
+    });
+  }
+
+  /**
+   * Removes overlay from DOM and stops listening for sign-in
+   */
+  hide(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.claiming = false;
+
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = null;
+    }
+  }
+
+  private async claim(): Promise<void> {
+    if (!this.token || this.claiming) return;
+    this.claiming = true;
+
+    this.renderShell('#FFFDF7', '<p style="padding: 25px; margin: 0;">Claiming your gift...</p>');
+
+    const result = await messageService.claimGift(this.token);
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (!result.success) {
+      this.renderError(result.error || 'Gift not found');
+      return;
+    }
+
+    this.renderClaimed();
+  }
+
+  /**
+   * Writes overlay HTML with shared styles, background color, and card body.
+   * Stays below .modal-overlay so the sign-in modal opens on top.
+   */
+  private renderShell(bgColor: string, cardHtml: string): void {
+    if (!this.overlay) return;
+
+    this.overlay.style.background = bgColor;
+    this.overlay.innerHTML = `
+      <style>
+        .gift-view-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 998;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 20px;
+          overflow-y: auto;
+        }
+        .gift-home-btn {
+          position: absolute;
+          top: 20px;
+          left: 20px;
+          background: white;
+          border: 2px solid black;
+          border-radius: 50px;
+          padding: 10px 20px;
+          font-weight: 700;
+          text-decoration: none;
+          color: black;
+        }
+        .gift-card {
+          background: white;
+          border: 4px solid black;
+          border-radius: 12px;
+          box-shadow: 10px 10px 0px 0px black;
+          width: 100%;
+          max-width: 600px;
+          margin-top: 60px;
+          overflow: hidden;
+        }
+        .gift-header {
+          padding: 25px;
+          border-bottom: 3px solid black;
+        }
+        .gift-body {
+          padding: 25px;
+        }
+      </style>
+
+      <a class="gift-home-btn" href="/">FTRMSG</a>
+
+      <div class="gift-card">${cardHtml}</div>
+    `;
+  }
+
+  private renderSignIn(): void {
+    this.renderShell('#BBF7D0', `
+      <div class="gift-header" style="background: var(--pastel-green);">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#127873; Someone Sent You a Time Capsule</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          Sign in or create a free account to claim it. It will stay in your dashboard.
+        </p>
+      </div>
+      <div class="gift-body">
+        <button class="btn" id="giftSignInBtn">Sign In to Claim</button>
+      </div>
+    `);
+
+    this.overlay?.querySelector('#giftSignInBtn')?.addEventListener('click', () => {
+      import('./auth-modal').then(({ authModal }) => {
+        authModal.show();
+      });
+    });
+  }
+
+  private renderClaimed(): void {
+    this.renderShell('#BBF7D0', `
+      <div class="gift-header" style="background: var(--pastel-green);">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#127873; Gift Claimed</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          This time capsule is yours. Once it has unlocked, you will find it under "Gifts for You" in your dashboard.
+        </p>
+      </div>
+      <div class="gift-body">
+        <a class="btn" href="/" style="display: inline-block; text-decoration: none;">Go to Dashboard</a>
+      </div>
+    `);
+  }
+
+  /**
+   * Renders error card for unknown, already claimed or own gifts
+   */
+  private renderError(error: string): void {
+    this.renderShell('#FECDD3', `
+      <div class="gift-header" style="background: #FEE2E2;">
+        <h2 style="margin: 0; font-size: 1.5rem;">Cannot Claim Gift</h2>
+        <p style="margin: 5px 0 0 0; color: #555;" id="giftError"></p>
+      </div>
+    `);
+
+    const errorEl = this.overlay?.querySelector('#giftError');
+    if (errorEl) errorEl.textContent = error;
+  }
+}
+
+export const giftView = new GiftView();
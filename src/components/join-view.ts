@@ -0,0 +1,176 @@
+import { authService } from '../services/auth.service';
+import { capsuleService } from '../services/capsule.service';
+
+class JoinView {
+  private overlay: HTMLElement | null = null;
+  private token: string | null = null;
+  private joining = false;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Accepts the capsule invitation behind token for the signed-in user,
+   * asking them to sign in (or sign up) with the invited email first.
+   */
+  show(token: string): void {
+    this.hide();
+
+    this.token = token;
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'join-view-overlay';
+    document.body.appendChild(this.overlay);
+    this.renderShell('#FFFDF7', '<p style="padding: 25px; margin: 0;">Loading your invitation...</p>');
+
+    // Fires immediately and again once the session is restored or the user signs in
+    this.unsubscribe = authService.onAuthStateChange((state) => {
+      if (state.user) {
+        this.join();
+      } else if (!this.joining) {
+        this.renderSignIn();
+      }
+    });
+  }
+
+  /**
+   * Removes overlay from DOM and stops listening for sign-in
+   */
+  hide(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.joining = false;
+
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = null;
+    }
+  }
+
+  private async join(): Promise<void> {
+    if (!this.token || this.joining) return;
+    this.joining = true;
+
+    this.renderShell('#FFFDF7', '<p style="padding: 25px; margin: 0;">Joining the capsule...</p>');
+
+    const result = await capsuleService.acceptInvitation(this.token);
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (!result.success) {
+      this.renderError(result.error || 'Invitation not found');
+      return;
+    }
+
+    this.renderJoined();
+  }
+
+  /**
+   * Writes overlay HTML with shared styles, background color, and card body.
+   * Stays below .modal-overlay so the sign-in modal opens on top.
+   */
+  private renderShell(bgColor: string, cardHtml: string): void {
+    if (!this.overlay) return;
+
+    this.overlay.style.background = bgColor;
+    this.overlay.innerHTML = `
+      <style>
+        .join-view-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 998;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 20px;
+          overflow-y: auto;
+        }
+        .join-home-btn {
+          position: absolute;
+          top: 20px;
+          left: 20px;
+          background: white;
+          border: 2px solid black;
+          border-radius: 50px;
+          padding: 10px 20px;
+          font-weight: 700;
+          text-decoration: none;
+          color: black;
+        }
+        .join-card {
+          background: white;
+          border: 4px solid black;
+          border-radius: 12px;
+          box-shadow: 10px 10px 0px 0px black;
+          width: 100%;
+          max-width: 600px;
+          margin-top: 60px;
+          overflow: hidden;
+        }
+        .join-header {
+          padding: 25px;
+          border-bottom: 3px solid black;
+        }
+        .join-body {
+          padding: 25px;
+        }
+      </style>
+
+      <a class="join-home-btn" href="/">FTRMSG</a>
+
+      <div class="join-card">${cardHtml}</div>
+    `;
+  }
+
+  private renderSignIn(): void {
+    this.renderShell('#BBF7D0', `
+      <div class="join-header" style="background: var(--pastel-green);">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#128101; You're Invited to a Shared Capsule</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          Sign in or create a free account with the email the invitation was sent to, then add your own note or video.
+        </p>
+      </div>
+      <div class="join-body">
+        <button class="btn" id="joinSignInBtn">Sign In to Join</button>
+      </div>
+    `);
+
+    this.overlay?.querySelector('#joinSignInBtn')?.addEventListener('click', () => {
+      import('./auth-modal').then(({ authModal }) => {
+        authModal.show();
+      });
+    });
+  }
+
+  private renderJoined(): void {
+    this.renderShell('#BBF7D0', `
+      <div class="join-header" style="background: var(--pastel-green);">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#128101; You Joined the Capsule</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          You will find it under "Shared with You" in your dashboard. Add your entry there before it locks.
+        </p>
+      </div>
+      <div class="join-body">
+        <a class="btn" href="/" style="display: inline-block; text-decoration: none;">Go to Dashboard</a>
+      </div>
+    `);
+  }
+
+  /**
+   * Renders error card for unknown, withdrawn or mismatched invitations
+   */
+  private renderError(error: string): void {
+    this.renderShell('#FECDD3', `
+      <div class="join-header" style="background: #FEE2E2;">
+        <h2 style="margin: 0; font-size: 1.5rem;">Cannot Join Capsule</h2>
+        <p style="margin: 5px 0 0 0; color: #555;" id="joinError"></p>
+      </div>
+    `);
+
+    const errorEl = this.overlay?.querySelector('#joinError');
+    if (errorEl) errorEl.textContent = error;
+  }
+}
+
+export const joinView = new JoinView();
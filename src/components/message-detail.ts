@@ -1,9 +1,42 @@
-import { messageService } from '../services/message.service';
-import { videoService } from '../services/video.service';
+import { messageService, UpdateMessageData } from '../services/message.service';
+import { videoService, formatDuration } from '../services/video.service';
+import { imageService } from '../services/image.service';
+import { capsuleService } from '../services/capsule.service';
+import { authService } from '../services/auth.service';
 import { toast } from './toast';
-import { calculateCountdown, formatDate } from '../utils/countdown';
-import { isMessageUnlocked } from '../utils/message-status';
-import type { Message } from '../types/database';
+import { getCapsuleEntryStyles, renderCapsuleEntries } from './capsule-entry-list';
+import { calculateCountdown, formatDate, formatDateTime } from '../utils/countdown';
+import { isMessageUnlocked, isRecurringMessage } from '../utils/message-status';
+import { isCheckinMessage, getSwitchState, getCheckinDeadline, describeCheckin, CheckinSchedule } from '../utils/checkin';
+import { renderEmailLocaleOptions, EmailLocale } from '../utils/email-locale';
+import {
+  parseEmailList,
+  validatePassphrase,
+  validateEmailWording,
+  validateRecurrence,
+  validateCheckin,
+  toDateTimeLocalValue,
+  getBrowserTimeZone
+} from '../utils/validation';
+import {
+  toRecurrence,
+  getRepeatMode,
+  getRepeatValueLabel,
+  describeRecurrence,
+  describeOccurrence,
+  RepeatMode
+} from '../utils/recurrence';
+import {
+  importMessageKey,
+  parseKeyInput,
+  buildPrivateLink,
+  decryptText,
+  decryptFileFromUrl,
+  openEncryptedFile,
+  saveMessageKey,
+  loadMessageKey
+} from '../utils/e2e-crypto';
+import type { Message, MessageImage } from '../types/database';
 
 class MessageDetailModal {
   private overlay: HTMLElement | null = null;
@@ -12,6 +45,15 @@ class MessageDetailModal {
   // Persists across hide/show calls; cleared only on app reload
   private signedUrl: string | null = null;
   private urlExpiresAt: Date | null = null;
+  // Photos of the message being edited
+  private editImages: MessageImage[] = [];
+  // Key of an end-to-end encrypted message, from this browser or its private link
+  private messageKey: CryptoKey | null = null;
+  private messageKeyString: string | null = null;
+  // Decrypted attachments shown in the unlocked view
+  private objectUrls: string[] = [];
+  // Passphrase of the current message was entered correctly
+  private passphraseVerified = false;
 
   /**
    * Displays message detail modal (locked or unlocked view based on message state).
@@ -20,6 +62,11 @@ class MessageDetailModal {
   show(message: Message): void {
     this.hide();
 
+    if (message.id !== this.message?.id) {
+      this.messageKey = null;
+      this.messageKeyString = null;
+      this.passphraseVerified = false;
+    }
     this.message = message;
     this.render();
 
@@ -39,6 +86,66 @@ class MessageDetailModal {
       this.overlay = null;
     }
 
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls = [];
+  }
+
+  /**
+   * Loads the key saved when this browser created the encrypted message
+   */
+  private async loadStoredKey(): Promise<void> {
+    if (!this.message) return;
+
+    const keyString = loadMessageKey(this.message.id);
+    const key = keyString ? await importMessageKey(keyString) : null;
+    if (key && keyString) {
+      this.messageKey = key;
+      this.messageKeyString = keyString;
+    }
+  }
+
+  /**
+   * Asks for the private link of an encrypted message whose key is not in
+   * this browser. Returns true once a key that decrypts the message is set.
+   */
+  private async promptForKey(): Promise<boolean> {
+    if (!this.message) return false;
+
+    const input = prompt('This message is end-to-end encrypted. Paste its private link to open it here:');
+    if (!input) return false;
+
+    const keyString = parseKeyInput(input);
+    const key = keyString ? await importMessageKey(keyString) : null;
+    const valid = key ? await decryptText(key, this.message.message_text).then(() => true, () => false) : false;
+
+    if (!key || !keyString || !valid) {
+      toast.error('That link does not open this message.');
+      return false;
+    }
+
+    saveMessageKey(this.message.id, keyString);
+    this.messageKey = key;
+    this.messageKeyString = keyString;
+    return true;
+  }
+
+  /**
+   * Copies the private link, or asks for it when this browser has no key
+   */
+  private async handlePrivateLink(): Promise<void> {
+    if (!this.message) return;
+
+    if (!this.messageKeyString) {
+      if (await this.promptForKey()) this.show(this.message);
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(buildPrivateLink(this.message.delivery_token, this.messageKeyString));
+      toast.success('Private link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
   }
 
   /**
@@ -70,10 +177,7 @@ class MessageDetailModal {
   private updateCountdown(): void {
     if (!this.message || !this.overlay) return;
 
-    const scheduledDate = new Date(this.message.scheduled_date);
-    scheduledDate.setUTCHours(8, 0, 0, 0);
-
-    const countdown = calculateCountdown(scheduledDate);
+    const countdown = calculateCountdown(new Date(this.message.deliver_at));
 
     const daysEl = this.overlay.querySelector('#countdown-days');
     const hoursEl = this.overlay.querySelector('#countdown-hours');
@@ -92,7 +196,10 @@ class MessageDetailModal {
   private async handleDelete(): Promise<void> {
     if (!this.message) return;
 
-    const confirmed = confirm('Are you sure you want to delete this message? This action cannot be undone.');
+    // A series past its first delivery is one row; deleting it also removes what was already sent
+    const confirmed = confirm(this.message.occurrence > 1
+      ? 'Are you sure you want to delete this series? Deliveries already sent will no longer open. This action cannot be undone.'
+      : 'Are you sure you want to delete this message? This action cannot be undone.');
     if (!confirmed) return;
 
     const result = await messageService.cancelMessage(this.message.id);
@@ -109,13 +216,259 @@ class MessageDetailModal {
   }
 
   /**
-   * Returns human-readable duration between created_at and scheduled_date
+   * Copies the claim link of an unclaimed gift
+   */
+  private async handleGiftLink(): Promise<void> {
+    if (!this.message?.gift_token) return;
+
+    const link = `${window.location.origin}/gift/${this.message.gift_token}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Gift claim link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  }
+
+  /**
+   * Checks in (resets every armed switch of the user), then re-renders with
+   * the restarted deadline and refreshes dashboard
+   */
+  private async handleCheckIn(): Promise<void> {
+    if (!this.message) return;
+
+    const result = await messageService.checkIn();
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to check in');
+      return;
+    }
+
+    const now = new Date();
+    const schedule: CheckinSchedule = {
+      intervalDays: this.message.checkin_interval_days ?? 0,
+      graceDays: this.message.checkin_grace_days ?? 0,
+    };
+    const due = getCheckinDeadline({ intervalDays: schedule.intervalDays, graceDays: 0 }, now);
+
+    toast.success('Checked in. Your message stays locked.');
+    this.show({
+      ...this.message,
+      last_checkin_at: now.toISOString(),
+      checkin_due_at: due.toISOString(),
+      checkin_reminders_sent: 0,
+      deliver_at: getCheckinDeadline(schedule, now).toISOString(),
+    });
+    import('./messages-dashboard').then(({ messagesDashboard }) => {
+      messagesDashboard.refresh();
+    });
+  }
+
+  /**
+   * Stops countdown and swaps the locked view for the edit form
+   */
+  private async startEdit(): Promise<void> {
+    if (!this.message) return;
+
+    if (this.message.encrypted && !this.messageKey && !(await this.promptForKey())) return;
+
+    let messageText = this.message.message_text;
+    if (this.message.encrypted) {
+      try {
+        messageText = await decryptText(this.messageKey!, messageText);
+      } catch {
+        toast.error('This message could not be decrypted with the saved key.');
+        return;
+      }
+    }
+
+    const [recipients, images] = await Promise.all([
+      messageService.getRecipients(this.message.id),
+      imageService.getImages(this.message.id)
+    ]);
+    this.editImages = images;
+    const emails = recipients.length > 0
+      ? recipients.map((r) => r.email)
+      : [this.message.delivery_email];
+
+    this.stopCountdown();
+    this.overlay?.remove();
+    this.overlay = null;
+    this.renderEdit(emails, messageText);
+  }
+
+  /**
+   * Uploads new photos and replacement video (if chosen), calls updateMessage, then
+   * re-renders the locked view with the saved message and refreshes dashboard
+   */
+  private async handleSave(): Promise<void> {
+    if (!this.message || !this.overlay) return;
+
+    const messageInput = this.overlay.querySelector('#editMessageInput') as HTMLTextAreaElement;
+    const dateInput = this.overlay.querySelector('#editDateInput') as HTMLInputElement | null;
+    const emailInput = this.overlay.querySelector('#editEmailInput') as HTMLInputElement;
+    const videoInput = this.overlay.querySelector('#editVideoInput') as HTMLInputElement | null;
+    const removeVideoInput = this.overlay.querySelector('#editRemoveVideo') as HTMLInputElement | null;
+    const imageInput = this.overlay.querySelector('#editImageInput') as HTMLInputElement | null;
+    const removeImagesInput = this.overlay.querySelector('#editRemoveImages') as HTMLInputElement | null;
+    const passphraseInput = this.overlay.querySelector('#editPassphraseInput') as HTMLInputElement;
+    const passphraseHintInput = this.overlay.querySelector('#editPassphraseHintInput') as HTMLInputElement;
+    const removePassphraseInput = this.overlay.querySelector('#editRemovePassphrase') as HTMLInputElement | null;
+    const emailSubjectInput = this.overlay.querySelector('#editEmailSubjectInput') as HTMLInputElement;
+    const emailSignOffInput = this.overlay.querySelector('#editEmailSignOffInput') as HTMLInputElement;
+    const emailLocaleSelect = this.overlay.querySelector('#editEmailLocaleSelect') as HTMLSelectElement;
+    const repeatSelect = this.overlay.querySelector('#editRepeatSelect') as HTMLSelectElement | null;
+    const repeatValueInput = this.overlay.querySelector('#editRepeatValueInput') as HTMLInputElement | null;
+    const saveBtn = this.overlay.querySelector('#saveEditBtn') as HTMLButtonElement;
+
+    const removePassphrase = removePassphraseInput?.checked ?? false;
+    const passphraseError = validatePassphrase(
+      passphraseInput.value,
+      removePassphrase ? '' : passphraseHintInput.value,
+      this.message.passphrase_hash !== null && !removePassphrase
+    );
+    if (passphraseError) {
+      toast.error(passphraseError);
+      return;
+    }
+
+    const wordingError = validateEmailWording(emailSubjectInput.value, emailSignOffInput.value);
+    if (wordingError) {
+      toast.error(wordingError);
+      return;
+    }
+
+    let checkin: CheckinSchedule | undefined;
+    let deliverAt = dateInput?.value ? new Date(dateInput.value).toISOString() : '';
+
+    if (isCheckinMessage(this.message)) {
+      const intervalInput = this.overlay.querySelector('#editCheckinIntervalInput') as HTMLInputElement;
+      const graceInput = this.overlay.querySelector('#editCheckinGraceInput') as HTMLInputElement;
+      checkin = { intervalDays: Number(intervalInput.value), graceDays: Number(graceInput.value) };
+
+      const checkinError = validateCheckin(checkin.intervalDays, checkin.graceDays);
+      if (checkinError) {
+        toast.error(checkinError);
+        return;
+      }
+
+      // Passes the date check; the server recomputes it from the last check-in
+      deliverAt = getCheckinDeadline(checkin).toISOString();
+    }
+
+    const repeatMode = (repeatSelect?.value ?? 'once') as RepeatMode;
+    const repeatValue = Number(repeatValueInput?.value);
+    const recurrenceError = validateRecurrence(repeatMode, repeatValue, this.message.occurrence);
+    if (recurrenceError) {
+      toast.error(recurrenceError);
+      return;
+    }
+
+    const updateData: UpdateMessageData = {
+      messageText: messageInput.value,
+      deliverAt,
+      timezone: getBrowserTimeZone(),
+      deliveryEmails: parseEmailList(emailInput.value),
+      encryptionKey: this.messageKey ?? undefined,
+      passphrase: removePassphrase ? null : passphraseInput.value.trim() || undefined,
+      passphraseHint: removePassphrase ? undefined : passphraseHintInput.value,
+      recurrence: checkin ? undefined : toRecurrence(repeatMode, repeatValue),
+      checkin,
+      emailSubject: emailSubjectInput.value,
+      emailSignOff: emailSignOffInput.value,
+      emailLocale: emailLocaleSelect.value as EmailLocale
+    };
+
+    saveBtn.disabled = true;
+    saveBtn.textContent = 'Saving...';
+
+    const showUploadError = (error?: string, quotaExceeded?: boolean) => {
+      if (quotaExceeded && authService.isPro()) {
+        import('./plan-modal').then(({ planModal }) => {
+          planModal.showStorageAddon(error || 'Not enough storage remaining');
+        });
+      } else {
+        toast.error(error || 'Upload failed');
+      }
+      saveBtn.disabled = false;
+      saveBtn.textContent = 'Save Changes';
+    };
+
+    if (removeImagesInput?.checked) {
+      updateData.removeImageIds = this.editImages.map(image => image.id);
+    }
+
+    const imageFiles = Array.from(imageInput?.files || []);
+    if (imageFiles.length > 0) {
+      const removing = removeImagesInput?.checked ? this.editImages : [];
+      const imageUpload = await imageService.uploadImages(
+        imageFiles,
+        this.editImages.length - removing.length,
+        removing.reduce((sum, image) => sum + image.size_bytes, 0),
+        (uploaded, total) => {
+          saveBtn.textContent = `Uploading photos... ${uploaded}/${total}`;
+        },
+        updateData.encryptionKey
+      );
+
+      if (!imageUpload.success) {
+        showUploadError(imageUpload.error, imageUpload.quotaExceeded);
+        return;
+      }
+
+      updateData.newImages = imageUpload.images;
+    }
+
+    const file = videoInput?.files?.[0];
+    if (file) {
+      saveBtn.textContent = 'Uploading...';
+      const upload = await videoService.uploadVideo(file, this.message.video_size_bytes, {
+        encryptionKey: updateData.encryptionKey,
+        onProgress: (progress) => {
+          saveBtn.textContent = `Uploading... ${progress.percent}%`;
+        }
+      });
+
+      if (!upload.success) {
+        // Photos uploaded above are not referenced yet
+        await imageService.discardUploads(updateData.newImages || []);
+        showUploadError(upload.error, upload.quotaExceeded);
+        return;
+      }
+
+      updateData.videoStoragePath = upload.path;
+      updateData.videoSizeBytes = upload.size;
+      updateData.videoDurationSeconds = upload.duration;
+      updateData.mediaKind = upload.kind;
+    } else if (removeVideoInput?.checked) {
+      updateData.videoStoragePath = null;
+    }
+
+    const result = await messageService.updateMessage(this.message.id, updateData);
+
+    if (!result.success || !result.message) {
+      toast.error(result.error || 'Failed to update message');
+      saveBtn.disabled = false;
+      saveBtn.textContent = 'Save Changes';
+      return;
+    }
+
+    (updateData.newImages || []).forEach(image => URL.revokeObjectURL(image.previewUrl));
+    toast.success('Message updated');
+    this.show(result.message);
+    import('./messages-dashboard').then(({ messagesDashboard }) => {
+      messagesDashboard.refresh();
+    });
+  }
+
+  /**
+   * Returns human-readable duration between created_at and deliver_at
    */
   private getWaitTime(): string {
     if (!this.message) return '';
 
     const created = new Date(this.message.created_at);
-    const scheduled = new Date(this.message.scheduled_date);
+    const scheduled = new Date(this.message.deliver_at);
     const diffDays = Math.ceil((scheduled.getTime() - created.getTime()) / (1000 * 60 * 60 * 24));
 
     if (diffDays === 0) return 'Same day';
@@ -183,6 +536,10 @@ class MessageDetailModal {
   private async render(): Promise<void> {
     if (!this.message) return;
 
+    if (this.message.encrypted && !this.messageKey) {
+      await this.loadStoredKey();
+    }
+
     if (isMessageUnlocked(this.message)) {
       await this.renderUnlocked();
     } else {
@@ -207,9 +564,27 @@ class MessageDetailModal {
     if (!this.message) return;
 
     const createdDate = formatDate(new Date(this.message.created_at));
-    const unlocksDate = formatDate(new Date(this.message.scheduled_date));
+    const unlocksDate = formatDateTime(new Date(this.message.deliver_at), this.message.timezone);
     const waitTime = this.getWaitTime();
     const isPending = this.message.status === 'pending';
+    const isEncrypted = this.message.encrypted;
+    const repeats = describeRecurrence(this.message);
+    const switchState = getSwitchState(this.message);
+    const checkinText = describeCheckin(this.message);
+    const nextCheckin = this.message.checkin_due_at
+      ? formatDateTime(new Date(this.message.checkin_due_at), this.message.timezone)
+      : null;
+    // The sender can hand the claim link over before delivery (e.g. in a card)
+    const canShareGift = this.message.gift_token !== null && this.message.gift_recipient_id === null;
+    // Others can contribute until the lock date; not for encrypted or check-in messages
+    const canShare = isPending && !isEncrypted && !switchState;
+    const countdownLabel = switchState === 'triggered'
+      ? 'Check-ins stopped, delivering now'
+      : switchState
+        ? 'Delivers if you don\'t check in'
+        : isRecurringMessage(this.message)
+          ? 'Next Delivery In'
+          : 'Unlocks In';
 
     this.overlay = this.createOverlayBase('#BAE6FD');
     this.overlay.innerHTML = `
@@ -330,6 +705,21 @@ class MessageDetailModal {
         .delete-btn:hover {
           color: #dc2626;
         }
+        .edit-btn {
+          background: none;
+          border: none;
+          color: #666;
+          font-family: inherit;
+          font-size: 0.9rem;
+          cursor: pointer;
+          display: inline-flex;
+          align-items: center;
+          gap: 5px;
+          margin-right: 20px;
+        }
+        .edit-btn:hover {
+          color: black;
+        }
       </style>
 
       <button class="back-btn" id="backBtn">
@@ -346,7 +736,7 @@ class MessageDetailModal {
         </div>
 
         <div class="countdown-section">
-          <div class="countdown-label">Unlocks In</div>
+          <div class="countdown-label">${countdownLabel}</div>
           <div class="countdown-boxes">
             <div class="countdown-box pink">
               <span class="countdown-number" id="countdown-days">0</span>
@@ -377,16 +767,59 @@ class MessageDetailModal {
             <div class="meta-value">${waitTime}</div>
           </div>
           <div class="meta-item">
-            <div class="meta-label">Unlocks</div>
+            <div class="meta-label">${switchState ? 'Delivers If Silent' : 'Unlocks'}</div>
             <div class="meta-value">${unlocksDate}</div>
           </div>
+          ${checkinText ? `
+            <div class="meta-item">
+              <div class="meta-label">Check-ins</div>
+              <div class="meta-value">${checkinText}</div>
+            </div>
+          ` : ''}
+          ${nextCheckin && (switchState === 'armed' || switchState === 'overdue') ? `
+            <div class="meta-item">
+              <div class="meta-label">${switchState === 'overdue' ? 'Check-in Missed' : 'Next Check-in'}</div>
+              <div class="meta-value">${nextCheckin}</div>
+            </div>
+          ` : ''}
+          ${repeats ? `
+            <div class="meta-item">
+              <div class="meta-label">Repeats</div>
+              <div class="meta-value">${repeats}</div>
+            </div>
+          ` : ''}
         </div>
 
-        ${isPending ? `
+        ${isPending || isEncrypted || canShareGift ? `
           <div class="delete-section">
-            <button class="delete-btn" id="deleteBtn">
-              <span>&#128465;</span> Delete message
-            </button>
+            ${canShare ? `
+              <button class="edit-btn" id="contributorsBtn">
+                <span>&#128101;</span> Contributors
+              </button>
+            ` : ''}
+            ${canShareGift ? `
+              <button class="edit-btn" id="giftLinkBtn">
+                <span>&#127873;</span> Copy gift claim link
+              </button>
+            ` : ''}
+            ${isEncrypted ? `
+              <button class="edit-btn" id="privateLinkBtn">
+                <span>&#128279;</span> ${this.messageKeyString ? 'Copy private link' : 'Enter private link'}
+              </button>
+            ` : ''}
+            ${switchState === 'armed' || switchState === 'overdue' ? `
+              <button class="edit-btn" id="checkInBtn">
+                <span>&#128147;</span> Check in now
+              </button>
+            ` : ''}
+            ${isPending ? `
+              <button class="edit-btn" id="editBtn">
+                <span>&#9998;</span> Edit message
+              </button>
+              <button class="delete-btn" id="deleteBtn">
+                <span>&#128465;</span> Delete message
+              </button>
+            ` : ''}
           </div>
         ` : ''}
       </div>
@@ -396,23 +829,398 @@ class MessageDetailModal {
       this.hide();
     });
 
+    this.overlay.querySelector('#privateLinkBtn')?.addEventListener('click', () => {
+      this.handlePrivateLink();
+    });
+
+    this.overlay.querySelector('#checkInBtn')?.addEventListener('click', () => {
+      this.handleCheckIn();
+    });
+
+    this.overlay.querySelector('#giftLinkBtn')?.addEventListener('click', () => {
+      this.handleGiftLink();
+    });
+
+    this.overlay.querySelector('#contributorsBtn')?.addEventListener('click', () => {
+      const message = this.message!;
+      import('./capsule-panel').then(({ capsulePanel }) => {
+        capsulePanel.show({
+          id: message.id,
+          deliverAt: message.deliver_at,
+          timezone: message.timezone,
+          open: message.status === 'pending',
+        });
+      });
+    });
+
+    this.overlay.querySelector('#editBtn')?.addEventListener('click', () => {
+      this.startEdit();
+    });
+
     this.overlay.querySelector('#deleteBtn')?.addEventListener('click', () => {
       this.handleDelete();
     });
   }
 
   /**
-   * Generates unlocked message HTML with text, video player (if video exists), and download button
+   * Generates edit form HTML for a pending message (text, recipients, date, attachment)
+   */
+  private renderEdit(recipientEmails: string[], messageText: string): void {
+    if (!this.message) return;
+
+    const isPro = authService.isPro();
+    const hasVideo = this.message.video_storage_path !== null;
+    // Encrypted attachments are opaque to the server, so kind and length are unknown
+    const attachmentLabel = this.message.encrypted
+      ? 'encrypted attachment'
+      : this.message.media_kind === 'audio' ? 'voice note' : 'video';
+    // Free users can attach or replace voice notes only
+    const accept = isPro ? '.webm, .mp4, .mov, .m4a, .mp3, .weba' : '.m4a, .mp3, .weba';
+    const imageCount = this.editImages.length;
+    const repeat = getRepeatMode(this.message);
+    const isSeriesUnderway = this.message.occurrence > 1;
+    const isCheckin = isCheckinMessage(this.message);
+
+    this.overlay = this.createOverlayBase('#BAE6FD');
+    this.overlay.innerHTML = `
+      <style>
+        .message-detail-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 1000;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 20px;
+          overflow-y: auto;
+        }
+        ${this.getSharedStyles()}
+        .detail-header {
+          background: #FDE68A;
+        }
+        .edit-form {
+          padding: 25px;
+        }
+        .edit-form label {
+          display: block;
+          font-weight: 700;
+          margin-bottom: 5px;
+        }
+        .edit-form textarea,
+        .edit-form input[type="datetime-local"],
+        .edit-form input[type="text"],
+        .edit-form select,
+        .edit-form input[type="number"] {
+          width: 100%;
+          padding: 12px;
+          border: 2px solid black;
+          border-radius: 8px;
+          font-family: inherit;
+          font-size: 1rem;
+          margin-bottom: 20px;
+        }
+        .edit-form textarea {
+          min-height: 150px;
+          resize: vertical;
+        }
+        .edit-video {
+          background: #F5F5F5;
+          border: 2px solid black;
+          border-radius: 8px;
+          padding: 15px;
+          margin-bottom: 20px;
+          font-size: 0.9rem;
+        }
+        .edit-actions {
+          display: flex;
+          gap: 10px;
+        }
+      </style>
+
+      <button class="back-btn" id="backBtn">
+        <span>&larr;</span> Dashboard
+      </button>
+
+      <div class="detail-card">
+        <div class="detail-header">
+          <div>
+            <h2 style="margin: 0; font-size: 1.5rem;">Edit Message</h2>
+            <p style="margin: 5px 0 0 0; color: #555;">${isSeriesUnderway
+              ? 'Changes apply from the next delivery of this series.'
+              : 'Changes are allowed until the message unlocks.'}</p>
+          </div>
+        </div>
+
+        <form class="edit-form" id="editForm">
+          <label for="editMessageInput">Your Message</label>
+          <textarea id="editMessageInput" maxlength="4000"></textarea>
+
+          ${isCheckin ? `
+            <label for="editCheckinIntervalInput">Check In Every (days)</label>
+            <input type="number" id="editCheckinIntervalInput" min="1" max="365" step="1">
+
+            <label for="editCheckinGraceInput">Grace Period (days)</label>
+            <input type="number" id="editCheckinGraceInput" min="1" max="90" step="1">
+          ` : `
+            <label for="editDateInput">${isSeriesUnderway ? 'Next Delivery' : 'Delivery Date'} &amp; Time (${getBrowserTimeZone()})</label>
+            <input type="datetime-local" id="editDateInput">
+
+            <label for="editRepeatSelect">Repeat</label>
+            <select id="editRepeatSelect">
+              <option value="once">${isSeriesUnderway ? 'Stop after the next delivery' : 'Deliver once'}</option>
+              <option value="yearly">Every year (birthdays)</option>
+              <option value="anniversary">Every year, for a number of years</option>
+              <option value="months">Every few months</option>
+            </select>
+            <label for="editRepeatValueInput" id="editRepeatValueLabel"></label>
+            <input type="number" id="editRepeatValueInput" min="1" step="1">
+          `}
+
+          <label for="editEmailInput">Delivery Emails (comma separated)</label>
+          <input type="text" id="editEmailInput">
+
+          <label for="editEmailSubjectInput">Email Subject</label>
+          <input type="text" id="editEmailSubjectInput" maxlength="150" placeholder="Default subject">
+
+          <label for="editEmailSignOffInput">Sign-off</label>
+          <input type="text" id="editEmailSignOffInput" maxlength="200" placeholder="Optional">
+
+          <label for="editEmailLocaleSelect">Email Language</label>
+          <select id="editEmailLocaleSelect">${renderEmailLocaleOptions(this.message.email_locale)}</select>
+
+          <div class="edit-video">
+            <label for="editVideoInput">${isPro ? 'Video or Voice Note' : 'Voice Note'} (Max 3 min)</label>
+            ${hasVideo ? `
+              <p style="margin: 0 0 10px 0;">
+                Current ${attachmentLabel}${this.message.encrypted ? '' : `: ${formatDuration(this.message.video_duration_seconds)}`}
+              </p>
+              <label style="font-weight: 400; margin-bottom: 10px;">
+                <input type="checkbox" id="editRemoveVideo"> Remove ${attachmentLabel}
+              </label>
+            ` : ''}
+            <input type="file" id="editVideoInput" accept="${accept}">
+          </div>
+
+          ${isPro || imageCount > 0 ? `
+            <div class="edit-video">
+              <label for="editImageInput">Photos (up to 10)</label>
+              ${imageCount > 0 ? `
+                <p style="margin: 0 0 10px 0;">
+                  ${imageCount} ${imageCount === 1 ? 'photo' : 'photos'} attached
+                </p>
+                <label style="font-weight: 400; margin-bottom: 10px;">
+                  <input type="checkbox" id="editRemoveImages"> Remove all photos
+                </label>
+              ` : ''}
+              ${isPro ? `
+                <input type="file" id="editImageInput" accept=".jpg, .jpeg, .png, .webp, .gif" multiple>
+              ` : ''}
+            </div>
+          ` : ''}
+
+          <div class="edit-video">
+            <label for="editPassphraseInput">Passphrase</label>
+            ${this.message.passphrase_hash ? `
+              <p style="margin: 0 0 10px 0;">A passphrase is set. Enter a new one to change it.</p>
+              <label style="font-weight: 400; margin-bottom: 10px;">
+                <input type="checkbox" id="editRemovePassphrase"> Remove passphrase
+              </label>
+            ` : ''}
+            <input type="text" id="editPassphraseInput" autocomplete="off" maxlength="200"
+              placeholder="${this.message.passphrase_hash ? 'New passphrase' : 'Optional'}">
+            <label for="editPassphraseHintInput">Hint</label>
+            <input type="text" id="editPassphraseHintInput" autocomplete="off" maxlength="200" placeholder="Optional">
+          </div>
+
+          <div class="edit-actions">
+            <button type="submit" class="btn" id="saveEditBtn">Save Changes</button>
+            <button type="button" class="btn btn-outline" id="cancelEditBtn">Cancel</button>
+          </div>
+        </form>
+      </div>
+    `;
+
+    // Populate values via properties so user content is never parsed as HTML
+    (this.overlay.querySelector('#editMessageInput') as HTMLTextAreaElement).value = messageText;
+    (this.overlay.querySelector('#editEmailInput') as HTMLInputElement).value = recipientEmails.join(', ');
+    (this.overlay.querySelector('#editPassphraseHintInput') as HTMLInputElement).value = this.message.passphrase_hint ?? '';
+    (this.overlay.querySelector('#editEmailSubjectInput') as HTMLInputElement).value = this.message.email_subject ?? '';
+    (this.overlay.querySelector('#editEmailSignOffInput') as HTMLInputElement).value = this.message.email_sign_off ?? '';
+
+    if (isCheckin) {
+      (this.overlay.querySelector('#editCheckinIntervalInput') as HTMLInputElement).value =
+        String(this.message.checkin_interval_days ?? '');
+      (this.overlay.querySelector('#editCheckinGraceInput') as HTMLInputElement).value =
+        String(this.message.checkin_grace_days ?? '');
+    } else {
+      (this.overlay.querySelector('#editDateInput') as HTMLInputElement).value =
+        toDateTimeLocalValue(new Date(this.message.deliver_at));
+
+      const repeatSelect = this.overlay.querySelector('#editRepeatSelect') as HTMLSelectElement;
+      const repeatValueInput = this.overlay.querySelector('#editRepeatValueInput') as HTMLInputElement;
+      const repeatValueLabel = this.overlay.querySelector('#editRepeatValueLabel') as HTMLElement;
+      const updateRepeatValue = () => {
+        const label = getRepeatValueLabel(repeatSelect.value as RepeatMode);
+        repeatValueInput.style.display = label ? '' : 'none';
+        repeatValueLabel.style.display = label ? '' : 'none';
+        repeatValueLabel.textContent = label === 'years' ? 'Number of Years' : 'Every How Many Months';
+      };
+      repeatSelect.value = repeat.mode;
+      repeatValueInput.value = repeat.value !== null ? String(repeat.value) : '';
+      updateRepeatValue();
+      repeatSelect.addEventListener('change', updateRepeatValue);
+    }
+
+    this.overlay.querySelector('#backBtn')?.addEventListener('click', () => {
+      this.hide();
+    });
+
+    this.overlay.querySelector('#cancelEditBtn')?.addEventListener('click', () => {
+      if (this.message) this.show(this.message);
+    });
+
+    this.overlay.querySelector('#editForm')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.handleSave();
+    });
+  }
+
+  /**
+   * Asks for the passphrase of an unlocked, passphrase-protected message.
+   * Guesses are checked (and rate-limited) by verify_message_passphrase.
+   */
+  private renderPassphrasePrompt(): void {
+    if (!this.message) return;
+
+    this.overlay = this.createOverlayBase('#FDE68A');
+    this.overlay.innerHTML = `
+      <style>
+        .message-detail-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 1000;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 20px;
+          overflow-y: auto;
+        }
+        ${this.getSharedStyles()}
+        .detail-header {
+          background: var(--pastel-green);
+        }
+        .passphrase-form {
+          padding: 25px;
+        }
+        .passphrase-form input {
+          width: 100%;
+          padding: 12px;
+          border: 2px solid black;
+          border-radius: 8px;
+          font-family: inherit;
+          font-size: 1rem;
+          margin-bottom: 15px;
+        }
+      </style>
+
+      <button class="back-btn" id="backBtn">
+        <span>&larr;</span> Dashboard
+      </button>
+
+      <div class="detail-card">
+        <div class="detail-header">
+          <div>
+            <h2 style="margin: 0; font-size: 1.5rem;">&#128273; Passphrase Required</h2>
+            <p style="margin: 5px 0 0 0; color: #555;">This message is unlocked. Enter its passphrase to open it.</p>
+          </div>
+        </div>
+
+        <form class="passphrase-form" id="passphraseForm">
+          <p id="passphraseHint" style="margin: 0 0 15px 0; white-space: pre-wrap;"></p>
+          <input type="text" id="passphraseInput" autocomplete="off" placeholder="Passphrase">
+          <p id="passphraseError" style="margin: 0 0 15px 0; color: #991B1B; display: none;"></p>
+          <button type="submit" class="btn" id="passphraseSubmitBtn">Open Message</button>
+        </form>
+      </div>
+    `;
+
+    // Hint is user content; set as text
+    const hintEl = this.overlay.querySelector('#passphraseHint') as HTMLElement;
+    if (this.message.passphrase_hint) {
+      hintEl.textContent = `Hint: ${this.message.passphrase_hint}`;
+    } else {
+      hintEl.style.display = 'none';
+    }
+
+    this.overlay.querySelector('#backBtn')?.addEventListener('click', () => {
+      this.hide();
+    });
+
+    this.overlay.querySelector('#passphraseForm')?.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      if (!this.message || !this.overlay) return;
+
+      const input = this.overlay.querySelector('#passphraseInput') as HTMLInputElement;
+      const errorEl = this.overlay.querySelector('#passphraseError') as HTMLElement;
+      const submitBtn = this.overlay.querySelector('#passphraseSubmitBtn') as HTMLButtonElement;
+      if (!input.value.trim()) return;
+
+      submitBtn.disabled = true;
+      const result = await messageService.verifyPassphrase(this.message.id, input.value);
+      submitBtn.disabled = false;
+
+      if (result.success) {
+        this.passphraseVerified = true;
+        this.show(this.message);
+        return;
+      }
+
+      errorEl.textContent = result.error || 'That passphrase is not right.';
+      errorEl.style.display = '';
+      input.select();
+    });
+  }
+
+  /**
+   * Generates unlocked message HTML with text, video or audio player (if attached),
+   * download button and photo gallery
    */
   private async renderUnlocked(): Promise<void> {
     if (!this.message) return;
 
+    if (this.message.passphrase_hash && !this.passphraseVerified) {
+      this.renderPassphrasePrompt();
+      return;
+    }
+
     const deliveredDate = this.message.delivered_at
       ? formatDate(new Date(this.message.delivered_at))
-      : formatDate(new Date(this.message.scheduled_date));
+      : formatDate(new Date(this.message.deliver_at));
+
+    const key = this.message.encrypted ? this.messageKey : null;
+    // Encrypted without a key: nothing can be shown until the private link is entered
+    const needsKey = this.message.encrypted && !key;
+
+    let messageText = this.message.message_text;
+    if (key) {
+      try {
+        messageText = await decryptText(key, messageText);
+      } catch {
+        messageText = 'This message could not be decrypted with the saved key.';
+      }
+    } else if (needsKey) {
+      messageText = 'This message is end-to-end encrypted. Enter its private link to read it on this device.';
+    }
 
+    let isAudio = this.message.media_kind === 'audio';
     let videoError = false;
-    if (this.message.video_storage_path) {
+    if (this.message.video_storage_path && !needsKey) {
       if (this.isUrlExpired()) {
         try {
           const url = await videoService.getSignedUrl(
@@ -432,6 +1240,43 @@ class MessageDetailModal {
       }
     }
 
+    let mediaUrl = this.signedUrl;
+    if (key && this.message.video_storage_path && !videoError) {
+      const decrypted = await decryptFileFromUrl(key, this.signedUrl!);
+      if (decrypted) {
+        this.objectUrls.push(decrypted.url);
+        mediaUrl = decrypted.url;
+        isAudio = decrypted.type.startsWith('audio/');
+      } else {
+        videoError = true;
+      }
+    }
+
+    const images = needsKey ? [] : await imageService.getImages(this.message.id);
+    const signedImages = await imageService.getSignedUrls(images, 604800);
+    let thumbnailUrls = signedImages.map(image => image.thumbnailUrl);
+    if (key) {
+      const thumbnails = await Promise.all(thumbnailUrls.map(url => decryptFileFromUrl(key, url)));
+      thumbnails.forEach(thumbnail => thumbnail && this.objectUrls.push(thumbnail.url));
+      thumbnailUrls = thumbnails.map(thumbnail => thumbnail?.url ?? '');
+    }
+    const imageError = signedImages.length < images.length || thumbnailUrls.some(url => !url);
+
+    // Recurring: earlier deliveries, plus the next one while the series runs
+    const isSeries = isRecurringMessage(this.message);
+    const isPending = this.message.status === 'pending';
+    const repeats = describeRecurrence(this.message);
+    const occurrences = isSeries ? await messageService.getOccurrences(this.message.id) : [];
+
+    // Shared capsule: contributors' entries (none for encrypted messages)
+    const capsuleEntries = needsKey || key ? [] : await capsuleService.getEntries(this.message.id);
+    const entries = await Promise.all(capsuleEntries.map(async (entry) => ({
+      authorName: entry.author_name,
+      text: entry.entry_text,
+      mediaKind: entry.media_kind,
+      mediaUrl: await capsuleService.getEntryMediaUrl(entry),
+    })));
+
     this.overlay = this.createOverlayBase('#BBF7D0');
     this.overlay.innerHTML = `
       <style>
@@ -474,7 +1319,8 @@ class MessageDetailModal {
           padding: 20px 25px;
           border-top: 2px solid #eee;
         }
-        .video-player {
+        .video-player,
+        .audio-player {
           width: 100%;
           border-radius: 8px;
           border: 2px solid black;
@@ -502,6 +1348,23 @@ class MessageDetailModal {
           text-align: center;
           color: #991B1B;
         }
+        .photo-section {
+          padding: 20px 25px;
+          border-top: 2px solid #eee;
+        }
+        .photo-gallery {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(120px, 1fr));
+          gap: 10px;
+        }
+        .photo-gallery img {
+          display: block;
+          width: 100%;
+          aspect-ratio: 1;
+          object-fit: cover;
+          border: 2px solid black;
+          border-radius: 8px;
+        }
         .delivered-badge {
           padding: 15px 25px;
           background: #F5F5F5;
@@ -509,6 +1372,34 @@ class MessageDetailModal {
           font-size: 0.9rem;
           color: #555;
         }
+        .series-section {
+          padding: 20px 25px;
+          border-top: 2px solid #eee;
+          font-size: 0.9rem;
+        }
+        .series-history {
+          margin: 10px 0 0 0;
+          padding-left: 20px;
+          color: #555;
+        }
+        .series-actions {
+          margin-top: 15px;
+          display: flex;
+          gap: 20px;
+        }
+        .series-actions button {
+          background: none;
+          border: none;
+          color: #666;
+          font-family: inherit;
+          font-size: 0.9rem;
+          cursor: pointer;
+          padding: 0;
+        }
+        .series-actions button:hover {
+          color: black;
+        }
+        ${getCapsuleEntryStyles()}
       </style>
 
       <button class="back-btn" id="backBtn">
@@ -524,36 +1415,132 @@ class MessageDetailModal {
           </div>
         </div>
 
-        <div class="message-content">${this.message.message_text}</div>
+        <div class="message-content" id="messageContent"></div>
 
-        ${this.message.video_storage_path ? `
+        ${needsKey ? `
+          <div class="video-section">
+            <button class="download-btn" id="privateLinkBtn" style="margin-top: 0;">
+              <span>&#128279;</span> Enter private link
+            </button>
+          </div>
+        ` : ''}
+
+        ${this.message.video_storage_path && !needsKey ? `
           <div class="video-section">
             ${videoError ? `
               <div class="video-error">
-                <p style="margin: 0;">&#9888; Video unavailable</p>
-                <p style="margin: 10px 0 0 0; font-size: 0.85rem;">The video file could not be loaded.</p>
+                <p style="margin: 0;">&#9888; ${isAudio ? 'Voice note' : 'Video'} unavailable</p>
+                <p style="margin: 10px 0 0 0; font-size: 0.85rem;">The ${isAudio ? 'audio' : 'video'} file could not be loaded.</p>
               </div>
             ` : `
-              <video class="video-player" controls>
-                <source src="${this.signedUrl}" type="video/mp4">
-                Your browser does not support the video tag.
-              </video>
-              <a href="${this.signedUrl}" download class="download-btn">
-                <span>&#8595;</span> Download Video
+              ${isAudio ? `
+                <audio class="audio-player" controls src="${mediaUrl}">
+                  Your browser does not support the audio tag.
+                </audio>
+              ` : `
+                <video class="video-player" controls>
+                  <source src="${mediaUrl}" type="video/mp4">
+                  Your browser does not support the video tag.
+                </video>
+              `}
+              <a href="${mediaUrl}" download class="download-btn">
+                <span>&#8595;</span> Download ${isAudio ? 'Voice Note' : 'Video'}
               </a>
             `}
           </div>
         ` : ''}
 
+        ${images.length > 0 ? `
+          <div class="photo-section">
+            ${imageError ? `
+              <div class="video-error" style="margin-bottom: 15px;">
+                <p style="margin: 0;">&#9888; Some photos could not be loaded.</p>
+              </div>
+            ` : ''}
+            <div class="photo-gallery">
+              ${signedImages.map((image, i) => `
+                <a href="${key ? '#' : image.url}" target="_blank" rel="noopener" data-photo-index="${i}">
+                  <img src="${thumbnailUrls[i]}" alt="Photo ${i + 1}" loading="lazy">
+                </a>
+              `).join('')}
+            </div>
+          </div>
+        ` : ''}
+
+        <div id="capsuleEntries"></div>
+
+        ${isSeries ? `
+          <div class="series-section">
+            <strong>&#128257; ${repeats ?? 'No longer repeating'}</strong>
+            ${isPending ? `
+              <p style="margin: 10px 0 0 0;">
+                Next delivery: <strong>${formatDateTime(new Date(this.message.deliver_at), this.message.timezone)}</strong>
+                (${describeOccurrence(this.message)}${repeats ? '' : ', the last'})
+              </p>
+            ` : ''}
+            ${occurrences.length > 0 ? `
+              <ul class="series-history">
+                ${occurrences.map(occurrence => `
+                  <li>
+                    Delivery ${occurrence.occurrence}:
+                    ${occurrence.status === 'failed'
+                      ? `failed (${formatDate(new Date(occurrence.deliver_at))})`
+                      : `sent ${formatDate(new Date(occurrence.delivered_at ?? occurrence.deliver_at))}`}
+                  </li>
+                `).join('')}
+              </ul>
+            ` : ''}
+            ${isPending ? `
+              <div class="series-actions">
+                <button id="editBtn">&#9998; Edit series</button>
+                <button id="deleteBtn">&#128465; Delete series</button>
+              </div>
+            ` : ''}
+          </div>
+        ` : ''}
+
         <div class="delivered-badge">
-          Delivered on ${deliveredDate}
+          ${isSeries ? 'Last delivered' : 'Delivered'} on ${deliveredDate}
         </div>
       </div>
     `;
 
+    // Message text is user content; never parse it as HTML
+    (this.overlay.querySelector('#messageContent') as HTMLElement).textContent = messageText;
+    renderCapsuleEntries(this.overlay.querySelector('#capsuleEntries') as HTMLElement, entries);
+
     this.overlay.querySelector('#backBtn')?.addEventListener('click', () => {
       this.hide();
     });
+
+    this.overlay.querySelector('#privateLinkBtn')?.addEventListener('click', () => {
+      this.handlePrivateLink();
+    });
+
+    this.overlay.querySelector('#checkInBtn')?.addEventListener('click', () => {
+      this.handleCheckIn();
+    });
+
+    this.overlay.querySelector('#editBtn')?.addEventListener('click', () => {
+      this.startEdit();
+    });
+
+    this.overlay.querySelector('#deleteBtn')?.addEventListener('click', () => {
+      this.handleDelete();
+    });
+
+    // Encrypted originals are decrypted on demand
+    if (key) {
+      this.overlay.querySelectorAll<HTMLAnchorElement>('[data-photo-index]').forEach(link => {
+        link.addEventListener('click', async (e) => {
+          e.preventDefault();
+          const image = signedImages[Number(link.dataset.photoIndex)];
+          if (!(await openEncryptedFile(key, image.url))) {
+            toast.error('This photo could not be opened.');
+          }
+        });
+      });
+    }
   }
 }
 
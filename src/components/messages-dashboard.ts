@@ -1,14 +1,23 @@
 import { supabase } from '../config/supabase';
 import { authService } from '../services/auth.service';
 import { toast } from './toast';
-import { isMessageUnlocked } from '../utils/message-status';
-import type { Message } from '../types/database';
+import { isMessageUnlocked, isRecurringMessage } from '../utils/message-status';
+import { describeRecurrence, describeOccurrence } from '../utils/recurrence';
+import { getSwitchState, describeCheckin } from '../utils/checkin';
+import { messageService } from '../services/message.service';
+import { capsuleService } from '../services/capsule.service';
+import { formatDateTime } from '../utils/countdown';
+import type { Message, ReceivedGift, SharedCapsule } from '../types/database';
 
 const PAGE_SIZE = 10;
 
 class MessagesDashboard {
   private container: HTMLElement | null = null;
   private messages: Message[] = [];
+  // Unlocked gift capsules other users sent to this user
+  private receivedGifts: ReceivedGift[] = [];
+  // Other users' capsules this user was invited to contribute to
+  private sharedCapsules: SharedCapsule[] = [];
   private offset: number = 0;
   private hasMore: boolean = true;
   private isLoading: boolean = false;
@@ -44,7 +53,7 @@ class MessagesDashboard {
       this.container.classList.remove('hidden');
     }
 
-    await this.fetchMessages();
+    await Promise.all([this.fetchMessages(), this.fetchReceivedGifts(), this.fetchSharedCapsules()]);
     this.render();
   }
 
@@ -75,7 +84,7 @@ class MessagesDashboard {
       .from('messages')
       .select('*')
       .eq('user_id', user.id)
-      .order('scheduled_date', { ascending: true })
+      .order('deliver_at', { ascending: true })
       .range(this.offset, this.offset + PAGE_SIZE - 1);
 
     if (error) {
@@ -93,6 +102,20 @@ class MessagesDashboard {
     this.isLoading = false;
   }
 
+  /**
+   * Loads gifts claimed by the user that have unlocked
+   */
+  private async fetchReceivedGifts(): Promise<void> {
+    this.receivedGifts = await messageService.getReceivedGifts();
+  }
+
+  /**
+   * Loads shared capsules the user is a member of
+   */
+  private async fetchSharedCapsules(): Promise<void> {
+    this.sharedCapsules = await capsuleService.getSharedCapsules();
+  }
+
   /**
    * Increments offset, fetches next page, re-renders dashboard
    */
@@ -113,6 +136,7 @@ class MessagesDashboard {
     const html = `
       <div class="container" style="padding: 40px 20px;">
         <h2 style="text-align: center; margin-bottom: 30px;">Your Messages</h2>
+        ${this.createCheckinBanner()}
         <div class="messages-grid" style="display: grid; gap: 20px; max-width: 800px; margin: 0 auto;">
           ${this.messages.length === 0
             ? '<p style="text-align: center; color: #555;">No messages yet. Create your first message above!</p>'
@@ -126,6 +150,18 @@ class MessagesDashboard {
             </button>
           </div>
         ` : ''}
+        ${this.receivedGifts.length > 0 ? `
+          <h2 style="text-align: center; margin: 50px 0 30px;">Gifts for You</h2>
+          <div style="display: grid; gap: 20px; max-width: 800px; margin: 0 auto;">
+            ${this.receivedGifts.map((gift) => this.createGiftCard(gift)).join('')}
+          </div>
+        ` : ''}
+        ${this.sharedCapsules.length > 0 ? `
+          <h2 style="text-align: center; margin: 50px 0 30px;">Shared with You</h2>
+          <div style="display: grid; gap: 20px; max-width: 800px; margin: 0 auto;">
+            ${this.sharedCapsules.map((capsule) => this.createSharedCapsuleCard(capsule)).join('')}
+          </div>
+        ` : ''}
       </div>
     `;
 
@@ -135,6 +171,36 @@ class MessagesDashboard {
       this.loadMore();
     });
 
+    document.getElementById('checkInBtn')?.addEventListener('click', () => {
+      this.handleCheckIn();
+    });
+
+    // Sender addresses are set as text, not HTML
+    this.receivedGifts.forEach((gift) => {
+      const senderEl = this.container?.querySelector(`[data-gift-sender="${gift.id}"]`);
+      if (senderEl) senderEl.textContent = gift.sender_email;
+    });
+    this.sharedCapsules.forEach((capsule) => {
+      const ownerEl = this.container?.querySelector(`[data-capsule-owner="${capsule.id}"]`);
+      if (ownerEl) ownerEl.textContent = capsule.owner_email;
+    });
+
+    this.container.querySelectorAll('.shared-capsule-card').forEach((card) => {
+      card.addEventListener('click', () => {
+        const capsule = this.sharedCapsules.find((c) => c.id === card.getAttribute('data-capsule-id'));
+        if (capsule) {
+          import('./capsule-panel').then(({ capsulePanel }) => {
+            capsulePanel.show({
+              id: capsule.id,
+              deliverAt: capsule.deliver_at,
+              timezone: capsule.timezone,
+              open: capsule.status === 'pending' && !capsule.unlocked,
+            });
+          });
+        }
+      });
+    });
+
     this.container.querySelectorAll('.message-card').forEach((card) => {
       card.addEventListener('click', () => {
         const messageId = card.getAttribute('data-message-id');
@@ -148,39 +214,181 @@ class MessagesDashboard {
     });
   }
 
+  /**
+   * Check-in prompt shown while any loaded dead man's switch is armed, with
+   * the earliest upcoming check-in
+   */
+  private createCheckinBanner(): string {
+    const armed = this.messages.filter((m) => {
+      const state = getSwitchState(m);
+      return state === 'armed' || state === 'overdue';
+    });
+    if (armed.length === 0) return '';
+
+    const next = armed.reduce((earliest, m) =>
+      new Date(m.checkin_due_at!) < new Date(earliest.checkin_due_at!) ? m : earliest
+    );
+    const isOverdue = getSwitchState(next) === 'overdue';
+    const text = isOverdue
+      ? `Check-in missed. Your message will be delivered ${formatDateTime(new Date(next.deliver_at), next.timezone)} unless you check in.`
+      : `Next check-in due ${formatDateTime(new Date(next.checkin_due_at!), next.timezone)}.`;
+
+    return `
+      <div class="neo-box" style="max-width: 800px; margin: 0 auto 20px; padding: 15px 20px; display: flex; justify-content: space-between; align-items: center; gap: 15px; flex-wrap: wrap; background: ${isOverdue ? 'var(--pastel-pink)' : 'var(--pastel-green)'};">
+        <span>&#128147; ${text}</span>
+        <button id="checkInBtn" class="btn btn-secondary" style="width: auto;">I'm still here</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Resets every armed switch of the user and reloads their deadlines
+   */
+  private async handleCheckIn(): Promise<void> {
+    const result = await messageService.checkIn();
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to check in');
+      return;
+    }
+
+    toast.success('Checked in. Your messages stay locked.');
+    await this.refresh();
+  }
+
   /**
    * Generates HTML for single message card with status icon, preview text, and metadata
    */
   private createMessageCard(message: Message): string {
     const isDelivered = message.status === 'delivered';
+    const isOpened = message.status === 'opened';
+    const isBounced = message.status === 'bounced';
     const isUnlocked = isMessageUnlocked(message);
-    const scheduledDate = new Date(message.scheduled_date);
+    const deliverAt = new Date(message.deliver_at);
 
-    const preview = message.message_text.substring(0, 100) + (message.message_text.length > 100 ? '...' : '');
-    const dateStr = scheduledDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    // Encrypted text is ciphertext; it is only decrypted when the message is opened.
+    // Passphrase-protected text stays hidden until the passphrase is entered.
+    const preview = message.encrypted
+      ? '&#128274; Encrypted message'
+      : message.passphrase_hash
+        ? '&#128273; Passphrase protected'
+        : message.message_text.substring(0, 100) + (message.message_text.length > 100 ? '...' : '');
+    const dateStr = formatDateTime(deliverAt, message.timezone);
 
     const statusIcon = isUnlocked
       ? '<span style="color: #22c55e;">&#10003;</span>'
       : '<span style="color: #666;">&#128274;</span>';
 
-    const statusText = isDelivered
-      ? `Delivered ${message.delivered_at ? new Date(message.delivered_at).toLocaleDateString() : ''}`
-      : isUnlocked
-        ? 'Ready to view'
-        : `Unlocks ${dateStr}`;
+    const isFailed = message.status === 'failed';
+    const isRetrying = message.status === 'pending' && message.next_attempt_at !== null;
+    // Recurring: deliver_at is the next occurrence, shown with the series instead of a single unlock date
+    const isSeries = isRecurringMessage(message);
+    const repeats = describeRecurrence(message);
+    const seriesText = isSeries
+      ? `${repeats ? `${repeats} &middot; ` : ''}${describeOccurrence(message)}${!repeats && message.status === 'pending' ? ' (last)' : ''}`
+      : '';
+    // Dead man's switch: deliver_at is the deadline if check-ins stop
+    const switchState = message.status === 'pending' ? getSwitchState(message) : null;
+    const checkinText = describeCheckin(message);
+
+    const statusText = isOpened
+      ? 'Opened'
+      : isBounced
+        ? 'Bounced'
+        : isDelivered
+          ? `Delivered ${message.delivered_at ? new Date(message.delivered_at).toLocaleDateString() : ''}`
+          : isFailed
+            ? 'Delivery failed'
+            : isRetrying
+              ? 'Retrying delivery'
+              : switchState === 'triggered'
+                ? 'Check-ins stopped, delivering'
+                : switchState === 'overdue'
+                ? `Check-in missed, delivers ${dateStr}`
+                : switchState === 'armed'
+                ? `Check in by ${formatDateTime(new Date(message.checkin_due_at!), message.timezone)}`
+                : isSeries && message.status === 'pending'
+                ? `Next delivery ${dateStr}`
+                : isUnlocked
+                ? 'Ready to view'
+                : `Unlocks ${dateStr}`;
+
+    const badgeColor = isFailed || isBounced || switchState === 'overdue'
+      ? 'var(--pastel-pink)'
+      : isUnlocked ? 'var(--pastel-green)' : 'var(--pastel-yellow)';
 
     return `
       <div class="message-card neo-box" data-message-id="${message.id}" style="padding: 20px; cursor: pointer;">
         <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 10px;">
           <div style="font-size: 1.5rem;">${statusIcon}</div>
-          <span style="font-size: 0.8rem; color: #555; background: ${isUnlocked ? 'var(--pastel-green)' : 'var(--pastel-yellow)'}; padding: 3px 8px; border: 1px solid black; border-radius: 4px;">
+          <span style="font-size: 0.8rem; color: #555; background: ${badgeColor}; padding: 3px 8px; border: 1px solid black; border-radius: 4px;">
             ${statusText}
           </span>
         </div>
         <p style="margin: 0; color: ${isUnlocked ? '#000' : '#666'}; ${isUnlocked ? '' : 'filter: blur(2px);'}">
           ${preview}
         </p>
-        ${message.video_storage_path ? '<span style="font-size: 0.8rem; color: #555; margin-top: 10px; display: inline-block;">&#127909; Video attached</span>' : ''}
+        ${isSeries ? `<span style="font-size: 0.8rem; color: #555; margin-top: 10px; margin-right: 10px; display: inline-block;">&#128257; ${seriesText}</span>` : ''}
+        ${message.gift_token ? `<span style="font-size: 0.8rem; color: #555; margin-top: 10px; margin-right: 10px; display: inline-block;">&#127873; ${message.gift_recipient_id ? 'Gift claimed' : 'Gift, not claimed yet'}</span>` : ''}
+        ${checkinText ? `<span style="font-size: 0.8rem; color: #555; margin-top: 10px; margin-right: 10px; display: inline-block;">&#128147; ${checkinText}</span>` : ''}
+        ${message.video_storage_path ? `<span style="font-size: 0.8rem; color: #555; margin-top: 10px; display: inline-block;">${message.media_kind === 'audio' ? '&#127897; Voice note attached' : '&#127909; Video attached'}</span>` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Generates HTML for a received gift; it opens in the recipient view,
+   * which handles passphrases and encryption like the delivery link
+   */
+  private createGiftCard(gift: ReceivedGift): string {
+    return `
+      <a class="neo-box" href="/m/${gift.delivery_token}" style="display: block; padding: 20px; color: black; text-decoration: none;">
+        <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 10px;">
+          <div style="font-size: 1.5rem;">&#127873;</div>
+          <span style="font-size: 0.8rem; color: #555; background: var(--pastel-green); padding: 3px 8px; border: 1px solid black; border-radius: 4px;">
+            Unlocked ${formatDateTime(new Date(gift.deliver_at), gift.timezone)}
+          </span>
+        </div>
+        <p style="margin: 0;">A time capsule from <strong data-gift-sender="${gift.id}"></strong></p>
+      </a>
+    `;
+  }
+
+  /**
+   * Generates HTML for a shared capsule: unlocked ones open in the recipient
+   * view, the rest open the capsule panel to add or edit entries
+   */
+  private createSharedCapsuleCard(capsule: SharedCapsule): string {
+    const entries = capsule.entry_count === 1 ? '1 entry from you' : `${capsule.entry_count} entries from you`;
+    const badge = capsule.unlocked
+      ? `Unlocked ${formatDateTime(new Date(capsule.deliver_at), capsule.timezone)}`
+      : capsule.status === 'pending'
+        ? `Locks ${formatDateTime(new Date(capsule.deliver_at), capsule.timezone)}`
+        : 'Locked';
+    const body = `
+      <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 10px;">
+        <div style="font-size: 1.5rem;">&#128101;</div>
+        <span style="font-size: 0.8rem; color: #555; background: var(--pastel-blue); padding: 3px 8px; border: 1px solid black; border-radius: 4px;">
+          ${badge}
+        </span>
+      </div>
+      <p style="margin: 0;">A shared capsule from <strong data-capsule-owner="${capsule.id}"></strong></p>
+      <p style="margin: 5px 0 0 0; font-size: 0.85rem; color: #555;">
+        ${capsule.role === 'organizer' ? 'Organizer' : 'Contributor'} &middot; ${entries}
+      </p>
+    `;
+
+    if (capsule.unlocked && capsule.delivery_token) {
+      return `
+        <a class="neo-box" href="/m/${capsule.delivery_token}" style="display: block; padding: 20px; color: black; text-decoration: none;">
+          ${body}
+        </a>
+      `;
+    }
+
+    return `
+      <div class="neo-box shared-capsule-card" data-capsule-id="${capsule.id}" style="padding: 20px; cursor: pointer;">
+        ${body}
       </div>
     `;
   }
@@ -192,7 +400,7 @@ class MessagesDashboard {
     this.messages = [];
     this.offset = 0;
     this.hasMore = true;
-    await this.fetchMessages();
+    await Promise.all([this.fetchMessages(), this.fetchReceivedGifts(), this.fetchSharedCapsules()]);
     this.render();
   }
 }
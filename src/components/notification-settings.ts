@@ -0,0 +1,112 @@
+import { authService, NotificationPreferences } from '../services/auth.service';
+import { toast } from './toast';
+
+const OPTIONS: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  { key: 'scheduled', label: 'Scheduled', description: 'A confirmation when you schedule a message' },
+  { key: 'upcoming', label: 'Unlocking soon', description: 'A reminder shortly before a message unlocks' },
+  { key: 'delivered', label: 'Delivered', description: 'A receipt once a message reached its recipients' },
+  { key: 'failed', label: 'Delivery failed', description: 'An alert when a message could not be delivered' },
+];
+
+class NotificationSettings {
+  private overlay: HTMLElement | null = null;
+
+  /**
+   * Show the email notification settings modal
+   */
+  show(): void {
+    this.overlay?.remove();
+
+    const preferences = authService.getNotificationPreferences();
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'modal-overlay active';
+    this.overlay.id = 'notificationSettings';
+    this.overlay.innerHTML = `
+      <div class="modal" style="max-width: 450px;">
+        <h2>Email Notifications</h2>
+        <p style="margin-bottom: 25px; color: #555;">
+          Emails we send you about your own messages. They never include the message itself.
+        </p>
+
+        <form id="notificationForm" style="text-align: left;">
+          ${OPTIONS.map((option) => `
+            <label style="display: flex; gap: 10px; align-items: flex-start; margin-bottom: 15px; cursor: pointer;">
+              <input type="checkbox" name="${option.key}" ${preferences[option.key] ? 'checked' : ''} style="margin-top: 4px;">
+              <span>
+                <strong>${option.label}</strong><br>
+                <span style="font-size: 0.9rem; color: #555;">${option.description}</span>
+              </span>
+            </label>
+          `).join('')}
+
+          <button type="submit" class="btn" id="saveNotificationsBtn" style="margin-top: 10px;">Save</button>
+        </form>
+
+        <button
+          id="closeNotificationsBtn"
+          style="position: absolute; top: 15px; right: 15px; background: none; border: none; font-size: 1.5rem; cursor: pointer;"
+        >&times;</button>
+      </div>
+    `;
+
+    document.body.appendChild(this.overlay);
+
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) this.hide();
+    });
+
+    this.overlay.querySelector('#closeNotificationsBtn')?.addEventListener('click', () => {
+      this.hide();
+    });
+
+    this.overlay.querySelector('#notificationForm')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.handleSave();
+    });
+  }
+
+  /**
+   * Hide the modal
+   */
+  hide(): void {
+    if (this.overlay) {
+      this.overlay.classList.remove('active');
+      setTimeout(() => {
+        this.overlay?.remove();
+        this.overlay = null;
+      }, 200);
+    }
+  }
+
+  private async handleSave(): Promise<void> {
+    if (!this.overlay) return;
+
+    const form = this.overlay.querySelector('#notificationForm') as HTMLFormElement;
+    const saveBtn = this.overlay.querySelector('#saveNotificationsBtn') as HTMLButtonElement;
+    const isChecked = (key: keyof NotificationPreferences) =>
+      (form.elements.namedItem(key) as HTMLInputElement).checked;
+
+    saveBtn.disabled = true;
+    saveBtn.textContent = 'Saving...';
+
+    const { error } = await authService.updateNotificationPreferences({
+      scheduled: isChecked('scheduled'),
+      delivered: isChecked('delivered'),
+      failed: isChecked('failed'),
+      upcoming: isChecked('upcoming'),
+    });
+
+    if (error) {
+      toast.error('Failed to save your settings. Please try again.');
+      saveBtn.disabled = false;
+      saveBtn.textContent = 'Save';
+      return;
+    }
+
+    toast.success('Notification settings saved');
+    this.hide();
+  }
+}
+
+export const notificationSettings = new NotificationSettings();
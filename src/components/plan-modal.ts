@@ -1,11 +1,24 @@
 import { authService } from '../services/auth.service';
 import { messageService, CreateMessageData } from '../services/message.service';
-import { paymentService } from '../services/payment.service';
+import {
+  paymentService,
+  STORAGE_ADDON_BYTES,
+  STORAGE_ADDON_PRICE_LABEL,
+  GIFT_CAPSULE_PRICE_LABEL
+} from '../services/payment.service';
+import { formatBytes } from '../utils/video-duration';
 import { toast } from './toast';
+import { formatDateTime } from '../utils/countdown';
+import { describeRecurrence } from '../utils/recurrence';
+import { describeCheckin } from '../utils/checkin';
 
 interface PlanModalData {
   messageData: CreateMessageData;
   hasVideo: boolean;
+  // Voice notes are allowed on the free plan
+  hasAudio?: boolean;
+  // Photos are Pro-only
+  imageCount?: number;
   onSuccess: () => void;
 }
 
@@ -21,6 +34,79 @@ class PlanModal {
     this.render();
   }
 
+  /**
+   * Show the storage add-on offer (Pro user out of video storage)
+   */
+  showStorageAddon(message: string): void {
+    this.data = null;
+    this.overlay?.remove();
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'modal-overlay active';
+    this.overlay.id = 'planModal';
+    this.overlay.innerHTML = this.getStorageAddonHTML();
+
+    document.body.appendChild(this.overlay);
+
+    // Error text comes from validation; set as text, not HTML
+    const messageEl = this.overlay.querySelector('#storageAddonMessage');
+    if (messageEl) messageEl.textContent = message;
+
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) this.hide();
+    });
+
+    this.setupHandlers();
+  }
+
+  /**
+   * Show the private link of an end-to-end encrypted message. The key is
+   * only in this link (and this browser), so the sender must keep it.
+   */
+  showPrivateLink(link: string): void {
+    this.data = null;
+    this.overlay?.remove();
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'modal-overlay active';
+    this.overlay.id = 'planModal';
+    this.overlay.innerHTML = `
+      <div class="modal">
+        <h2>Save Your Private Link</h2>
+        <p style="margin-bottom: 15px;">
+          This message is end-to-end encrypted. The delivery email will not contain the key &mdash;
+          share this link with your recipients, or keep it for yourself. We cannot recover it.
+        </p>
+        <input type="text" id="privateLinkInput" readonly style="margin-bottom: 15px;">
+        <button class="btn" id="copyPrivateLinkBtn" style="margin-bottom: 10px; background: var(--pastel-blue);">
+          Copy Link
+        </button>
+        <button class="btn btn-outline" id="cancelBtn">
+          Done
+        </button>
+      </div>
+    `;
+
+    document.body.appendChild(this.overlay);
+
+    const input = this.overlay.querySelector('#privateLinkInput') as HTMLInputElement;
+    input.value = link;
+    input.addEventListener('focus', () => input.select());
+
+    document.getElementById('copyPrivateLinkBtn')?.addEventListener('click', async () => {
+      try {
+        await navigator.clipboard.writeText(link);
+        toast.success('Private link copied');
+      } catch {
+        input.select();
+        toast.info('Press Ctrl+C to copy the link');
+      }
+    });
+
+    // Only an explicit Done closes it, so the link is not lost to a stray click
+    this.setupHandlers();
+  }
+
   /**
    * Hide the modal
    */
@@ -45,8 +131,13 @@ class PlanModal {
     this.overlay.className = 'modal-overlay active';
     this.overlay.id = 'planModal';
 
-    // If user is pro, just confirm and send
-    if (isPro) {
+    // A gift is paid with a gift credit on any plan
+    if (this.data?.messageData.gift) {
+      this.overlay.innerHTML = (profile?.gift_credits ?? 0) > 0
+        ? this.getProConfirmHTML()
+        : this.getGiftPurchaseHTML();
+    } else if (isPro) {
+      // If user is pro, just confirm and send
       this.overlay.innerHTML = this.getProConfirmHTML();
     } else if (hasFreeUsed) {
       // Free message already used - must upgrade
@@ -66,16 +157,41 @@ class PlanModal {
   }
 
   private getProConfirmHTML(): string {
+    const imageCount = this.data?.imageCount ?? 0;
+    const attachments = [
+      this.data?.hasAudio ? 'Voice note' : this.data?.hasVideo ? 'Video attachment' : '',
+      imageCount > 0 ? `${imageCount} ${imageCount === 1 ? 'photo' : 'photos'}` : '',
+    ].filter(Boolean);
+    const recurrence = this.data!.messageData.recurrence;
+    const repeats = recurrence
+      ? describeRecurrence({ recurrence_months: recurrence.months, recurrence_count: recurrence.count })
+      : null;
+    const checkin = this.data!.messageData.checkin;
+    const checkinText = checkin
+      ? describeCheckin({ delivery_mode: 'checkin', checkin_interval_days: checkin.intervalDays, checkin_grace_days: checkin.graceDays })
+      : null;
+    const giftCredits = authService.getProfile()?.gift_credits ?? 0;
+
     return `
       <div class="modal">
         <h2>Confirm Message</h2>
         <p style="margin-bottom: 25px;">
-          Your message will be delivered on <strong>${this.formatDate(this.data!.messageData.scheduledDate)}</strong>.
+          ${checkinText ? `
+            Your message will be delivered if you stop checking in (${checkinText.toLowerCase()}).
+          ` : `
+            Your message will be delivered on <strong>${formatDateTime(new Date(this.data!.messageData.deliverAt), this.data!.messageData.timezone)}</strong>${repeats ? ` (repeats ${repeats.toLowerCase()})` : ''}.
+          `}
         </p>
 
-        ${this.data?.hasVideo ? `
+        ${attachments.length > 0 ? `
           <p style="background: var(--pastel-blue); border: 2px solid black; padding: 10px; margin-bottom: 20px;">
-            Video attachment included
+            ${attachments.join(' and ')} included
+          </p>
+        ` : ''}
+
+        ${this.data!.messageData.gift ? `
+          <p style="background: var(--pastel-green); border: 2px solid black; padding: 10px; margin-bottom: 20px;">
+            &#127873; Sent as a gift: uses 1 of your ${giftCredits} gift ${giftCredits === 1 ? 'capsule' : 'capsules'}
           </p>
         ` : ''}
 
@@ -107,6 +223,47 @@ class PlanModal {
     `;
   }
 
+  private getStorageAddonHTML(): string {
+    return `
+      <div class="modal">
+        <h2>Out of Storage</h2>
+        <p id="storageAddonMessage" style="margin-bottom: 15px;"></p>
+        <p style="margin-bottom: 25px;">
+          Add ${formatBytes(STORAGE_ADDON_BYTES)} of video storage to your Pro account.
+        </p>
+
+        <button class="btn" id="buyStorageBtn" style="margin-bottom: 10px; background: var(--pastel-blue);">
+          Buy more storage - ${STORAGE_ADDON_PRICE_LABEL}
+        </button>
+        <button class="btn btn-outline" id="cancelBtn">
+          Cancel
+        </button>
+      </div>
+    `;
+  }
+
+  private getGiftPurchaseHTML(): string {
+    return `
+      <div class="modal">
+        <h2>Buy a Gift Capsule</h2>
+        <p style="margin-bottom: 15px;">
+          Sending a message as a gift uses a gift capsule. It does not count toward your free message,
+          and the recipient can claim it to keep in their own dashboard.
+        </p>
+        <p style="margin-bottom: 25px;">
+          After paying, come back and schedule your gift.
+        </p>
+
+        <button class="btn" id="buyGiftBtn" style="margin-bottom: 10px; background: var(--pastel-green);">
+          Buy a gift capsule - ${GIFT_CAPSULE_PRICE_LABEL}
+        </button>
+        <button class="btn btn-outline" id="cancelBtn">
+          Cancel
+        </button>
+      </div>
+    `;
+  }
+
   private getPlanSelectionHTML(): string {
     const hasVideo = this.data?.hasVideo ?? false;
 
@@ -126,7 +283,7 @@ class PlanModal {
         ` : ''}
 
         <button class="btn btn-outline" id="sendFreeBtn">
-          Send Free (Text Only, 1 Message)
+          Send Free (${this.data?.hasAudio ? 'Text + Voice Note' : 'Text Only'}, 1 Message)
         </button>
       </div>
     `;
@@ -147,6 +304,24 @@ class PlanModal {
       }
     });
 
+    // Buy storage pack button
+    document.getElementById('buyStorageBtn')?.addEventListener('click', async () => {
+      try {
+        await paymentService.redirectToCheckout('storage_addon');
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to start checkout');
+      }
+    });
+
+    // Buy gift capsule button
+    document.getElementById('buyGiftBtn')?.addEventListener('click', async () => {
+      try {
+        await paymentService.redirectToCheckout('gift_capsule');
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to start checkout');
+      }
+    });
+
     // Send Free button
     document.getElementById('sendFreeBtn')?.addEventListener('click', () => {
       if (this.data?.hasVideo) {
@@ -158,6 +333,7 @@ class PlanModal {
         this.data.messageData.videoStoragePath = undefined;
         this.data.messageData.videoSizeBytes = undefined;
         this.data.messageData.videoDurationSeconds = undefined;
+        this.data.messageData.mediaKind = undefined;
       }
       this.sendMessage();
     });
@@ -181,8 +357,12 @@ class PlanModal {
 
     if (result.success) {
       toast.success('Your FtrMsg message has been scheduled!');
-      this.hide();
       this.data.onSuccess();
+      if (result.privateLink) {
+        this.showPrivateLink(result.privateLink);
+      } else {
+        this.hide();
+      }
     } else {
       toast.error(result.error || 'Failed to send message');
       if (btn) {
@@ -191,15 +371,6 @@ class PlanModal {
       }
     }
   }
-
-  private formatDate(dateString: string): string {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  }
 }
 
 export const planModal = new PlanModal();
@@ -0,0 +1,406 @@
+import { messageService, SharedMessage } from '../services/message.service';
+import { formatDate, formatDateTime } from '../utils/countdown';
+import { toast } from './toast';
+import { getCapsuleEntryStyles, renderCapsuleEntries } from './capsule-entry-list';
+import {
+  importMessageKey,
+  parseKeyInput,
+  decryptText,
+  decryptFileFromUrl,
+  openEncryptedFile
+} from '../utils/e2e-crypto';
+
+class RecipientView {
+  private overlay: HTMLElement | null = null;
+  // Decrypted attachments of an encrypted message
+  private objectUrls: string[] = [];
+
+  /**
+   * Resolves token server-side and renders the public message view.
+   * Works without a session; the Edge Function withholds content until unlock.
+   */
+  async show(token: string): Promise<void> {
+    this.hide();
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'recipient-view-overlay';
+    document.body.appendChild(this.overlay);
+    this.renderShell('#FFFDF7', '<p style="padding: 25px; margin: 0;">Loading your message...</p>');
+
+    const result = await messageService.getMessageByToken(token);
+
+    if (!result.success || !result.message) {
+      this.renderError(result.error || 'Message not found');
+      return;
+    }
+
+    await this.renderMessage(token, result.message);
+  }
+
+  /**
+   * Picks the view for a resolved message: locked, passphrase prompt,
+   * encrypted or plain unlocked
+   */
+  private async renderMessage(token: string, message: SharedMessage): Promise<void> {
+    if (message.locked) {
+      this.renderLocked(message);
+    } else if (message.passphraseRequired) {
+      this.renderPassphrasePrompt(token, message);
+    } else if (message.encrypted) {
+      // The key is in the link fragment, which never reaches the server
+      await this.openEncrypted(message, window.location.hash);
+    } else {
+      this.renderUnlocked(message);
+    }
+  }
+
+  /**
+   * Removes overlay from DOM
+   */
+  hide(): void {
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = null;
+    }
+
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls = [];
+  }
+
+  /**
+   * Asks for the passphrase; view-message checks it and limits wrong guesses
+   */
+  private renderPassphrasePrompt(token: string, message: SharedMessage): void {
+    this.renderShell('#FDE68A', `
+      <div class="recipient-header" style="background: var(--pastel-green);">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#128273; Passphrase Required</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          This message has unlocked. Enter its passphrase to open it.
+        </p>
+      </div>
+
+      <form class="recipient-content" id="recipientPassphraseForm" style="white-space: normal;">
+        <p id="recipientPassphraseHint" style="margin: 0 0 15px 0; white-space: pre-wrap;"></p>
+        <input type="text" id="recipientPassphraseInput" autocomplete="off" placeholder="Passphrase"
+          style="width: 100%; padding: 12px; border: 2px solid black; border-radius: 8px; font-family: inherit; font-size: 1rem; margin-bottom: 15px;">
+        <p id="recipientPassphraseError" style="margin: 0 0 15px 0; color: #991B1B;"></p>
+        <button type="submit" class="recipient-download-btn" id="recipientPassphraseBtn" style="margin-top: 0; font-family: inherit; cursor: pointer;">
+          Open Message
+        </button>
+      </form>
+    `);
+
+    // Hint and server message are set as text
+    const hintEl = this.overlay?.querySelector('#recipientPassphraseHint') as HTMLElement;
+    hintEl.textContent = message.passphraseHint ? `Hint: ${message.passphraseHint}` : '';
+    const errorEl = this.overlay?.querySelector('#recipientPassphraseError') as HTMLElement;
+    errorEl.textContent = message.passphraseError ?? '';
+
+    this.overlay?.querySelector('#recipientPassphraseForm')?.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const input = this.overlay?.querySelector('#recipientPassphraseInput') as HTMLInputElement;
+      const button = this.overlay?.querySelector('#recipientPassphraseBtn') as HTMLButtonElement;
+      if (!input.value.trim()) return;
+
+      button.disabled = true;
+      const result = await messageService.getMessageByToken(token, input.value);
+
+      if (!result.success || !result.message) {
+        this.renderError(result.error || 'Message not found');
+        return;
+      }
+
+      await this.renderMessage(token, result.message);
+    });
+  }
+
+  /**
+   * Decrypts an end-to-end encrypted message with the key from the private
+   * link, or asks for the link when the key is missing or wrong
+   */
+  private async openEncrypted(message: SharedMessage, keyInput: string): Promise<void> {
+    const keyString = parseKeyInput(keyInput);
+    const key = keyString ? await importMessageKey(keyString) : null;
+    const text = key ? await decryptText(key, message.messageText ?? '').catch(() => null) : null;
+
+    if (!key || text === null) {
+      this.renderKeyPrompt(message, keyInput.trim() !== '');
+      return;
+    }
+
+    this.renderShell('#FFFDF7', '<p style="padding: 25px; margin: 0;">Decrypting your message...</p>');
+
+    const media = message.videoUrl ? await decryptFileFromUrl(key, message.videoUrl) : null;
+    const images = message.images ?? [];
+    const thumbnails = await Promise.all(images.map(image => decryptFileFromUrl(key, image.thumbnailUrl)));
+
+    this.objectUrls.push(...[media, ...thumbnails].flatMap(file => file ? [file.url] : []));
+
+    this.renderUnlocked({
+      ...message,
+      messageText: text,
+      mediaKind: media?.type.startsWith('audio/') ? 'audio' : 'video',
+      videoUrl: media?.url ?? null,
+      // Originals stay encrypted until opened
+      images: images.flatMap((image, i) => {
+        const thumbnail = thumbnails[i];
+        return thumbnail ? [{ url: image.url, thumbnailUrl: thumbnail.url }] : [];
+      })
+    }, key);
+  }
+
+  /**
+   * Asks for the private link (or bare key) of an encrypted message
+   */
+  private renderKeyPrompt(message: SharedMessage, wrongKey: boolean): void {
+    this.renderShell('#FDE68A', `
+      <div class="recipient-header" style="background: #FDE68A;">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#128274; Encrypted Message</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          This message is end-to-end encrypted. Paste the private link you were given to open it.
+        </p>
+      </div>
+
+      <form class="recipient-content" id="recipientKeyForm" style="white-space: normal;">
+        <input type="text" id="recipientKeyInput" placeholder="Private link or key"
+          style="width: 100%; padding: 12px; border: 2px solid black; border-radius: 8px; font-family: inherit; font-size: 1rem; margin-bottom: 15px;">
+        ${wrongKey ? `
+          <p style="margin: 0 0 15px 0; color: #991B1B;">That link does not open this message.</p>
+        ` : ''}
+        <button type="submit" class="recipient-download-btn" style="margin-top: 0; font-family: inherit; cursor: pointer;">
+          Open Message
+        </button>
+      </form>
+    `);
+
+    this.overlay?.querySelector('#recipientKeyForm')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const input = this.overlay?.querySelector('#recipientKeyInput') as HTMLInputElement;
+      this.openEncrypted(message, input.value);
+    });
+  }
+
+  /**
+   * Writes overlay HTML with shared styles, background color, and card body
+   */
+  private renderShell(bgColor: string, cardHtml: string): void {
+    if (!this.overlay) return;
+
+    this.overlay.style.background = bgColor;
+    this.overlay.innerHTML = `
+      <style>
+        .recipient-view-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 1000;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 20px;
+          overflow-y: auto;
+        }
+        .recipient-home-btn {
+          position: absolute;
+          top: 20px;
+          left: 20px;
+          background: white;
+          border: 2px solid black;
+          border-radius: 50px;
+          padding: 10px 20px;
+          font-weight: 700;
+          text-decoration: none;
+          color: black;
+        }
+        .recipient-card {
+          background: white;
+          border: 4px solid black;
+          border-radius: 12px;
+          box-shadow: 10px 10px 0px 0px black;
+          width: 100%;
+          max-width: 600px;
+          margin-top: 60px;
+          overflow: hidden;
+        }
+        .recipient-header {
+          padding: 25px;
+          border-bottom: 3px solid black;
+        }
+        .recipient-content {
+          padding: 25px;
+          white-space: pre-wrap;
+          line-height: 1.6;
+        }
+        .recipient-video {
+          padding: 20px 25px;
+          border-top: 2px solid #eee;
+        }
+        .recipient-video video,
+        .recipient-video audio {
+          width: 100%;
+          border-radius: 8px;
+          border: 2px solid black;
+        }
+        .recipient-download-btn {
+          display: inline-flex;
+          align-items: center;
+          gap: 8px;
+          margin-top: 15px;
+          background: var(--pastel-blue);
+          border: 2px solid black;
+          border-radius: 8px;
+          padding: 10px 20px;
+          font-weight: 700;
+          text-decoration: none;
+          color: black;
+        }
+        .recipient-photos {
+          padding: 20px 25px;
+          border-top: 2px solid #eee;
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(120px, 1fr));
+          gap: 10px;
+        }
+        .recipient-photos img {
+          display: block;
+          width: 100%;
+          aspect-ratio: 1;
+          object-fit: cover;
+          border: 2px solid black;
+          border-radius: 8px;
+        }
+        .recipient-video-error {
+          padding: 20px;
+          background: #FEE2E2;
+          border: 2px solid black;
+          border-radius: 8px;
+          text-align: center;
+          color: #991B1B;
+        }
+        ${getCapsuleEntryStyles()}
+        .recipient-footer {
+          padding: 15px 25px;
+          background: #F5F5F5;
+          border-top: 2px solid #eee;
+          font-size: 0.9rem;
+          color: #555;
+        }
+      </style>
+
+      <a class="recipient-home-btn" href="/">FTRMSG</a>
+
+      <div class="recipient-card">${cardHtml}</div>
+    `;
+  }
+
+  /**
+   * Renders unlock time only; message content is never sent before deliver_at
+   */
+  private renderLocked(message: SharedMessage): void {
+    this.renderShell('#BAE6FD', `
+      <div class="recipient-header" style="background: #FDE68A;">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#128274; Message Locked</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">
+          This message unlocks on <strong>${formatDateTime(new Date(message.deliverAt), message.timezone)}</strong>.
+        </p>
+      </div>
+    `);
+  }
+
+  /**
+   * Renders message text (as textContent), video/audio player if a signed URL was returned,
+   * and photo thumbnails linking to the originals. With a key, the message is already
+   * decrypted and originals are decrypted when opened.
+   */
+  private renderUnlocked(message: SharedMessage, key?: CryptoKey): void {
+    const isAudio = message.mediaKind === 'audio';
+    const deliveredDate = message.deliveredAt
+      ? formatDate(new Date(message.deliveredAt))
+      : formatDate(new Date(message.deliverAt));
+
+    this.renderShell('#BBF7D0', `
+      <div class="recipient-header" style="background: var(--pastel-green);">
+        <h2 style="margin: 0; font-size: 1.5rem;">&#10003; Message Unlocked</h2>
+        <p style="margin: 5px 0 0 0; color: #555;">A message from the past has arrived.</p>
+      </div>
+
+      <div class="recipient-content" id="recipientMessageText"></div>
+
+      ${message.hasVideo ? `
+        <div class="recipient-video">
+          ${message.videoUrl ? `
+            ${isAudio ? `
+              <audio controls src="${message.videoUrl}">
+                Your browser does not support the audio tag.
+              </audio>
+            ` : `
+              <video controls>
+                <source src="${message.videoUrl}" type="video/mp4">
+                Your browser does not support the video tag.
+              </video>
+            `}
+            <a href="${message.videoUrl}" download class="recipient-download-btn">
+              <span>&#8595;</span> Download ${isAudio ? 'Voice Note' : 'Video'}
+            </a>
+          ` : `
+            <div class="recipient-video-error">
+              <p style="margin: 0;">&#9888; ${isAudio ? 'Voice note' : 'Video'} unavailable</p>
+            </div>
+          `}
+        </div>
+      ` : ''}
+
+      ${message.images?.length ? `
+        <div class="recipient-photos">
+          ${message.images.map((image, i) => `
+            <a href="${key ? '#' : image.url}" target="_blank" rel="noopener" data-photo-index="${i}">
+              <img src="${image.thumbnailUrl}" alt="Photo ${i + 1}" loading="lazy">
+            </a>
+          `).join('')}
+        </div>
+      ` : ''}
+
+      <div id="recipientEntries"></div>
+
+      <div class="recipient-footer">Delivered on ${deliveredDate}</div>
+    `);
+
+    // Message text is user content; never interpolate into innerHTML
+    const textEl = this.overlay?.querySelector('#recipientMessageText');
+    if (textEl) textEl.textContent = message.messageText ?? '';
+
+    const entriesEl = this.overlay?.querySelector<HTMLElement>('#recipientEntries');
+    if (entriesEl) renderCapsuleEntries(entriesEl, message.entries ?? []);
+
+    if (key) {
+      this.overlay?.querySelectorAll<HTMLAnchorElement>('[data-photo-index]').forEach(link => {
+        link.addEventListener('click', async (e) => {
+          e.preventDefault();
+          const image = message.images![Number(link.dataset.photoIndex)];
+          if (!(await openEncryptedFile(key, image.url))) {
+            toast.error('This photo could not be opened.');
+          }
+        });
+      });
+    }
+  }
+
+  /**
+   * Renders error card for unknown or malformed tokens
+   */
+  private renderError(error: string): void {
+    this.renderShell('#FECDD3', `
+      <div class="recipient-header" style="background: #FEE2E2;">
+        <h2 style="margin: 0; font-size: 1.5rem;">Message Not Found</h2>
+        <p style="margin: 5px 0 0 0; color: #555;" id="recipientError"></p>
+      </div>
+    `);
+
+    const errorEl = this.overlay?.querySelector('#recipientError');
+    if (errorEl) errorEl.textContent = error;
+  }
+}
+
+export const recipientView = new RecipientView();
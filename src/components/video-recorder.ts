@@ -0,0 +1,401 @@
+import { MAX_VIDEO_DURATION_SECONDS, formatDuration } from '../utils/video-duration';
+import { toast } from './toast';
+
+type RecorderState = 'idle' | 'countdown' | 'recording' | 'review';
+
+const COUNTDOWN_SECONDS = 3;
+// Stop slightly early so encoder latency never pushes the file past the limit
+const STOP_MARGIN_MS = 500;
+// First supported type wins; Safari only records MP4
+const RECORDING_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4'
+];
+
+class VideoRecorder {
+  private overlay: HTMLElement | null = null;
+  private state: RecorderState = 'idle';
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private recording: Blob | null = null;
+  private recordingUrl: string | null = null;
+  private startedAt = 0;
+  private timerInterval: number | null = null;
+  private stopTimeout: number | null = null;
+  private onRecordedCallback: ((file: File) => void) | null = null;
+
+  /**
+   * Open the recorder. onRecorded receives the recording as a File,
+   * ready for the same validation/upload path as a selected file.
+   */
+  async show(onRecorded: (file: File) => void): Promise<void> {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      toast.error('Recording is not supported in this browser. Please upload a file instead.');
+      return;
+    }
+
+    this.onRecordedCallback = onRecorded;
+    this.render();
+
+    if (await this.startStream()) {
+      await this.populateDevices();
+    }
+  }
+
+  /**
+   * Close the recorder and release camera/microphone
+   */
+  hide(): void {
+    this.clearTimers();
+
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.recorder = null;
+    this.stopStream();
+    this.discardRecording();
+    this.state = 'idle';
+
+    if (this.overlay) {
+      this.overlay.classList.remove('active');
+      setTimeout(() => {
+        this.overlay?.remove();
+        this.overlay = null;
+      }, 200);
+    }
+  }
+
+  private render(): void {
+    this.overlay?.remove();
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'modal-overlay active';
+    this.overlay.id = 'videoRecorderModal';
+    this.overlay.innerHTML = this.getModalHTML();
+
+    document.body.appendChild(this.overlay);
+
+    // No backdrop close while recording; a stray click would lose the take
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay && this.state !== 'recording' && this.state !== 'countdown') {
+        this.hide();
+      }
+    });
+
+    this.setupHandlers();
+    this.updateControls();
+  }
+
+  private getModalHTML(): string {
+    return `
+      <div class="modal" style="max-width: 600px;">
+        <h2>Record Video</h2>
+
+        <div class="recorder-stage">
+          <video id="recorderPreview" class="recorder-preview" autoplay muted playsinline></video>
+          <div id="recorderCountdown" class="recorder-countdown" style="display: none;"></div>
+        </div>
+
+        <div class="recorder-status">
+          <span id="recorderIndicator" class="recorder-indicator" style="display: none;"></span>
+          <span id="recorderTimer">0:00 / ${formatDuration(MAX_VIDEO_DURATION_SECONDS)}</span>
+        </div>
+
+        <div class="recorder-devices">
+          <div class="form-group">
+            <label for="recorderCamera">Camera</label>
+            <select id="recorderCamera"></select>
+          </div>
+          <div class="form-group">
+            <label for="recorderMic">Microphone</label>
+            <select id="recorderMic"></select>
+          </div>
+        </div>
+
+        <button type="button" class="btn" id="recorderStartBtn" style="margin-bottom: 10px;">
+          Start Recording
+        </button>
+        <button type="button" class="btn" id="recorderStopBtn" style="margin-bottom: 10px; background: var(--pastel-pink);">
+          Stop
+        </button>
+        <button type="button" class="btn" id="recorderUseBtn" style="margin-bottom: 10px;">
+          Use This Video
+        </button>
+        <button type="button" class="btn btn-outline" id="recorderRetakeBtn" style="margin-bottom: 10px;">
+          Re-take
+        </button>
+        <button type="button" class="btn btn-outline" id="recorderCancelBtn">
+          Cancel
+        </button>
+      </div>
+    `;
+  }
+
+  private setupHandlers(): void {
+    const cameraSelect = this.overlay?.querySelector('#recorderCamera') as HTMLSelectElement | null;
+    const micSelect = this.overlay?.querySelector('#recorderMic') as HTMLSelectElement | null;
+
+    cameraSelect?.addEventListener('change', () => this.startStream());
+    micSelect?.addEventListener('change', () => this.startStream());
+
+    this.overlay?.querySelector('#recorderStartBtn')?.addEventListener('click', () => this.startCountdown());
+    this.overlay?.querySelector('#recorderStopBtn')?.addEventListener('click', () => this.stopRecording());
+    this.overlay?.querySelector('#recorderUseBtn')?.addEventListener('click', () => this.useRecording());
+    this.overlay?.querySelector('#recorderRetakeBtn')?.addEventListener('click', () => this.retake());
+    this.overlay?.querySelector('#recorderCancelBtn')?.addEventListener('click', () => this.hide());
+  }
+
+  /**
+   * (Re)open the camera/mic stream with the selected devices and show it live
+   */
+  private async startStream(): Promise<boolean> {
+    const cameraSelect = this.overlay?.querySelector('#recorderCamera') as HTMLSelectElement | null;
+    const micSelect = this.overlay?.querySelector('#recorderMic') as HTMLSelectElement | null;
+    const cameraId = cameraSelect?.value;
+    const micId = micSelect?.value;
+
+    this.stopStream();
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        video: cameraId ? { deviceId: { exact: cameraId } } : true,
+        audio: micId ? { deviceId: { exact: micId } } : true
+      });
+    } catch (error) {
+      console.error('Camera access failed:', error);
+      toast.error(
+        error instanceof DOMException && error.name === 'NotAllowedError'
+          ? 'Camera and microphone access was denied'
+          : 'Could not start the camera'
+      );
+      this.hide();
+      return false;
+    }
+
+    this.showLivePreview();
+    return true;
+  }
+
+  private stopStream(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  /**
+   * Fill the device pickers. Labels are only exposed after permission is granted.
+   */
+  private async populateDevices(): Promise<void> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const activeCamera = this.stream?.getVideoTracks()[0]?.getSettings().deviceId;
+    const activeMic = this.stream?.getAudioTracks()[0]?.getSettings().deviceId;
+
+    this.fillSelect('#recorderCamera', devices.filter(d => d.kind === 'videoinput'), activeCamera, 'Camera');
+    this.fillSelect('#recorderMic', devices.filter(d => d.kind === 'audioinput'), activeMic, 'Microphone');
+  }
+
+  private fillSelect(
+    selector: string,
+    devices: MediaDeviceInfo[],
+    activeId: string | undefined,
+    fallbackLabel: string
+  ): void {
+    const select = this.overlay?.querySelector(selector) as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.innerHTML = '';
+    devices.forEach((device, index) => {
+      const option = document.createElement('option');
+      option.value = device.deviceId;
+      // Device labels come from the OS; set as text, not HTML
+      option.textContent = device.label || `${fallbackLabel} ${index + 1}`;
+      option.selected = device.deviceId === activeId;
+      select.appendChild(option);
+    });
+  }
+
+  private showLivePreview(): void {
+    const preview = this.overlay?.querySelector('#recorderPreview') as HTMLVideoElement | null;
+    if (!preview || !this.stream) return;
+
+    preview.removeAttribute('src');
+    preview.controls = false;
+    preview.muted = true;
+    preview.srcObject = this.stream;
+  }
+
+  private startCountdown(): void {
+    if (!this.stream || this.state !== 'idle') return;
+
+    const countdownEl = this.overlay?.querySelector('#recorderCountdown') as HTMLElement | null;
+    let remaining = COUNTDOWN_SECONDS;
+
+    this.state = 'countdown';
+    this.updateControls();
+
+    if (countdownEl) {
+      countdownEl.textContent = remaining.toString();
+      countdownEl.style.display = 'flex';
+    }
+
+    this.timerInterval = window.setInterval(() => {
+      remaining--;
+
+      if (remaining > 0) {
+        if (countdownEl) countdownEl.textContent = remaining.toString();
+        return;
+      }
+
+      this.clearTimers();
+      if (countdownEl) countdownEl.style.display = 'none';
+      this.startRecording();
+    }, 1000);
+  }
+
+  private startRecording(): void {
+    if (!this.stream) return;
+
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+    try {
+      this.recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      console.error('MediaRecorder failed:', error);
+      toast.error('Could not start recording');
+      this.state = 'idle';
+      this.updateControls();
+      return;
+    }
+
+    this.chunks = [];
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.onstop = () => this.finishRecording();
+
+    this.recorder.start(1000);
+    this.startedAt = Date.now();
+    this.state = 'recording';
+    this.updateControls();
+
+    // Enforce the limit live: tick the timer and stop automatically
+    this.timerInterval = window.setInterval(() => this.updateTimer(), 250);
+    this.stopTimeout = window.setTimeout(() => {
+      toast.info(`Recording stopped at the ${formatDuration(MAX_VIDEO_DURATION_SECONDS)} limit`);
+      this.stopRecording();
+    }, MAX_VIDEO_DURATION_SECONDS * 1000 - STOP_MARGIN_MS);
+  }
+
+  private stopRecording(): void {
+    this.clearTimers();
+
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+  }
+
+  private finishRecording(): void {
+    const mimeType = this.recorder?.mimeType || 'video/webm';
+
+    this.recording = new Blob(this.chunks, { type: mimeType.split(';')[0] });
+    this.chunks = [];
+    this.recorder = null;
+    this.state = 'review';
+
+    // Play back the take instead of the live camera
+    const preview = this.overlay?.querySelector('#recorderPreview') as HTMLVideoElement | null;
+    if (preview) {
+      this.recordingUrl = URL.createObjectURL(this.recording);
+      preview.srcObject = null;
+      preview.src = this.recordingUrl;
+      preview.muted = false;
+      preview.controls = true;
+    }
+
+    this.updateControls();
+  }
+
+  private retake(): void {
+    this.discardRecording();
+    this.state = 'idle';
+    this.updateTimer();
+    this.showLivePreview();
+    this.updateControls();
+  }
+
+  private useRecording(): void {
+    if (!this.recording) return;
+
+    const type = this.recording.type || 'video/webm';
+    const extension = type === 'video/mp4' ? 'mp4' : 'webm';
+    const file = new File([this.recording], `recording-${Date.now()}.${extension}`, {
+      type,
+      lastModified: Date.now()
+    });
+
+    const callback = this.onRecordedCallback;
+    this.hide();
+    callback?.(file);
+  }
+
+  private discardRecording(): void {
+    if (this.recordingUrl) {
+      URL.revokeObjectURL(this.recordingUrl);
+    }
+    this.recordingUrl = null;
+    this.recording = null;
+  }
+
+  private updateTimer(): void {
+    const timerEl = this.overlay?.querySelector('#recorderTimer');
+    if (!timerEl) return;
+
+    const elapsed = this.state === 'recording'
+      ? Math.min((Date.now() - this.startedAt) / 1000, MAX_VIDEO_DURATION_SECONDS)
+      : 0;
+
+    timerEl.textContent = `${formatDuration(Math.floor(elapsed))} / ${formatDuration(MAX_VIDEO_DURATION_SECONDS)}`;
+  }
+
+  /**
+   * Show only the buttons that apply to the current state
+   */
+  private updateControls(): void {
+    const visible: Record<string, RecorderState[]> = {
+      '#recorderStartBtn': ['idle'],
+      '#recorderStopBtn': ['recording'],
+      '#recorderUseBtn': ['review'],
+      '#recorderRetakeBtn': ['review']
+    };
+
+    Object.entries(visible).forEach(([selector, states]) => {
+      const button = this.overlay?.querySelector(selector) as HTMLElement | null;
+      if (button) button.style.display = states.includes(this.state) ? '' : 'none';
+    });
+
+    const indicator = this.overlay?.querySelector('#recorderIndicator') as HTMLElement | null;
+    if (indicator) indicator.style.display = this.state === 'recording' ? '' : 'none';
+
+    // Switching devices mid-take would end the recorded tracks
+    const locked = this.state !== 'idle';
+    this.overlay?.querySelectorAll<HTMLSelectElement>('.recorder-devices select').forEach(select => {
+      select.disabled = locked;
+    });
+  }
+
+  private clearTimers(): void {
+    if (this.timerInterval !== null) {
+      clearInterval(this.timerInterval);
+      this.timerInterval = null;
+    }
+    if (this.stopTimeout !== null) {
+      clearTimeout(this.stopTimeout);
+      this.stopTimeout = null;
+    }
+  }
+}
+
+export const videoRecorder = new VideoRecorder();
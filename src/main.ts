@@ -5,6 +5,26 @@ import { toast } from './components/toast';
 
 // Initialize the application
 function init(): void {
+  // Public recipient view (/m/:token) replaces the app for unauthenticated readers
+  if (handleRecipientRoute()) {
+    return;
+  }
+
+  // Dead man's switch check-in (/checkin/:token) from a reminder email
+  if (handleCheckinRoute()) {
+    return;
+  }
+
+  // Gift claim link (/gift/:token) from a delivery email
+  if (handleGiftRoute()) {
+    return;
+  }
+
+  // Shared capsule invitation link (/join/:token)
+  if (handleJoinRoute()) {
+    return;
+  }
+
   // Initialize form handler
   formHandler.init();
 
@@ -62,13 +82,22 @@ function updateAuthUI(isLoggedIn: boolean, isPro: boolean): void {
           PRO
         </span>
       ` : ''}
+      <button id="notificationSettingsBtn" style="background: none; border: none; font-family: inherit; font-weight: 700; cursor: pointer; text-decoration: underline;">
+        Emails
+      </button>
       <button id="signOutBtn" style="background: none; border: none; font-family: inherit; font-weight: 700; cursor: pointer; text-decoration: underline;">
         Sign Out
       </button>
     `;
 
-    // Add sign out handler after insertion
+    // Add handlers after insertion
     setTimeout(() => {
+      document.getElementById('notificationSettingsBtn')?.addEventListener('click', () => {
+        import('./components/notification-settings').then(({ notificationSettings }) => {
+          notificationSettings.show();
+        });
+      });
+
       document.getElementById('signOutBtn')?.addEventListener('click', async () => {
         await authService.signOut();
         toast.info('Signed out');
@@ -93,6 +122,66 @@ function updateAuthUI(isLoggedIn: boolean, isPro: boolean): void {
   navInner.appendChild(authBtn);
 }
 
+/**
+ * Render the recipient view if the URL is a delivery link.
+ * Returns true when the route was handled.
+ */
+function handleRecipientRoute(): boolean {
+  const match = window.location.pathname.match(/^\/m\/([0-9a-f-]{36})\/?$/i);
+  if (!match) return false;
+
+  import('./components/recipient-view').then(({ recipientView }) => {
+    recipientView.show(match[1]);
+  });
+
+  return true;
+}
+
+/**
+ * Render the check-in view if the URL is a reminder email link.
+ * Returns true when the route was handled.
+ */
+function handleCheckinRoute(): boolean {
+  const match = window.location.pathname.match(/^\/checkin\/([0-9a-f-]{36})\/?$/i);
+  if (!match) return false;
+
+  import('./components/checkin-view').then(({ checkinView }) => {
+    checkinView.show(match[1]);
+  });
+
+  return true;
+}
+
+/**
+ * Render the gift claim view if the URL is a gift claim link.
+ * Returns true when the route was handled.
+ */
+function handleGiftRoute(): boolean {
+  const match = window.location.pathname.match(/^\/gift\/([0-9a-f-]{36})\/?$/i);
+  if (!match) return false;
+
+  import('./components/gift-view').then(({ giftView }) => {
+    giftView.show(match[1]);
+  });
+
+  return true;
+}
+
+/**
+ * Render the invitation view if the URL is a shared capsule join link.
+ * Returns true when the route was handled.
+ */
+function handleJoinRoute(): boolean {
+  const match = window.location.pathname.match(/^\/join\/([0-9a-f-]{36})\/?$/i);
+  if (!match) return false;
+
+  import('./components/join-view').then(({ joinView }) => {
+    joinView.show(match[1]);
+  });
+
+  return true;
+}
+
 /**
  * Handle redirect from Stripe checkout
  */
@@ -100,7 +189,12 @@ function handleStripeRedirect(): void {
   const urlParams = new URLSearchParams(window.location.search);
 
   if (urlParams.has('success')) {
-    toast.success('Payment successful! You are now a Pro user.');
+    const product = urlParams.get('product');
+    toast.success(product === 'gift_capsule'
+      ? 'Payment successful! You can now send a gift capsule.'
+      : product === 'storage_addon'
+        ? 'Payment successful! Your storage has been increased.'
+        : 'Payment successful! You are now a Pro user.');
     // Clean up URL
     window.history.replaceState({}, document.title, window.location.pathname);
     // Refresh profile to get updated tier
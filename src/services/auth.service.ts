@@ -1,4 +1,5 @@
 import { supabase } from '../config/supabase';
+import { FREE_AUDIO_LIMIT_BYTES } from '../utils/video-duration';
 import type { Profile } from '../types/database';
 import type { User, Session } from '@supabase/supabase-js';
 
@@ -8,6 +9,14 @@ export interface AuthState {
   session: Session | null;
 }
 
+// Sender notification emails, each on or off (profiles.notify_*)
+export interface NotificationPreferences {
+  scheduled: boolean;
+  delivered: boolean;
+  failed: boolean;
+  upcoming: boolean;
+}
+
 class AuthService {
   private currentUser: User | null = null;
   private currentProfile: Profile | null = null;
@@ -125,12 +134,21 @@ class AuthService {
     return this.currentProfile?.free_message_used ?? false;
   }
 
+  /**
+   * Get storage limit in bytes. Free users get the voice-note allowance.
+   */
+  getStorageLimit(): number {
+    if (!this.currentProfile) return 0;
+    const limit = this.currentProfile.storage_limit_bytes;
+    return this.currentProfile.tier === 'pro' ? limit : Math.max(limit, FREE_AUDIO_LIMIT_BYTES);
+  }
+
   /**
    * Get remaining storage in bytes
    */
   getRemainingStorage(): number {
     if (!this.currentProfile) return 0;
-    return this.currentProfile.storage_limit_bytes - this.currentProfile.storage_used_bytes;
+    return this.getStorageLimit() - this.currentProfile.storage_used_bytes;
   }
 
   /**
@@ -190,6 +208,39 @@ class AuthService {
     return { error: null };
   }
 
+  /**
+   * Current notification preferences; everything is on until changed
+   */
+  getNotificationPreferences(): NotificationPreferences {
+    const profile = this.currentProfile;
+    return {
+      scheduled: profile?.notify_scheduled ?? true,
+      delivered: profile?.notify_delivered ?? true,
+      failed: profile?.notify_failed ?? true,
+      upcoming: profile?.notify_upcoming ?? true,
+    };
+  }
+
+  /**
+   * Turn sender notification emails on or off (profiles are not
+   * client-writable, so this goes through an RPC)
+   */
+  async updateNotificationPreferences(preferences: NotificationPreferences): Promise<{ error: string | null }> {
+    const { error } = await supabase.rpc('set_notification_preferences', {
+      p_scheduled: preferences.scheduled,
+      p_delivered: preferences.delivered,
+      p_failed: preferences.failed,
+      p_upcoming: preferences.upcoming,
+    });
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    await this.refreshProfile();
+    return { error: null };
+  }
+
   /**
    * Refresh profile data from database
    */
@@ -0,0 +1,330 @@
+import { supabase } from '../config/supabase';
+import { authService } from './auth.service';
+import { videoService } from './video.service';
+import { getRuleViolationMessage } from './message.service';
+import { validateCapsuleEntry, isValidEmail } from '../utils/validation';
+import type { MediaKind } from '../utils/video-duration';
+import type { CapsuleEntry, CapsuleInvitation, CapsuleMember, SharedCapsule } from '../types/database';
+
+export type CapsuleRole = CapsuleMember['role'];
+
+export interface CapsuleEntryData {
+  authorName: string;
+  entryText: string;
+  // undefined keeps the current attachment (edits), null removes it, a path replaces it
+  videoStoragePath?: string | null;
+  videoSizeBytes?: number;
+  videoDurationSeconds?: number;
+  mediaKind?: MediaKind;
+}
+
+export interface CapsuleEntryResult {
+  success: boolean;
+  entry?: CapsuleEntry;
+  error?: string;
+}
+
+export interface InviteResult {
+  success: boolean;
+  // Join link to share with the invitee
+  link?: string;
+  error?: string;
+}
+
+/**
+ * Join link for an invitation token
+ */
+export function buildJoinLink(token: string): string {
+  return `${window.location.origin}/join/${token}`;
+}
+
+class CapsuleService {
+  /**
+   * Owner and members of a capsule, owner first. Empty if the current user
+   * is not part of it.
+   */
+  async getMembers(messageId: string): Promise<CapsuleMember[]> {
+    const { data, error } = await supabase.rpc('list_capsule_members', { p_message_id: messageId });
+
+    if (error) {
+      console.error('Error fetching capsule members:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Pending invitations of a capsule (owner and organizers only), oldest first
+   */
+  async getInvitations(messageId: string): Promise<CapsuleInvitation[]> {
+    const { data, error } = await supabase
+      .from('capsule_invitations')
+      .select('*')
+      .eq('message_id', messageId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching invitations:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Invite someone by email. Inviting the same address again changes the
+   * role and returns the same link.
+   */
+  async invite(messageId: string, email: string, role: 'organizer' | 'contributor'): Promise<InviteResult> {
+    if (!isValidEmail(email)) {
+      return { success: false, error: 'Please enter a valid email address' };
+    }
+
+    const { data, error } = await supabase.rpc('invite_capsule_member', {
+      p_message_id: messageId,
+      p_email: email.trim().toLowerCase(),
+      p_role: role,
+    });
+
+    if (error) {
+      console.error('Error inviting member:', error);
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to create the invitation. Please try again.' };
+    }
+
+    return { success: true, link: buildJoinLink(data) };
+  }
+
+  /**
+   * Withdraw a pending invitation; its link stops working
+   */
+  async revokeInvitation(invitationId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('revoke_capsule_invitation', { p_invitation_id: invitationId });
+
+    if (error) {
+      console.error('Error revoking invitation:', error);
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to withdraw the invitation' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Join the capsule behind an invitation link as the current user.
+   * Returns the message id.
+   */
+  async acceptInvitation(token: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const { data, error } = await supabase.rpc('accept_capsule_invitation', { p_token: token });
+
+    if (error) {
+      console.error('Error accepting invitation:', error);
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to join the capsule. Please try again.' };
+    }
+
+    return { success: true, messageId: data };
+  }
+
+  /**
+   * Remove a member (or leave, with the current user's id). Their entries
+   * are deleted with them.
+   */
+  async removeMember(messageId: string, userId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('remove_capsule_member', {
+      p_message_id: messageId,
+      p_user_id: userId,
+    });
+
+    if (error) {
+      console.error('Error removing member:', error);
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to remove the member' };
+    }
+
+    // Leaving releases the storage of the user's own entries
+    if (userId === authService.getUser()?.id) {
+      await authService.refreshProfile();
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Capsules the current user was invited to (not their own), by lock date
+   */
+  async getSharedCapsules(): Promise<SharedCapsule[]> {
+    const { data, error } = await supabase.rpc('list_shared_capsules', {});
+
+    if (error) {
+      console.error('Error fetching shared capsules:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Entries of a capsule the current user may see (RLS): all of them for
+   * the owner and organizers, only their own for contributors until unlock
+   */
+  async getEntries(messageId: string): Promise<CapsuleEntry[]> {
+    const { data, error } = await supabase
+      .from('capsule_entries')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching capsule entries:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Add an entry as the current user. Tier, quota and the lock date are
+   * enforced by trigger; storage is charged to the current user.
+   */
+  async addEntry(messageId: string, data: CapsuleEntryData): Promise<CapsuleEntryResult> {
+    const user = authService.getUser();
+
+    if (!user) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const validationError = validateCapsuleEntry(data.authorName, data.entryText, !!data.videoStoragePath);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const { data: entry, error } = await supabase
+      .from('capsule_entries')
+      .insert({
+        message_id: messageId,
+        user_id: user.id,
+        author_name: data.authorName.trim(),
+        entry_text: data.entryText.trim(),
+        video_storage_path: data.videoStoragePath || null,
+        video_size_bytes: data.videoSizeBytes || 0,
+        video_duration_seconds: data.videoDurationSeconds || 0,
+        media_kind: data.videoStoragePath ? data.mediaKind ?? null : null,
+      })
+      .select()
+      .single();
+
+    if (error || !entry) {
+      console.error('Error adding entry:', error);
+      if (data.videoStoragePath) {
+        await this.removeObject(data.videoStoragePath);
+      }
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to add your entry. Please try again.' };
+    }
+
+    if (data.videoStoragePath) {
+      await authService.refreshProfile();
+    }
+
+    return { success: true, entry };
+  }
+
+  /**
+   * Update one of the current user's entries. A replaced or removed
+   * attachment is deleted from storage after the update succeeds; a newly
+   * uploaded one is deleted if it fails.
+   */
+  async updateEntry(entry: CapsuleEntry, data: CapsuleEntryData): Promise<CapsuleEntryResult> {
+    const nextPath = data.videoStoragePath === undefined ? entry.video_storage_path : data.videoStoragePath;
+    const isNewUpload = !!data.videoStoragePath && data.videoStoragePath !== entry.video_storage_path;
+
+    const validationError = validateCapsuleEntry(data.authorName, data.entryText, !!nextPath);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const update: Partial<CapsuleEntry> = {
+      author_name: data.authorName.trim(),
+      entry_text: data.entryText.trim(),
+    };
+
+    if (data.videoStoragePath !== undefined) {
+      update.video_storage_path = data.videoStoragePath;
+      update.video_size_bytes = data.videoStoragePath ? data.videoSizeBytes || 0 : 0;
+      update.video_duration_seconds = data.videoStoragePath ? data.videoDurationSeconds || 0 : 0;
+      update.media_kind = data.videoStoragePath ? data.mediaKind ?? null : null;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('capsule_entries')
+      .update(update)
+      .eq('id', entry.id)
+      .select()
+      .single();
+
+    if (error || !updated) {
+      console.error('Error updating entry:', error);
+      if (isNewUpload) {
+        await this.removeObject(data.videoStoragePath!);
+      }
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to save your entry. Please try again.' };
+    }
+
+    if (entry.video_storage_path && entry.video_storage_path !== nextPath) {
+      await this.removeObject(entry.video_storage_path);
+    }
+
+    if (data.videoStoragePath !== undefined) {
+      await authService.refreshProfile();
+    }
+
+    return { success: true, entry: updated };
+  }
+
+  /**
+   * Delete an entry (own entries, or any entry as owner/organizer). The
+   * attachment object is removed here only for the current user's own
+   * entries; others' are collected by gc-videos.
+   */
+  async deleteEntry(entry: CapsuleEntry): Promise<{ success: boolean; error?: string }> {
+    const { data: deleted, error } = await supabase
+      .from('capsule_entries')
+      .delete()
+      .eq('id', entry.id)
+      .select('id');
+
+    if (error || !deleted || deleted.length === 0) {
+      console.error('Error deleting entry:', error);
+      return { success: false, error: 'Entry not found or the capsule is locked' };
+    }
+
+    if (entry.video_storage_path && entry.user_id === authService.getUser()?.id) {
+      await this.removeObject(entry.video_storage_path);
+      await authService.refreshProfile();
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Signed URL for an entry attachment the current user may see
+   */
+  async getEntryMediaUrl(entry: CapsuleEntry): Promise<string | null> {
+    return entry.video_storage_path ? videoService.getSignedUrl(entry.video_storage_path) : null;
+  }
+
+  /**
+   * Best-effort removal of an uploaded attachment; failures are left to gc-videos
+   */
+  private async removeObject(path: string): Promise<void> {
+    const { error } = await supabase.storage.from('message-videos').remove([path]);
+
+    if (error) {
+      console.error(JSON.stringify({
+        event: 'ENTRY_VIDEO_DELETE_FAILED',
+        video_storage_path: path,
+        error: error.message,
+      }));
+    }
+  }
+}
+
+export const capsuleService = new CapsuleService();
@@ -0,0 +1,201 @@
+import { supabase } from '../config/supabase';
+import { authService } from './auth.service';
+import { validateImage, createThumbnail, MAX_IMAGES_PER_MESSAGE } from '../utils/image-thumbnail';
+import { encryptFile } from '../utils/e2e-crypto';
+import type { MessageImage } from '../types/database';
+
+const IMAGE_BUCKET = 'message-images';
+
+export interface UploadedImage {
+  path: string;
+  thumbnailPath: string;
+  // Original plus thumbnail, as counted against storage
+  size: number;
+  width: number;
+  height: number;
+  // Object URL of the thumbnail for previews; revoke when discarded
+  previewUrl: string;
+}
+
+export interface ImageUploadResult {
+  success: boolean;
+  images?: UploadedImage[];
+  error?: string;
+  quotaExceeded?: boolean;
+}
+
+export interface SignedImage {
+  url: string;
+  thumbnailUrl: string;
+}
+
+class ImageService {
+  /**
+   * Validate, thumbnail and upload photos (Pro only). existingCount is the
+   * number of photos already attached, for the per-message limit;
+   * reclaimableBytes is storage freed by photos being removed in the same
+   * edit. With encryptionKey, original and thumbnail are encrypted before
+   * upload. Nothing stays uploaded if any photo fails.
+   */
+  async uploadImages(
+    files: File[],
+    existingCount: number = 0,
+    reclaimableBytes: number = 0,
+    onProgress?: (uploaded: number, total: number) => void,
+    encryptionKey?: CryptoKey
+  ): Promise<ImageUploadResult> {
+    const user = authService.getUser();
+    const profile = authService.getProfile();
+
+    if (!user || !profile) {
+      return { success: false, error: 'You must be logged in to upload photos' };
+    }
+
+    if (profile.tier !== 'pro') {
+      return { success: false, error: 'Photo attachments are only available for Pro users' };
+    }
+
+    if (existingCount + files.length > MAX_IMAGES_PER_MESSAGE) {
+      return { success: false, error: `A message can have at most ${MAX_IMAGES_PER_MESSAGE} photos.` };
+    }
+
+    for (const file of files) {
+      const validation = validateImage(file);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+    }
+
+    let thumbnails;
+    try {
+      thumbnails = await Promise.all(files.map(file => createThumbnail(file)));
+    } catch (err) {
+      console.error('Thumbnail error:', err);
+      return { success: false, error: 'Could not read one of the photos. Please try another.' };
+    }
+
+    const totalBytes = files.reduce((sum, file, i) => sum + file.size + thumbnails[i].blob.size, 0);
+    if (totalBytes > authService.getRemainingStorage() + reclaimableBytes) {
+      return { success: false, error: 'Not enough storage remaining for these photos.', quotaExceeded: true };
+    }
+
+    const uploaded: UploadedImage[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const thumbnail = thumbnails[i];
+      const id = crypto.randomUUID();
+      const fileExt = encryptionKey ? 'enc' : file.name.split('.').pop()?.toLowerCase() || 'jpg';
+      const path = `${user.id}/${id}.${fileExt}`;
+      const thumbnailPath = `${user.id}/${id}_thumb.${encryptionKey ? 'enc' : 'jpg'}`;
+
+      const imageBody = encryptionKey ? await encryptFile(encryptionKey, file, `${id}.enc`) : file;
+      const thumbnailBody = encryptionKey
+        ? await encryptFile(encryptionKey, thumbnail.blob, `${id}_thumb.enc`)
+        : thumbnail.blob;
+
+      const { error: imageError } = await supabase.storage
+        .from(IMAGE_BUCKET)
+        .upload(path, imageBody, { contentType: imageBody.type, upsert: false });
+
+      const { error: thumbnailError } = imageError
+        ? { error: null }
+        : await supabase.storage
+          .from(IMAGE_BUCKET)
+          .upload(thumbnailPath, thumbnailBody, { contentType: thumbnailBody.type, upsert: false });
+
+      if (imageError || thumbnailError) {
+        console.error('Photo upload error:', imageError || thumbnailError);
+        await this.discardUploads([...uploaded, { path, thumbnailPath }]);
+        return { success: false, error: 'Failed to upload photos. Please try again.' };
+      }
+
+      uploaded.push({
+        path,
+        thumbnailPath,
+        size: imageBody.size + thumbnailBody.size,
+        width: thumbnail.width,
+        height: thumbnail.height,
+        previewUrl: URL.createObjectURL(thumbnail.blob),
+      });
+
+      onProgress?.(i + 1, files.length);
+    }
+
+    return { success: true, images: uploaded };
+  }
+
+  /**
+   * Remove uploaded photos that no message references (cancelled form,
+   * failed create/update). Returns the storage error message, if any.
+   */
+  async discardUploads(images: { path: string; thumbnailPath: string; previewUrl?: string }[]): Promise<string | null> {
+    if (images.length === 0) return null;
+
+    images.forEach(image => {
+      if (image.previewUrl) URL.revokeObjectURL(image.previewUrl);
+    });
+
+    return this.removeObjects(images.flatMap(image => [image.path, image.thumbnailPath]));
+  }
+
+  /**
+   * Photos attached to a message owned by the current user, in display order
+   */
+  async getImages(messageId: string): Promise<MessageImage[]> {
+    const { data, error } = await supabase
+      .from('message_images')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching photos:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Signed URLs for the originals and thumbnails of a message's photos
+   */
+  async getSignedUrls(images: MessageImage[], expiresIn: number = 3600): Promise<SignedImage[]> {
+    if (images.length === 0) return [];
+
+    const paths = images.flatMap(image => [image.storage_path, image.thumbnail_path]);
+    const { data, error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .createSignedUrls(paths, expiresIn);
+
+    if (error || !data) {
+      console.error('Signed URL error:', error);
+      return [];
+    }
+
+    const urls = new Map(data.map(entry => [entry.path, entry.signedUrl]));
+
+    return images
+      .map(image => ({
+        url: urls.get(image.storage_path) || '',
+        thumbnailUrl: urls.get(image.thumbnail_path) || '',
+      }))
+      .filter(image => image.url && image.thumbnailUrl);
+  }
+
+  /**
+   * Delete photo objects from storage. Rows are removed separately
+   * (usage is released by trigger when the row goes).
+   */
+  async removeObjects(paths: string[]): Promise<string | null> {
+    if (paths.length === 0) return null;
+
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .remove(paths);
+
+    return error ? error.message : null;
+  }
+}
+
+export const imageService = new ImageService();
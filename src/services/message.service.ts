@@ -1,22 +1,152 @@
 import { supabase } from '../config/supabase';
 import { authService } from './auth.service';
-import type { Message } from '../types/database';
+import { imageService } from './image.service';
+import type { UploadedImage, SignedImage } from './image.service';
+import { validateForm } from '../utils/validation';
+import { encryptText, exportMessageKey, saveMessageKey, buildPrivateLink } from '../utils/e2e-crypto';
+import type { MediaKind } from '../utils/video-duration';
+import type { Recurrence } from '../utils/recurrence';
+import type { CheckinSchedule } from '../utils/checkin';
+import type { EmailLocale } from '../utils/email-locale';
+import type { Message, MessageOccurrence, MessageRecipient, ReceivedGift } from '../types/database';
 
 export interface CreateMessageData {
   messageText: string;
-  scheduledDate: string;
-  deliveryEmail: string;
+  // ISO timestamp of the exact delivery instant
+  deliverAt: string;
+  // Sender's IANA time zone, used to derive scheduled_date for display
+  timezone: string;
+  // First address is stored as messages.delivery_email (primary recipient)
+  deliveryEmails: string[];
+  // Attachment (video or voice note); the video_* names predate audio
   videoStoragePath?: string;
   videoSizeBytes?: number;
   videoDurationSeconds?: number;
+  mediaKind?: MediaKind;
+  // Photos already uploaded to message-images (Pro only)
+  images?: UploadedImage[];
+  // End-to-end encryption: messageText is encrypted here; attachments must
+  // already be encrypted with the same key
+  encryptionKey?: CryptoKey;
+  // Required to read the message after unlock; hashed server-side
+  passphrase?: string;
+  passphraseHint?: string;
+  // Repeat after the first delivery (birthdays, anniversaries)
+  recurrence?: Recurrence | null;
+  // Dead man's switch: deliver when check-ins stop instead of at deliverAt
+  checkin?: CheckinSchedule | null;
+  // Spend a gift credit: no free message used, recipient can claim it
+  gift?: boolean;
+  // Delivery email wording; blank subject/sign-off use the defaults
+  emailSubject?: string;
+  emailSignOff?: string;
+  emailLocale?: EmailLocale;
 }
 
 export interface CreateMessageResult {
   success: boolean;
   message?: Message;
+  // Encrypted messages only: recipient link with the key in its fragment
+  privateLink?: string;
   error?: string;
 }
 
+export interface UpdateMessageData {
+  messageText: string;
+  deliverAt: string;
+  timezone: string;
+  deliveryEmails: string[];
+  // undefined keeps the current video, null removes it, a path replaces it
+  videoStoragePath?: string | null;
+  videoSizeBytes?: number;
+  videoDurationSeconds?: number;
+  mediaKind?: MediaKind;
+  // Photos uploaded for this edit, appended after the existing ones
+  newImages?: UploadedImage[];
+  // message_images ids to detach and delete
+  removeImageIds?: string[];
+  // Required for encrypted messages; the text is re-encrypted with it
+  encryptionKey?: CryptoKey;
+  // New passphrase, or null to remove it; undefined keeps the current one
+  passphrase?: string | null;
+  // Applied when the message keeps or gets a passphrase
+  passphraseHint?: string;
+  // New repeat rule, or null to stop repeating; undefined keeps the current one
+  recurrence?: Recurrence | null;
+  // New interval/grace period of a check-in message (deadline recomputed server-side)
+  checkin?: CheckinSchedule;
+  // Delivery email wording; undefined keeps the current value, blank clears it
+  emailSubject?: string;
+  emailSignOff?: string;
+  emailLocale?: EmailLocale;
+}
+
+export type UpdateMessageResult = CreateMessageResult;
+
+export interface SharedCapsuleEntry {
+  authorName: string;
+  text: string;
+  mediaKind: MediaKind | null;
+  // Signed attachment URL; null without an attachment or if it could not be signed
+  mediaUrl: string | null;
+}
+
+export interface SharedMessage {
+  locked: boolean;
+  // Text, attachment and photos are ciphertext; decrypt with the link key
+  encrypted?: boolean;
+  deliverAt: string;
+  timezone: string;
+  // Unlocked but withheld until the passphrase is given
+  passphraseRequired?: boolean;
+  passphraseHint?: string | null;
+  passphraseError?: string;
+  messageText?: string;
+  hasVideo?: boolean;
+  mediaKind?: MediaKind | null;
+  videoUrl?: string | null;
+  images?: SignedImage[];
+  // Shared capsule: contributors' entries, oldest first
+  entries?: SharedCapsuleEntry[];
+  deliveredAt?: string | null;
+}
+
+export interface SharedMessageResult {
+  success: boolean;
+  message?: SharedMessage;
+  error?: string;
+}
+
+export interface CheckinLinkState {
+  // Armed switches of the sender that were reset
+  checkedIn: number;
+  // The link's own switch had already fired
+  triggered: boolean;
+  nextCheckinDueAt: string | null;
+  timezone: string;
+}
+
+export interface CheckinLinkResult {
+  success: boolean;
+  checkin?: CheckinLinkState;
+  error?: string;
+}
+
+/**
+ * User-facing text for rules raised by create_message / message triggers
+ * (RAISE EXCEPTION → P0001). Other database errors stay generic.
+ */
+export function getRuleViolationMessage(error: { code?: string; message: string } | null): string | null {
+  return error?.code === 'P0001' ? error.message : null;
+}
+
+/**
+ * Custom subject as stored: one line, null when blank (default subject)
+ */
+function toEmailSubject(subject: string | undefined): string | null {
+  return subject?.replace(/\s+/g, ' ').trim() || null;
+}
+
 class MessageService {
   /**
    * Create a new message
@@ -29,78 +159,86 @@ class MessageService {
       return { success: false, error: 'You must be logged in to send a message' };
     }
 
-    // Check tier restrictions
+    // Fast client-side feedback; create_message re-checks everything server-side
+    if (data.gift && profile.gift_credits < 1) {
+      return {
+        success: false,
+        error: 'You have no gift capsules left. Buy one to send this message as a gift.'
+      };
+    }
+
     if (profile.tier === 'free') {
-      // Free users can only send 1 message
-      if (profile.free_message_used) {
+      // Free users can only send 1 message; a gift is paid for separately
+      if (profile.free_message_used && !data.gift) {
         return {
           success: false,
           error: 'You have already used your free message. Upgrade to Pro for unlimited messages.'
         };
       }
 
-      // Free users cannot attach videos
-      if (data.videoStoragePath) {
+      // Free users can attach voice notes, not videos
+      if (data.videoStoragePath && data.mediaKind !== 'audio') {
         return {
           success: false,
           error: 'Video attachments are only available for Pro users.'
         };
       }
+
+      if (data.images?.length) {
+        return {
+          success: false,
+          error: 'Photo attachments are only available for Pro users.'
+        };
+      }
+
+      if (data.videoStoragePath && data.encryptionKey) {
+        return {
+          success: false,
+          error: 'Encrypted attachments are only available for Pro users.'
+        };
+      }
     }
 
-    // Insert the message
-    const { data: message, error } = await supabase
-      .from('messages')
-      .insert({
-        user_id: user.id,
-        message_text: data.messageText,
-        scheduled_date: data.scheduledDate,
-        delivery_email: data.deliveryEmail,
+    const messageText = data.encryptionKey
+      ? await encryptText(data.encryptionKey, data.messageText.trim())
+      : data.messageText;
+
+    // Tier check, free-message lock, insert, recipients and storage accounting in one transaction
+    const { data: message, error } = await supabase.rpc('create_message', {
+      p_message_text: messageText,
+      p_deliver_at: data.deliverAt,
+      p_timezone: data.timezone,
+      p_delivery_emails: data.deliveryEmails,
+      p_options: {
         video_storage_path: data.videoStoragePath || null,
         video_size_bytes: data.videoSizeBytes || 0,
-        video_duration_seconds: data.videoDurationSeconds || 0,
-        status: 'pending'
-      })
-      .select()
-      .single();
+        video_duration_seconds: Math.round(data.videoDurationSeconds || 0),
+        media_kind: data.mediaKind || 'video',
+        images: (data.images || []).map(image => ({
+          storage_path: image.path,
+          thumbnail_path: image.thumbnailPath,
+          width: image.width,
+          height: image.height,
+        })),
+        encrypted: !!data.encryptionKey,
+        passphrase: data.passphrase?.trim() || null,
+        passphrase_hint: data.passphraseHint?.trim() || null,
+        recurrence_months: data.recurrence?.months ?? null,
+        recurrence_count: data.recurrence?.count ?? null,
+        checkin_interval_days: data.checkin?.intervalDays ?? null,
+        checkin_grace_days: data.checkin?.graceDays ?? null,
+        gift: data.gift ?? false,
+        email_subject: toEmailSubject(data.emailSubject),
+        email_sign_off: data.emailSignOff?.trim() || null,
+        email_locale: data.emailLocale ?? 'en',
+      },
+    });
 
-    if (error) {
+    if (error || !message) {
       console.error('Error creating message:', error);
-      return { success: false, error: 'Failed to create message. Please try again.' };
-    }
-
-    // If free tier, mark free message as used with optimistic locking
-    if (!profile.tier || profile.tier === 'free') {
-      const { data: updated, error: lockError } = await supabase
-        .from('profiles')
-        .update({ free_message_used: true })
-        .eq('id', user.id)
-        .eq('free_message_used', false)
-        .select()
-        .single();
-
-      if (lockError || !updated) {
-        // Rollback: delete the message we just created
-        await supabase.from('messages').delete().eq('id', message.id);
-        return { success: false, error: 'Your free message has already been used. Upgrade to Pro for unlimited messages.' };
-      }
 
-      // Refresh profile to get updated state
-      await authService.refreshProfile();
-    }
-
-    // If video was uploaded, update storage used
-    if (data.videoStoragePath && data.videoSizeBytes) {
-      try {
-        const { error: storageError } = await supabase.rpc('update_storage_used', {
-          p_user_id: user.id,
-          p_delta_bytes: data.videoSizeBytes,
-        });
-        if (storageError) {
-          throw storageError;
-        }
-      } catch (error) {
-        // Compensating transaction: delete uploaded video
+      // Compensating transaction: nothing references the uploaded video
+      if (data.videoStoragePath) {
         const { error: deleteError } = await supabase.storage
           .from('message-videos')
           .remove([data.videoStoragePath]);
@@ -108,22 +246,35 @@ class MessageService {
         if (deleteError) {
           console.error(JSON.stringify({
             event: 'COMPENSATING_DELETE_FAILED',
-            message_id: message?.id,
             video_storage_path: data.videoStoragePath,
-            storage_error: error instanceof Error ? error.message : 'Unknown',
+            create_error: error?.message ?? 'No message returned',
             delete_error: deleteError.message,
           }));
         }
+      }
 
-        // Also delete the message record since the transaction is incomplete
-        if (message?.id) {
-          await supabase.from('messages').delete().eq('id', message.id);
-        }
+      if (data.images?.length) {
+        const imageDeleteError = await imageService.discardUploads(data.images);
 
-        return { success: false, error: 'Failed to update storage quota. Please try again.' };
+        if (imageDeleteError) {
+          console.error(JSON.stringify({
+            event: 'COMPENSATING_DELETE_FAILED',
+            image_storage_paths: data.images.map(image => image.path),
+            create_error: error?.message ?? 'No message returned',
+            delete_error: imageDeleteError,
+          }));
+        }
       }
 
-      await authService.refreshProfile();
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to create message. Please try again.' };
+    }
+
+    await authService.refreshProfile();
+
+    if (data.encryptionKey) {
+      const keyString = await exportMessageKey(data.encryptionKey);
+      saveMessageKey(message.id, keyString);
+      return { success: true, message, privateLink: buildPrivateLink(message.delivery_token, keyString) };
     }
 
     return { success: true, message };
@@ -152,6 +303,9 @@ class MessageService {
       return { success: false, error: 'Message not found or cannot be cancelled' };
     }
 
+    // Photo rows go with the message (cascade); keep their paths for storage cleanup
+    const images = await imageService.getImages(messageId);
+
     // Delete the message
     const { error: deleteError } = await supabase
       .from('messages')
@@ -162,23 +316,338 @@ class MessageService {
       return { success: false, error: 'Failed to cancel message' };
     }
 
-    // If there was a video, delete it from storage and update usage
+    // If there was a video, delete it from storage (usage released by trigger on delete)
     if (message.video_storage_path) {
       await supabase.storage
         .from('message-videos')
         .remove([message.video_storage_path]);
+    }
 
-      // Reduce storage used
-      await supabase.rpc('update_storage_used', {
-        p_user_id: user.id,
-        p_delta_bytes: -message.video_size_bytes
-      });
+    if (images.length > 0) {
+      await imageService.removeObjects(images.flatMap(image => [image.storage_path, image.thumbnail_path]));
+    }
 
+    if (message.video_storage_path || images.length > 0) {
       await authService.refreshProfile();
     }
 
     return { success: true };
   }
+
+  /**
+   * Update a pending message.
+   * Re-runs form validation, then applies the whole edit (passphrase, row,
+   * recipients, photos) through update_message so it commits or fails as
+   * one. Tier and quota are enforced (and storage usage adjusted) by
+   * triggers. Newly uploaded files are removed if the update fails; replaced
+   * files once it succeeds.
+   */
+  async updateMessage(messageId: string, data: UpdateMessageData): Promise<UpdateMessageResult> {
+    const user = authService.getUser();
+    const profile = authService.getProfile();
+
+    if (!user || !profile) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const newVideoPath = data.videoStoragePath || null;
+    const newImages = data.newImages || [];
+
+    // Caller uploaded the new files already; remove them on any early exit
+    const discardNewVideo = async () => {
+      if (newVideoPath) {
+        await supabase.storage.from('message-videos').remove([newVideoPath]);
+      }
+      await imageService.discardUploads(newImages);
+    };
+
+    const validation = validateForm(data.messageText, data.deliverAt, data.deliveryEmails);
+    if (!validation.valid) {
+      await discardNewVideo();
+      const firstError = validation.errors.message || validation.errors.date || validation.errors.email;
+      return { success: false, error: firstError || 'Please check your message details' };
+    }
+
+    if (newVideoPath && !newVideoPath.startsWith(`${user.id}/`)) {
+      return { success: false, error: 'Invalid video path' };
+    }
+
+    if (newVideoPath && profile.tier !== 'pro' && data.mediaKind !== 'audio') {
+      await discardNewVideo();
+      return { success: false, error: 'Video attachments are only available for Pro users.' };
+    }
+
+    if (newImages.length > 0 && profile.tier !== 'pro') {
+      await discardNewVideo();
+      return { success: false, error: 'Photo attachments are only available for Pro users.' };
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('id', messageId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .single();
+
+    if (fetchError || !existing) {
+      await discardNewVideo();
+      return { success: false, error: 'Message not found or can no longer be edited' };
+    }
+
+    if (existing.encrypted && !data.encryptionKey) {
+      await discardNewVideo();
+      return { success: false, error: 'This message is encrypted. Enter its private link to edit it.' };
+    }
+
+    const passphraseHint = data.passphraseHint?.trim() || null;
+    const passphraseChanged = data.passphrase !== undefined
+      || (data.passphraseHint !== undefined && passphraseHint !== existing.passphrase_hint);
+
+    const videoChanged = data.videoStoragePath !== undefined
+      && data.videoStoragePath !== existing.video_storage_path;
+
+    // Paths of the photos to remove; their objects are deleted once the edit commits
+    const removeImageIds = data.removeImageIds || [];
+    const removedImages = removeImageIds.length > 0
+      ? (await imageService.getImages(messageId)).filter(image => removeImageIds.includes(image.id))
+      : [];
+
+    // Passphrase, row, recipients and photos in one transaction; omitted options keep their value
+    const { data: message, error: updateError } = await supabase.rpc('update_message', {
+      p_message_id: messageId,
+      p_message_text: existing.encrypted && data.encryptionKey
+        ? await encryptText(data.encryptionKey, data.messageText.trim())
+        : data.messageText,
+      p_deliver_at: data.deliverAt,
+      p_timezone: data.timezone,
+      p_delivery_emails: data.deliveryEmails,
+      p_options: {
+        ...(videoChanged ? {
+          video_storage_path: newVideoPath,
+          video_size_bytes: newVideoPath ? data.videoSizeBytes || 0 : 0,
+          video_duration_seconds: newVideoPath ? Math.round(data.videoDurationSeconds || 0) : 0,
+          media_kind: newVideoPath ? data.mediaKind || 'video' : null,
+        } : {}),
+        ...(data.recurrence !== undefined ? {
+          recurrence_months: data.recurrence?.months ?? null,
+          recurrence_count: data.recurrence?.count ?? null,
+        } : {}),
+        ...(data.checkin ? {
+          checkin_interval_days: data.checkin.intervalDays,
+          checkin_grace_days: data.checkin.graceDays,
+        } : {}),
+        ...(data.emailSubject !== undefined ? { email_subject: toEmailSubject(data.emailSubject) } : {}),
+        ...(data.emailSignOff !== undefined ? { email_sign_off: data.emailSignOff.trim() || null } : {}),
+        ...(data.emailLocale !== undefined ? { email_locale: data.emailLocale } : {}),
+        ...(passphraseChanged ? {
+          passphrase: data.passphrase?.trim() || null,
+          passphrase_hint: passphraseHint,
+          remove_passphrase: data.passphrase === null,
+        } : {}),
+        remove_image_ids: removeImageIds,
+        images: newImages.map(image => ({
+          storage_path: image.path,
+          thumbnail_path: image.thumbnailPath,
+          width: image.width,
+          height: image.height,
+        })),
+      },
+    });
+
+    if (updateError || !message) {
+      console.error('Error updating message:', updateError);
+      await discardNewVideo();
+      return { success: false, error: getRuleViolationMessage(updateError) || 'Failed to update message. Please try again.' };
+    }
+
+    if (removedImages.length > 0) {
+      const removeError = await imageService.removeObjects(
+        removedImages.flatMap(image => [image.storage_path, image.thumbnail_path])
+      );
+
+      if (removeError) {
+        console.error(JSON.stringify({
+          event: 'REMOVED_IMAGE_DELETE_FAILED',
+          message_id: messageId,
+          image_ids: removeImageIds,
+          error: removeError,
+        }));
+      }
+    }
+
+    if (!videoChanged) {
+      if (newImages.length > 0 || data.removeImageIds?.length) {
+        await authService.refreshProfile();
+      }
+      return { success: true, message };
+    }
+
+    // Old video is no longer referenced; quota delta was applied by trigger with the update
+    if (existing.video_storage_path) {
+      const { error: removeError } = await supabase.storage
+        .from('message-videos')
+        .remove([existing.video_storage_path]);
+
+      if (removeError) {
+        console.error(JSON.stringify({
+          event: 'REPLACED_VIDEO_DELETE_FAILED',
+          message_id: messageId,
+          video_storage_path: existing.video_storage_path,
+          error: removeError.message,
+        }));
+      }
+    }
+
+    await authService.refreshProfile();
+
+    return { success: true, message };
+  }
+
+  /**
+   * Check the passphrase of the current user's own unlocked message.
+   * Wrong guesses count toward the same server-side limit as recipients'.
+   */
+  async verifyPassphrase(messageId: string, passphrase: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabase.rpc('verify_message_passphrase', {
+      p_message_id: messageId,
+      p_passphrase: passphrase,
+    });
+
+    if (error) {
+      console.error('Error checking passphrase:', error);
+      return { success: false, error: 'Failed to check the passphrase. Please try again.' };
+    }
+
+    if (data === 'rate_limited') {
+      return { success: false, error: 'Too many wrong guesses. Try again in 15 minutes.' };
+    }
+
+    return data === 'ok' ? { success: true } : { success: false, error: 'That passphrase is not right.' };
+  }
+
+  /**
+   * Check in as the current user: every armed dead man's switch restarts its
+   * interval. Returns the number of switches reset.
+   */
+  async checkIn(): Promise<{ success: boolean; checkedIn?: number; error?: string }> {
+    const { data, error } = await supabase.rpc('check_in', {});
+
+    if (error) {
+      console.error('Error checking in:', error);
+      return { success: false, error: 'Failed to check in. Please try again.' };
+    }
+
+    return { success: true, checkedIn: data };
+  }
+
+  /**
+   * Check in from a reminder email link via the check-in Edge Function.
+   * Does not require a session.
+   */
+  async checkInWithToken(token: string): Promise<CheckinLinkResult> {
+    try {
+      const { data, error } = await supabase.functions.invoke('check-in', {
+        body: { token }
+      });
+
+      if (error || !data) {
+        return { success: false, error: 'This check-in link is invalid.' };
+      }
+
+      return { success: true, checkin: data as CheckinLinkState };
+    } catch (err) {
+      console.error('Check-in error:', err);
+      return { success: false, error: 'Failed to check in. Please try again.' };
+    }
+  }
+
+  /**
+   * Claim a gift capsule from its claim link as the current user. Returns the
+   * message id; it shows in getReceivedGifts() once it has unlocked.
+   */
+  async claimGift(token: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const { data, error } = await supabase.rpc('claim_gift', { p_token: token });
+
+    if (error) {
+      console.error('Error claiming gift:', error);
+      return { success: false, error: getRuleViolationMessage(error) || 'Failed to claim gift. Please try again.' };
+    }
+
+    return { success: true, messageId: data };
+  }
+
+  /**
+   * Unlocked gift capsules claimed by the current user, newest first
+   */
+  async getReceivedGifts(): Promise<ReceivedGift[]> {
+    const { data, error } = await supabase.rpc('list_received_gifts', {});
+
+    if (error) {
+      console.error('Error fetching gifts:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Finished deliveries of the current user's recurring message, oldest first
+   */
+  async getOccurrences(messageId: string): Promise<MessageOccurrence[]> {
+    const { data, error } = await supabase
+      .from('message_occurrences')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('occurrence', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching deliveries:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Get recipients of a message owned by the current user
+   */
+  async getRecipients(messageId: string): Promise<MessageRecipient[]> {
+    const { data, error } = await supabase
+      .from('message_recipients')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching recipients:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Resolve a delivery token to its message via the view-message Edge Function.
+   * Does not require a session; locked messages return only their unlock date,
+   * passphrase-protected ones only their hint until the passphrase is given.
+   */
+  async getMessageByToken(token: string, passphrase?: string): Promise<SharedMessageResult> {
+    try {
+      const { data, error } = await supabase.functions.invoke('view-message', {
+        body: { token, passphrase }
+      });
+
+      if (error || !data) {
+        return { success: false, error: 'This message link is invalid or has expired.' };
+      }
+
+      return { success: true, message: data as SharedMessage };
+    } catch (err) {
+      console.error('View message error:', err);
+      return { success: false, error: 'Failed to load message. Please try again.' };
+    }
+  }
 }
 
 export const messageService = new MessageService();
@@ -1,7 +1,12 @@
 import { supabase } from '../config/supabase';
 import { authService } from './auth.service';
 
-export type ProductType = 'pro_upgrade';
+export type ProductType = 'pro_upgrade' | 'storage_addon' | 'gift_capsule';
+
+// Display values only; create-checkout owns the real price
+export const STORAGE_ADDON_BYTES = 5368709120; // 5GB
+export const STORAGE_ADDON_PRICE_LABEL = '$5';
+export const GIFT_CAPSULE_PRICE_LABEL = '$5';
 
 export interface CheckoutResult {
   success: boolean;
@@ -25,6 +30,11 @@ class PaymentService {
       return { success: false, error: 'You are already a Pro user' };
     }
 
+    // Storage packs extend the Pro quota only
+    if (productType === 'storage_addon' && !authService.isPro()) {
+      return { success: false, error: 'Storage packs are available for Pro users' };
+    }
+
     try {
       const { data, error } = await supabase.functions.invoke('create-checkout', {
         body: {
@@ -1,20 +1,54 @@
-import { supabase } from '../config/supabase';
+import * as tus from 'tus-js-client';
+import { supabase, supabaseUrl } from '../config/supabase';
 import { authService } from './auth.service';
-import { validateVideo, formatBytes, formatDuration } from '../utils/video-duration';
+import { validateMedia, getMediaKind, formatBytes, formatDuration, MediaKind } from '../utils/video-duration';
+import { encryptFile } from '../utils/e2e-crypto';
+
+const VIDEO_BUCKET = 'message-videos';
+// Supabase Storage only accepts 6MB TUS chunks
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+const UPLOAD_RETRY_DELAYS = [0, 3000, 5000, 10000, 20000];
 
 export interface UploadResult {
   success: boolean;
   path?: string;
   size?: number;
   duration?: number;
+  kind?: MediaKind;
   error?: string;
+  quotaExceeded?: boolean;
+}
+
+export interface UploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+  percent: number;
+}
+
+export interface UploadControls {
+  pause(): void;
+  resume(): void;
+}
+
+export interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  // Called when the transfer starts; resumed is true when continuing a previous partial upload
+  onStart?: (controls: UploadControls, resumed: boolean) => void;
+  // Encrypt before upload (end-to-end encrypted message); validation runs on the plaintext
+  encryptionKey?: CryptoKey;
 }
 
 class VideoService {
   /**
-   * Validate and upload a video file
+   * Validate and upload a video or voice note via resumable (TUS) upload.
+   * reclaimableBytes counts storage that will be freed by the upload
+   * (e.g. the attachment being replaced when editing a message).
    */
-  async uploadVideo(file: File): Promise<UploadResult> {
+  async uploadVideo(
+    file: File,
+    reclaimableBytes: number = 0,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
     const user = authService.getUser();
     const profile = authService.getProfile();
 
@@ -22,53 +56,143 @@ class VideoService {
       return { success: false, error: 'You must be logged in to upload videos' };
     }
 
-    // Check if user is pro
-    if (profile.tier !== 'pro') {
+    // Free users may attach voice notes only
+    if (profile.tier !== 'pro' && getMediaKind(file) === 'video') {
       return { success: false, error: 'Video uploads are only available for Pro users' };
     }
 
+    // Encrypted uploads cannot be verified as audio server-side
+    if (profile.tier !== 'pro' && options.encryptionKey) {
+      return { success: false, error: 'Encrypted attachments are only available for Pro users' };
+    }
+
     // Calculate remaining storage
-    const remainingStorage = profile.storage_limit_bytes - profile.storage_used_bytes;
+    const remainingStorage = authService.getRemainingStorage() + reclaimableBytes;
 
-    // Validate video
-    const validation = await validateVideo(file, remainingStorage);
+    // Validate video or audio
+    const validation = await validateMedia(file, remainingStorage);
 
     if (!validation.valid) {
-      return { success: false, error: validation.error };
+      return { success: false, error: validation.error, quotaExceeded: validation.quotaExceeded };
     }
 
-    // Generate unique file path
-    const fileExt = file.name.split('.').pop()?.toLowerCase() || 'mp4';
-    const fileName = `${crypto.randomUUID()}.${fileExt}`;
-    const filePath = `${user.id}/${fileName}`;
-
-    // Upload to Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('message-videos')
-      .upload(filePath, file, {
-        contentType: file.type,
-        upsert: false
-      });
+    const uploadFile = options.encryptionKey
+      ? await encryptFile(options.encryptionKey, file, `${file.name}.enc`)
+      : file;
+
+    const transfer = await this.transferResumable(uploadFile, user.id, options);
 
-    if (uploadError) {
-      console.error('Upload error:', uploadError);
-      return { success: false, error: 'Failed to upload video. Please try again.' };
+    if (!transfer.path) {
+      return { success: false, error: transfer.error };
     }
 
     return {
       success: true,
-      path: filePath,
+      path: transfer.path,
       size: validation.size,
-      duration: validation.duration
+      duration: validation.duration,
+      kind: validation.kind
     };
   }
 
+  /**
+   * File names of partial uploads saved in this browser for the current user.
+   * Selecting the same file again resumes the upload.
+   */
+  async getUnfinishedUploads(): Promise<string[]> {
+    const user = authService.getUser();
+    if (!user || !tus.canStoreURLs) return [];
+
+    const uploads = await tus.defaultOptions.urlStorage.findAllUploads();
+    return uploads
+      .filter(upload => upload.metadata.objectName?.startsWith(`${user.id}/`))
+      .map(upload => upload.metadata.filename || 'video');
+  }
+
+  /**
+   * Chunked upload to Storage's TUS endpoint. The upload URL is kept in
+   * localStorage (keyed by user + file identity), so a reload or failed
+   * attempt continues from the last acknowledged chunk. Encrypted files are
+   * never resumed: each encryption uses a fresh IV, so chunks would not match.
+   */
+  private async transferResumable(
+    file: File,
+    userId: string,
+    options: UploadOptions
+  ): Promise<{ path?: string; error?: string }> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { error: 'You must be logged in to upload videos' };
+    }
+
+    // Scoped to the user so a shared browser never resumes someone else's upload
+    const fingerprint = ['ftrmsg', userId, file.name, file.type, file.size, file.lastModified].join('-');
+    const resumeEnabled = !options.encryptionKey;
+    const previous = tus.canStoreURLs && resumeEnabled
+      ? await tus.defaultOptions.urlStorage.findUploadsByFingerprint(fingerprint)
+      : [];
+    const resumable = previous.find(upload => upload.metadata.objectName?.startsWith(`${userId}/`));
+
+    // Resuming must keep the original object path
+    const fileExt = file.name.split('.').pop()?.toLowerCase() || 'mp4';
+    const filePath = resumable?.metadata.objectName ?? `${userId}/${crypto.randomUUID()}.${fileExt}`;
+
+    return new Promise(resolve => {
+      const upload = new tus.Upload(file, {
+        endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        retryDelays: UPLOAD_RETRY_DELAYS,
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+        storeFingerprintForResuming: resumeEnabled,
+        fingerprint: async () => fingerprint,
+        headers: { 'x-upsert': 'false' },
+        metadata: {
+          bucketName: VIDEO_BUCKET,
+          objectName: filePath,
+          contentType: file.type,
+          cacheControl: '3600',
+          filename: file.name,
+        },
+        // Uploads can outlive the access token; always send the current one
+        onBeforeRequest: async (req) => {
+          const { data } = await supabase.auth.getSession();
+          req.setHeader('authorization', `Bearer ${data.session?.access_token ?? session.access_token}`);
+        },
+        onProgress: (bytesUploaded, bytesTotal) => {
+          options.onProgress?.({
+            bytesUploaded,
+            bytesTotal,
+            percent: bytesTotal > 0 ? Math.round((bytesUploaded / bytesTotal) * 100) : 0,
+          });
+        },
+        onSuccess: () => resolve({ path: filePath }),
+        onError: (error) => {
+          // Fingerprint is kept, so a retry resumes instead of restarting
+          console.error('Upload error:', error);
+          resolve({ error: 'Failed to upload file. Please try again.' });
+        },
+      });
+
+      if (resumable) {
+        upload.resumeFromPreviousUpload(resumable);
+      }
+
+      upload.start();
+
+      options.onStart?.({
+        pause: () => { upload.abort(); },
+        resume: () => upload.start(),
+      }, !!resumable);
+    });
+  }
+
   /**
    * Get a signed URL for viewing a video (used for delivered messages)
    */
   async getSignedUrl(path: string, expiresIn: number = 3600): Promise<string | null> {
     const { data, error } = await supabase.storage
-      .from('message-videos')
+      .from(VIDEO_BUCKET)
       .createSignedUrl(path, expiresIn);
 
     if (error) {
@@ -90,7 +214,7 @@ class VideoService {
     }
 
     const used = profile.storage_used_bytes;
-    const limit = profile.storage_limit_bytes;
+    const limit = authService.getStorageLimit();
     const remaining = limit - used;
     const percent = limit > 0 ? Math.round((used / limit) * 100) : 0;
 
@@ -20,6 +20,11 @@ export interface Database {
           storage_used_bytes: number;
           storage_limit_bytes: number;
           free_message_used: boolean;
+          gift_credits: number;
+          notify_scheduled: boolean;
+          notify_delivered: boolean;
+          notify_failed: boolean;
+          notify_upcoming: boolean;
           stripe_customer_id: string | null;
           created_at: string;
           updated_at: string;
@@ -31,6 +36,11 @@ export interface Database {
           storage_used_bytes?: number;
           storage_limit_bytes?: number;
           free_message_used?: boolean;
+          gift_credits?: number;
+          notify_scheduled?: boolean;
+          notify_delivered?: boolean;
+          notify_failed?: boolean;
+          notify_upcoming?: boolean;
           stripe_customer_id?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -42,6 +52,11 @@ export interface Database {
           storage_used_bytes?: number;
           storage_limit_bytes?: number;
           free_message_used?: boolean;
+          gift_credits?: number;
+          notify_scheduled?: boolean;
+          notify_delivered?: boolean;
+          notify_failed?: boolean;
+          notify_upcoming?: boolean;
           stripe_customer_id?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -56,10 +71,35 @@ export interface Database {
           video_storage_path: string | null;
           video_size_bytes: number;
           video_duration_seconds: number;
+          media_kind: 'video' | 'audio' | null;
           delivery_email: string;
           scheduled_date: string;
-          status: 'pending' | 'delivered' | 'failed';
+          deliver_at: string;
+          timezone: string;
+          next_attempt_at: string | null;
+          status: 'pending' | 'delivered' | 'opened' | 'bounced' | 'failed';
           delivery_token: string;
+          encrypted: boolean;
+          passphrase_hash: string | null;
+          passphrase_hint: string | null;
+          recurrence_months: number | null;
+          recurrence_count: number | null;
+          occurrence: number;
+          delivery_mode: 'date' | 'checkin';
+          checkin_interval_days: number | null;
+          checkin_grace_days: number | null;
+          checkin_token: string;
+          last_checkin_at: string | null;
+          checkin_due_at: string | null;
+          checkin_reminders_sent: number;
+          switch_triggered_at: string | null;
+          gift_token: string | null;
+          gift_recipient_id: string | null;
+          gift_claimed_at: string | null;
+          gift_payment_id: string | null;
+          email_subject: string | null;
+          email_sign_off: string | null;
+          email_locale: 'en' | 'es' | 'fr' | 'de';
           delivered_at: string | null;
           created_at: string;
           updated_at: string;
@@ -71,10 +111,35 @@ export interface Database {
           video_storage_path?: string | null;
           video_size_bytes?: number;
           video_duration_seconds?: number;
+          media_kind?: 'video' | 'audio' | null;
           delivery_email: string;
-          scheduled_date: string;
-          status?: 'pending' | 'delivered' | 'failed';
+          scheduled_date?: string;
+          deliver_at?: string;
+          timezone?: string;
+          next_attempt_at?: string | null;
+          status?: 'pending' | 'delivered' | 'opened' | 'bounced' | 'failed';
           delivery_token?: string;
+          encrypted?: boolean;
+          passphrase_hash?: string | null;
+          passphrase_hint?: string | null;
+          recurrence_months?: number | null;
+          recurrence_count?: number | null;
+          occurrence?: number;
+          delivery_mode?: 'date' | 'checkin';
+          checkin_interval_days?: number | null;
+          checkin_grace_days?: number | null;
+          checkin_token?: string;
+          last_checkin_at?: string | null;
+          checkin_due_at?: string | null;
+          checkin_reminders_sent?: number;
+          switch_triggered_at?: string | null;
+          gift_token?: string | null;
+          gift_recipient_id?: string | null;
+          gift_claimed_at?: string | null;
+          gift_payment_id?: string | null;
+          email_subject?: string | null;
+          email_sign_off?: string | null;
+          email_locale?: 'en' | 'es' | 'fr' | 'de';
           delivered_at?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -86,10 +151,35 @@ export interface Database {
           video_storage_path?: string | null;
           video_size_bytes?: number;
           video_duration_seconds?: number;
+          media_kind?: 'video' | 'audio' | null;
           delivery_email?: string;
           scheduled_date?: string;
-          status?: 'pending' | 'delivered' | 'failed';
+          deliver_at?: string;
+          timezone?: string;
+          next_attempt_at?: string | null;
+          status?: 'pending' | 'delivered' | 'opened' | 'bounced' | 'failed';
           delivery_token?: string;
+          encrypted?: boolean;
+          passphrase_hash?: string | null;
+          passphrase_hint?: string | null;
+          recurrence_months?: number | null;
+          recurrence_count?: number | null;
+          occurrence?: number;
+          delivery_mode?: 'date' | 'checkin';
+          checkin_interval_days?: number | null;
+          checkin_grace_days?: number | null;
+          checkin_token?: string;
+          last_checkin_at?: string | null;
+          checkin_due_at?: string | null;
+          checkin_reminders_sent?: number;
+          switch_triggered_at?: string | null;
+          gift_token?: string | null;
+          gift_recipient_id?: string | null;
+          gift_claimed_at?: string | null;
+          gift_payment_id?: string | null;
+          email_subject?: string | null;
+          email_sign_off?: string | null;
+          email_locale?: 'en' | 'es' | 'fr' | 'de';
           delivered_at?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -111,9 +201,9 @@ export interface Database {
           stripe_checkout_session_id: string | null;
           amount_cents: number;
           currency: string;
-          product_type: 'pro_upgrade' | 'storage_addon';
+          product_type: 'pro_upgrade' | 'storage_addon' | 'gift_capsule';
           storage_bytes_added: number;
-          status: 'pending' | 'completed' | 'failed' | 'refunded';
+          status: 'pending' | 'completed' | 'failed' | 'refunded' | 'disputed';
           created_at: string;
           updated_at: string;
         };
@@ -124,9 +214,9 @@ export interface Database {
           stripe_checkout_session_id?: string | null;
           amount_cents: number;
           currency?: string;
-          product_type: 'pro_upgrade' | 'storage_addon';
+          product_type: 'pro_upgrade' | 'storage_addon' | 'gift_capsule';
           storage_bytes_added?: number;
-          status?: 'pending' | 'completed' | 'failed' | 'refunded';
+          status?: 'pending' | 'completed' | 'failed' | 'refunded' | 'disputed';
           created_at?: string;
           updated_at?: string;
         };
@@ -137,9 +227,9 @@ export interface Database {
           stripe_checkout_session_id?: string | null;
           amount_cents?: number;
           currency?: string;
-          product_type?: 'pro_upgrade' | 'storage_addon';
+          product_type?: 'pro_upgrade' | 'storage_addon' | 'gift_capsule';
           storage_bytes_added?: number;
-          status?: 'pending' | 'completed' | 'failed' | 'refunded';
+          status?: 'pending' | 'completed' | 'failed' | 'refunded' | 'disputed';
           created_at?: string;
           updated_at?: string;
         };
@@ -156,28 +246,37 @@ export interface Database {
         Row: {
           id: string;
           message_id: string;
+          recipient_id: string | null;
+          occurrence: number;
           attempt_number: number;
-          status: 'pending' | 'delivered' | 'sent' | 'bounced' | 'failed';
+          status: 'pending' | 'delivered' | 'sent' | 'bounced' | 'complained' | 'opened' | 'failed';
           email_provider_id: string | null;
           error_message: string | null;
+          provider_event_at: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           message_id: string;
+          recipient_id?: string | null;
+          occurrence?: number;
           attempt_number?: number;
-          status: 'pending' | 'delivered' | 'sent' | 'bounced' | 'failed';
+          status: 'pending' | 'delivered' | 'sent' | 'bounced' | 'complained' | 'opened' | 'failed';
           email_provider_id?: string | null;
           error_message?: string | null;
+          provider_event_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           message_id?: string;
+          recipient_id?: string | null;
+          occurrence?: number;
           attempt_number?: number;
-          status?: 'pending' | 'delivered' | 'sent' | 'bounced' | 'failed';
+          status?: 'pending' | 'delivered' | 'sent' | 'bounced' | 'complained' | 'opened' | 'failed';
           email_provider_id?: string | null;
           error_message?: string | null;
+          provider_event_at?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -186,6 +285,407 @@ export interface Database {
             columns: ['message_id'];
             referencedRelation: 'messages';
             referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'delivery_logs_recipient_id_fkey';
+            columns: ['recipient_id'];
+            referencedRelation: 'message_recipients';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      message_recipients: {
+        Row: {
+          id: string;
+          message_id: string;
+          email: string;
+          status: 'pending' | 'delivered' | 'opened' | 'bounced' | 'complained' | 'failed';
+          delivered_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          email: string;
+          status?: 'pending' | 'delivered' | 'opened' | 'bounced' | 'complained' | 'failed';
+          delivered_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          email?: string;
+          status?: 'pending' | 'delivered' | 'opened' | 'bounced' | 'complained' | 'failed';
+          delivered_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'message_recipients_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      message_images: {
+        Row: {
+          id: string;
+          message_id: string;
+          user_id: string;
+          storage_path: string;
+          thumbnail_path: string;
+          size_bytes: number;
+          width: number | null;
+          height: number | null;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          user_id: string;
+          storage_path: string;
+          thumbnail_path: string;
+          size_bytes?: number;
+          width?: number | null;
+          height?: number | null;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          user_id?: string;
+          storage_path?: string;
+          thumbnail_path?: string;
+          size_bytes?: number;
+          width?: number | null;
+          height?: number | null;
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'message_images_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      capsule_members: {
+        Row: {
+          message_id: string;
+          user_id: string;
+          role: 'organizer' | 'contributor';
+          created_at: string;
+        };
+        Insert: {
+          message_id: string;
+          user_id: string;
+          role?: 'organizer' | 'contributor';
+          created_at?: string;
+        };
+        Update: {
+          message_id?: string;
+          user_id?: string;
+          role?: 'organizer' | 'contributor';
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'capsule_members_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      capsule_invitations: {
+        Row: {
+          id: string;
+          message_id: string;
+          email: string;
+          role: 'organizer' | 'contributor';
+          token: string;
+          invited_by: string | null;
+          status: 'pending' | 'accepted' | 'revoked';
+          accepted_by: string | null;
+          created_at: string;
+          accepted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          email: string;
+          role?: 'organizer' | 'contributor';
+          token?: string;
+          invited_by?: string | null;
+          status?: 'pending' | 'accepted' | 'revoked';
+          accepted_by?: string | null;
+          created_at?: string;
+          accepted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          email?: string;
+          role?: 'organizer' | 'contributor';
+          token?: string;
+          invited_by?: string | null;
+          status?: 'pending' | 'accepted' | 'revoked';
+          accepted_by?: string | null;
+          created_at?: string;
+          accepted_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'capsule_invitations_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      capsule_entries: {
+        Row: {
+          id: string;
+          message_id: string;
+          user_id: string;
+          author_name: string;
+          entry_text: string;
+          video_storage_path: string | null;
+          video_size_bytes: number;
+          video_duration_seconds: number;
+          media_kind: 'video' | 'audio' | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          user_id: string;
+          author_name: string;
+          entry_text?: string;
+          video_storage_path?: string | null;
+          video_size_bytes?: number;
+          video_duration_seconds?: number;
+          media_kind?: 'video' | 'audio' | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          user_id?: string;
+          author_name?: string;
+          entry_text?: string;
+          video_storage_path?: string | null;
+          video_size_bytes?: number;
+          video_duration_seconds?: number;
+          media_kind?: 'video' | 'audio' | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'capsule_entries_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      video_verifications: {
+        Row: {
+          storage_path: string;
+          size_bytes: number;
+          duration_seconds: number;
+          media_kind: 'video' | 'audio';
+          encrypted: boolean;
+          status: 'verified' | 'rejected';
+          error: string | null;
+          verified_at: string;
+        };
+        Insert: {
+          storage_path: string;
+          size_bytes: number;
+          duration_seconds?: number;
+          media_kind?: 'video' | 'audio';
+          encrypted?: boolean;
+          status: 'verified' | 'rejected';
+          error?: string | null;
+          verified_at?: string;
+        };
+        Update: {
+          storage_path?: string;
+          size_bytes?: number;
+          duration_seconds?: number;
+          media_kind?: 'video' | 'audio';
+          encrypted?: boolean;
+          status?: 'verified' | 'rejected';
+          error?: string | null;
+          verified_at?: string;
+        };
+        Relationships: [];
+      };
+      message_occurrences: {
+        Row: {
+          id: string;
+          message_id: string;
+          occurrence: number;
+          deliver_at: string;
+          status: 'delivered' | 'failed';
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          occurrence: number;
+          deliver_at: string;
+          status: 'delivered' | 'failed';
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          occurrence?: number;
+          deliver_at?: string;
+          status?: 'delivered' | 'failed';
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'message_occurrences_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      passphrase_attempts: {
+        Row: {
+          id: string;
+          message_id: string;
+          succeeded: boolean;
+          attempted_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          succeeded: boolean;
+          attempted_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          succeeded?: boolean;
+          attempted_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'passphrase_attempts_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      storage_usage_audits: {
+        Row: {
+          id: string;
+          run_id: string;
+          user_id: string;
+          recorded_bytes: number;
+          message_bytes: number;
+          object_bytes: number;
+          missing_objects: number;
+          corrected: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          run_id: string;
+          user_id: string;
+          recorded_bytes: number;
+          message_bytes: number;
+          object_bytes: number;
+          missing_objects?: number;
+          corrected?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          run_id?: string;
+          user_id?: string;
+          recorded_bytes?: number;
+          message_bytes?: number;
+          object_bytes?: number;
+          missing_objects?: number;
+          corrected?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      sender_notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          message_id: string;
+          kind: 'scheduled' | 'delivered' | 'failed' | 'upcoming';
+          occurrence: number;
+          recipients: string[];
+          status: 'pending' | 'sent' | 'failed' | 'skipped';
+          attempts: number;
+          error_message: string | null;
+          created_at: string;
+          sent_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          message_id: string;
+          kind: 'scheduled' | 'delivered' | 'failed' | 'upcoming';
+          occurrence?: number;
+          recipients?: string[];
+          status?: 'pending' | 'sent' | 'failed' | 'skipped';
+          attempts?: number;
+          error_message?: string | null;
+          created_at?: string;
+          sent_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          message_id?: string;
+          kind?: 'scheduled' | 'delivered' | 'failed' | 'upcoming';
+          occurrence?: number;
+          recipients?: string[];
+          status?: 'pending' | 'sent' | 'failed' | 'skipped';
+          attempts?: number;
+          error_message?: string | null;
+          created_at?: string;
+          sent_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'sender_notifications_message_id_fkey';
+            columns: ['message_id'];
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'sender_notifications_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
           }
         ];
       };
@@ -201,6 +701,242 @@ export interface Database {
         };
         Returns: undefined;
       };
+      create_message: {
+        Args: {
+          p_message_text: string;
+          p_deliver_at: string;
+          p_timezone: string;
+          p_delivery_emails: string[];
+          p_options?: Json;
+        };
+        Returns: Database['public']['Tables']['messages']['Row'];
+      };
+      update_message: {
+        Args: {
+          p_message_id: string;
+          p_message_text: string;
+          p_deliver_at: string;
+          p_timezone: string;
+          p_delivery_emails: string[];
+          p_options?: Json;
+        };
+        Returns: Database['public']['Tables']['messages']['Row'];
+      };
+      complete_message_occurrence: {
+        Args: {
+          p_message_id: string;
+        };
+        Returns: string | null;
+      };
+      check_in: {
+        Args: {
+          p_token?: string | null;
+        };
+        Returns: number;
+      };
+      set_notification_preferences: {
+        Args: {
+          p_scheduled: boolean;
+          p_delivered: boolean;
+          p_failed: boolean;
+          p_upcoming: boolean;
+        };
+        Returns: undefined;
+      };
+      queue_upcoming_notifications: {
+        Args: {
+          p_within_hours: number;
+        };
+        Returns: number;
+      };
+      claim_gift: {
+        Args: {
+          p_token: string;
+        };
+        Returns: string;
+      };
+      list_received_gifts: {
+        Args: Record<string, never>;
+        Returns: {
+          id: string;
+          sender_email: string;
+          deliver_at: string;
+          timezone: string;
+          delivery_token: string;
+          claimed_at: string;
+        }[];
+      };
+      invite_capsule_member: {
+        Args: {
+          p_message_id: string;
+          p_email: string;
+          p_role?: 'organizer' | 'contributor';
+        };
+        Returns: string;
+      };
+      revoke_capsule_invitation: {
+        Args: {
+          p_invitation_id: string;
+        };
+        Returns: undefined;
+      };
+      accept_capsule_invitation: {
+        Args: {
+          p_token: string;
+        };
+        Returns: string;
+      };
+      remove_capsule_member: {
+        Args: {
+          p_message_id: string;
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      list_capsule_members: {
+        Args: {
+          p_message_id: string;
+        };
+        Returns: {
+          user_id: string;
+          email: string;
+          role: 'owner' | 'organizer' | 'contributor';
+          joined_at: string;
+        }[];
+      };
+      list_shared_capsules: {
+        Args: Record<string, never>;
+        Returns: {
+          id: string;
+          owner_email: string;
+          role: 'organizer' | 'contributor';
+          deliver_at: string;
+          timezone: string;
+          status: Database['public']['Tables']['messages']['Row']['status'];
+          unlocked: boolean;
+          delivery_token: string | null;
+          entry_count: number;
+          joined_at: string;
+        }[];
+      };
+      capsule_role: {
+        Args: {
+          p_message_id: string;
+        };
+        Returns: 'owner' | 'organizer' | 'contributor' | null;
+      };
+      is_capsule_open: {
+        Args: {
+          p_message_id: string;
+        };
+        Returns: boolean;
+      };
+      set_message_passphrase: {
+        Args: {
+          p_message_id: string;
+          p_passphrase?: string | null;
+          p_passphrase_hint?: string | null;
+          p_remove?: boolean;
+        };
+        Returns: undefined;
+      };
+      verify_message_passphrase: {
+        Args: {
+          p_message_id: string;
+          p_passphrase: string;
+        };
+        Returns: 'ok' | 'incorrect' | 'rate_limited';
+      };
+      apply_storage_addon: {
+        Args: {
+          p_checkout_session_id: string;
+        };
+        Returns: boolean;
+      };
+      apply_gift_purchase: {
+        Args: {
+          p_checkout_session_id: string;
+        };
+        Returns: boolean;
+      };
+      revoke_payment: {
+        Args: {
+          p_payment_intent_id: string;
+          p_status: 'refunded' | 'disputed';
+        };
+        Returns: boolean;
+      };
+      restore_payment: {
+        Args: {
+          p_payment_intent_id: string;
+        };
+        Returns: boolean;
+      };
+      apply_video_verification: {
+        Args: {
+          p_storage_path: string;
+          p_size_bytes: number;
+          p_duration_seconds: number;
+          p_error: string | null;
+          p_media_kind?: 'video' | 'audio';
+          p_encrypted?: boolean;
+        };
+        Returns: 'verified' | 'rejected';
+      };
+      effective_storage_limit: {
+        Args: {
+          p_tier: string;
+          p_limit_bytes: number;
+        };
+        Returns: number;
+      };
+      list_orphaned_videos: {
+        Args: {
+          p_older_than: string;
+          p_limit?: number;
+        };
+        Returns: {
+          storage_path: string;
+          user_id: string | null;
+          size_bytes: number;
+          created_at: string;
+        }[];
+      };
+      list_orphaned_images: {
+        Args: {
+          p_older_than: string;
+          p_limit?: number;
+        };
+        Returns: {
+          storage_path: string;
+          user_id: string | null;
+          size_bytes: number;
+          created_at: string;
+        }[];
+      };
+      compute_storage_used: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: number;
+      };
+      audit_storage_usage: {
+        Args: {
+          p_auto_correct?: boolean;
+        };
+        Returns: Database['public']['Tables']['storage_usage_audits']['Row'][];
+      };
+      reconcile_storage_used: {
+        Args: {
+          p_user_ids: string[];
+          p_dry_run?: boolean;
+        };
+        Returns: {
+          user_id: string;
+          recorded_bytes: number;
+          actual_bytes: number;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -215,3 +951,13 @@ export type Profile = Database['public']['Tables']['profiles']['Row'];
 export type Message = Database['public']['Tables']['messages']['Row'];
 export type Payment = Database['public']['Tables']['payments']['Row'];
 export type DeliveryLog = Database['public']['Tables']['delivery_logs']['Row'];
+export type MessageRecipient = Database['public']['Tables']['message_recipients']['Row'];
+export type MessageImage = Database['public']['Tables']['message_images']['Row'];
+export type MessageOccurrence = Database['public']['Tables']['message_occurrences']['Row'];
+export type ReceivedGift = Database['public']['Functions']['list_received_gifts']['Returns'][number];
+export type CapsuleEntry = Database['public']['Tables']['capsule_entries']['Row'];
+export type CapsuleInvitation = Database['public']['Tables']['capsule_invitations']['Row'];
+export type CapsuleMember = Database['public']['Functions']['list_capsule_members']['Returns'][number];
+export type SharedCapsule = Database['public']['Functions']['list_shared_capsules']['Returns'][number];
+export type SenderNotification = Database['public']['Tables']['sender_notifications']['Row'];
+export type VideoVerification = Database['public']['Tables']['video_verifications']['Row'];
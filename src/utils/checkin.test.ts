@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { describeCheckin, getCheckinDeadline, getSwitchState } from './checkin';
+
+const NOW = new Date('2027-03-01T12:00:00Z');
+
+describe('getSwitchState', () => {
+  it('is null for date messages', () => {
+    expect(getSwitchState({ delivery_mode: 'date', checkin_due_at: null, switch_triggered_at: null }, NOW)).toBeNull();
+  });
+
+  it('is armed until the check-in is due', () => {
+    expect(getSwitchState({
+      delivery_mode: 'checkin',
+      checkin_due_at: '2027-03-01T12:00:01Z',
+      switch_triggered_at: null,
+    }, NOW)).toBe('armed');
+  });
+
+  it('is overdue from the due time during the grace period', () => {
+    expect(getSwitchState({
+      delivery_mode: 'checkin',
+      checkin_due_at: '2027-03-01T12:00:00Z',
+      switch_triggered_at: null,
+    }, NOW)).toBe('overdue');
+  });
+
+  it('is triggered once the switch fired, even if a check-in is no longer due', () => {
+    expect(getSwitchState({
+      delivery_mode: 'checkin',
+      checkin_due_at: '2027-04-01T12:00:00Z',
+      switch_triggered_at: '2027-02-28T12:00:00Z',
+    }, NOW)).toBe('triggered');
+  });
+});
+
+describe('getCheckinDeadline', () => {
+  it('adds the interval and grace period to the check-in time', () => {
+    expect(getCheckinDeadline({ intervalDays: 30, graceDays: 7 }, NOW).getTime())
+      .toBe(new Date(NOW).setDate(NOW.getDate() + 37));
+  });
+});
+
+describe('describeCheckin', () => {
+  it('describes the schedule of a check-in message', () => {
+    expect(describeCheckin({ delivery_mode: 'checkin', checkin_interval_days: 1, checkin_grace_days: 3 }))
+      .toBe('Check in every day, 3-day grace period');
+    expect(describeCheckin({ delivery_mode: 'checkin', checkin_interval_days: 30, checkin_grace_days: 7 }))
+      .toBe('Check in every 30 days, 7-day grace period');
+  });
+
+  it('is null for date messages', () => {
+    expect(describeCheckin({ delivery_mode: 'date', checkin_interval_days: null, checkin_grace_days: null })).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import type { Message } from '../types/database';
+
+/**
+ * Delivery picker options: on a date, or when the sender stops checking in
+ */
+export type DeliveryMode = Message['delivery_mode'];
+
+export const MAX_CHECKIN_INTERVAL_DAYS = 365;
+export const MAX_CHECKIN_GRACE_DAYS = 90;
+
+export interface CheckinSchedule {
+  // Days between check-ins
+  intervalDays: number;
+  // Days after a missed check-in before the message is delivered
+  graceDays: number;
+}
+
+/**
+ * 'armed' while check-ins are on time, 'overdue' once one is missed (grace
+ * period running), 'triggered' once the switch fired. null for date messages.
+ */
+export type SwitchState = 'armed' | 'overdue' | 'triggered';
+
+type CheckinFields = Pick<Message, 'delivery_mode' | 'checkin_due_at' | 'switch_triggered_at'>;
+
+/**
+ * Returns true for dead man's switch messages
+ */
+export function isCheckinMessage(message: Pick<Message, 'delivery_mode'>): boolean {
+  return message.delivery_mode === 'checkin';
+}
+
+/**
+ * Switch state of a message at now (see SwitchState)
+ */
+export function getSwitchState(message: CheckinFields, now: Date = new Date()): SwitchState | null {
+  if (!isCheckinMessage(message)) return null;
+  if (message.switch_triggered_at !== null) return 'triggered';
+  if (message.checkin_due_at && new Date(message.checkin_due_at) <= now) return 'overdue';
+  return 'armed';
+}
+
+/**
+ * Delivery deadline of a switch checked in at from (the server keeps its own
+ * copy in deliver_at; this is only for display before saving)
+ */
+export function getCheckinDeadline(schedule: CheckinSchedule, from: Date = new Date()): Date {
+  const deadline = new Date(from);
+  deadline.setDate(deadline.getDate() + schedule.intervalDays + schedule.graceDays);
+  return deadline;
+}
+
+/**
+ * Short description, e.g. "Check in every 30 days, 7-day grace period".
+ * Returns null for date messages.
+ */
+export function describeCheckin(message: Pick<Message, 'delivery_mode' | 'checkin_interval_days' | 'checkin_grace_days'>): string | null {
+  if (!isCheckinMessage(message)) return null;
+
+  const interval = message.checkin_interval_days === 1 ? 'every day' : `every ${message.checkin_interval_days} days`;
+  return `Check in ${interval}, ${message.checkin_grace_days}-day grace period`;
+}
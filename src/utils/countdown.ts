@@ -33,3 +33,19 @@ export function calculateCountdown(targetDate: Date): CountdownResult {
 export function formatDate(date: Date): string {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
+
+/**
+ * Formats instant as "Mon DD, YYYY, H:MM AM TZ" in the given IANA time zone
+ * (defaults to the browser's time zone)
+ */
+export function formatDateTime(date: Date, timeZone?: string): string {
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short'
+  });
+}
@@ -0,0 +1,185 @@
+// End-to-end encryption for message content (AES-GCM, 256-bit key per message).
+// The key never leaves the browser except in the #k= fragment of the private
+// link, which browsers do not send to the server.
+
+const TEXT_PREFIX = 'e2e1.';
+const IV_BYTES = 12;
+// Object content type for encrypted uploads; the real type is inside the payload
+export const ENCRYPTED_CONTENT_TYPE = 'application/octet-stream';
+const KEY_STORAGE_PREFIX = 'ftrmsg-key-';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function encryptBytes(key: CryptoKey, plaintext: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+
+  const out = new Uint8Array(IV_BYTES + ciphertext.length);
+  out.set(iv);
+  out.set(ciphertext, IV_BYTES);
+  return out;
+}
+
+async function decryptBytes(key: CryptoKey, payload: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const iv = payload.subarray(0, IV_BYTES);
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, payload.subarray(IV_BYTES));
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * New random message key
+ */
+export function generateMessageKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Key as the base64url string used in link fragments
+ */
+export async function exportMessageKey(key: CryptoKey): Promise<string> {
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+/**
+ * Imports a key from its base64url string. Returns null if malformed.
+ */
+export async function importMessageKey(value: string): Promise<CryptoKey | null> {
+  try {
+    const raw = fromBase64Url(value.trim());
+    if (raw.length !== 32) return null;
+    return await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key string from a private link, its fragment, or a pasted bare key
+ */
+export function parseKeyInput(input: string): string | null {
+  const value = input.trim();
+  const fragment = value.includes('#') ? value.slice(value.indexOf('#') + 1) : value;
+  const key = new URLSearchParams(fragment).get('k') ?? (fragment.includes('=') ? null : fragment);
+  return key && /^[A-Za-z0-9_-]{43}$/.test(key) ? key : null;
+}
+
+/**
+ * Recipient link carrying the key in the fragment
+ */
+export function buildPrivateLink(deliveryToken: string, keyString: string): string {
+  return `${window.location.origin}/m/${deliveryToken}#k=${keyString}`;
+}
+
+/**
+ * Encrypts message text into a single string safe for message_text
+ */
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const payload = await encryptBytes(key, new TextEncoder().encode(text));
+  return TEXT_PREFIX + toBase64Url(payload);
+}
+
+/**
+ * Decrypts text produced by encryptText. Throws if the key is wrong.
+ */
+export async function decryptText(key: CryptoKey, value: string): Promise<string> {
+  if (!value.startsWith(TEXT_PREFIX)) {
+    throw new Error('Not an encrypted message');
+  }
+  const plaintext = await decryptBytes(key, fromBase64Url(value.slice(TEXT_PREFIX.length)));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Encrypts a file (or thumbnail blob). The content type is stored inside
+ * the payload so the decrypted blob plays/displays with the right type.
+ * Whole-file operation: WebCrypto AES-GCM has no streaming API.
+ */
+export async function encryptFile(key: CryptoKey, file: Blob, name: string): Promise<File> {
+  const type = new TextEncoder().encode(file.type);
+  const body = new Uint8Array(await file.arrayBuffer());
+
+  const plaintext = new Uint8Array(2 + type.length + body.length);
+  new DataView(plaintext.buffer).setUint16(0, type.length);
+  plaintext.set(type, 2);
+  plaintext.set(body, 2 + type.length);
+
+  const payload = await encryptBytes(key, plaintext);
+  return new File([payload], name, { type: ENCRYPTED_CONTENT_TYPE });
+}
+
+export interface DecryptedFile {
+  // Object URL of the plaintext; the caller revokes it
+  url: string;
+  type: string;
+}
+
+/**
+ * Downloads and decrypts an encrypted object. Returns null if download or
+ * decryption fails.
+ */
+export async function decryptFileFromUrl(key: CryptoKey, url: string): Promise<DecryptedFile | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+
+    const plaintext = await decryptBytes(key, new Uint8Array(await response.arrayBuffer()));
+    const typeLength = new DataView(plaintext.buffer, plaintext.byteOffset).getUint16(0);
+    const type = new TextDecoder().decode(plaintext.subarray(2, 2 + typeLength));
+
+    return { url: URL.createObjectURL(new Blob([plaintext.subarray(2 + typeLength)], { type })), type };
+  } catch (err) {
+    console.error('Decrypt attachment error:', err);
+    return null;
+  }
+}
+
+/**
+ * Decrypts an object into a new tab (full-size photos). The tab opens before
+ * the download so popup blockers still see a click. Its object URL lives as
+ * long as the page.
+ */
+export async function openEncryptedFile(key: CryptoKey, url: string): Promise<boolean> {
+  const tab = window.open('', '_blank');
+  const file = await decryptFileFromUrl(key, url);
+
+  if (!file || !tab) {
+    tab?.close();
+    if (file) URL.revokeObjectURL(file.url);
+    return false;
+  }
+
+  tab.location.href = file.url;
+  return true;
+}
+
+/**
+ * Sender-side copy of a message key, so the sender's own dashboard can read,
+ * edit and re-share the message from this browser
+ */
+export function saveMessageKey(messageId: string, keyString: string): void {
+  try {
+    localStorage.setItem(KEY_STORAGE_PREFIX + messageId, keyString);
+  } catch {
+    // Private mode / storage full: the private link is then the only copy
+  }
+}
+
+export function loadMessageKey(messageId: string): string | null {
+  try {
+    return localStorage.getItem(KEY_STORAGE_PREFIX + messageId);
+  } catch {
+    return null;
+  }
+}
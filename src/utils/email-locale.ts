@@ -0,0 +1,30 @@
+import type { Message } from '../types/database';
+
+/**
+ * Language of the delivery email's own wording (the message is sent as written)
+ */
+export type EmailLocale = Message['email_locale'];
+
+export const EMAIL_LOCALES: { value: EmailLocale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'fr', label: 'Français' },
+  { value: 'de', label: 'Deutsch' },
+];
+
+/**
+ * Browser language if the delivery email supports it, otherwise English
+ */
+export function getDefaultEmailLocale(): EmailLocale {
+  const language = navigator.language.slice(0, 2).toLowerCase();
+  return EMAIL_LOCALES.find(locale => locale.value === language)?.value ?? 'en';
+}
+
+/**
+ * <option> list for a language select, with selected marked
+ */
+export function renderEmailLocaleOptions(selected: EmailLocale): string {
+  return EMAIL_LOCALES
+    .map(locale => `<option value="${locale.value}"${locale.value === selected ? ' selected' : ''}>${locale.label}</option>`)
+    .join('');
+}
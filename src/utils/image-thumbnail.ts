@@ -0,0 +1,70 @@
+export const MAX_IMAGES_PER_MESSAGE = 10;
+export const MAX_IMAGE_SIZE_BYTES = 20 * 1024 * 1024; // 20MB, matches the message-images bucket
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+// Longest edge of the generated thumbnail, in pixels
+const THUMBNAIL_MAX_DIMENSION = 400;
+const THUMBNAIL_QUALITY = 0.8;
+
+export interface ImageValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export interface ImageThumbnail {
+  blob: Blob;
+  // Dimensions of the original image
+  width: number;
+  height: number;
+}
+
+/**
+ * Validate photo type and size. The bucket and enforce_message_image_rules
+ * re-check type, size, count and quota server-side.
+ */
+export function validateImage(file: File): ImageValidationResult {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    return { valid: false, error: `${file.name}: please use JPEG, PNG, WebP or GIF photos.` };
+  }
+
+  if (file.size > MAX_IMAGE_SIZE_BYTES) {
+    return { valid: false, error: `${file.name} is larger than 20MB.` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Downscale an image to a JPEG thumbnail using a canvas.
+ * Animated GIFs keep only their first frame.
+ */
+export async function createThumbnail(file: File): Promise<ImageThumbnail> {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  const scale = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not supported');
+  }
+
+  // JPEG has no alpha; transparent PNG areas would otherwise turn black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY)
+  );
+
+  if (!blob) {
+    throw new Error('Could not create thumbnail');
+  }
+
+  return { blob, width, height };
+}
@@ -1,11 +1,29 @@
 import type { Message } from '../types/database';
 
 /**
- * Returns true if scheduled_date <= today OR status='delivered'
+ * Returns true if the delivery email was sent (delivered, opened, or bounced)
+ */
+export function isMessageSent(message: Message): boolean {
+  return message.status === 'delivered' || message.status === 'opened' || message.status === 'bounced';
+}
+
+/**
+ * Returns true if deliver_at <= now OR the message was sent.
+ * deliver_at is an absolute instant, so this agrees with process-delivery
+ * regardless of the viewer's time zone. A recurring message is locked again
+ * until its next occurrence is delivered, as in view-message. A check-in
+ * message unlocks when its switch fires, not at its (movable) deadline.
  */
 export function isMessageUnlocked(message: Message): boolean {
-  const scheduledDate = new Date(message.scheduled_date);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  return scheduledDate <= today || message.status === 'delivered';
+  if (message.delivery_mode === 'checkin') {
+    return message.switch_triggered_at !== null || isMessageSent(message);
+  }
+  return new Date(message.deliver_at) <= new Date() || isMessageSent(message);
+}
+
+/**
+ * Returns true if the message repeats, or is a series past its first delivery
+ */
+export function isRecurringMessage(message: Message): boolean {
+  return message.recurrence_months !== null || message.occurrence > 1;
 }
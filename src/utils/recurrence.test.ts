@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { describeOccurrence, describeRecurrence, getRepeatMode, toRecurrence } from './recurrence';
+import type { RepeatMode } from './recurrence';
+
+describe('toRecurrence / getRepeatMode', () => {
+  it('stores each picker option as months and count', () => {
+    expect(toRecurrence('once', 0)).toBeNull();
+    expect(toRecurrence('yearly', 0)).toEqual({ months: 12, count: null });
+    expect(toRecurrence('anniversary', 5)).toEqual({ months: 12, count: 5 });
+    expect(toRecurrence('months', 3)).toEqual({ months: 3, count: null });
+  });
+
+  it('restores the picker state of a stored rule', () => {
+    const cases: [RepeatMode, number][] = [['yearly', 0], ['anniversary', 5], ['months', 3], ['months', 24]];
+
+    for (const [mode, value] of cases) {
+      const recurrence = toRecurrence(mode, value)!;
+      expect(getRepeatMode({ recurrence_months: recurrence.months, recurrence_count: recurrence.count }))
+        .toEqual({ mode, value: mode === 'yearly' ? null : value });
+    }
+
+    expect(getRepeatMode({ recurrence_months: null, recurrence_count: null })).toEqual({ mode: 'once', value: null });
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes the interval', () => {
+    expect(describeRecurrence({ recurrence_months: 12, recurrence_count: null })).toBe('Every year');
+    expect(describeRecurrence({ recurrence_months: 24, recurrence_count: null })).toBe('Every 2 years');
+    expect(describeRecurrence({ recurrence_months: 1, recurrence_count: null })).toBe('Every month');
+    expect(describeRecurrence({ recurrence_months: 3, recurrence_count: null })).toBe('Every 3 months');
+  });
+
+  it('adds the number of deliveries of a limited series', () => {
+    expect(describeRecurrence({ recurrence_months: 12, recurrence_count: 5 })).toBe('Every year for 5 years');
+    expect(describeRecurrence({ recurrence_months: 6, recurrence_count: 4 })).toBe('Every 6 months, 4 times');
+  });
+
+  it('is null for one-off messages', () => {
+    expect(describeRecurrence({ recurrence_months: null, recurrence_count: null })).toBeNull();
+  });
+});
+
+describe('describeOccurrence', () => {
+  it('shows progress through the series', () => {
+    expect(describeOccurrence({ occurrence: 2, recurrence_count: 5 })).toBe('Delivery 2 of 5');
+    expect(describeOccurrence({ occurrence: 3, recurrence_count: null })).toBe('Delivery 3');
+  });
+});
@@ -0,0 +1,88 @@
+import type { Message } from '../types/database';
+
+/**
+ * Repeat picker options. 'yearly' runs until the message is deleted,
+ * 'anniversary' stops after a number of years, 'months' repeats every N months.
+ */
+export type RepeatMode = 'once' | 'yearly' | 'anniversary' | 'months';
+
+export const MAX_RECURRENCE_MONTHS = 120;
+export const MAX_RECURRENCE_COUNT = 100;
+
+export interface Recurrence {
+  // Months between deliveries (12 = yearly)
+  months: number;
+  // Total deliveries including the first; null repeats until deleted
+  count: number | null;
+}
+
+/**
+ * Stored rule for a picker value. value is the number of years for
+ * 'anniversary' and the month interval for 'months'.
+ */
+export function toRecurrence(mode: RepeatMode, value: number): Recurrence | null {
+  switch (mode) {
+    case 'yearly':
+      return { months: 12, count: null };
+    case 'anniversary':
+      return { months: 12, count: value };
+    case 'months':
+      return { months: value, count: null };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Picker state for a stored rule (inverse of toRecurrence)
+ */
+export function getRepeatMode(message: Pick<Message, 'recurrence_months' | 'recurrence_count'>): { mode: RepeatMode; value: number | null } {
+  if (message.recurrence_months === null) {
+    return { mode: 'once', value: null };
+  }
+  if (message.recurrence_months === 12) {
+    return message.recurrence_count !== null
+      ? { mode: 'anniversary', value: message.recurrence_count }
+      : { mode: 'yearly', value: null };
+  }
+  return { mode: 'months', value: message.recurrence_months };
+}
+
+/**
+ * Label for the value input next to the repeat picker, or null if it has none
+ */
+export function getRepeatValueLabel(mode: RepeatMode): string | null {
+  if (mode === 'anniversary') return 'years';
+  if (mode === 'months') return 'months';
+  return null;
+}
+
+/**
+ * Short description of a series, e.g. "Every year", "Every year for 5 years",
+ * "Every 3 months". Returns null for one-off messages.
+ */
+export function describeRecurrence(message: Pick<Message, 'recurrence_months' | 'recurrence_count'>): string | null {
+  const months = message.recurrence_months;
+  if (months === null) return null;
+
+  const interval = months === 12
+    ? 'Every year'
+    : months % 12 === 0
+      ? `Every ${months / 12} years`
+      : months === 1 ? 'Every month' : `Every ${months} months`;
+
+  if (message.recurrence_count === null) return interval;
+
+  return months === 12
+    ? `${interval} for ${message.recurrence_count} years`
+    : `${interval}, ${message.recurrence_count} times`;
+}
+
+/**
+ * Progress of a series, e.g. "Delivery 2 of 5" or "Delivery 3"
+ */
+export function describeOccurrence(message: Pick<Message, 'occurrence' | 'recurrence_count'>): string {
+  return message.recurrence_count !== null
+    ? `Delivery ${message.occurrence} of ${message.recurrence_count}`
+    : `Delivery ${message.occurrence}`;
+}
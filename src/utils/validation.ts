@@ -1,3 +1,7 @@
+import { MAX_RECURRENCE_MONTHS, MAX_RECURRENCE_COUNT } from './recurrence';
+import type { RepeatMode } from './recurrence';
+import { MAX_CHECKIN_INTERVAL_DAYS, MAX_CHECKIN_GRACE_DAYS } from './checkin';
+
 export interface FormValidationResult {
   valid: boolean;
   errors: {
@@ -9,14 +13,33 @@ export interface FormValidationResult {
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const MAX_MESSAGE_LENGTH = 4000;
+export const MAX_RECIPIENTS = 10;
+export const MAX_PASSPHRASE_LENGTH = 200;
+export const MAX_PASSPHRASE_HINT_LENGTH = 200;
+export const MAX_AUTHOR_NAME_LENGTH = 80;
+export const MAX_EMAIL_SUBJECT_LENGTH = 150;
+export const MAX_EMAIL_SIGN_OFF_LENGTH = 200;
+
+/**
+ * Split a comma/semicolon/whitespace separated address list into
+ * lowercased, de-duplicated emails (order preserved)
+ */
+export function parseEmailList(input: string): string[] {
+  const emails = input
+    .split(/[\s,;]+/)
+    .map(email => email.trim().toLowerCase())
+    .filter(email => email.length > 0);
+
+  return Array.from(new Set(emails));
+}
 
 /**
  * Validate the message form fields
  */
 export function validateForm(
   messageText: string,
-  scheduledDate: string,
-  email: string
+  deliverAt: string,
+  emails: string[]
 ): FormValidationResult {
   const errors: FormValidationResult['errors'] = {};
 
@@ -28,24 +51,22 @@ export function validateForm(
     errors.message = `Message exceeds ${MAX_MESSAGE_LENGTH} characters`;
   }
 
-  // Validate date
-  if (!scheduledDate) {
-    errors.date = 'Please select a delivery date';
-  } else {
-    const selectedDate = new Date(scheduledDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (selectedDate <= today) {
-      errors.date = 'Delivery date must be in the future';
-    }
+  // Validate delivery time (datetime-local value or ISO timestamp)
+  const selectedDate = new Date(deliverAt);
+  if (!deliverAt || isNaN(selectedDate.getTime())) {
+    errors.date = 'Please select a delivery date and time';
+  } else if (selectedDate <= new Date()) {
+    errors.date = 'Delivery time must be in the future';
   }
 
-  // Validate email
-  if (!email) {
+  // Validate recipients
+  const invalidEmail = emails.find(email => !EMAIL_REGEX.test(email));
+  if (emails.length === 0) {
     errors.email = 'Please enter your email';
-  } else if (!EMAIL_REGEX.test(email)) {
-    errors.email = 'Please enter a valid email address';
+  } else if (invalidEmail) {
+    errors.email = `Please enter a valid email address (${invalidEmail})`;
+  } else if (emails.length > MAX_RECIPIENTS) {
+    errors.email = `You can send to at most ${MAX_RECIPIENTS} recipients`;
   }
 
   return {
@@ -55,15 +76,152 @@ export function validateForm(
 }
 
 /**
- * Calculate a date N months from now in YYYY-MM-DD format
+ * Validate an optional passphrase and its hint. keepsPassphrase is set when
+ * editing a message whose current passphrase stays. Returns an error message or null.
  */
-export function getDateMonthsFromNow(months: number): string {
-  const date = new Date();
-  date.setMonth(date.getMonth() + months);
+export function validatePassphrase(passphrase: string, hint: string, keepsPassphrase: boolean = false): string | null {
+  if (passphrase.trim().length > MAX_PASSPHRASE_LENGTH) {
+    return `Passphrase exceeds ${MAX_PASSPHRASE_LENGTH} characters`;
+  }
+
+  if (hint.trim().length > MAX_PASSPHRASE_HINT_LENGTH) {
+    return `Passphrase hint exceeds ${MAX_PASSPHRASE_HINT_LENGTH} characters`;
+  }
+
+  if (hint.trim() && !passphrase.trim() && !keepsPassphrase) {
+    return 'Add a passphrase for your hint';
+  }
+
+  return null;
+}
+
+/**
+ * Validate the delivery email's custom subject and sign-off (both optional).
+ * Returns an error message or null.
+ */
+export function validateEmailWording(subject: string, signOff: string): string | null {
+  if (subject.trim().length > MAX_EMAIL_SUBJECT_LENGTH) {
+    return `Email subject exceeds ${MAX_EMAIL_SUBJECT_LENGTH} characters`;
+  }
+
+  if (signOff.trim().length > MAX_EMAIL_SIGN_OFF_LENGTH) {
+    return `Sign-off exceeds ${MAX_EMAIL_SIGN_OFF_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the repeat picker. value is years for 'anniversary' and months for
+ * 'months'; occurrence is the delivery a series being edited is on (the new
+ * number of years cannot end it before that). Returns an error message or null.
+ */
+export function validateRecurrence(mode: RepeatMode, value: number, occurrence: number = 1): string | null {
+  if (mode === 'anniversary') {
+    if (!Number.isInteger(value) || value < 2 || value > MAX_RECURRENCE_COUNT) {
+      return `Choose between 2 and ${MAX_RECURRENCE_COUNT} years`;
+    }
+    if (value < occurrence) {
+      return `This series is already on delivery ${occurrence}`;
+    }
+  }
+
+  if (mode === 'months' && (!Number.isInteger(value) || value < 1 || value > MAX_RECURRENCE_MONTHS)) {
+    return `Choose between 1 and ${MAX_RECURRENCE_MONTHS} months`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the check-in interval and grace period (whole days) of a dead
+ * man's switch. Returns an error message or null.
+ */
+export function validateCheckin(intervalDays: number, graceDays: number): string | null {
+  if (!Number.isInteger(intervalDays) || intervalDays < 1 || intervalDays > MAX_CHECKIN_INTERVAL_DAYS) {
+    return `Check in every 1 to ${MAX_CHECKIN_INTERVAL_DAYS} days`;
+  }
 
+  if (!Number.isInteger(graceDays) || graceDays < 1 || graceDays > MAX_CHECKIN_GRACE_DAYS) {
+    return `Choose a grace period of 1 to ${MAX_CHECKIN_GRACE_DAYS} days`;
+  }
+
+  return null;
+}
+
+/**
+ * End-to-end encrypted messages open only with the private link the sender
+ * shares. A gift (recipient unknown until claimed) or a check-in message
+ * (sent when the sender cannot act) would arrive unopenable.
+ * Returns an error message or null.
+ */
+export function validateEncryptedDelivery(encrypted: boolean, isCheckin: boolean, isGift: boolean): string | null {
+  if (encrypted && (isCheckin || isGift)) {
+    return 'Encrypted messages cannot be gifts or use check-in delivery: the delivery email cannot carry the private link.';
+  }
+
+  return null;
+}
+
+/**
+ * Validate a shared capsule entry: a display name plus text, an attachment
+ * or both. Returns an error message or null.
+ */
+export function validateCapsuleEntry(authorName: string, entryText: string, hasAttachment: boolean): string | null {
+  const name = authorName.trim();
+  if (!name) {
+    return 'Please enter the name to sign your entry with';
+  }
+
+  if (name.length > MAX_AUTHOR_NAME_LENGTH) {
+    return `Name exceeds ${MAX_AUTHOR_NAME_LENGTH} characters`;
+  }
+
+  if (!entryText.trim() && !hasAttachment) {
+    return 'Write a note or attach a video or voice note';
+  }
+
+  if (entryText.trim().length > MAX_MESSAGE_LENGTH) {
+    return `Entry exceeds ${MAX_MESSAGE_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Returns true if value looks like a single email address
+ */
+export function isValidEmail(value: string): boolean {
+  return EMAIL_REGEX.test(value.trim());
+}
+
+/**
+ * Format a date as a datetime-local input value (YYYY-MM-DDTHH:mm, browser time zone)
+ */
+export function toDateTimeLocalValue(date: Date): string {
   const yyyy = date.getFullYear();
   const mm = String(date.getMonth() + 1).padStart(2, '0');
   const dd = String(date.getDate()).padStart(2, '0');
+  const hh = String(date.getHours()).padStart(2, '0');
+  const min = String(date.getMinutes()).padStart(2, '0');
+
+  return `${yyyy}-${mm}-${dd}T${hh}:${min}`;
+}
 
-  return `${yyyy}-${mm}-${dd}`;
+/**
+ * Calculate 9:00 AM local time N months from now as a datetime-local value
+ */
+export function getDateMonthsFromNow(months: number): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() + months);
+  date.setHours(9, 0, 0, 0);
+
+  return toDateTimeLocalValue(date);
+}
+
+/**
+ * Returns the browser's IANA time zone (e.g. "Asia/Tokyo"), falling back to UTC
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
 }
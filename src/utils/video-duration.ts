@@ -1,62 +1,99 @@
-const MAX_VIDEO_DURATION_SECONDS = 180; // 3 minutes
+export const MAX_VIDEO_DURATION_SECONDS = 180; // 3 minutes (voice notes too)
+// Free users' voice-note allowance; mirrors effective_storage_limit() in SQL
+export const FREE_AUDIO_LIMIT_BYTES = 10 * 1024 * 1024;
 const ALLOWED_VIDEO_TYPES = ['video/webm', 'video/mp4', 'video/quicktime'];
+// WebM/Opus (recorded), M4A (x-m4a in Chrome/Firefox), MP3
+const ALLOWED_AUDIO_TYPES = ['audio/webm', 'audio/mp4', 'audio/x-m4a', 'audio/mpeg'];
 
-export interface VideoValidationResult {
+export type MediaKind = 'video' | 'audio';
+
+export interface MediaValidationResult {
   valid: boolean;
+  kind: MediaKind;
   duration: number;
   size: number;
   error?: string;
+  // True when the only problem is insufficient remaining storage
+  quotaExceeded?: boolean;
 }
 
 /**
- * Get video duration using HTML5 video element metadata
+ * Attachment kind for an allowed content type, null for anything else
  */
-export function getVideoDuration(file: File): Promise<number> {
+export function getMediaKind(file: File): MediaKind | null {
+  if (ALLOWED_VIDEO_TYPES.includes(file.type)) return 'video';
+  if (ALLOWED_AUDIO_TYPES.includes(file.type)) return 'audio';
+  return null;
+}
+
+/**
+ * Get video or audio duration using HTML5 media element metadata
+ */
+export function getMediaDuration(file: File, kind: MediaKind): Promise<number> {
   return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.preload = 'metadata';
+    const media = document.createElement(kind);
+    media.preload = 'metadata';
+
+    media.onloadedmetadata = () => {
+      // MediaRecorder WebM has no duration header; seeking past the end
+      // makes the browser scan the file and report the real duration
+      if (!Number.isFinite(media.duration)) {
+        media.ondurationchange = () => {
+          if (!Number.isFinite(media.duration)) return;
+          media.ondurationchange = null;
+          URL.revokeObjectURL(media.src);
+          resolve(media.duration);
+        };
+        media.currentTime = Number.MAX_SAFE_INTEGER;
+        return;
+      }
 
-    video.onloadedmetadata = () => {
-      URL.revokeObjectURL(video.src);
-      resolve(video.duration);
+      URL.revokeObjectURL(media.src);
+      resolve(media.duration);
     };
 
-    video.onerror = () => {
-      URL.revokeObjectURL(video.src);
-      reject(new Error('Could not load video metadata'));
+    media.onerror = () => {
+      URL.revokeObjectURL(media.src);
+      reject(new Error(`Could not load ${kind} metadata`));
     };
 
-    video.src = URL.createObjectURL(file);
+    media.src = URL.createObjectURL(file);
   });
 }
 
 /**
- * Validate video file type, duration, and optionally size against remaining storage
+ * Validate video/audio file type, duration, and optionally size against remaining storage.
+ * Fast feedback only; verify-video re-checks kind, size and duration server-side after upload.
  */
-export async function validateVideo(
+export async function validateMedia(
   file: File,
   remainingStorageBytes?: number
-): Promise<VideoValidationResult> {
+): Promise<MediaValidationResult> {
   // Check file type
-  if (!ALLOWED_VIDEO_TYPES.includes(file.type)) {
+  const kind = getMediaKind(file);
+  if (!kind) {
     return {
       valid: false,
+      kind: 'video',
       duration: 0,
       size: file.size,
-      error: 'Invalid file type. Please use WebM, MP4, or MOV.'
+      error: 'Invalid file type. Please use WebM, MP4 or MOV video, or M4A, MP3 or WebM audio.'
     };
   }
 
+  const label = kind === 'audio' ? 'Voice note' : 'Video';
+
   // Check duration
   let duration: number;
   try {
-    duration = await getVideoDuration(file);
+    duration = await getMediaDuration(file, kind);
   } catch {
     return {
       valid: false,
+      kind,
       duration: 0,
       size: file.size,
-      error: 'Could not read video file. Please try a different file.'
+      error: 'Could not read file. Please try a different file.'
     };
   }
 
@@ -65,9 +102,10 @@ export async function validateVideo(
     const seconds = Math.round(duration % 60);
     return {
       valid: false,
+      kind,
       duration,
       size: file.size,
-      error: `Video is ${minutes}:${seconds.toString().padStart(2, '0')} long. Maximum is 3:00.`
+      error: `${label} is ${minutes}:${seconds.toString().padStart(2, '0')} long. Maximum is 3:00.`
     };
   }
 
@@ -75,16 +113,23 @@ export async function validateVideo(
   if (remainingStorageBytes !== undefined && file.size > remainingStorageBytes) {
     const remainingMB = Math.round(remainingStorageBytes / 1024 / 1024);
     const fileMB = Math.round(file.size / 1024 / 1024);
+    // Usage can exceed the limit after a refunded storage pack; existing videos are kept
+    const error = remainingStorageBytes < 0
+      ? `You are ${Math.abs(remainingMB)}MB over your storage limit. Remove a video or add storage to upload.`
+      : `File is ${fileMB}MB but you only have ${remainingMB}MB storage remaining.`;
     return {
       valid: false,
+      kind,
       duration,
       size: file.size,
-      error: `File is ${fileMB}MB but you only have ${remainingMB}MB storage remaining.`
+      error,
+      quotaExceeded: true
     };
   }
 
   return {
     valid: true,
+    kind,
     duration,
     size: file.size
   };
@@ -0,0 +1,73 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+
+const VIDEO_BUCKET = 'message-videos';
+
+export interface CapsuleEntryLink {
+  authorName: string;
+  text: string;
+  mediaKind: 'video' | 'audio' | null;
+  // Signed attachment URL; null without an attachment or if signing failed
+  mediaUrl: string | null;
+}
+
+/**
+ * Entries contributors added to a shared capsule, oldest first, with signed
+ * video/voice-note URLs. An empty list for messages nobody contributed to.
+ */
+export async function createSignedEntryLinks(
+  supabase: SupabaseClient,
+  messageId: string,
+  expiresIn: number
+): Promise<CapsuleEntryLink[]> {
+  const { data: entries, error: queryError } = await supabase
+    .from('capsule_entries')
+    .select('author_name, entry_text, video_storage_path, media_kind')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: true });
+
+  if (queryError) {
+    console.error(JSON.stringify({
+      event: 'CAPSULE_ENTRY_QUERY_FAILED',
+      message_id: messageId,
+      error: queryError.message,
+    }));
+    return [];
+  }
+
+  if (!entries || entries.length === 0) {
+    return [];
+  }
+
+  const paths = entries
+    .map(entry => entry.video_storage_path)
+    .filter((path): path is string => path !== null);
+
+  const urls = new Map<string, string>();
+
+  if (paths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(VIDEO_BUCKET)
+      .createSignedUrls(paths, expiresIn);
+
+    if (signError || !signed) {
+      console.error(JSON.stringify({
+        event: 'CAPSULE_ENTRY_SIGNED_URL_FAILED',
+        message_id: messageId,
+        error: signError?.message ?? 'No URLs returned',
+      }));
+    } else {
+      signed.forEach(entry => {
+        if (entry.path && entry.signedUrl) {
+          urls.set(entry.path, entry.signedUrl);
+        }
+      });
+    }
+  }
+
+  return entries.map(entry => ({
+    authorName: entry.author_name,
+    text: entry.entry_text,
+    mediaKind: entry.video_storage_path ? entry.media_kind : null,
+    mediaUrl: entry.video_storage_path ? urls.get(entry.video_storage_path) ?? null : null,
+  }));
+}
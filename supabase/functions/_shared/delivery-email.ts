@@ -0,0 +1,371 @@
+import { escapeHtml, renderButton, renderEmailLayout } from './email-layout.ts';
+import { SignedImageLink } from './message-images.ts';
+import { CapsuleEntryLink } from './capsule-entries.ts';
+
+/**
+ * Languages the delivery email is available in; chosen by the sender per
+ * message (messages.email_locale)
+ */
+export type EmailLocale = 'en' | 'es' | 'fr' | 'de';
+
+const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+// Inbox preview of the message text
+const PREHEADER_MAX_LENGTH = 100;
+
+// Trusted copy: interpolated into the HTML without escaping
+interface DeliveryStrings {
+  subject: string;
+  title: string;
+  headline: string;
+  // Preview when the text is withheld (encrypted or passphrase-protected)
+  preheader: string;
+  encrypted: string;
+  passphrase: string;
+  hint: string;
+  videoAttached: string;
+  audioAttached: string;
+  watchVideo: string;
+  listen: string;
+  videoExpires: string;
+  audioExpires: string;
+  photosAttached: (count: number) => string;
+  photoAlt: (position: number) => string;
+  photoTap: string;
+  photosExpire: string;
+  contributions: (count: number) => string;
+  entryVideo: string;
+  entryAudio: string;
+  entriesExpire: string;
+  gift: string;
+  claimGift: string;
+  giftNote: string;
+  viewOnline: string;
+  // app is the FtrMsg link (HTML) or name (plaintext)
+  footer: (app: string) => string;
+}
+
+const STRINGS: Record<EmailLocale, DeliveryStrings> = {
+  en: {
+    subject: 'Your FtrMsg message has arrived!',
+    title: 'Your FtrMsg Message',
+    headline: 'Your message from the past has arrived!',
+    preheader: 'A message someone wrote for you is ready to open.',
+    encrypted: 'This message is end-to-end encrypted. Open it with the private link the sender shared with you.',
+    passphrase: 'A passphrase is required to open this message. You will be asked for it on the message page.',
+    hint: 'Hint:',
+    videoAttached: 'Video Message Attached',
+    audioAttached: 'Voice Note Attached',
+    watchVideo: 'Watch Video',
+    listen: 'Listen',
+    videoExpires: 'Video link expires in 7 days',
+    audioExpires: 'Voice note link expires in 7 days',
+    photosAttached: (count) => count === 1 ? '1 Photo Attached' : `${count} Photos Attached`,
+    photoAlt: (position) => `Photo ${position}`,
+    photoTap: 'Tap a photo for full size.',
+    photosExpire: 'Photo links expire in 7 days',
+    contributions: (count) => count === 1 ? '1 Contribution' : `${count} Contributions`,
+    entryVideo: 'Watch video',
+    entryAudio: 'Listen to voice note',
+    entriesExpire: 'Video and voice note links expire in 7 days',
+    gift: 'This time capsule is a gift to you',
+    claimGift: 'Claim Your Gift',
+    giftNote: 'Sign in to keep it in your own FtrMsg dashboard. The first recipient to claim it keeps it',
+    viewOnline: 'View Message Online',
+    footer: (app) => `Sent with love from your past self via ${app}`,
+  },
+  es: {
+    subject: '¡Tu mensaje de FtrMsg ha llegado!',
+    title: 'Tu mensaje de FtrMsg',
+    headline: '¡Ha llegado tu mensaje del pasado!',
+    preheader: 'Un mensaje que alguien escribió para ti ya se puede abrir.',
+    encrypted: 'Este mensaje está cifrado de extremo a extremo. Ábrelo con el enlace privado que te compartió el remitente.',
+    passphrase: 'Se necesita una frase de contraseña para abrir este mensaje. Se te pedirá en la página del mensaje.',
+    hint: 'Pista:',
+    videoAttached: 'Videomensaje adjunto',
+    audioAttached: 'Nota de voz adjunta',
+    watchVideo: 'Ver video',
+    listen: 'Escuchar',
+    videoExpires: 'El enlace del video caduca en 7 días',
+    audioExpires: 'El enlace de la nota de voz caduca en 7 días',
+    photosAttached: (count) => count === 1 ? '1 foto adjunta' : `${count} fotos adjuntas`,
+    photoAlt: (position) => `Foto ${position}`,
+    photoTap: 'Toca una foto para verla en tamaño completo.',
+    photosExpire: 'Los enlaces de las fotos caducan en 7 días',
+    contributions: (count) => count === 1 ? '1 contribución' : `${count} contribuciones`,
+    entryVideo: 'Ver video',
+    entryAudio: 'Escuchar nota de voz',
+    entriesExpire: 'Los enlaces de videos y notas de voz caducan en 7 días',
+    gift: 'Esta cápsula del tiempo es un regalo para ti',
+    claimGift: 'Reclama tu regalo',
+    giftNote: 'Inicia sesión para guardarla en tu propio panel de FtrMsg. Se la queda la primera persona que la reclame',
+    viewOnline: 'Ver mensaje en línea',
+    footer: (app) => `Enviado con cariño por tu yo del pasado a través de ${app}`,
+  },
+  fr: {
+    subject: 'Votre message FtrMsg est arrivé !',
+    title: 'Votre message FtrMsg',
+    headline: 'Votre message du passé est arrivé !',
+    preheader: 'Un message que quelqu\'un a écrit pour vous est prêt à être ouvert.',
+    encrypted: 'Ce message est chiffré de bout en bout. Ouvrez-le avec le lien privé que l\'expéditeur vous a transmis.',
+    passphrase: 'Une phrase secrète est nécessaire pour ouvrir ce message. Elle vous sera demandée sur la page du message.',
+    hint: 'Indice :',
+    videoAttached: 'Message vidéo joint',
+    audioAttached: 'Note vocale jointe',
+    watchVideo: 'Voir la vidéo',
+    listen: 'Écouter',
+    videoExpires: 'Le lien de la vidéo expire dans 7 jours',
+    audioExpires: 'Le lien de la note vocale expire dans 7 jours',
+    photosAttached: (count) => count === 1 ? '1 photo jointe' : `${count} photos jointes`,
+    photoAlt: (position) => `Photo ${position}`,
+    photoTap: 'Touchez une photo pour l\'afficher en taille réelle.',
+    photosExpire: 'Les liens des photos expirent dans 7 jours',
+    contributions: (count) => count === 1 ? '1 contribution' : `${count} contributions`,
+    entryVideo: 'Voir la vidéo',
+    entryAudio: 'Écouter la note vocale',
+    entriesExpire: 'Les liens des vidéos et notes vocales expirent dans 7 jours',
+    gift: 'Cette capsule temporelle est un cadeau pour vous',
+    claimGift: 'Récupérer votre cadeau',
+    giftNote: 'Connectez-vous pour la garder dans votre propre tableau de bord FtrMsg. Le premier destinataire qui la récupère la garde',
+    viewOnline: 'Voir le message en ligne',
+    footer: (app) => `Envoyé avec amour par votre moi du passé via ${app}`,
+  },
+  de: {
+    subject: 'Deine FtrMsg-Nachricht ist angekommen!',
+    title: 'Deine FtrMsg-Nachricht',
+    headline: 'Deine Nachricht aus der Vergangenheit ist angekommen!',
+    preheader: 'Eine Nachricht, die jemand für dich geschrieben hat, kann jetzt geöffnet werden.',
+    encrypted: 'Diese Nachricht ist Ende-zu-Ende-verschlüsselt. Öffne sie mit dem privaten Link, den dir der Absender geschickt hat.',
+    passphrase: 'Zum Öffnen dieser Nachricht wird eine Passphrase benötigt. Du wirst auf der Nachrichtenseite danach gefragt.',
+    hint: 'Hinweis:',
+    videoAttached: 'Videonachricht angehängt',
+    audioAttached: 'Sprachnachricht angehängt',
+    watchVideo: 'Video ansehen',
+    listen: 'Anhören',
+    videoExpires: 'Der Videolink läuft in 7 Tagen ab',
+    audioExpires: 'Der Link zur Sprachnachricht läuft in 7 Tagen ab',
+    photosAttached: (count) => count === 1 ? '1 Foto angehängt' : `${count} Fotos angehängt`,
+    photoAlt: (position) => `Foto ${position}`,
+    photoTap: 'Tippe auf ein Foto für die volle Größe.',
+    photosExpire: 'Fotolinks laufen in 7 Tagen ab',
+    contributions: (count) => count === 1 ? '1 Beitrag' : `${count} Beiträge`,
+    entryVideo: 'Video ansehen',
+    entryAudio: 'Sprachnachricht anhören',
+    entriesExpire: 'Video- und Sprachnachrichtenlinks laufen in 7 Tagen ab',
+    gift: 'Diese Zeitkapsel ist ein Geschenk für dich',
+    claimGift: 'Geschenk annehmen',
+    giftNote: 'Melde dich an, um sie in deinem eigenen FtrMsg-Dashboard zu behalten. Wer sie zuerst annimmt, behält sie',
+    viewOnline: 'Nachricht online ansehen',
+    footer: (app) => `Mit Liebe gesendet von deinem früheren Ich über ${app}`,
+  },
+};
+
+export interface DeliveryEmailContent {
+  // messages.email_locale; unknown values fall back to English
+  locale: string | null;
+  // Sender's subject line; the localized default when empty
+  subject: string | null;
+  // Sender's sign-off, shown under the message
+  signOff: string | null;
+  // null when the text stays behind the message page
+  messageText: string | null;
+  encrypted: boolean;
+  passphraseRequired: boolean;
+  passphraseHint: string | null;
+  mediaKind: 'video' | 'audio' | null;
+  videoUrl: string | null;
+  images: SignedImageLink[];
+  entries: CapsuleEntryLink[];
+  appUrl: string;
+  viewUrl: string;
+  // Unclaimed gifts only
+  claimUrl: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function resolveLocale(locale: string | null): EmailLocale {
+  return locale && locale in STRINGS ? locale as EmailLocale : DEFAULT_EMAIL_LOCALE;
+}
+
+/**
+ * Single line without line breaks (a subject is a mail header)
+ */
+function toSingleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Start of the message text for the inbox preview
+ */
+function buildPreview(messageText: string): string {
+  const line = toSingleLine(messageText);
+  return line.length > PREHEADER_MAX_LENGTH ? `${line.slice(0, PREHEADER_MAX_LENGTH - 1).trimEnd()}…` : line;
+}
+
+/**
+ * Delivery email in the recipient-facing language: the HTML in the shared
+ * layout, a plaintext alternative with the same content and links, and a
+ * preheader. Everything the sender or contributors wrote is escaped.
+ */
+export function renderDeliveryEmail(content: DeliveryEmailContent): RenderedEmail {
+  const locale = resolveLocale(content.locale);
+  const s = STRINGS[locale];
+  const isAudio = content.mediaKind === 'audio';
+  const messageText = content.messageText ?? '';
+  const signOff = content.signOff?.trim() || null;
+  const subject = toSingleLine(content.subject ?? '') || s.subject;
+  const preheader = content.messageText !== null && messageText.trim()
+    ? buildPreview(messageText)
+    : s.preheader;
+
+  const html = renderEmailLayout({
+    title: s.title,
+    headerColor: '#FDE68A',
+    headline: s.headline,
+    preheader,
+    lang: locale,
+    body: `
+              <div style="background: #F9F9F9; border: 2px solid #000000; border-radius: 8px; padding: 25px; margin-bottom: 20px;">
+                ${content.encrypted ? `
+                <p style="margin: 0; font-size: 16px; line-height: 1.6; color: #000000;">
+                  &#128274; ${s.encrypted}
+                </p>
+                ` : ''}
+                ${content.passphraseRequired ? `
+                <p style="margin: ${content.encrypted ? '15px' : '0'} 0 0 0; font-size: 16px; line-height: 1.6; color: #000000;">
+                  &#128273; ${s.passphrase}
+                </p>
+                ${content.passphraseHint ? `
+                <p style="margin: 10px 0 0 0; font-size: 16px; line-height: 1.6; color: #000000; white-space: pre-wrap;"><strong>${s.hint}</strong> ${escapeHtml(content.passphraseHint)}</p>
+                ` : ''}
+                ` : ''}
+                ${content.messageText !== null ? `
+                <p style="margin: 0; font-size: 16px; line-height: 1.6; color: #000000; white-space: pre-wrap;">${escapeHtml(messageText)}</p>
+                ` : ''}
+                ${signOff ? `
+                <p style="margin: 20px 0 0 0; font-size: 16px; line-height: 1.6; color: #000000; font-style: italic; white-space: pre-wrap;">${escapeHtml(signOff)}</p>
+                ` : ''}
+              </div>
+              ${content.videoUrl ? `
+              <div style="background: #BAE6FD; border: 2px solid #000000; border-radius: 8px; padding: 20px; margin-bottom: 20px; text-align: center;">
+                <p style="margin: 0 0 15px 0; font-weight: 700; color: #000000;">${isAudio ? s.audioAttached : s.videoAttached}</p>
+                ${renderButton(content.videoUrl, isAudio ? s.listen : s.watchVideo, '#BBF7D0')}
+                <p style="margin: 15px 0 0 0; font-size: 12px; color: #555555;">
+                  ${isAudio ? s.audioExpires : s.videoExpires}
+                </p>
+              </div>
+              ` : ''}
+              ${content.images.length > 0 ? `
+              <div style="background: #FECDD3; border: 2px solid #000000; border-radius: 8px; padding: 20px; margin-bottom: 20px; text-align: center;">
+                <p style="margin: 0 0 15px 0; font-weight: 700; color: #000000;">${s.photosAttached(content.images.length)}</p>
+                ${content.images.map((image, i) => `
+                <a href="${image.url}" style="display: inline-block; margin: 4px; text-decoration: none;">
+                  <img src="${image.thumbnailUrl}" alt="${s.photoAlt(i + 1)}" width="120" height="120" style="display: block; width: 120px; height: 120px; object-fit: cover; border: 2px solid #000000; border-radius: 8px;">
+                </a>
+                `).join('')}
+                <p style="margin: 15px 0 0 0; font-size: 12px; color: #555555;">
+                  ${s.photoTap} ${s.photosExpire}
+                </p>
+              </div>
+              ` : ''}
+              ${content.entries.length > 0 ? `
+              <div style="background: #BAE6FD; border: 2px solid #000000; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+                <p style="margin: 0 0 5px 0; font-weight: 700; color: #000000;">${s.contributions(content.entries.length)}</p>
+                ${content.entries.map((entry) => `
+                <div style="background: #FFFFFF; border: 2px solid #000000; border-radius: 8px; padding: 15px; margin-top: 10px;">
+                  <p style="margin: 0 0 8px 0; font-weight: 700; color: #000000;">${escapeHtml(entry.authorName)}</p>
+                  ${entry.text ? `
+                  <p style="margin: 0; font-size: 16px; line-height: 1.6; color: #000000; white-space: pre-wrap;">${escapeHtml(entry.text)}</p>
+                  ` : ''}
+                  ${entry.mediaUrl ? `
+                  <a href="${entry.mediaUrl}" style="display: inline-block; margin-top: 10px; color: #000000; font-weight: 700;">
+                    ${entry.mediaKind === 'audio' ? s.entryAudio : s.entryVideo}
+                  </a>
+                  ` : ''}
+                </div>
+                `).join('')}
+                <p style="margin: 15px 0 0 0; font-size: 12px; color: #555555; text-align: center;">
+                  ${s.entriesExpire}
+                </p>
+              </div>
+              ` : ''}
+              ${content.claimUrl ? `
+              <div style="background: #BBF7D0; border: 2px solid #000000; border-radius: 8px; padding: 20px; margin-bottom: 20px; text-align: center;">
+                <p style="margin: 0 0 15px 0; font-weight: 700; color: #000000;">&#127873; ${s.gift}</p>
+                ${renderButton(content.claimUrl, s.claimGift, '#FFFFFF')}
+                <p style="margin: 15px 0 0 0; font-size: 12px; color: #555555;">
+                  ${s.giftNote}
+                </p>
+              </div>
+              ` : ''}
+              <div style="text-align: center;">
+                ${renderButton(content.viewUrl, s.viewOnline)}
+              </div>
+    `,
+    footer: s.footer(`<a href="${content.appUrl}" style="color: #000000; font-weight: 700;">FtrMsg</a>`),
+  });
+
+  return { subject, html, text: renderDeliveryText(content, s, signOff) };
+}
+
+/**
+ * Plaintext alternative: the same sections as the HTML, links written out
+ */
+function renderDeliveryText(content: DeliveryEmailContent, s: DeliveryStrings, signOff: string | null): string {
+  const isAudio = content.mediaKind === 'audio';
+  const sections: string[] = [s.headline];
+
+  if (content.encrypted) {
+    sections.push(s.encrypted);
+  }
+
+  if (content.passphraseRequired) {
+    sections.push(content.passphraseHint ? `${s.passphrase}\n${s.hint} ${content.passphraseHint}` : s.passphrase);
+  }
+
+  if (content.messageText !== null) {
+    sections.push(content.messageText);
+  }
+
+  if (signOff) {
+    sections.push(signOff);
+  }
+
+  if (content.videoUrl) {
+    sections.push(`${isAudio ? s.audioAttached : s.videoAttached}\n${content.videoUrl}\n(${isAudio ? s.audioExpires : s.videoExpires})`);
+  }
+
+  if (content.images.length > 0) {
+    sections.push([
+      s.photosAttached(content.images.length),
+      ...content.images.map((image) => image.url),
+      `(${s.photosExpire})`,
+    ].join('\n'));
+  }
+
+  if (content.entries.length > 0) {
+    sections.push([
+      s.contributions(content.entries.length),
+      ...content.entries.map((entry) => [
+        `--- ${entry.authorName} ---`,
+        ...(entry.text ? [entry.text] : []),
+        ...(entry.mediaUrl ? [`${entry.mediaKind === 'audio' ? s.entryAudio : s.entryVideo}: ${entry.mediaUrl}`] : []),
+      ].join('\n')),
+      `(${s.entriesExpire})`,
+    ].join('\n\n'));
+  }
+
+  if (content.claimUrl) {
+    sections.push(`${s.gift}\n${s.claimGift}: ${content.claimUrl}\n${s.giftNote}`);
+  }
+
+  sections.push(`${s.viewOnline}: ${content.viewUrl}`);
+  sections.push(`--\n${s.footer('FtrMsg')}\n${content.appUrl}`);
+
+  return sections.join('\n\n');
+}
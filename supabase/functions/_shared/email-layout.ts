@@ -0,0 +1,108 @@
+/**
+ * Neo-brutalist email shell shared by every email FtrMsg sends: cream page,
+ * black-bordered card, colored header with the wordmark, optional footer.
+ */
+export interface EmailLayout {
+  // <title> of the document
+  title: string;
+  // Header background, e.g. '#FDE68A' (yellow) or '#FECDD3' (pink)
+  headerColor: string;
+  // Line under the wordmark; HTML
+  headline: string;
+  // Card content; HTML
+  body: string;
+  // Footer line; HTML. No footer row when omitted
+  footer?: string;
+  // Inbox preview text shown after the subject; plain text, hidden in the body
+  preheader?: string;
+  // <html lang>, e.g. 'de' (default 'en')
+  lang?: string;
+}
+
+/**
+ * Escapes user-provided text for interpolation into email HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Bordered call-to-action link with the offset shadow
+ */
+export function renderButton(href: string, label: string, color = '#FDE68A'): string {
+  return `<a href="${href}" style="display: inline-block; background: ${color}; color: #000000; text-decoration: none; padding: 12px 24px; border: 2px solid #000000; border-radius: 8px; font-weight: 700; box-shadow: 4px 4px 0px 0px #000000;">
+                  ${label}
+                </a>`;
+}
+
+/**
+ * Date and time in the sender's time zone, e.g. "Mar 4, 2027, 9:00 AM EST"
+ */
+export function formatEmailDate(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone,
+    timeZoneName: 'short',
+  });
+}
+
+/**
+ * Wraps content in the shared layout and returns the full HTML document
+ */
+export function renderEmailLayout(layout: EmailLayout): string {
+  return `
+<!DOCTYPE html>
+<html lang="${layout.lang ?? 'en'}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${layout.title}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #FFFDF7; font-family: 'Helvetica Neue', Arial, sans-serif;">
+  ${layout.preheader ? `
+  <div style="display: none; max-height: 0; overflow: hidden; mso-hide: all;">${escapeHtml(layout.preheader)}</div>
+  ` : ''}
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #FFFDF7; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background: #FFFFFF; border: 3px solid #000000; border-radius: 8px; box-shadow: 8px 8px 0px 0px #000000;">
+          <!-- Header -->
+          <tr>
+            <td style="background: ${layout.headerColor}; padding: 30px; border-bottom: 3px solid #000000; border-radius: 5px 5px 0 0;">
+              <h1 style="margin: 0; font-size: 28px; font-weight: 800; color: #000000; text-transform: uppercase;">
+                FTRMSG
+              </h1>
+              <p style="margin: 10px 0 0 0; font-size: 16px; color: #333333;">
+                ${layout.headline}
+              </p>
+            </td>
+          </tr>
+          <!-- Content -->
+          <tr>
+            <td style="padding: 30px;${layout.footer ? '' : ' border-radius: 0 0 5px 5px;'}">
+              ${layout.body}
+            </td>
+          </tr>
+          ${layout.footer ? `
+          <!-- Footer -->
+          <tr>
+            <td style="background: #F5F5F5; padding: 20px 30px; border-top: 2px solid #000000; border-radius: 0 0 5px 5px;">
+              <p style="margin: 0; font-size: 14px; color: #555555; text-align: center;">
+                ${layout.footer}
+              </p>
+            </td>
+          </tr>
+          ` : ''}
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+}
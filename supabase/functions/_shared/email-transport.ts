@@ -0,0 +1,172 @@
+import { Resend } from 'https://esm.sh/resend@2.1.0';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { getSupabaseAdmin } from './supabase-admin.ts';
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  // Plaintext alternative; HTML-only when omitted
+  text?: string;
+}
+
+export interface SendEmailResult {
+  success: boolean;
+  // Provider message id (matched by webhook-resend for Resend)
+  providerId?: string;
+  error?: string;
+}
+
+/**
+ * One way of handing an email off. Implementations may throw; sendEmail
+ * turns that into a failed result.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<SendEmailResult>;
+}
+
+class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private client = new Resend(Deno.env.get('RESEND_API_KEY')!);
+
+  async send(email: OutgoingEmail): Promise<SendEmailResult> {
+    const { data, error } = await this.client.emails.send(email);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, providerId: data?.id };
+  }
+}
+
+/**
+ * Generic SMTP relay. A connection is opened per email: sends are already
+ * spaced out by the callers' rate limit, and nothing is left open when the
+ * function returns.
+ */
+class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  async send(email: OutgoingEmail): Promise<SendEmailResult> {
+    const username = Deno.env.get('SMTP_USERNAME');
+    const client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get('SMTP_HOST')!,
+        port: parseInt(Deno.env.get('SMTP_PORT') || '587', 10),
+        // true = implicit TLS (usually port 465); otherwise STARTTLS when offered
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        auth: username ? { username, password: Deno.env.get('SMTP_PASSWORD') || '' } : undefined,
+      },
+      // Local catchers (Mailpit, MailHog) speak plain SMTP only
+      debug: { allowUnsecure: Deno.env.get('SMTP_ALLOW_INSECURE') === 'true' },
+    });
+
+    try {
+      await client.send({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        content: email.text,
+      });
+    } finally {
+      await client.close();
+    }
+
+    return { success: true, providerId: `smtp_${crypto.randomUUID()}` };
+  }
+}
+
+/**
+ * Development sink: nothing leaves the machine. 'console' logs the email,
+ * 'file' writes it as JSON to EMAIL_SINK_DIR, 'mailbox' inserts it into the
+ * dev_mailbox table. Every email is reported as sent.
+ */
+class SinkTransport implements EmailTransport {
+  constructor(readonly name: 'console' | 'file' | 'mailbox') {}
+
+  async send(email: OutgoingEmail): Promise<SendEmailResult> {
+    const id = crypto.randomUUID();
+
+    if (this.name === 'console') {
+      console.log(JSON.stringify({ event: 'EMAIL_SINK', id, ...email }));
+    } else if (this.name === 'file') {
+      // Edge Functions may only write below /tmp
+      const dir = Deno.env.get('EMAIL_SINK_DIR') || '/tmp/ftrmsg-mail';
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(
+        `${dir}/${new Date().toISOString().replace(/[:.]/g, '-')}-${id}.json`,
+        JSON.stringify({ id, ...email }, null, 2)
+      );
+    } else {
+      const { error } = await getSupabaseAdmin().from('dev_mailbox').insert({
+        id,
+        from_email: email.from,
+        to_email: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text ?? null,
+      });
+
+      if (error) {
+        return { success: false, error: `Mailbox insert failed: ${error.message}` };
+      }
+    }
+
+    return { success: true, providerId: `${this.name}_${id}` };
+  }
+}
+
+let cachedTransport: EmailTransport | null = null;
+
+/**
+ * Transport chosen by EMAIL_TRANSPORT: 'resend' (default), 'smtp',
+ * 'console', 'file' or 'mailbox'. Throws on an unknown value; call it at
+ * module scope so a typo fails the function at boot instead of every send.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (cachedTransport) {
+    return cachedTransport;
+  }
+
+  const name = Deno.env.get('EMAIL_TRANSPORT') || 'resend';
+
+  switch (name) {
+    case 'resend':
+      cachedTransport = new ResendTransport();
+      break;
+    case 'smtp':
+      if (!Deno.env.get('SMTP_HOST')) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      cachedTransport = new SmtpTransport();
+      break;
+    case 'console':
+    case 'file':
+    case 'mailbox':
+      cachedTransport = new SinkTransport(name);
+      break;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${name}`);
+  }
+
+  return cachedTransport;
+}
+
+/**
+ * Send one email through transport. Never throws: transport errors come
+ * back as { success: false, error }.
+ */
+export async function sendEmail(transport: EmailTransport, email: OutgoingEmail): Promise<SendEmailResult> {
+  try {
+    return await transport.send(email);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
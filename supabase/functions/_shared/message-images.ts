@@ -0,0 +1,60 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+
+const IMAGE_BUCKET = 'message-images';
+
+export interface SignedImageLink {
+  url: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Signed original + thumbnail URLs for a message's photos, in display order.
+ * Photos whose URLs could not be signed are left out (and logged).
+ */
+export async function createSignedImageLinks(
+  supabase: SupabaseClient,
+  messageId: string,
+  expiresIn: number
+): Promise<SignedImageLink[]> {
+  const { data: images, error: queryError } = await supabase
+    .from('message_images')
+    .select('storage_path, thumbnail_path')
+    .eq('message_id', messageId)
+    .order('position', { ascending: true });
+
+  if (queryError) {
+    console.error(JSON.stringify({
+      event: 'IMAGE_QUERY_FAILED',
+      message_id: messageId,
+      error: queryError.message,
+    }));
+    return [];
+  }
+
+  if (!images || images.length === 0) {
+    return [];
+  }
+
+  const paths = images.flatMap(image => [image.storage_path, image.thumbnail_path]);
+  const { data: signed, error: signError } = await supabase.storage
+    .from(IMAGE_BUCKET)
+    .createSignedUrls(paths, expiresIn);
+
+  if (signError || !signed) {
+    console.error(JSON.stringify({
+      event: 'IMAGE_SIGNED_URL_FAILED',
+      message_id: messageId,
+      error: signError?.message ?? 'No URLs returned',
+    }));
+    return [];
+  }
+
+  const urls = new Map(signed.map(entry => [entry.path, entry.signedUrl]));
+
+  return images
+    .map(image => ({
+      url: urls.get(image.storage_path) ?? '',
+      thumbnailUrl: urls.get(image.thumbnail_path) ?? '',
+    }))
+    .filter(link => link.url && link.thumbnailUrl);
+}
@@ -0,0 +1,11 @@
+/**
+ * Verify shared secret header for Supabase Database Webhooks
+ * Guards verify-video from unauthorized invocation
+ */
+export function verifyWebhookSecret(request: Request): boolean {
+  const webhookSecret = Deno.env.get('STORAGE_WEBHOOK_SECRET');
+  if (!webhookSecret) {
+    return false;
+  }
+  return request.headers.get('x-webhook-secret') === webhookSecret;
+}
@@ -0,0 +1,67 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { token } = await req.json();
+
+    if (!token || typeof token !== 'string' || !UUID_REGEX.test(token)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid token' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    // Service role: check_in resolves the sender from the token
+    const { data: checkedIn, error: checkinError } = await supabaseAdmin.rpc('check_in', {
+      p_token: token,
+    });
+
+    if (checkinError) {
+      if (checkinError.code === 'P0001') {
+        return new Response(
+          JSON.stringify({ error: 'Check-in link not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw new Error(checkinError.message);
+    }
+
+    // State of the message whose reminder held this link
+    const { data: message } = await supabaseAdmin
+      .from('messages')
+      .select('checkin_due_at, timezone, switch_triggered_at')
+      .eq('checkin_token', token)
+      .single();
+
+    return new Response(
+      JSON.stringify({
+        checkedIn: checkedIn ?? 0,
+        // Set when this link's switch already fired; checking in cannot stop it
+        triggered: !!message?.switch_triggered_at,
+        nextCheckinDueAt: message?.switch_triggered_at ? null : message?.checkin_due_at ?? null,
+        timezone: message?.timezone ?? 'UTC',
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Check-in error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
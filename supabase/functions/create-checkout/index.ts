@@ -7,6 +7,35 @@ const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   httpClient: Stripe.createFetchHttpClient(),
 });
 
+interface Product {
+  name: string;
+  description: string;
+  amountCents: number;
+  storageBytesAdded: number;
+}
+
+// Prices are defined server-side; the client only sends productType
+const PRODUCTS: Record<string, Product> = {
+  pro_upgrade: {
+    name: 'FtrMsg Pro',
+    description: 'Unlimited messages, video support, 2GB storage',
+    amountCents: 900,
+    storageBytesAdded: 0,
+  },
+  storage_addon: {
+    name: 'FtrMsg Storage Pack',
+    description: '+5GB video storage',
+    amountCents: 500,
+    storageBytesAdded: 5368709120, // 5GB
+  },
+  gift_capsule: {
+    name: 'FtrMsg Gift Capsule',
+    description: 'One time capsule for someone else, with a link to claim it',
+    amountCents: 500,
+    storageBytesAdded: 0,
+  },
+};
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -27,7 +56,9 @@ serve(async (req: Request) => {
       );
     }
 
-    if (productType !== 'pro_upgrade') {
+    // Own keys only, so 'toString' or '__proto__' is not a product
+    const product = Object.hasOwn(PRODUCTS, productType) ? PRODUCTS[productType] : undefined;
+    if (!product) {
       return new Response(
         JSON.stringify({ error: 'Invalid product type' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -49,13 +80,20 @@ serve(async (req: Request) => {
       );
     }
 
-    if (profile.tier === 'pro') {
+    if (productType === 'pro_upgrade' && profile.tier === 'pro') {
       return new Response(
         JSON.stringify({ error: 'User is already Pro' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    if (productType === 'storage_addon' && profile.tier !== 'pro') {
+      return new Response(
+        JSON.stringify({ error: 'Storage add-ons require Pro' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const appUrl = Deno.env.get('APP_URL') || 'http://localhost:5173';
     const session = await stripe.checkout.sessions.create({
       mode: 'payment',
@@ -65,10 +103,10 @@ serve(async (req: Request) => {
           price_data: {
             currency: 'usd',
             product_data: {
-              name: 'FtrMsg Pro',
-              description: 'Unlimited messages, video support, 2GB storage',
+              name: product.name,
+              description: product.description,
             },
-            unit_amount: 900,
+            unit_amount: product.amountCents,
           },
           quantity: 1,
         },
@@ -76,8 +114,9 @@ serve(async (req: Request) => {
       metadata: {
         userId,
         productType,
+        storageBytesAdded: String(product.storageBytesAdded),
       },
-      success_url: `${appUrl}?success=true`,
+      success_url: `${appUrl}?success=true&product=${productType}`,
       cancel_url: `${appUrl}?canceled=true`,
     });
 
@@ -87,9 +126,10 @@ serve(async (req: Request) => {
       .insert({
         user_id: userId,
         stripe_checkout_session_id: session.id,
-        amount_cents: 900,
+        amount_cents: product.amountCents,
         currency: 'usd',
-        product_type: 'pro_upgrade',
+        product_type: productType,
+        storage_bytes_added: product.storageBytesAdded,
         status: 'pending',
       });
 
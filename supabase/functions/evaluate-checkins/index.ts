@@ -0,0 +1,278 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { verifyCronSecret } from '../_shared/cron-auth.ts';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+import { escapeHtml, formatEmailDate, renderButton, renderEmailLayout } from '../_shared/email-layout.ts';
+import { getEmailTransport, sendEmail } from '../_shared/email-transport.ts';
+
+const transport = getEmailTransport();
+// Reminders per run; the rest are picked up by the next run
+const BATCH_SIZE = 30;
+// Same 45s budget as process-delivery (60s Edge Function limit)
+const TIMEOUT_MS = 45000;
+const RATE_LIMIT_DELAY_MS = 1000;
+// The final warning goes out this long before the switch fires
+const FINAL_REMINDER_HOURS = parseInt(Deno.env.get('CHECKIN_FINAL_REMINDER_HOURS') || '24', 10);
+
+type ReminderKind = 'due' | 'final';
+
+interface ArmedMessage {
+  id: string;
+  user_id: string;
+  delivery_email: string;
+  deliver_at: string;
+  timezone: string;
+  checkin_interval_days: number;
+  checkin_token: string;
+  checkin_reminders_sent: number;
+}
+
+interface EvaluateResult {
+  triggered: number;
+  reminded: number;
+  reminderFailures: number;
+  stoppedEarly: boolean;
+}
+
+/**
+ * Delays execution by RATE_LIMIT_DELAY_MS (1000ms) to respect the provider's 1/s limit
+ */
+function delayForRateLimit(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
+}
+
+/**
+ * Build the reminder sent to the sender in the shared layout. 'due' goes out
+ * when a check-in is missed, 'final' shortly before the switch fires. Only
+ * the primary recipient and deadline are shown, never the message itself.
+ */
+function buildReminderEmail(
+  message: ArmedMessage,
+  kind: ReminderKind
+): { subject: string; html: string } {
+  const appUrl = Deno.env.get('APP_URL') || 'https://ftrmsg.app';
+  const checkinUrl = `${appUrl}/checkin/${message.checkin_token}`;
+  const deadline = formatEmailDate(message.deliver_at, message.timezone);
+  const paragraph = (html: string) =>
+    `<p style="margin: 0 0 15px 0; font-size: 16px; line-height: 1.6; color: #000000;">${html}</p>`;
+
+  const subject = kind === 'final'
+    ? 'Last reminder: check in or your FtrMsg message will be delivered'
+    : 'Time to check in with FtrMsg';
+
+  const html = renderEmailLayout({
+    title: 'Check In',
+    headerColor: kind === 'final' ? '#FECDD3' : '#FDE68A',
+    headline: kind === 'final' ? 'Your check-in window is about to close' : 'Your check-in is due',
+    body: `
+              ${paragraph(`You asked us to deliver your message to <strong>${escapeHtml(message.delivery_email)}</strong> if you stop checking in. It will be sent on <strong>${deadline}</strong> unless you check in before then.`)}
+              ${paragraph(`Checking in restarts your ${message.checkin_interval_days}-day interval for all of your check-in messages.`)}
+              ${renderButton(checkinUrl, "I'm Still Here", '#BBF7D0')}
+    `,
+  });
+
+  return { subject, html };
+}
+
+/**
+ * Fires every armed switch whose deadline has passed. The status and
+ * switch_triggered_at guards make this a no-op for rows a concurrent
+ * check-in or run already handled. process-delivery sends them next.
+ */
+async function triggerOverdueSwitches(
+  supabase: SupabaseClient,
+  now: Date
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('messages')
+    .update({ switch_triggered_at: now.toISOString() })
+    .eq('delivery_mode', 'checkin')
+    .eq('status', 'pending')
+    .is('switch_triggered_at', null)
+    .lte('deliver_at', now.toISOString())
+    .select('id, user_id, deliver_at');
+
+  if (error) {
+    throw new Error(`Failed to trigger switches: ${error.message}`);
+  }
+
+  for (const message of data ?? []) {
+    console.log(JSON.stringify({
+      event: 'SWITCH_TRIGGERED',
+      message_id: message.id,
+      user_id: message.user_id,
+      deadline: message.deliver_at,
+    }));
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * Armed switches that need a reminder of the given kind: 'final' once the
+ * deadline is within FINAL_REMINDER_HOURS, 'due' once the interval has passed
+ */
+async function fetchReminderCandidates(
+  supabase: SupabaseClient,
+  kind: ReminderKind,
+  now: Date
+): Promise<ArmedMessage[]> {
+  let query = supabase
+    .from('messages')
+    .select('id, user_id, delivery_email, deliver_at, timezone, checkin_interval_days, checkin_token, checkin_reminders_sent')
+    .eq('delivery_mode', 'checkin')
+    .eq('status', 'pending')
+    .is('switch_triggered_at', null);
+
+  if (kind === 'final') {
+    const finalFrom = new Date(now.getTime() + FINAL_REMINDER_HOURS * 60 * 60 * 1000);
+    query = query.lt('checkin_reminders_sent', 2).lte('deliver_at', finalFrom.toISOString());
+  } else {
+    query = query.eq('checkin_reminders_sent', 0).lte('checkin_due_at', now.toISOString());
+  }
+
+  const { data, error } = await query
+    .order('deliver_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to query ${kind} reminders: ${error.message}`);
+  }
+
+  return (data ?? []) as ArmedMessage[];
+}
+
+/**
+ * Claims the reminder (checkin_reminders_sent guard, so overlapping runs and
+ * check-ins never double-send) and emails the sender. A failed send releases
+ * the claim for the next run.
+ */
+async function sendReminder(
+  supabase: SupabaseClient,
+  message: ArmedMessage,
+  kind: ReminderKind,
+  fromEmail: string
+): Promise<'sent' | 'skipped' | 'failed'> {
+  const sent = kind === 'final' ? 2 : 1;
+
+  const { data: claimed } = await supabase
+    .from('messages')
+    .update({ checkin_reminders_sent: sent })
+    .eq('id', message.id)
+    .eq('checkin_reminders_sent', message.checkin_reminders_sent)
+    .is('switch_triggered_at', null)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return 'skipped';
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('email')
+    .eq('id', message.user_id)
+    .single();
+
+  let error: string | null = profile?.email ? null : 'Sender has no email';
+
+  if (profile?.email) {
+    const email = buildReminderEmail(message, kind);
+    const sendResult = await sendEmail(transport, {
+      from: fromEmail,
+      to: profile.email,
+      subject: email.subject,
+      html: email.html,
+    });
+    error = sendResult.success ? null : sendResult.error ?? 'Failed to send email';
+  }
+
+  if (!error) {
+    return 'sent';
+  }
+
+  console.error(JSON.stringify({
+    event: 'CHECKIN_REMINDER_FAILED',
+    message_id: message.id,
+    kind,
+    error,
+  }));
+
+  await supabase
+    .from('messages')
+    .update({ checkin_reminders_sent: message.checkin_reminders_sent })
+    .eq('id', message.id)
+    .eq('checkin_reminders_sent', sent);
+
+  return 'failed';
+}
+
+/**
+ * Fires overdue switches, then sends final warnings before check-in due
+ * reminders so a short grace period gets the final one only
+ */
+async function evaluateCheckins(
+  supabase: SupabaseClient,
+  startTime: number
+): Promise<EvaluateResult> {
+  const now = new Date();
+  const fromEmail = Deno.env.get('FROM_EMAIL') || 'FtrMsg <noreply@ftrmsg.app>';
+  const result: EvaluateResult = {
+    triggered: await triggerOverdueSwitches(supabase, now),
+    reminded: 0,
+    reminderFailures: 0,
+    stoppedEarly: false,
+  };
+
+  let sendsAttempted = 0;
+
+  for (const kind of ['final', 'due'] as ReminderKind[]) {
+    const candidates = await fetchReminderCandidates(supabase, kind, now);
+
+    for (const message of candidates) {
+      if (Date.now() - startTime > TIMEOUT_MS) {
+        result.stoppedEarly = true;
+        return result;
+      }
+
+      if (sendsAttempted > 0) {
+        await delayForRateLimit();
+      }
+      sendsAttempted++;
+
+      const status = await sendReminder(supabase, message, kind, fromEmail);
+      if (status === 'sent') {
+        result.reminded++;
+      } else if (status === 'failed') {
+        result.reminderFailures++;
+      }
+    }
+  }
+
+  return result;
+}
+
+serve(async (req: Request) => {
+  if (!verifyCronSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+
+  try {
+    const result = await evaluateCheckins(supabaseAdmin, Date.now());
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Evaluate check-ins error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,200 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { verifyCronSecret } from '../_shared/cron-auth.ts';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+
+const VIDEO_BUCKET = 'message-videos';
+const IMAGE_BUCKET = 'message-images';
+// Uploads happen before the message exists; leave time to finish the form
+const ORPHAN_GRACE_HOURS = parseInt(Deno.env.get('ORPHAN_GRACE_HOURS') || '24', 10);
+// Per bucket
+const MAX_OBJECTS_PER_RUN = 1000;
+const REMOVE_BATCH_SIZE = 100;
+
+interface OrphanedVideo {
+  storage_path: string;
+  user_id: string | null;
+  size_bytes: number;
+  created_at: string;
+}
+
+interface OrphanedObject extends OrphanedVideo {
+  bucket: string;
+}
+
+interface StorageReconciliation {
+  user_id: string;
+  recorded_bytes: number;
+  actual_bytes: number;
+}
+
+serve(async (req: Request) => {
+  if (!verifyCronSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // { "dryRun": true } reports what would be deleted without touching anything
+  const body = await req.json().catch(() => ({}));
+  const dryRun = body?.dryRun === true;
+
+  const supabaseAdmin = getSupabaseAdmin();
+
+  try {
+    const olderThan = new Date(Date.now() - ORPHAN_GRACE_HOURS * 60 * 60 * 1000);
+
+    const videos = await listOrphans(supabaseAdmin, 'list_orphaned_videos', VIDEO_BUCKET, olderThan);
+    const images = await listOrphans(supabaseAdmin, 'list_orphaned_images', IMAGE_BUCKET, olderThan);
+
+    const candidates = [...videos, ...images];
+    const deleted: OrphanedObject[] = [];
+    const failed: { bucket: string; storage_path: string; error: string }[] = [];
+
+    if (!dryRun) {
+      for (const orphans of [videos, images]) {
+        for (let i = 0; i < orphans.length; i += REMOVE_BATCH_SIZE) {
+          const batch = orphans.slice(i, i + REMOVE_BATCH_SIZE);
+          const result = await removeUnreferenced(supabaseAdmin, batch);
+          deleted.push(...result.deleted);
+          failed.push(...result.failed);
+        }
+      }
+    }
+
+    const affected = dryRun ? candidates : deleted;
+    const userIds = [...new Set(affected.map(o => o.user_id).filter((id): id is string => !!id))];
+
+    let storage: StorageReconciliation[] = [];
+    if (userIds.length > 0) {
+      const { data: reconciled, error: reconcileError } = await supabaseAdmin.rpc('reconcile_storage_used', {
+        p_user_ids: userIds,
+        p_dry_run: dryRun,
+      });
+
+      if (reconcileError) {
+        throw new Error(`Failed to reconcile storage: ${reconcileError.message}`);
+      }
+
+      storage = ((reconciled || []) as StorageReconciliation[])
+        .filter(row => row.recorded_bytes !== row.actual_bytes);
+    }
+
+    return new Response(
+      JSON.stringify({
+        dryRun,
+        graceHours: ORPHAN_GRACE_HOURS,
+        orphaned: candidates.length,
+        orphanedBytes: candidates.reduce((sum, o) => sum + o.size_bytes, 0),
+        deleted: deleted.length,
+        failed,
+        objects: dryRun ? candidates : undefined,
+        storageCorrections: storage,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Orphan garbage collection error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+/**
+ * Lists unreferenced objects of one bucket via its list_orphaned_* function
+ */
+async function listOrphans(
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  fn: 'list_orphaned_videos' | 'list_orphaned_images',
+  bucket: string,
+  olderThan: Date
+): Promise<OrphanedObject[]> {
+  const { data, error } = await supabase.rpc(fn, {
+    p_older_than: olderThan.toISOString(),
+    p_limit: MAX_OBJECTS_PER_RUN,
+  });
+
+  if (error) {
+    throw new Error(`Failed to list orphaned objects in ${bucket}: ${error.message}`);
+  }
+
+  return ((data || []) as OrphanedVideo[]).map(o => ({ ...o, bucket }));
+}
+
+/**
+ * Paths in the batch that a message, capsule entry or message photo references.
+ * Originals and thumbnails share the message-images bucket.
+ */
+async function findReferenced(
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  bucket: string,
+  paths: string[]
+): Promise<Set<string>> {
+  if (bucket === VIDEO_BUCKET) {
+    const [{ data: messages }, { data: entries }] = await Promise.all([
+      supabase.from('messages').select('video_storage_path').in('video_storage_path', paths),
+      supabase.from('capsule_entries').select('video_storage_path').in('video_storage_path', paths),
+    ]);
+
+    return new Set([
+      ...(messages || []).map(m => m.video_storage_path),
+      ...(entries || []).map(e => e.video_storage_path),
+    ]);
+  }
+
+  const [{ data: originals }, { data: thumbnails }] = await Promise.all([
+    supabase.from('message_images').select('storage_path').in('storage_path', paths),
+    supabase.from('message_images').select('thumbnail_path').in('thumbnail_path', paths),
+  ]);
+
+  return new Set([
+    ...(originals || []).map(i => i.storage_path),
+    ...(thumbnails || []).map(i => i.thumbnail_path),
+  ]);
+}
+
+/**
+ * Deletes a batch of orphans (all from one bucket) via the Storage API.
+ * Paths that a message started referencing since the listing are skipped.
+ */
+async function removeUnreferenced(
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  batch: OrphanedObject[]
+): Promise<{ deleted: OrphanedObject[]; failed: { bucket: string; storage_path: string; error: string }[] }> {
+  const bucket = batch[0].bucket;
+  const referencedPaths = await findReferenced(supabase, bucket, batch.map(o => o.storage_path));
+  const toDelete = batch.filter(o => !referencedPaths.has(o.storage_path));
+
+  if (toDelete.length === 0) {
+    return { deleted: [], failed: [] };
+  }
+
+  const { error } = await supabase.storage
+    .from(bucket)
+    .remove(toDelete.map(o => o.storage_path));
+
+  if (error) {
+    console.error(JSON.stringify({
+      event: 'ORPHAN_DELETE_FAILED',
+      bucket,
+      storage_paths: toDelete.map(o => o.storage_path),
+      error: error.message,
+    }));
+    return {
+      deleted: [],
+      failed: toDelete.map(o => ({ bucket, storage_path: o.storage_path, error: error.message })),
+    };
+  }
+
+  // Verification results are keyed by path; drop them with the object
+  if (bucket === VIDEO_BUCKET) {
+    await supabase
+      .from('video_verifications')
+      .delete()
+      .in('storage_path', toDelete.map(o => o.storage_path));
+  }
+
+  return { deleted: toDelete, failed: [] };
+}
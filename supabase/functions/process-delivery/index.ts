@@ -1,15 +1,26 @@
 import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
-import { Resend } from 'https://esm.sh/resend@2.1.0';
 import { verifyCronSecret } from '../_shared/cron-auth.ts';
 import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+import { createSignedImageLinks, SignedImageLink } from '../_shared/message-images.ts';
+import { createSignedEntryLinks, CapsuleEntryLink } from '../_shared/capsule-entries.ts';
+import { renderDeliveryEmail } from '../_shared/delivery-email.ts';
+import { getEmailTransport, sendEmail } from '../_shared/email-transport.ts';
 
-const resend = new Resend(Deno.env.get('RESEND_API_KEY')!);
+const transport = getEmailTransport();
 const BATCH_SIZE = 30;
 // 45s timeout with 15s buffer for 60s Edge Function limit.
 // BATCH_SIZE=30 leaves margin for DB/API latency at 1 msg/s rate.
 const TIMEOUT_MS = 45000;
 const RATE_LIMIT_DELAY_MS = 1000;
+// Retry policy: attempt N failing schedules the next run after
+// RETRY_BASE_DELAY_MINUTES * 2^(N-1), capped at RETRY_MAX_DELAY_MINUTES.
+const MAX_DELIVERY_ATTEMPTS = parseInt(Deno.env.get('MAX_DELIVERY_ATTEMPTS') || '5', 10);
+const RETRY_BASE_DELAY_MINUTES = parseInt(Deno.env.get('RETRY_BASE_DELAY_MINUTES') || '15', 10);
+const RETRY_MAX_DELAY_MINUTES = 24 * 60;
+// Log states meaning the provider accepted the email. process-delivery writes
+// 'sent'; webhook-resend advances it to 'delivered' and then to the others
+const SENT_LOG_STATUSES = ['sent', 'delivered', 'opened', 'bounced', 'complained'];
 
 class ValidationError extends Error {
   constructor(message: string) {
@@ -22,19 +33,53 @@ interface Message {
   id: string;
   user_id: string;
   message_text: string;
+  // End-to-end encrypted: text and attachments are ciphertext
+  encrypted: boolean;
+  // Set when the recipient must enter a passphrase after unlock
+  passphrase_hash: string | null;
+  passphrase_hint: string | null;
   video_storage_path: string | null;
+  media_kind: 'video' | 'audio' | null;
   delivery_email: string;
-  scheduled_date: string;
+  deliver_at: string;
   delivery_token: string;
+  // Recurring series: repeat interval and the occurrence being delivered
+  recurrence_months: number | null;
+  occurrence: number;
+  // Gift capsule: claim link token, and who claimed it
+  gift_token: string | null;
+  gift_recipient_id: string | null;
+  // Delivery email wording chosen by the sender; defaults when null
+  email_subject: string | null;
+  email_sign_off: string | null;
+  email_locale: string;
 }
 
+interface Recipient {
+  id: string;
+  message_id: string;
+  email: string;
+}
+
+/**
+ * processed counts messages; delivered/failed/retrying count recipient emails
+ */
 interface BatchResult {
   processed: number;
   delivered: number;
   failed: number;
+  retrying: number;
   stoppedEarly: boolean;
 }
 
+/**
+ * Content and attachments stay behind the message page for encrypted and
+ * passphrase-protected messages
+ */
+function isContentWithheld(message: Message): boolean {
+  return message.encrypted || message.passphrase_hash !== null;
+}
+
 /**
  * Returns true if email contains '@' symbol
  */
@@ -43,172 +88,116 @@ function validateEmail(email: string): boolean {
 }
 
 /**
- * Build neo-brutalist HTML email.
- * Throws ValidationError if delivery_email lacks '@' symbol.
- * Null/undefined message_text defaults to empty string.
+ * Build the delivery email (HTML and plaintext, in the sender's chosen
+ * language and subject) with a link to the public /m/:token view.
+ * Throws ValidationError if recipientEmail lacks '@' symbol.
+ * Null/undefined message_text defaults to empty string. Encrypted messages
+ * get the link only: their key is in the sender's private link, not here.
+ * Passphrase-protected messages get the link, a passphrase notice and the hint.
+ * Unclaimed gifts also get the claim link. Shared capsules list every
+ * contributor's entry after the owner's message.
  */
 function buildDeliveryEmail(
   message: Message,
-  videoUrl?: string | null
-): { subject: string; html: string } {
-  if (!validateEmail(message.delivery_email)) {
-    throw new ValidationError(`Invalid delivery email: ${message.delivery_email}`);
+  recipientEmail: string,
+  videoUrl?: string | null,
+  images: SignedImageLink[] = [],
+  entries: CapsuleEntryLink[] = []
+): ComposedEmail {
+  if (!validateEmail(recipientEmail)) {
+    throw new ValidationError(`Invalid delivery email: ${recipientEmail}`);
   }
 
-  const messageText = message.message_text ?? '';
   const appUrl = Deno.env.get('APP_URL') || 'https://ftrmsg.app';
 
-  const subject = 'Your FtrMsg message has arrived!';
-
-  const html = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Your FtrMsg Message</title>
-</head>
-<body style="margin: 0; padding: 0; background-color: #FFFDF7; font-family: 'Helvetica Neue', Arial, sans-serif;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #FFFDF7; padding: 40px 20px;">
-    <tr>
-      <td align="center">
-        <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background: #FFFFFF; border: 3px solid #000000; border-radius: 8px; box-shadow: 8px 8px 0px 0px #000000;">
-          <!-- Header -->
-          <tr>
-            <td style="background: #FDE68A; padding: 30px; border-bottom: 3px solid #000000; border-radius: 5px 5px 0 0;">
-              <h1 style="margin: 0; font-size: 28px; font-weight: 800; color: #000000; text-transform: uppercase;">
-                FTRMSG
-              </h1>
-              <p style="margin: 10px 0 0 0; font-size: 16px; color: #333333;">
-                Your message from the past has arrived!
-              </p>
-            </td>
-          </tr>
-          <!-- Content -->
-          <tr>
-            <td style="padding: 30px;">
-              <div style="background: #F9F9F9; border: 2px solid #000000; border-radius: 8px; padding: 25px; margin-bottom: 20px;">
-                <p style="margin: 0; font-size: 16px; line-height: 1.6; color: #000000; white-space: pre-wrap;">${messageText}</p>
-              </div>
-              ${videoUrl ? `
-              <div style="background: #BAE6FD; border: 2px solid #000000; border-radius: 8px; padding: 20px; margin-bottom: 20px; text-align: center;">
-                <p style="margin: 0 0 15px 0; font-weight: 700; color: #000000;">Video Message Attached</p>
-                <a href="${videoUrl}" style="display: inline-block; background: #BBF7D0; color: #000000; text-decoration: none; padding: 12px 24px; border: 2px solid #000000; border-radius: 8px; font-weight: 700; box-shadow: 4px 4px 0px 0px #000000;">
-                  Watch Video
-                </a>
-                <p style="margin: 15px 0 0 0; font-size: 12px; color: #555555;">
-                  Video link expires in 7 days
-                </p>
-              </div>
-              ` : ''}
-            </td>
-          </tr>
-          <!-- Footer -->
-          <tr>
-            <td style="background: #F5F5F5; padding: 20px 30px; border-top: 2px solid #000000; border-radius: 0 0 5px 5px;">
-              <p style="margin: 0; font-size: 14px; color: #555555; text-align: center;">
-                Sent with love from your past self via <a href="${appUrl}" style="color: #000000; font-weight: 700;">FtrMsg</a>
-              </p>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-  `;
-
-  return { subject, html };
+  return renderDeliveryEmail({
+    locale: message.email_locale,
+    subject: message.email_subject,
+    signOff: message.email_sign_off,
+    messageText: isContentWithheld(message) ? null : message.message_text ?? '',
+    encrypted: message.encrypted,
+    passphraseRequired: message.passphrase_hash !== null,
+    passphraseHint: message.passphrase_hint,
+    mediaKind: message.media_kind,
+    videoUrl: videoUrl ?? null,
+    images,
+    entries,
+    appUrl,
+    viewUrl: `${appUrl}/m/${message.delivery_token}`,
+    claimUrl: message.gift_token && !message.gift_recipient_id
+      ? `${appUrl}/gift/${message.gift_token}`
+      : null,
+  });
 }
 
 /**
- * Returns true if delivery_logs contains 'delivered' status for message_id
+ * Returns minutes to wait before the next attempt after attemptNumber failed
+ */
+function getRetryDelayMinutes(attemptNumber: number): number {
+  const delay = RETRY_BASE_DELAY_MINUTES * Math.pow(2, Math.max(0, attemptNumber - 1));
+  return Math.min(delay, RETRY_MAX_DELAY_MINUTES);
+}
+
+/**
+ * Returns true if delivery_logs contains a sent status for recipient_id in
+ * this occurrence
  */
 async function checkDeliveryIdempotency(
   supabase: ReturnType<typeof createClient>,
-  messageId: string
+  recipientId: string,
+  occurrence: number
 ): Promise<boolean> {
   const { data } = await supabase
     .from('delivery_logs')
     .select('id')
-    .eq('message_id', messageId)
-    .eq('status', 'delivered')
+    .eq('recipient_id', recipientId)
+    .eq('occurrence', occurrence)
+    .in('status', SENT_LOG_STATUSES)
+    .limit(1)
     .single();
 
   return data !== null;
 }
 
 /**
- * Delays execution by RATE_LIMIT_DELAY_MS (1000ms) to respect Resend 1/s limit
+ * Delays execution by RATE_LIMIT_DELAY_MS (1000ms) to respect the provider's 1/s limit
  */
 function delayForRateLimit(): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
 }
 
-interface SendMessageResult {
-  success: boolean;
-  emailProviderId?: string;
-  error?: string;
-}
-
-/**
- * Send a single message via Resend.
- * Returns success status and email provider ID on success, or error message on failure.
- */
-async function sendMessage(
-  message: Message,
-  subject: string,
-  html: string,
-  fromEmail: string
-): Promise<SendMessageResult> {
-  try {
-    const { data: emailData, error: emailError } = await resend.emails.send({
-      from: fromEmail,
-      to: message.delivery_email,
-      subject,
-      html,
-    });
-
-    if (emailError) {
-      return { success: false, error: emailError.message };
-    }
-
-    return { success: true, emailProviderId: emailData?.id };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
-
 interface PrepareResult {
   skip: boolean;
   attemptNumber: number;
 }
 
 /**
- * Performs idempotency check, calculates attempt number, inserts pending log.
- * Returns skip=true if message already delivered, otherwise returns attempt number.
+ * Performs idempotency check, calculates per-recipient attempt number, inserts pending log.
+ * Returns skip=true if recipient already delivered, otherwise returns attempt number.
+ * Both are scoped to the occurrence: each delivery of a recurring message
+ * starts a fresh log trail.
  */
 async function prepareDelivery(
   supabase: ReturnType<typeof createClient>,
-  messageId: string
+  recipient: Recipient,
+  occurrence: number
 ): Promise<PrepareResult> {
-  if (await checkDeliveryIdempotency(supabase, messageId)) {
+  if (await checkDeliveryIdempotency(supabase, recipient.id, occurrence)) {
     return { skip: true, attemptNumber: 0 };
   }
 
   const { count } = await supabase
     .from('delivery_logs')
     .select('*', { count: 'exact', head: true })
-    .eq('message_id', messageId);
+    .eq('recipient_id', recipient.id)
+    .eq('occurrence', occurrence);
 
   const attemptNumber = (count || 0) + 1;
 
   const { error: insertError } = await supabase.from('delivery_logs').insert({
-    message_id: messageId,
+    message_id: recipient.message_id,
+    recipient_id: recipient.id,
+    occurrence,
     attempt_number: attemptNumber,
     status: 'pending',
   });
@@ -220,120 +209,248 @@ async function prepareDelivery(
   return { skip: false, attemptNumber };
 }
 
-interface ComposedEmail {
-  subject: string;
-  html: string;
-}
-
 /**
- * Generates signed video URL (if video exists) and builds HTML email
+ * Generates signed video/voice-note URL (7-day expiry) shared by all recipients of a message
  */
-async function composeDelivery(
+async function createVideoUrl(
   supabase: ReturnType<typeof createClient>,
   message: Message
-): Promise<ComposedEmail> {
-  let videoUrl: string | null = null;
-  if (message.video_storage_path) {
-    const { data: signedUrlData } = await supabase.storage
-      .from('message-videos')
-      .createSignedUrl(message.video_storage_path, 604800);
-    videoUrl = signedUrlData?.signedUrl ?? null;
+): Promise<string | null> {
+  if (!message.video_storage_path) {
+    return null;
   }
 
-  return buildDeliveryEmail(message, videoUrl);
+  const { data: signedUrlData } = await supabase.storage
+    .from('message-videos')
+    .createSignedUrl(message.video_storage_path, 604800);
+
+  return signedUrlData?.signedUrl ?? null;
+}
+
+interface ComposedEmail {
+  subject: string;
+  html: string;
+  text: string;
 }
 
 /**
- * Sends email via Resend, updates delivery_logs and messages tables.
- * Logs error if messages.status update fails but delivery succeeded.
+ * Sends email via the configured transport, updates delivery_logs and message_recipients tables.
  */
 async function executeDelivery(
   supabase: ReturnType<typeof createClient>,
-  message: Message,
+  recipient: Recipient,
+  occurrence: number,
   email: ComposedEmail,
   attemptNumber: number,
   fromEmail: string
 ): Promise<void> {
-  const sendResult = await sendMessage(message, email.subject, email.html, fromEmail);
+  const sendResult = await sendEmail(transport, {
+    from: fromEmail,
+    to: recipient.email,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+  });
 
   if (!sendResult.success) {
     throw new Error(sendResult.error || 'Failed to send email');
   }
 
+  // Accepted by the provider; 'delivered' only comes from the provider's webhook
   await supabase
     .from('delivery_logs')
     .update({
-      status: 'delivered',
-      email_provider_id: sendResult.emailProviderId,
+      status: 'sent',
+      email_provider_id: sendResult.providerId,
     })
-    .eq('message_id', message.id)
+    .eq('recipient_id', recipient.id)
+    .eq('occurrence', occurrence)
     .eq('attempt_number', attemptNumber);
 
-  const { error: msgError } = await supabase
-    .from('messages')
+  const { error: recipientError } = await supabase
+    .from('message_recipients')
     .update({
       status: 'delivered',
       delivered_at: new Date().toISOString(),
     })
-    .eq('id', message.id);
+    .eq('id', recipient.id);
 
-  if (msgError) {
+  if (recipientError) {
     console.error(JSON.stringify({
-      event: 'MESSAGE_STATUS_UPDATE_FAILED',
-      message_id: message.id,
-      error: msgError.message,
+      event: 'RECIPIENT_STATUS_UPDATE_FAILED',
+      message_id: recipient.message_id,
+      recipient_id: recipient.id,
+      error: recipientError.message,
     }));
   }
 }
 
-interface ProcessMessageResult {
-  status: 'delivered' | 'failed' | 'skipped';
+interface ProcessRecipientResult {
+  status: 'delivered' | 'failed' | 'retrying' | 'skipped';
+  retryAt?: Date;
 }
 
 /**
- * Processes single message through prepare, compose, and execute phases.
- * Returns status for batch aggregation (delivered/failed/skipped).
+ * Processes single recipient through prepare, compose, and execute phases.
+ * On failure the recipient stays pending with a backoff retryAt until
+ * MAX_DELIVERY_ATTEMPTS is reached; ValidationError fails immediately.
  */
-async function processMessage(
+async function processRecipient(
   supabase: ReturnType<typeof createClient>,
   message: Message,
+  recipient: Recipient,
+  videoUrl: string | null,
+  images: SignedImageLink[],
+  entries: CapsuleEntryLink[],
   fromEmail: string
-): Promise<ProcessMessageResult> {
+): Promise<ProcessRecipientResult> {
+  let attemptNumber = 0;
+
   try {
-    const prep = await prepareDelivery(supabase, message.id);
+    const prep = await prepareDelivery(supabase, recipient, message.occurrence);
     if (prep.skip) {
       return { status: 'skipped' };
     }
+    attemptNumber = prep.attemptNumber;
 
-    const composed = await composeDelivery(supabase, message);
-    await executeDelivery(supabase, message, composed, prep.attemptNumber, fromEmail);
+    const composed = buildDeliveryEmail(message, recipient.email, videoUrl, images, entries);
+    await executeDelivery(supabase, recipient, message.occurrence, composed, attemptNumber, fromEmail);
 
     return { status: 'delivered' };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-    await supabase
-      .from('delivery_logs')
-      .update({
-        status: 'failed',
-        error_message: errorMessage,
-      })
-      .eq('message_id', message.id)
-      .order('created_at', { ascending: false })
-      .limit(1);
+    if (attemptNumber > 0) {
+      await supabase
+        .from('delivery_logs')
+        .update({
+          status: 'failed',
+          error_message: errorMessage,
+        })
+        .eq('recipient_id', recipient.id)
+        .eq('occurrence', message.occurrence)
+        .eq('attempt_number', attemptNumber);
+    }
+
+    const retryable = !(error instanceof ValidationError) && attemptNumber < MAX_DELIVERY_ATTEMPTS;
+    if (retryable) {
+      const retryAt = new Date(Date.now() + getRetryDelayMinutes(attemptNumber) * 60 * 1000);
+      return { status: 'retrying', retryAt };
+    }
 
     await supabase
-      .from('messages')
+      .from('message_recipients')
       .update({ status: 'failed' })
-      .eq('id', message.id);
+      .eq('id', recipient.id);
 
     return { status: 'failed' };
   }
 }
 
+interface FinalizeResult {
+  // Set when this call moved the message from pending to delivered or failed
+  finished: boolean;
+}
+
+/**
+ * Derives messages.status from its recipients: 'failed' once none are
+ * pending and any failed, otherwise 'delivered' once none are pending.
+ * While recipients remain pending, records retryAt as next_attempt_at
+ * (no retryAt, e.g. batch timeout, leaves the message due immediately).
+ * Leaving pending queues the sender's receipt or failure alert (trigger).
+ */
+async function finalizeMessageStatus(
+  supabase: ReturnType<typeof createClient>,
+  messageId: string,
+  retryAt: Date | null
+): Promise<FinalizeResult> {
+  const { data: recipients, error: queryError } = await supabase
+    .from('message_recipients')
+    .select('status')
+    .eq('message_id', messageId);
+
+  if (queryError || !recipients || recipients.length === 0) {
+    return { finished: false };
+  }
+
+  const rows = recipients as { status: string }[];
+
+  let update: Record<string, string | null>;
+  if (rows.some((r) => r.status === 'pending')) {
+    update = { next_attempt_at: retryAt ? retryAt.toISOString() : null };
+  } else if (!rows.some((r) => r.status === 'failed')) {
+    update = { status: 'delivered', delivered_at: new Date().toISOString(), next_attempt_at: null };
+  } else {
+    update = { status: 'failed', next_attempt_at: null };
+  }
+
+  // status='pending' guard makes each transition (and its notification) happen once
+  const { data: updated, error: msgError } = await supabase
+    .from('messages')
+    .update(update)
+    .eq('id', messageId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (msgError) {
+    console.error(JSON.stringify({
+      event: 'MESSAGE_STATUS_UPDATE_FAILED',
+      message_id: messageId,
+      error: msgError.message,
+    }));
+    return { finished: false };
+  }
+
+  return { finished: update.status !== undefined && !!updated && updated.length > 0 };
+}
+
 /**
- * Orchestrates sequential message processing with early termination on timeout.
- * Aggregates delivered/failed counts and applies rate limiting between sends.
+ * Records the finished occurrence of a recurring message and reschedules
+ * the next one (complete_message_occurrence). If this fails the series
+ * stays at its last status and is logged for follow-up.
+ */
+async function scheduleNextOccurrence(
+  supabase: ReturnType<typeof createClient>,
+  message: Message
+): Promise<void> {
+  const { error } = await supabase.rpc('complete_message_occurrence', {
+    p_message_id: message.id,
+  });
+
+  if (error) {
+    console.error(JSON.stringify({
+      event: 'NEXT_OCCURRENCE_FAILED',
+      message_id: message.id,
+      occurrence: message.occurrence,
+      error: error.message,
+    }));
+  }
+}
+
+/**
+ * Returns recipients of a message that still need delivery
+ */
+async function fetchPendingRecipients(
+  supabase: ReturnType<typeof createClient>,
+  messageId: string
+): Promise<Recipient[]> {
+  const { data, error } = await supabase
+    .from('message_recipients')
+    .select('id, message_id, email')
+    .eq('message_id', messageId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to query recipients: ${error.message}`);
+  }
+
+  return (data ?? []) as Recipient[];
+}
+
+/**
+ * Orchestrates sequential per-recipient delivery with early termination on timeout.
+ * Each recipient is delivered independently; rate limiting applies between every send.
  */
 async function processMessageBatch(
   supabase: ReturnType<typeof createClient>,
@@ -344,30 +461,78 @@ async function processMessageBatch(
     processed: 0,
     delivered: 0,
     failed: 0,
+    retrying: 0,
     stoppedEarly: false,
   };
 
   const fromEmail = Deno.env.get('FROM_EMAIL') || 'FtrMsg <noreply@ftrmsg.app>';
+  let sendsAttempted = 0;
 
-  for (let i = 0; i < messages.length; i++) {
+  for (const message of messages) {
     if (Date.now() - startTime > TIMEOUT_MS) {
       result.stoppedEarly = true;
       break;
     }
 
-    const message = messages[i];
     result.processed++;
 
-    const messageResult = await processMessage(supabase, message, fromEmail);
+    let recipients: Recipient[];
+    try {
+      recipients = await fetchPendingRecipients(supabase, message.id);
+    } catch (error) {
+      console.error(JSON.stringify({
+        event: 'RECIPIENT_QUERY_FAILED',
+        message_id: message.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }));
+      continue;
+    }
+
+    // Encrypted or passphrase-protected attachments are only reachable through the message page
+    const includeAttachments = recipients.length > 0 && !isContentWithheld(message);
+    const videoUrl = includeAttachments ? await createVideoUrl(supabase, message) : null;
+    // Same 7-day expiry as the video link
+    const images = includeAttachments ? await createSignedImageLinks(supabase, message.id, 604800) : [];
+    // Shared capsule contributions go into the same email, withheld like the message text
+    const entries = includeAttachments ? await createSignedEntryLinks(supabase, message.id, 604800) : [];
+    let retryAt: Date | null = null;
+
+    for (const recipient of recipients) {
+      if (Date.now() - startTime > TIMEOUT_MS) {
+        result.stoppedEarly = true;
+        break;
+      }
+
+      if (sendsAttempted > 0) {
+        await delayForRateLimit();
+      }
+
+      const recipientResult = await processRecipient(supabase, message, recipient, videoUrl, images, entries, fromEmail);
 
-    if (messageResult.status === 'delivered') {
-      result.delivered++;
-    } else if (messageResult.status === 'failed') {
-      result.failed++;
+      if (recipientResult.status !== 'skipped') {
+        sendsAttempted++;
+      }
+      if (recipientResult.status === 'delivered') {
+        result.delivered++;
+      } else if (recipientResult.status === 'failed') {
+        result.failed++;
+      } else if (recipientResult.status === 'retrying' && recipientResult.retryAt) {
+        result.retrying++;
+        // Message-level backoff: wait for the longest recipient delay
+        if (!retryAt || recipientResult.retryAt > retryAt) {
+          retryAt = recipientResult.retryAt;
+        }
+      }
     }
 
-    if (i < messages.length - 1) {
-      await delayForRateLimit();
+    const finalized = await finalizeMessageStatus(supabase, message.id, retryAt);
+
+    if (finalized.finished && (message.recurrence_months !== null || message.occurrence > 1)) {
+      await scheduleNextOccurrence(supabase, message);
+    }
+
+    if (result.stoppedEarly) {
+      break;
     }
   }
 
@@ -402,12 +567,16 @@ serve(async (req: Request) => {
 
     lockId = lockData.id;
 
-    const today = new Date().toISOString().split('T')[0];
+    const now = new Date().toISOString();
     const { data: messages, error: queryError } = await supabaseAdmin
       .from('messages')
       .select('*')
-      .lte('scheduled_date', today)
+      .lte('deliver_at', now)
       .eq('status', 'pending')
+      .or(`next_attempt_at.is.null,next_attempt_at.lte."${now}"`)
+      // Check-in messages wait for evaluate-checkins to fire the switch
+      .or('delivery_mode.eq.date,switch_triggered_at.not.is.null')
+      .order('deliver_at', { ascending: true })
       .limit(BATCH_SIZE);
 
     if (queryError) {
@@ -416,7 +585,7 @@ serve(async (req: Request) => {
 
     if (!messages || messages.length === 0) {
       return new Response(
-        JSON.stringify({ processed: 0, delivered: 0, failed: 0, stoppedEarly: false }),
+        JSON.stringify({ processed: 0, delivered: 0, failed: 0, retrying: 0, stoppedEarly: false }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
       );
     }
@@ -0,0 +1,74 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { verifyCronSecret } from '../_shared/cron-auth.ts';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+
+// Report-only unless enabled here or per request
+const STORAGE_AUTO_CORRECT = Deno.env.get('STORAGE_AUTO_CORRECT') === 'true';
+
+interface StorageUsageAudit {
+  run_id: string;
+  user_id: string;
+  recorded_bytes: number;
+  message_bytes: number;
+  object_bytes: number;
+  missing_objects: number;
+  corrected: boolean;
+}
+
+serve(async (req: Request) => {
+  if (!verifyCronSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // { "autoCorrect": true | false } overrides STORAGE_AUTO_CORRECT for this run
+  const body = await req.json().catch(() => ({}));
+  const autoCorrect = typeof body?.autoCorrect === 'boolean' ? body.autoCorrect : STORAGE_AUTO_CORRECT;
+
+  const supabaseAdmin = getSupabaseAdmin();
+
+  try {
+    const { data, error } = await supabaseAdmin.rpc('audit_storage_usage', {
+      p_auto_correct: autoCorrect,
+    });
+
+    if (error) {
+      throw new Error(`Failed to audit storage usage: ${error.message}`);
+    }
+
+    const audits = (data || []) as StorageUsageAudit[];
+
+    for (const audit of audits) {
+      console.error(JSON.stringify({
+        event: 'STORAGE_DRIFT_DETECTED',
+        run_id: audit.run_id,
+        user_id: audit.user_id,
+        recorded_bytes: audit.recorded_bytes,
+        message_bytes: audit.message_bytes,
+        object_bytes: audit.object_bytes,
+        missing_objects: audit.missing_objects,
+        corrected: audit.corrected,
+      }));
+    }
+
+    return new Response(
+      JSON.stringify({
+        runId: audits[0]?.run_id ?? null,
+        autoCorrect,
+        discrepancies: audits.length,
+        corrected: audits.filter(a => a.corrected).length,
+        driftBytes: audits.reduce((sum, a) => sum + Math.abs(a.recorded_bytes - a.object_bytes), 0),
+        missingObjects: audits.reduce((sum, a) => sum + a.missing_objects, 0),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Storage reconciliation error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,358 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { verifyCronSecret } from '../_shared/cron-auth.ts';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+import { escapeHtml, formatEmailDate, renderButton, renderEmailLayout } from '../_shared/email-layout.ts';
+import { getEmailTransport, sendEmail } from '../_shared/email-transport.ts';
+
+const transport = getEmailTransport();
+// Notifications per run; the rest are picked up by the next run
+const BATCH_SIZE = 30;
+// Same 45s budget as process-delivery (60s Edge Function limit)
+const TIMEOUT_MS = 45000;
+const RATE_LIMIT_DELAY_MS = 1000;
+// A notification that fails this many times is given up on
+const MAX_NOTIFICATION_ATTEMPTS = 3;
+// The upcoming-unlock reminder goes out this long before deliver_at
+const UPCOMING_REMINDER_HOURS = parseInt(Deno.env.get('UPCOMING_REMINDER_HOURS') || '24', 10);
+// Mentioned in the failure alert; same setting as process-delivery
+const MAX_DELIVERY_ATTEMPTS = parseInt(Deno.env.get('MAX_DELIVERY_ATTEMPTS') || '5', 10);
+
+type NotificationKind = 'scheduled' | 'delivered' | 'failed' | 'upcoming';
+
+// Profile column that turns each kind on or off
+const PREFERENCE_COLUMNS: Record<NotificationKind, string> = {
+  scheduled: 'notify_scheduled',
+  delivered: 'notify_delivered',
+  failed: 'notify_failed',
+  upcoming: 'notify_upcoming',
+};
+
+interface NotificationMessage {
+  id: string;
+  status: string;
+  deliver_at: string;
+  timezone: string;
+  delivery_mode: 'date' | 'checkin';
+  checkin_interval_days: number | null;
+  checkin_grace_days: number | null;
+  recurrence_months: number | null;
+  occurrence: number;
+  gift_token: string | null;
+  message_recipients: { email: string }[];
+}
+
+interface SenderProfile {
+  email: string;
+  notify_scheduled: boolean;
+  notify_delivered: boolean;
+  notify_failed: boolean;
+  notify_upcoming: boolean;
+}
+
+interface SenderNotification {
+  id: string;
+  kind: NotificationKind;
+  occurrence: number;
+  // Addresses a 'delivered' or 'failed' notification is about
+  recipients: string[];
+  attempts: number;
+  messages: NotificationMessage | null;
+  profiles: SenderProfile | null;
+}
+
+interface SendResult {
+  queuedUpcoming: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+  stoppedEarly: boolean;
+}
+
+/**
+ * Delays execution by RATE_LIMIT_DELAY_MS (1000ms) to respect the provider's 1/s limit
+ */
+function delayForRateLimit(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
+}
+
+/**
+ * Bold, comma-separated recipient list for email HTML
+ */
+function formatRecipients(emails: string[]): string {
+  return emails.map((email) => `<strong>${escapeHtml(email)}</strong>`).join(', ');
+}
+
+/**
+ * Build the notification email in the shared layout. The sender only sees
+ * recipients and dates, never the message itself (it may be encrypted or
+ * passphrase-protected).
+ */
+function buildNotificationEmail(
+  notification: SenderNotification,
+  message: NotificationMessage
+): { subject: string; html: string } {
+  const appUrl = Deno.env.get('APP_URL') || 'https://ftrmsg.app';
+  const date = formatEmailDate(message.deliver_at, message.timezone);
+  const current = message.message_recipients.map((r) => r.email);
+  const paragraph = (html: string) =>
+    `<p style="margin: 0 0 15px 0; font-size: 16px; line-height: 1.6; color: #000000;">${html}</p>`;
+  const dashboardButton = renderButton(appUrl, 'Open Dashboard');
+
+  switch (notification.kind) {
+    case 'scheduled': {
+      const when = message.delivery_mode === 'checkin'
+        ? paragraph(`It will be delivered if you stop checking in: we will remind you every ${message.checkin_interval_days} days, and send it ${message.checkin_grace_days} days after a missed check-in.`)
+        : paragraph(`It unlocks on <strong>${date}</strong>${message.recurrence_months ? ' and repeats after that' : ''}.`);
+
+      return {
+        subject: 'Your FtrMsg message is scheduled',
+        html: renderEmailLayout({
+          title: 'Message Scheduled',
+          headerColor: '#BBF7D0',
+          headline: 'Your message is sealed',
+          body: `
+              ${paragraph(`Your ${message.gift_token ? 'gift capsule' : 'message'} to ${formatRecipients(current)} is scheduled.`)}
+              ${when}
+              ${paragraph('You can still edit it from your dashboard until then.')}
+              ${dashboardButton}
+          `,
+        }),
+      };
+    }
+    case 'upcoming':
+      return {
+        subject: 'Your FtrMsg message unlocks soon',
+        html: renderEmailLayout({
+          title: 'Unlocking Soon',
+          headerColor: '#BAE6FD',
+          headline: 'Your message unlocks soon',
+          body: `
+              ${paragraph(`Your message to ${formatRecipients(current)} will be delivered on <strong>${date}</strong>.`)}
+              ${paragraph('Last chance to change anything: edits are possible until it unlocks.')}
+              ${dashboardButton}
+          `,
+        }),
+      };
+    case 'delivered':
+      return {
+        subject: 'Your FtrMsg message was delivered',
+        html: renderEmailLayout({
+          title: 'Message Delivered',
+          headerColor: '#FDE68A',
+          headline: notification.occurrence > 1 ? `Delivery ${notification.occurrence} is on its way` : 'Your message is on its way',
+          body: `
+              ${paragraph(`Your message scheduled for ${date} was delivered to ${formatRecipients(notification.recipients)}.`)}
+              ${dashboardButton}
+          `,
+        }),
+      };
+    case 'failed':
+      return {
+        subject: 'We could not deliver your FtrMsg message',
+        html: renderEmailLayout({
+          title: 'Delivery Failed',
+          headerColor: '#FECDD3',
+          headline: `Delivery failed after ${MAX_DELIVERY_ATTEMPTS} attempts`,
+          body: `
+              ${paragraph(`Your message scheduled for ${date} could not be delivered to: ${formatRecipients(notification.recipients)}`)}
+              ${dashboardButton}
+          `,
+        }),
+      };
+  }
+}
+
+/**
+ * Pending notifications, oldest first, with their message and sender
+ */
+async function fetchPendingNotifications(supabase: SupabaseClient): Promise<SenderNotification[]> {
+  const { data, error } = await supabase
+    .from('sender_notifications')
+    .select(`
+      id, kind, occurrence, recipients, attempts,
+      messages (id, status, deliver_at, timezone, delivery_mode, checkin_interval_days, checkin_grace_days, recurrence_months, occurrence, gift_token, message_recipients (email)),
+      profiles (email, notify_scheduled, notify_delivered, notify_failed, notify_upcoming)
+    `)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to query notifications: ${error.message}`);
+  }
+
+  return (data ?? []) as SenderNotification[];
+}
+
+/**
+ * Reason not to send, or null. Reminders are dropped once the message is no
+ * longer waiting for that occurrence (delivered early, or edited to recur)
+ * or was moved out of the reminder window.
+ */
+function getSkipReason(notification: SenderNotification, now: number): string | null {
+  const { messages: message, profiles: profile } = notification;
+
+  if (!message || !profile?.email) return 'Message or sender not found';
+  if (!profile[PREFERENCE_COLUMNS[notification.kind] as keyof SenderProfile]) return 'Turned off by sender';
+  if (notification.kind === 'upcoming') {
+    if (message.status !== 'pending' || message.occurrence !== notification.occurrence) {
+      return 'Message is no longer upcoming';
+    }
+    if (new Date(message.deliver_at).getTime() - now > UPCOMING_REMINDER_HOURS * 60 * 60 * 1000) {
+      return 'Message was rescheduled';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Claims the notification (status guard, so overlapping runs never
+ * double-send) and emails the sender. A failed send releases the claim for
+ * the next run until MAX_NOTIFICATION_ATTEMPTS.
+ */
+async function sendNotification(
+  supabase: SupabaseClient,
+  notification: SenderNotification,
+  fromEmail: string
+): Promise<'sent' | 'skipped' | 'failed'> {
+  const skipReason = getSkipReason(notification, Date.now());
+
+  if (skipReason) {
+    await supabase
+      .from('sender_notifications')
+      .update({ status: 'skipped', error_message: skipReason })
+      .eq('id', notification.id)
+      .eq('status', 'pending');
+    return 'skipped';
+  }
+
+  const { data: claimed } = await supabase
+    .from('sender_notifications')
+    .update({ status: 'sent', sent_at: new Date().toISOString(), attempts: notification.attempts + 1 })
+    .eq('id', notification.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return 'skipped';
+  }
+
+  const email = buildNotificationEmail(notification, notification.messages!);
+  const sendResult = await sendEmail(transport, {
+    from: fromEmail,
+    to: notification.profiles!.email,
+    subject: email.subject,
+    html: email.html,
+  });
+
+  if (sendResult.success) {
+    return 'sent';
+  }
+
+  const error = sendResult.error ?? 'Failed to send email';
+
+  console.error(JSON.stringify({
+    event: 'SENDER_NOTIFICATION_FAILED',
+    notification_id: notification.id,
+    kind: notification.kind,
+    attempt: notification.attempts + 1,
+    error,
+  }));
+
+  await supabase
+    .from('sender_notifications')
+    .update({
+      status: notification.attempts + 1 >= MAX_NOTIFICATION_ATTEMPTS ? 'failed' : 'pending',
+      sent_at: null,
+      error_message: error,
+    })
+    .eq('id', notification.id)
+    .eq('status', 'sent');
+
+  return 'failed';
+}
+
+/**
+ * Queues upcoming-unlock reminders, then sends pending notifications
+ */
+async function sendNotifications(
+  supabase: SupabaseClient,
+  startTime: number
+): Promise<SendResult> {
+  const fromEmail = Deno.env.get('FROM_EMAIL') || 'FtrMsg <noreply@ftrmsg.app>';
+
+  const { data: queued, error: queueError } = await supabase.rpc('queue_upcoming_notifications', {
+    p_within_hours: UPCOMING_REMINDER_HOURS,
+  });
+
+  if (queueError) {
+    // Reminders are queued again next run; the rest of the queue still goes out
+    console.error(JSON.stringify({
+      event: 'UPCOMING_QUEUE_FAILED',
+      error: queueError.message,
+    }));
+  }
+
+  const result: SendResult = {
+    queuedUpcoming: queued ?? 0,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+    stoppedEarly: false,
+  };
+
+  const notifications = await fetchPendingNotifications(supabase);
+  let sendsAttempted = 0;
+
+  for (const notification of notifications) {
+    if (Date.now() - startTime > TIMEOUT_MS) {
+      result.stoppedEarly = true;
+      break;
+    }
+
+    if (sendsAttempted > 0 && !getSkipReason(notification)) {
+      await delayForRateLimit();
+    }
+
+    const status = await sendNotification(supabase, notification, fromEmail);
+    if (status === 'sent') {
+      result.sent++;
+      sendsAttempted++;
+    } else if (status === 'failed') {
+      result.failed++;
+      sendsAttempted++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  return result;
+}
+
+serve(async (req: Request) => {
+  if (!verifyCronSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+
+  try {
+    const result = await sendNotifications(supabaseAdmin, Date.now());
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Send notifications error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
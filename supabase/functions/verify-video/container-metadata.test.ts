@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { readMediaInfo } from './container-metadata.ts';
+import type { RangeReader } from './container-metadata.ts';
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+function bytes(...values: number[]): Uint8Array {
+  return new Uint8Array(values);
+}
+
+function text(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function uint(value: number, length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return out;
+}
+
+function readerFor(file: Uint8Array): RangeReader {
+  return async (start, length) => file.subarray(start, start + length);
+}
+
+function read(file: Uint8Array) {
+  return readMediaInfo(readerFor(file), file.byteLength);
+}
+
+// ============================================
+// MP4 / MOV
+// ============================================
+
+function box(type: string, ...children: Uint8Array[]): Uint8Array {
+  const content = concat(...children);
+  return concat(uint(8 + content.byteLength, 4), text(type), content);
+}
+
+function mvhd(timescale: number, duration: number, version = 0): Uint8Array {
+  return version === 1
+    ? box('mvhd', bytes(1, 0, 0, 0), new Uint8Array(16), uint(timescale, 4), uint(duration, 8), new Uint8Array(80))
+    : box('mvhd', bytes(0, 0, 0, 0), new Uint8Array(8), uint(timescale, 4), uint(duration, 4), new Uint8Array(80));
+}
+
+function trak(handler: string): Uint8Array {
+  return box('trak', box('tkhd', new Uint8Array(84)), box('mdia', box('mdhd', new Uint8Array(24)), box('hdlr', new Uint8Array(8), text(handler), new Uint8Array(13))));
+}
+
+const ftyp = box('ftyp', text('isom'), uint(512, 4), text('isomiso2mp41'));
+
+describe('readMediaInfo: MP4 / MOV', () => {
+  it('reads duration and a video track', async () => {
+    const file = concat(ftyp, box('moov', mvhd(1000, 90500), trak('vide'), trak('soun')), box('mdat', new Uint8Array(64)));
+    expect(await read(file)).toEqual({ durationSeconds: 90.5, hasVideo: true });
+  });
+
+  it('treats an MP4 without a video track as audio (M4A)', async () => {
+    const file = concat(ftyp, box('moov', mvhd(44100, 441000), trak('soun')));
+    expect(await read(file)).toEqual({ durationSeconds: 10, hasVideo: false });
+  });
+
+  it('finds moov after mdat', async () => {
+    const file = concat(ftyp, box('mdat', new Uint8Array(4096)), box('moov', mvhd(600, 1800), trak('vide')));
+    expect(await read(file)).toEqual({ durationSeconds: 3, hasVideo: true });
+  });
+
+  it('reads version 1 mvhd', async () => {
+    const file = concat(ftyp, box('moov', mvhd(1000, 120000, 1), trak('vide')));
+    expect(await read(file)).toEqual({ durationSeconds: 120, hasVideo: true });
+  });
+
+  it('accepts older QuickTime files that start with moov', async () => {
+    const file = concat(box('moov', mvhd(600, 6000), trak('vide')), box('mdat', new Uint8Array(16)));
+    expect(await read(file)).toEqual({ durationSeconds: 10, hasVideo: true });
+  });
+
+  it('returns null without moov', async () => {
+    expect(await read(concat(ftyp, box('mdat', new Uint8Array(64))))).toBeNull();
+  });
+
+  it('returns null for a zero timescale', async () => {
+    expect(await read(concat(ftyp, box('moov', mvhd(0, 1000), trak('vide'))))).toBeNull();
+  });
+
+  it('returns null for a truncated box size', async () => {
+    expect(await read(concat(ftyp, uint(4, 4), text('moov')))).toBeNull();
+  });
+});
+
+// ============================================
+// WebM
+// ============================================
+
+// 8-byte size vint; an all-ones value means "unknown size"
+function element(id: number, ...children: Uint8Array[]): Uint8Array {
+  const content = concat(...children);
+  const idLength = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  return concat(uint(id, idLength), bytes(0x01), uint(content.byteLength, 7), content);
+}
+
+function float64(value: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setFloat64(0, value);
+  return out;
+}
+
+const EBML = element(0x1a45dfa3, element(0x4282, text('webm')));
+
+function info(durationMs: number | null): Uint8Array {
+  return element(
+    0x1549a966,
+    element(0x2ad7b1, uint(1000000, 3)),
+    ...(durationMs === null ? [] : [element(0x4489, float64(durationMs))])
+  );
+}
+
+function tracks(...types: number[]): Uint8Array {
+  return element(0x1654ae6b, ...types.map((type) => element(0xae, element(0xd7, uint(1, 1)), element(0x83, uint(type, 1)))));
+}
+
+function cluster(timecode: number, ...blockOffsets: number[]): Uint8Array {
+  return element(
+    0x1f43b675,
+    element(0xe7, uint(timecode, 2)),
+    ...blockOffsets.map((offset) => element(0xa3, bytes(0x81), uint(offset, 2), bytes(0x80), new Uint8Array(32)))
+  );
+}
+
+function webm(...children: Uint8Array[]): Uint8Array {
+  return concat(EBML, element(0x18538067, ...children));
+}
+
+describe('readMediaInfo: WebM', () => {
+  it('reads Duration and a video track', async () => {
+    expect(await read(webm(info(5000), tracks(1, 2), cluster(0, 0)))).toEqual({ durationSeconds: 5, hasVideo: true });
+  });
+
+  it('treats a WebM without a video track as audio', async () => {
+    expect(await read(webm(info(12500), tracks(2), cluster(0, 0)))).toEqual({ durationSeconds: 12.5, hasVideo: false });
+  });
+
+  it('finds Info and Tracks after a Void element', async () => {
+    expect(await read(webm(element(0xec, new Uint8Array(100)), tracks(1), info(2000)))).toEqual({ durationSeconds: 2, hasVideo: true });
+  });
+
+  it('falls back to the last block timecode when Duration is missing (MediaRecorder)', async () => {
+    const file = webm(info(null), tracks(2), cluster(0, 0, 500), cluster(4000, 0, 250, 500));
+    expect(await read(file)).toEqual({ durationSeconds: 4.5, hasVideo: false });
+  });
+
+  it('returns null when Tracks comes after the first Cluster', async () => {
+    expect(await read(webm(info(5000), cluster(0, 0), tracks(1)))).toBeNull();
+  });
+
+  it('returns null without Duration or blocks', async () => {
+    expect(await read(webm(info(null), tracks(1)))).toBeNull();
+  });
+});
+
+// ============================================
+// MP3
+// ============================================
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo
+const MP3_FRAME_HEADER = bytes(0xff, 0xfb, 0x90, 0x00);
+
+function id3(size: number): Uint8Array {
+  return concat(text('ID3'), bytes(4, 0, 0), bytes((size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f), new Uint8Array(size));
+}
+
+describe('readMediaInfo: MP3', () => {
+  it('estimates a constant bitrate file from its size', async () => {
+    const file = concat(MP3_FRAME_HEADER, new Uint8Array(160000 - 4));
+    expect(await read(file)).toEqual({ durationSeconds: 10, hasVideo: false });
+  });
+
+  it('skips an ID3v2 tag before the first frame', async () => {
+    const file = concat(id3(100), MP3_FRAME_HEADER, new Uint8Array(16000 - 4));
+    expect(await read(file)).toEqual({ durationSeconds: 1, hasVideo: false });
+  });
+
+  it('reads the frame count of a Xing header', async () => {
+    // Side info is 32 bytes for MPEG-1 stereo; flags bit 0 = frame count present
+    const file = concat(MP3_FRAME_HEADER, new Uint8Array(32), text('Xing'), uint(1, 4), uint(441, 4), new Uint8Array(4096));
+    expect(await read(file)).toEqual({ durationSeconds: (441 * 1152) / 44100, hasVideo: false });
+  });
+
+  it('does not scan past unknown data for a frame sync', async () => {
+    const file = concat(text('not a media file'), MP3_FRAME_HEADER, new Uint8Array(4096));
+    expect(await read(file)).toBeNull();
+  });
+
+  it('returns null for a reserved bitrate', async () => {
+    expect(await read(concat(bytes(0xff, 0xfb, 0xf0, 0x00), new Uint8Array(4096)))).toBeNull();
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * Container metadata parsing for uploaded videos and voice notes.
+ * Reads only the byte ranges it needs (box headers, moov, EBML header, tail,
+ * first MP3 frame), so multi-hundred-MB uploads are never loaded into memory.
+ * The container is recognized by its magic bytes, never by the content type
+ * the client uploaded with.
+ */
+
+export type RangeReader = (start: number, length: number) => Promise<Uint8Array>;
+
+export interface MediaInfo {
+  durationSeconds: number;
+  // A video track is present (MP4/MOV hdlr 'vide', WebM TrackType 1)
+  hasVideo: boolean;
+}
+
+// moov is normally a few hundred KB; anything larger is treated as malformed
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+const MAX_TOP_LEVEL_BOXES = 64;
+const WEBM_HEAD_BYTES = 256 * 1024;
+const WEBM_TAIL_BYTES = 2 * 1024 * 1024;
+const MP3_HEAD_BYTES = 64 * 1024;
+
+// EBML element IDs (marker bits kept)
+const EBML_HEADER = 0x1a45dfa3;
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_TRACKS = 0x1654ae6b;
+const EBML_TRACK_ENTRY = 0xae;
+const EBML_TRACK_TYPE = 0x83;
+const WEBM_TRACK_TYPE_VIDEO = 1;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_CLUSTER_TIMECODE = 0xe7;
+const EBML_SIMPLE_BLOCK = 0xa3;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_BLOCK = 0xa1;
+
+/**
+ * Builds a reader that fetches byte ranges from a (signed) object URL
+ */
+export function createHttpRangeReader(url: string): RangeReader {
+  return async (start: number, length: number) => {
+    const response = await fetch(url, {
+      headers: { Range: `bytes=${start}-${start + length - 1}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Range request failed: ${response.status}`);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // Servers that ignore Range return the whole object
+    return response.status === 206 ? bytes : bytes.subarray(start, start + length);
+  };
+}
+
+/**
+ * Returns duration and whether a video track is present, or null if the
+ * container is unknown or could not be parsed. M4A is an MP4 container and
+ * shares its parser; MP3 cannot carry video.
+ */
+export async function readMediaInfo(read: RangeReader, sizeBytes: number): Promise<MediaInfo | null> {
+  const magic = await read(0, Math.min(12, sizeBytes));
+
+  if (magic.byteLength >= 4 && readId(magic, 0) === EBML_HEADER) {
+    return readWebmInfo(read, sizeBytes);
+  }
+  // ftyp first (MP4, M4A, modern MOV); older QuickTime files start with moov/mdat/wide/free
+  if (magic.byteLength >= 8 && ['ftyp', 'moov', 'mdat', 'wide', 'free'].includes(ascii(magic, 4, 4))) {
+    return readMp4Info(read, sizeBytes);
+  }
+
+  const duration = await readMp3Duration(read, sizeBytes);
+  return duration === null ? null : { durationSeconds: duration, hasVideo: false };
+}
+
+// ============================================
+// MP4 / MOV: moov → mvhd (timescale, duration), trak → mdia → hdlr (kind)
+// ============================================
+
+async function readMp4Info(read: RangeReader, sizeBytes: number): Promise<MediaInfo | null> {
+  let offset = 0;
+
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && offset + 8 <= sizeBytes; i++) {
+    const header = await read(offset, Math.min(16, sizeBytes - offset));
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+
+    let boxSize = view.getUint32(0);
+    const type = ascii(header, 4, 4);
+    let headerLength = 8;
+
+    if (boxSize === 1) {
+      if (header.byteLength < 16) return null;
+      boxSize = Number(view.getBigUint64(8));
+      headerLength = 16;
+    } else if (boxSize === 0) {
+      // Box extends to end of file
+      boxSize = sizeBytes - offset;
+    }
+
+    if (boxSize < headerLength) return null;
+
+    if (type === 'moov') {
+      const moovLength = boxSize - headerLength;
+      if (moovLength > MAX_MOOV_BYTES) return null;
+      return parseMoov(await read(offset + headerLength, moovLength));
+    }
+
+    offset += boxSize;
+  }
+
+  return null;
+}
+
+function parseMoov(moov: Uint8Array): MediaInfo | null {
+  const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+  let durationSeconds: number | null = null;
+  let hasVideo = false;
+  let offset = 0;
+
+  while (offset + 8 <= moov.byteLength) {
+    const boxSize = view.getUint32(offset);
+    const type = ascii(moov, offset + 4, 4);
+
+    if (boxSize < 8) return null;
+
+    if (type === 'mvhd') {
+      const content = offset + 8;
+      const version = moov[content];
+
+      // version(1) flags(3) creation/modification times (4+4 or 8+8)
+      const timescale = version === 1
+        ? view.getUint32(content + 20)
+        : view.getUint32(content + 12);
+      const duration = version === 1
+        ? Number(view.getBigUint64(content + 24))
+        : view.getUint32(content + 16);
+
+      if (timescale <= 0) return null;
+      durationSeconds = duration / timescale;
+    } else if (type === 'trak') {
+      const end = Math.min(moov.byteLength, offset + boxSize);
+      const mdia = findChildBox(moov, offset + 8, end, 'mdia');
+      const hdlr = mdia ? findChildBox(moov, mdia.start, mdia.end, 'hdlr') : null;
+
+      // hdlr: version(1) flags(3) pre_defined(4) handler_type(4)
+      if (hdlr && hdlr.start + 12 <= hdlr.end && ascii(moov, hdlr.start + 8, 4) === 'vide') {
+        hasVideo = true;
+      }
+    }
+
+    offset += boxSize;
+  }
+
+  return durationSeconds === null ? null : { durationSeconds, hasVideo };
+}
+
+/**
+ * Content range of the first child box of the given type within [start, end)
+ */
+function findChildBox(buf: Uint8Array, start: number, end: number, type: string): { start: number; end: number } | null {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const boxSize = view.getUint32(offset);
+    if (boxSize < 8) return null;
+
+    if (ascii(buf, offset + 4, 4) === type) {
+      return { start: offset + 8, end: Math.min(end, offset + boxSize) };
+    }
+
+    offset += boxSize;
+  }
+
+  return null;
+}
+
+// ============================================
+// WebM: Segment → Info → Duration × TimecodeScale, Tracks → TrackType (kind)
+// MediaRecorder output omits Duration; fall back to the last cluster timecode
+// ============================================
+
+async function readWebmInfo(read: RangeReader, sizeBytes: number): Promise<MediaInfo | null> {
+  const head = await read(0, Math.min(WEBM_HEAD_BYTES, sizeBytes));
+  const info = parseWebmHead(head);
+
+  if (!info) return null;
+  if (info.duration !== null) {
+    return { durationSeconds: (info.duration * info.timecodeScale) / 1e9, hasVideo: info.hasVideo };
+  }
+
+  const tailStart = Math.max(0, sizeBytes - WEBM_TAIL_BYTES);
+  const tail = tailStart === 0 ? head : await read(tailStart, sizeBytes - tailStart);
+  const lastTimecode = findLastBlockTimecode(tail);
+
+  return lastTimecode === null
+    ? null
+    : { durationSeconds: (lastTimecode * info.timecodeScale) / 1e9, hasVideo: info.hasVideo };
+}
+
+/**
+ * Info and Tracks from the head of the file; null unless both were found
+ * before the first Cluster
+ */
+function parseWebmHead(buf: Uint8Array): { timecodeScale: number; duration: number | null; hasVideo: boolean } | null {
+  let offset = 0;
+  let info: { timecodeScale: number; duration: number | null } | null = null;
+  let hasVideo: boolean | null = null;
+
+  const ebml = readElementHeader(buf, offset);
+  if (!ebml || ebml.id !== EBML_HEADER) return null;
+  offset = ebml.dataStart + ebml.size;
+
+  const segment = readElementHeader(buf, offset);
+  if (!segment || segment.id !== EBML_SEGMENT) return null;
+  offset = segment.dataStart;
+
+  // Walk Segment children until Info and Tracks (SeekHead/Void come first)
+  while (offset < buf.byteLength && (info === null || hasVideo === null)) {
+    const element = readElementHeader(buf, offset);
+    if (!element || element.id === EBML_CLUSTER) break;
+
+    const end = Math.min(buf.byteLength, element.dataStart + element.size);
+    if (element.id === EBML_INFO) {
+      info = parseInfoChildren(buf, element.dataStart, end);
+    } else if (element.id === EBML_TRACKS) {
+      hasVideo = hasVideoTrack(buf, element.dataStart, end);
+    }
+
+    if (element.size < 0) break;
+    offset = element.dataStart + element.size;
+  }
+
+  return info === null || hasVideo === null ? null : { ...info, hasVideo };
+}
+
+function hasVideoTrack(buf: Uint8Array, start: number, end: number): boolean {
+  let offset = start;
+
+  while (offset < end) {
+    const entry = readElementHeader(buf, offset);
+    if (!entry || entry.size < 0) break;
+
+    if (entry.id === EBML_TRACK_ENTRY) {
+      const entryEnd = Math.min(end, entry.dataStart + entry.size);
+      let child = entry.dataStart;
+
+      while (child < entryEnd) {
+        const element = readElementHeader(buf, child);
+        if (!element || element.size < 0) break;
+
+        if (element.id === EBML_TRACK_TYPE && readUint(buf, element.dataStart, element.size) === WEBM_TRACK_TYPE_VIDEO) {
+          return true;
+        }
+        child = element.dataStart + element.size;
+      }
+    }
+
+    offset = entry.dataStart + entry.size;
+  }
+
+  return false;
+}
+
+function parseInfoChildren(
+  buf: Uint8Array,
+  start: number,
+  end: number
+): { timecodeScale: number; duration: number | null } {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  let timecodeScale = 1000000;
+  let duration: number | null = null;
+  let offset = start;
+
+  while (offset < end) {
+    const element = readElementHeader(buf, offset);
+    if (!element || element.size < 0 || element.dataStart + element.size > end) break;
+
+    if (element.id === EBML_TIMECODE_SCALE) {
+      timecodeScale = readUint(buf, element.dataStart, element.size);
+    } else if (element.id === EBML_DURATION) {
+      duration = element.size === 4
+        ? view.getFloat32(element.dataStart)
+        : view.getFloat64(element.dataStart);
+    }
+
+    offset = element.dataStart + element.size;
+  }
+
+  return { timecodeScale, duration };
+}
+
+/**
+ * Scans the tail for the last Cluster and returns its timecode plus the
+ * largest block offset inside it (in TimecodeScale units)
+ */
+function findLastBlockTimecode(buf: Uint8Array): number | null {
+  for (let i = buf.byteLength - 4; i >= 0; i--) {
+    if (readId(buf, i) !== EBML_CLUSTER) continue;
+
+    const cluster = readElementHeader(buf, i);
+    if (!cluster) continue;
+
+    // Unknown-size clusters (live MediaRecorder output) run to end of buffer
+    const end = cluster.size < 0
+      ? buf.byteLength
+      : Math.min(buf.byteLength, cluster.dataStart + cluster.size);
+    const latest = scanClusterBlocks(buf, cluster.dataStart, end);
+    if (latest !== null) return latest;
+  }
+
+  return null;
+}
+
+function scanClusterBlocks(buf: Uint8Array, start: number, end: number): number | null {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  let clusterTimecode: number | null = null;
+  let maxOffset = 0;
+  let offset = start;
+
+  while (offset < end) {
+    const element = readElementHeader(buf, offset);
+    if (!element || element.size < 0) break;
+
+    if (element.id === EBML_CLUSTER_TIMECODE) {
+      clusterTimecode = readUint(buf, element.dataStart, element.size);
+    } else if (element.id === EBML_SIMPLE_BLOCK || element.id === EBML_BLOCK) {
+      // Block: track number (vint) then signed 16-bit timecode relative to cluster
+      const track = readVint(buf, element.dataStart, false);
+      if (track && track.start + track.length + 2 <= buf.byteLength) {
+        maxOffset = Math.max(maxOffset, view.getInt16(element.dataStart + track.length));
+      }
+    } else if (element.id === EBML_BLOCK_GROUP) {
+      // Descend into BlockGroup to reach its Block
+      offset = element.dataStart;
+      continue;
+    }
+
+    offset = element.dataStart + element.size;
+  }
+
+  return clusterTimecode === null ? null : clusterTimecode + maxOffset;
+}
+
+// ============================================
+// MP3: Xing/Info or VBRI frame count, else CBR estimate from bitrate
+// ============================================
+
+// Kbps by [MPEG-1 ? 0 : 1][layer index: I, II, III]
+const MP3_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+// Hz by version bits (0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1)
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+interface Mp3FrameHeader {
+  isMpeg1: boolean;
+  mono: boolean;
+  bitrateKbps: number;
+  sampleRate: number;
+  samplesPerFrame: number;
+}
+
+async function readMp3Duration(read: RangeReader, sizeBytes: number): Promise<number | null> {
+  let audioStart = 0;
+
+  // Skip ID3v2 tag (syncsafe size, optional 10-byte footer)
+  const tag = await read(0, Math.min(10, sizeBytes));
+  if (tag.byteLength === 10 && ascii(tag, 0, 3) === 'ID3') {
+    const tagSize = ((tag[6] & 0x7f) << 21) | ((tag[7] & 0x7f) << 14) | ((tag[8] & 0x7f) << 7) | (tag[9] & 0x7f);
+    audioStart = 10 + tagSize + (tag[5] & 0x10 ? 10 : 0);
+  }
+
+  if (audioStart >= sizeBytes) return null;
+
+  const head = await read(audioStart, Math.min(MP3_HEAD_BYTES, sizeBytes - audioStart));
+
+  // Unknown data is not scanned for a frame sync: it could be any other container
+  const frame = parseMp3FrameHeader(head, 0);
+  if (!frame) return null;
+
+  const frames = readMp3FrameCount(head, 0, frame);
+  if (frames !== null) {
+    return (frames * frame.samplesPerFrame) / frame.sampleRate;
+  }
+
+  // No VBR header: constant bitrate over the remaining bytes
+  return ((sizeBytes - audioStart) * 8) / (frame.bitrateKbps * 1000);
+}
+
+function parseMp3FrameHeader(buf: Uint8Array, offset: number): Mp3FrameHeader | null {
+  if (buf[offset] !== 0xff || (buf[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (buf[offset + 1] >> 3) & 0x03;
+  const layerBits = (buf[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buf[offset + 2] >> 4;
+  const sampleRateIndex = (buf[offset + 2] >> 2) & 0x03;
+
+  // Reserved values mean this is not a frame header
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = versionBits === 3;
+  const layer = 4 - layerBits; // 1, 2 or 3
+
+  return {
+    isMpeg1,
+    mono: (buf[offset + 3] >> 6) === 3,
+    bitrateKbps: MP3_BITRATES[isMpeg1 ? 0 : 1][layer - 1][bitrateIndex],
+    sampleRate: MP3_SAMPLE_RATES[versionBits][sampleRateIndex],
+    samplesPerFrame: layer === 1 ? 384 : layer === 2 || isMpeg1 ? 1152 : 576,
+  };
+}
+
+/**
+ * Frame count from a Xing/Info header (after side info) or a VBRI header
+ * (fixed 32 bytes after the frame header); null when neither is present
+ */
+function readMp3FrameCount(buf: Uint8Array, offset: number, frame: Mp3FrameHeader): number | null {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const sideInfo = frame.isMpeg1 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+
+  const xing = offset + 4 + sideInfo;
+  if (xing + 12 <= buf.byteLength) {
+    const id = ascii(buf, xing, 4);
+    if ((id === 'Xing' || id === 'Info') && view.getUint32(xing + 4) & 0x01) {
+      return view.getUint32(xing + 8);
+    }
+  }
+
+  const vbri = offset + 4 + 32;
+  if (vbri + 18 <= buf.byteLength && ascii(buf, vbri, 4) === 'VBRI') {
+    return view.getUint32(vbri + 14);
+  }
+
+  return null;
+}
+
+// ============================================
+// EBML primitives
+// ============================================
+
+interface ElementHeader {
+  id: number;
+  // -1 when the size is "unknown" (all value bits set)
+  size: number;
+  dataStart: number;
+}
+
+function readElementHeader(buf: Uint8Array, offset: number): ElementHeader | null {
+  const id = readVint(buf, offset, true);
+  if (!id || id.length > 4) return null;
+
+  const size = readVint(buf, offset + id.length, false);
+  if (!size) return null;
+
+  return { id: id.value, size: size.value, dataStart: offset + id.length + size.length };
+}
+
+function readId(buf: Uint8Array, offset: number): number | null {
+  const id = readVint(buf, offset, true);
+  return id && id.length === 4 ? id.value : null;
+}
+
+function readVint(
+  buf: Uint8Array,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; start: number } | null {
+  if (offset >= buf.byteLength) return null;
+
+  const first = buf[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > buf.byteLength) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buf[offset + i];
+    if (buf[offset + i] !== 0xff) allOnes = false;
+  }
+
+  if (!keepMarker && allOnes) {
+    return { value: -1, length, start: offset };
+  }
+
+  return { value, length, start: offset };
+}
+
+function readUint(buf: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + buf[offset + i];
+  }
+  return value;
+}
+
+function ascii(buf: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...buf.subarray(offset, offset + length));
+}
@@ -0,0 +1,194 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { verifyWebhookSecret } from '../_shared/webhook-auth.ts';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+import { createHttpRangeReader, readMediaInfo } from './container-metadata.ts';
+
+// Mirrors MAX_VIDEO_DURATION_SECONDS in src/utils/video-duration.ts
+const MAX_VIDEO_DURATION_SECONDS = 180;
+// Container duration can differ slightly from what <video> reports in the browser
+const DURATION_TOLERANCE_SECONDS = 1;
+const VIDEO_BUCKET = 'message-videos';
+const SIGNED_URL_EXPIRY_SECONDS = 300;
+// End-to-end encrypted uploads; see src/utils/e2e-crypto.ts
+const ENCRYPTED_CONTENT_TYPE = 'application/octet-stream';
+
+interface StorageObjectRecord {
+  bucket_id: string;
+  name: string;
+  metadata: { size?: number; mimetype?: string; eTag?: string } | null;
+}
+
+interface DatabaseWebhookPayload {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  table: string;
+  schema: string;
+  record: StorageObjectRecord | null;
+  old_record: StorageObjectRecord | null;
+}
+
+interface Inspection {
+  sizeBytes: number;
+  durationSeconds: number;
+  mediaKind: 'video' | 'audio';
+  encrypted: boolean;
+  error: string | null;
+}
+
+/**
+ * Reads real size, kind and container duration of a newly uploaded video or
+ * voice note. Returns an error string for uploads that must be rejected.
+ * Encrypted uploads are opaque: only the size is verified, they count as
+ * video so they stay Pro-only, and the database accepts them only on
+ * encrypted messages.
+ */
+async function inspectMedia(signedUrl: string, record: StorageObjectRecord): Promise<Inspection> {
+  const sizeBytes = record.metadata?.size ?? 0;
+  const mimeType = record.metadata?.mimetype ?? '';
+
+  if (mimeType === ENCRYPTED_CONTENT_TYPE) {
+    return {
+      sizeBytes,
+      durationSeconds: 0,
+      mediaKind: 'video',
+      encrypted: true,
+      error: sizeBytes > 0 ? null : 'Encrypted attachment is empty',
+    };
+  }
+  // The content type is set by the client; it only words errors for unreadable uploads
+  const claimedKind = mimeType.startsWith('audio/') ? 'audio' : 'video';
+  const claimedLabel = claimedKind === 'audio' ? 'Voice note' : 'Video';
+
+  if (sizeBytes <= 0) {
+    return { sizeBytes, durationSeconds: 0, mediaKind: claimedKind, encrypted: false, error: `${claimedLabel} file is empty` };
+  }
+
+  const info = await readMediaInfo(createHttpRangeReader(signedUrl), sizeBytes);
+
+  if (info === null || !Number.isFinite(info.durationSeconds)) {
+    return {
+      sizeBytes,
+      durationSeconds: 0,
+      mediaKind: claimedKind,
+      encrypted: false,
+      error: `Could not read ${claimedLabel.toLowerCase()} metadata`,
+    };
+  }
+
+  // Kind comes from the container's tracks: a video labelled audio/* is still a video
+  const mediaKind = info.hasVideo ? 'video' : 'audio';
+  const label = mediaKind === 'audio' ? 'Voice note' : 'Video';
+  const duration = info.durationSeconds;
+
+  if (duration > MAX_VIDEO_DURATION_SECONDS + DURATION_TOLERANCE_SECONDS) {
+    return {
+      sizeBytes,
+      durationSeconds: Math.round(duration),
+      mediaKind,
+      encrypted: false,
+      error: `${label} is ${Math.round(duration)}s long. Maximum is ${MAX_VIDEO_DURATION_SECONDS}s.`,
+    };
+  }
+
+  return { sizeBytes, durationSeconds: Math.round(duration), mediaKind, encrypted: false, error: null };
+}
+
+/**
+ * True for a new upload, and for an UPDATE that replaced the object's content
+ * in place (upsert or TUS re-upload to the same path). Metadata-only updates
+ * of the row keep the earlier verification.
+ */
+function hasNewContent(payload: DatabaseWebhookPayload): boolean {
+  if (payload.type === 'INSERT') return true;
+  if (payload.type !== 'UPDATE') return false;
+
+  const before = payload.old_record?.metadata;
+  const after = payload.record?.metadata;
+  return before?.eTag !== after?.eTag
+    || before?.size !== after?.size
+    || before?.mimetype !== after?.mimetype;
+}
+
+serve(async (req: Request) => {
+  if (!verifyWebhookSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const payload: DatabaseWebhookPayload = await req.json();
+  const record = payload.record;
+
+  if (!hasNewContent(payload) || !record || record.bucket_id !== VIDEO_BUCKET) {
+    return new Response(
+      JSON.stringify({ received: true, ignored: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const storagePath = record.name;
+
+  try {
+    const { data: signed, error: signError } = await supabaseAdmin.storage
+      .from(VIDEO_BUCKET)
+      .createSignedUrl(storagePath, SIGNED_URL_EXPIRY_SECONDS);
+
+    if (signError || !signed) {
+      throw new Error(`Failed to sign video URL: ${signError?.message}`);
+    }
+
+    const inspection = await inspectMedia(signed.signedUrl, record);
+
+    // Records the result and corrects (or strips) any message already using this path
+    const { data: status, error: applyError } = await supabaseAdmin.rpc('apply_video_verification', {
+      p_storage_path: storagePath,
+      p_size_bytes: inspection.sizeBytes,
+      p_duration_seconds: inspection.durationSeconds,
+      p_error: inspection.error,
+      p_media_kind: inspection.mediaKind,
+      p_encrypted: inspection.encrypted,
+    });
+
+    if (applyError) {
+      throw new Error(`Failed to apply verification: ${applyError.message}`);
+    }
+
+    if (status === 'rejected') {
+      const { error: removeError } = await supabaseAdmin.storage
+        .from(VIDEO_BUCKET)
+        .remove([storagePath]);
+
+      console.error(JSON.stringify({
+        event: 'VIDEO_REJECTED',
+        video_storage_path: storagePath,
+        size_bytes: inspection.sizeBytes,
+        duration_seconds: inspection.durationSeconds,
+        media_kind: inspection.mediaKind,
+        reason: inspection.error ?? 'Exceeds remaining storage or requires Pro',
+        delete_error: removeError?.message ?? null,
+      }));
+    }
+
+    return new Response(
+      JSON.stringify({
+        status,
+        sizeBytes: inspection.sizeBytes,
+        durationSeconds: inspection.durationSeconds,
+        mediaKind: inspection.mediaKind,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    // Unverified videos keep client-reported values until re-verified
+    console.error(JSON.stringify({
+      event: 'VIDEO_VERIFICATION_FAILED',
+      video_storage_path: storagePath,
+      error: error instanceof Error ? error.message : 'Unknown',
+    }));
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
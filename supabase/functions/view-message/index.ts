@@ -0,0 +1,164 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+import { createSignedImageLinks } from '../_shared/message-images.ts';
+import { createSignedEntryLinks } from '../_shared/capsule-entries.ts';
+
+// 7-day expiry matches the link sent in the delivery email
+const SIGNED_URL_EXPIRY_SECONDS = 604800;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PASSPHRASE_ERRORS: Record<string, string> = {
+  incorrect: 'That passphrase is not right.',
+  rate_limited: 'Too many wrong guesses. Try again in 15 minutes.',
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface UnlockState {
+  deliver_at: string;
+  status: string;
+  delivery_mode: string;
+  switch_triggered_at: string | null;
+}
+
+/**
+ * Returns true if deliver_at <= now OR the message was already sent.
+ * Same instant comparison as the process-delivery query. A recurring message
+ * is locked again while its next occurrence is pending: the row holds that
+ * occurrence's (editable) content, which must not be read before delivery.
+ * A check-in message opens only once its switch has fired: its deliver_at
+ * is a deadline the sender can still push back.
+ */
+function isUnlocked(message: UnlockState): boolean {
+  if (['delivered', 'opened', 'bounced'].includes(message.status)) {
+    return true;
+  }
+  if (message.delivery_mode === 'checkin') {
+    return message.switch_triggered_at !== null;
+  }
+  return new Date(message.deliver_at) <= new Date();
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { token, passphrase } = await req.json();
+
+    if (!token || typeof token !== 'string' || !UUID_REGEX.test(token)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid token' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data: message, error: queryError } = await supabaseAdmin
+      .from('messages')
+      .select('id, message_text, encrypted, passphrase_hash, passphrase_hint, video_storage_path, media_kind, deliver_at, timezone, status, delivered_at, delivery_mode, switch_triggered_at')
+      .eq('delivery_token', token)
+      .single();
+
+    if (queryError || !message) {
+      return new Response(
+        JSON.stringify({ error: 'Message not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Reveal only the unlock time before deliver_at
+    if (!isUnlocked(message)) {
+      return new Response(
+        JSON.stringify({ locked: true, deliverAt: message.deliver_at, timezone: message.timezone }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Passphrase-protected: content only after a correct guess (attempts limited server-side)
+    if (message.passphrase_hash) {
+      let check = 'missing';
+
+      if (typeof passphrase === 'string' && passphrase.trim()) {
+        const { data, error: checkError } = await supabaseAdmin.rpc('verify_message_passphrase', {
+          p_message_id: message.id,
+          p_passphrase: passphrase,
+        });
+
+        if (checkError) {
+          console.error(JSON.stringify({
+            event: 'PASSPHRASE_CHECK_FAILED',
+            message_id: message.id,
+            error: checkError.message,
+          }));
+          throw new Error(checkError.message);
+        }
+
+        check = data;
+      }
+
+      if (check !== 'ok') {
+        return new Response(
+          JSON.stringify({
+            locked: false,
+            passphraseRequired: true,
+            passphraseHint: message.passphrase_hint,
+            passphraseError: PASSPHRASE_ERRORS[check],
+            deliverAt: message.deliver_at,
+            timezone: message.timezone,
+          }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    let videoUrl: string | null = null;
+    if (message.video_storage_path) {
+      const { data: signedUrlData, error: signedUrlError } = await supabaseAdmin.storage
+        .from('message-videos')
+        .createSignedUrl(message.video_storage_path, SIGNED_URL_EXPIRY_SECONDS);
+
+      if (signedUrlError) {
+        console.error(JSON.stringify({
+          event: 'VIEW_SIGNED_URL_FAILED',
+          video_storage_path: message.video_storage_path,
+          error: signedUrlError.message,
+        }));
+      }
+
+      videoUrl = signedUrlData?.signedUrl ?? null;
+    }
+
+    const images = await createSignedImageLinks(supabaseAdmin, message.id, SIGNED_URL_EXPIRY_SECONDS);
+    // Shared capsule: every contributor's entry, shown with the message
+    const entries = await createSignedEntryLinks(supabaseAdmin, message.id, SIGNED_URL_EXPIRY_SECONDS);
+
+    return new Response(
+      JSON.stringify({
+        locked: false,
+        // Encrypted messages are returned as ciphertext; the key is only in the link fragment
+        encrypted: message.encrypted,
+        messageText: message.message_text,
+        hasVideo: message.video_storage_path !== null,
+        mediaKind: message.media_kind,
+        videoUrl,
+        images,
+        entries,
+        deliverAt: message.deliver_at,
+        timezone: message.timezone,
+        deliveredAt: message.delivered_at,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('View message error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
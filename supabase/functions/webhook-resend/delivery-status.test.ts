@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { EVENT_STATUS, deriveMessageStatus, isStatusAdvance } from './delivery-status.ts';
+
+describe('EVENT_STATUS', () => {
+  it('tracks delivery, open, bounce and complaint events only', () => {
+    expect(EVENT_STATUS['email.delivered']).toBe('delivered');
+    expect(EVENT_STATUS['email.complained']).toBe('complained');
+    expect(EVENT_STATUS['email.sent']).toBeUndefined();
+    expect(EVENT_STATUS['email.delivery_delayed']).toBeUndefined();
+  });
+});
+
+describe('isStatusAdvance', () => {
+  it('moves an accepted email forward on any event', () => {
+    expect(isStatusAdvance('delivered', 'sent')).toBe(true);
+    expect(isStatusAdvance('opened', 'sent')).toBe(true);
+    expect(isStatusAdvance('bounced', 'pending')).toBe(true);
+  });
+
+  it('follows sent < delivered < opened < bounced/complained', () => {
+    expect(isStatusAdvance('opened', 'delivered')).toBe(true);
+    expect(isStatusAdvance('bounced', 'opened')).toBe(true);
+    expect(isStatusAdvance('complained', 'opened')).toBe(true);
+  });
+
+  it('ignores late or repeated events', () => {
+    expect(isStatusAdvance('delivered', 'delivered')).toBe(false);
+    expect(isStatusAdvance('delivered', 'opened')).toBe(false);
+    expect(isStatusAdvance('opened', 'bounced')).toBe(false);
+    expect(isStatusAdvance('bounced', 'complained')).toBe(false);
+    expect(isStatusAdvance('complained', 'bounced')).toBe(false);
+  });
+});
+
+describe('deriveMessageStatus', () => {
+  it('is opened if any recipient opened it', () => {
+    expect(deriveMessageStatus(['bounced', 'opened', 'delivered'])).toBe('opened');
+  });
+
+  it('is bounced if any recipient bounced or complained and none opened', () => {
+    expect(deriveMessageStatus(['delivered', 'bounced'])).toBe('bounced');
+    expect(deriveMessageStatus(['delivered', 'complained'])).toBe('bounced');
+    expect(deriveMessageStatus(['complained'])).toBe('bounced');
+  });
+
+  it('is delivered otherwise', () => {
+    expect(deriveMessageStatus(['delivered', 'sent'])).toBe('delivered');
+    expect(deriveMessageStatus([])).toBe('delivered');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Status rules for Resend delivery events: which events are tracked, how a
+ * log or recipient status may move, and how recipients roll up into
+ * messages.status.
+ */
+
+export type LogStatus = 'delivered' | 'opened' | 'bounced' | 'complained';
+
+export const EVENT_STATUS: Record<string, LogStatus> = {
+  'email.delivered': 'delivered',
+  'email.opened': 'opened',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+};
+
+// Events can arrive out of order; a row only moves to a higher rank.
+// process-delivery leaves accepted emails at 'sent'.
+const STATUS_RANK: Record<string, number> = {
+  pending: 0,
+  sent: 0,
+  failed: 0,
+  delivered: 1,
+  opened: 2,
+  bounced: 3,
+  complained: 3,
+};
+
+/**
+ * True if a row currently at `current` should move to `next`
+ */
+export function isStatusAdvance(next: LogStatus, current: string): boolean {
+  return STATUS_RANK[next] > (STATUS_RANK[current] ?? 0);
+}
+
+/**
+ * Derives messages.status from recipient states:
+ * any opened → 'opened', else any bounced or complained → 'bounced', else 'delivered'.
+ * A spam complaint is shown like a bounce so the sender sees the address needs attention.
+ */
+export function deriveMessageStatus(recipientStatuses: string[]): 'delivered' | 'opened' | 'bounced' {
+  if (recipientStatuses.includes('opened')) return 'opened';
+  if (recipientStatuses.includes('bounced') || recipientStatuses.includes('complained')) return 'bounced';
+  return 'delivered';
+}
@@ -0,0 +1,151 @@
+import { serve } from 'https://deno.land/std@0.208.0/http/server.ts';
+import { Webhook } from 'https://esm.sh/svix@1.15.0';
+import { getSupabaseAdmin } from '../_shared/supabase-admin.ts';
+import { EVENT_STATUS, deriveMessageStatus, isStatusAdvance } from './delivery-status.ts';
+
+const webhookSecret = Deno.env.get('RESEND_WEBHOOK_SECRET')!;
+
+interface ResendEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+  };
+}
+
+serve(async (req: Request) => {
+  const body = await req.text();
+  let event: ResendEvent;
+
+  try {
+    const wh = new Webhook(webhookSecret);
+    event = wh.verify(body, {
+      'svix-id': req.headers.get('svix-id') ?? '',
+      'svix-timestamp': req.headers.get('svix-timestamp') ?? '',
+      'svix-signature': req.headers.get('svix-signature') ?? '',
+    }) as ResendEvent;
+  } catch (err) {
+    console.error('Resend webhook signature verification failed:', err);
+    return new Response(
+      JSON.stringify({ error: 'Invalid signature' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const status = EVENT_STATUS[event.type];
+  if (!status) {
+    return new Response(
+      JSON.stringify({ received: true, ignored: event.type }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const emailProviderId = event.data?.email_id;
+  if (!emailProviderId) {
+    return new Response(
+      JSON.stringify({ error: 'Missing email_id' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+
+  try {
+    const { data: log } = await supabaseAdmin
+      .from('delivery_logs')
+      .select('id, message_id, recipient_id, occurrence, status')
+      .eq('email_provider_id', emailProviderId)
+      .single();
+
+    // Not ours (e.g. failure notification) or log already cleaned up
+    if (!log) {
+      return new Response(
+        JSON.stringify({ received: true, status: 'unmatched' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isStatusAdvance(status, log.status)) {
+      return new Response(
+        JSON.stringify({ received: true, status: 'already_processed' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: logError } = await supabaseAdmin
+      .from('delivery_logs')
+      .update({
+        status,
+        provider_event_at: event.created_at,
+      })
+      .eq('id', log.id);
+
+    if (logError) {
+      throw new Error(`Failed to update delivery log: ${logError.message}`);
+    }
+
+    // Late events for an earlier occurrence of a recurring message only update
+    // that occurrence's log; recipients and the message belong to the current one
+    const { data: message } = await supabaseAdmin
+      .from('messages')
+      .select('occurrence')
+      .eq('id', log.message_id)
+      .single();
+
+    if (message && message.occurrence !== log.occurrence) {
+      return new Response(
+        JSON.stringify({ received: true, status, occurrence: log.occurrence }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (log.recipient_id) {
+      const { data: recipient } = await supabaseAdmin
+        .from('message_recipients')
+        .select('status')
+        .eq('id', log.recipient_id)
+        .single();
+
+      if (recipient && isStatusAdvance(status, recipient.status)) {
+        const { error: recipientError } = await supabaseAdmin
+          .from('message_recipients')
+          .update({ status })
+          .eq('id', log.recipient_id);
+
+        if (recipientError) {
+          throw new Error(`Failed to update recipient: ${recipientError.message}`);
+        }
+      }
+    }
+
+    const { data: recipients } = await supabaseAdmin
+      .from('message_recipients')
+      .select('status')
+      .eq('message_id', log.message_id);
+
+    const recipientStatuses = (recipients ?? []).map((r: { status: string }) => r.status);
+
+    // Only sent messages change; pending (retrying) and failed keep their state
+    const { error: msgError } = await supabaseAdmin
+      .from('messages')
+      .update({ status: deriveMessageStatus(recipientStatuses) })
+      .eq('id', log.message_id)
+      .in('status', ['delivered', 'opened', 'bounced']);
+
+    if (msgError) {
+      throw new Error(`Failed to update message: ${msgError.message}`);
+    }
+
+    return new Response(
+      JSON.stringify({ received: true, status }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Resend webhook error:', error);
+    // Returning 500 triggers Resend's automatic retry; updates are rank-guarded
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
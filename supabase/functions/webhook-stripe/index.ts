@@ -9,6 +9,12 @@ const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
 
 const endpointSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET')!;
 
+// One-off products granted by an RPC that also completes the payment
+const PRODUCT_GRANT_RPCS: Record<string, string> = {
+  storage_addon: 'apply_storage_addon',
+  gift_capsule: 'apply_gift_purchase',
+};
+
 serve(async (req: Request) => {
   const signature = req.headers.get('stripe-signature');
 
@@ -36,15 +42,30 @@ serve(async (req: Request) => {
     );
   }
 
-  if (event.type !== 'checkout.session.completed') {
-    return new Response(
-      JSON.stringify({ received: true, ignored: event.type }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    );
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object as Stripe.Charge);
+    case 'charge.dispute.created':
+      return handleDisputeCreated(event.data.object as Stripe.Dispute);
+    case 'charge.dispute.closed':
+      return handleDisputeClosed(event.data.object as Stripe.Dispute);
+    default:
+      return new Response(
+        JSON.stringify({ received: true, ignored: event.type }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
   }
+});
 
-  const session = event.data.object as Stripe.Checkout.Session;
+/**
+ * Provisions Pro tier, a storage pack or a gift credit for a completed checkout
+ */
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<Response> {
   const userId = session.metadata?.userId;
+  const productType = session.metadata?.productType || 'pro_upgrade';
+  const storageBytesAdded = parseInt(session.metadata?.storageBytesAdded || '0', 10);
   const checkoutSessionId = session.id;
   const paymentIntentId = session.payment_intent as string;
 
@@ -79,9 +100,10 @@ serve(async (req: Request) => {
         user_id: userId,
         stripe_payment_intent_id: paymentIntentId,
         stripe_checkout_session_id: checkoutSessionId,
-        amount_cents: 900,
-        currency: 'usd',
-        product_type: 'pro_upgrade',
+        amount_cents: session.amount_total ?? 0,
+        currency: session.currency ?? 'usd',
+        product_type: productType,
+        storage_bytes_added: storageBytesAdded,
         status: 'pending',
       });
 
@@ -94,6 +116,32 @@ serve(async (req: Request) => {
     }
   }
 
+  const grantRpc = PRODUCT_GRANT_RPCS[productType];
+  if (grantRpc) {
+    // Increment + payment completion run in one transaction (idempotent on retry)
+    const { error: grantError } = await supabaseAdmin.rpc(grantRpc, {
+      p_checkout_session_id: checkoutSessionId,
+    });
+
+    if (grantError) {
+      console.error(`Failed to apply ${productType}:`, grantError);
+      await supabaseAdmin
+        .from('payments')
+        .update({ error_message: grantError.message })
+        .eq('stripe_checkout_session_id', checkoutSessionId);
+
+      return new Response(
+        JSON.stringify({ error: `Failed to provision ${productType}` }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ received: true, status: 'completed' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
   const { error: profileError } = await supabaseAdmin
     .from('profiles')
     .update({
@@ -142,4 +190,129 @@ serve(async (req: Request) => {
     JSON.stringify({ received: true, status: 'completed' }),
     { status: 200, headers: { 'Content-Type': 'application/json' } }
   );
-});
+}
+
+/**
+ * Full refund revokes the payment's entitlement. Partial refunds keep access.
+ */
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<Response> {
+  if (!charge.refunded) {
+    console.log('Partial refund ignored:', charge.id);
+    return new Response(
+      JSON.stringify({ received: true, status: 'partial_refund_ignored' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return reversePayment(getPaymentIntentId(charge.payment_intent), 'refunded');
+}
+
+/**
+ * Dispute opened: revoke immediately; funds are withheld while it is open
+ */
+async function handleDisputeCreated(dispute: Stripe.Dispute): Promise<Response> {
+  return reversePayment(getPaymentIntentId(dispute.payment_intent), 'disputed');
+}
+
+/**
+ * Dispute resolved: won/warning_closed restores access, lost finalizes as refunded
+ */
+async function handleDisputeClosed(dispute: Stripe.Dispute): Promise<Response> {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+
+  if (dispute.status === 'lost') {
+    return reversePayment(paymentIntentId, 'refunded');
+  }
+
+  if (!paymentIntentId || !(await paymentExists(paymentIntentId))) {
+    return unknownPaymentResponse(paymentIntentId);
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: restored, error } = await supabaseAdmin.rpc('restore_payment', {
+    p_payment_intent_id: paymentIntentId,
+  });
+
+  if (error) {
+    console.error(JSON.stringify({
+      event: 'PAYMENT_RESTORE_FAILED',
+      payment_intent_id: paymentIntentId,
+      dispute_status: dispute.status,
+      error: error.message,
+    }));
+    return new Response(
+      JSON.stringify({ error: 'Failed to restore payment' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ received: true, status: restored ? 'restored' : 'already_processed' }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Marks payment refunded/disputed and reverts tier or storage via revoke_payment.
+ * The RPC locks the payment row, so duplicate events never revoke twice.
+ */
+async function reversePayment(
+  paymentIntentId: string | null,
+  status: 'refunded' | 'disputed'
+): Promise<Response> {
+  if (!paymentIntentId || !(await paymentExists(paymentIntentId))) {
+    return unknownPaymentResponse(paymentIntentId);
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: revoked, error } = await supabaseAdmin.rpc('revoke_payment', {
+    p_payment_intent_id: paymentIntentId,
+    p_status: status,
+  });
+
+  if (error) {
+    // Returning 500 triggers Stripe retry; revoke_payment is idempotent
+    console.error(JSON.stringify({
+      event: 'PAYMENT_REVOKE_FAILED',
+      payment_intent_id: paymentIntentId,
+      status,
+      error: error.message,
+    }));
+    return new Response(
+      JSON.stringify({ error: 'Failed to revoke payment' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ received: true, status: revoked ? status : 'already_processed' }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+function getPaymentIntentId(paymentIntent: string | Stripe.PaymentIntent | null): string | null {
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+}
+
+async function paymentExists(paymentIntentId: string): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data } = await supabaseAdmin
+    .from('payments')
+    .select('id')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .single();
+
+  return !!data;
+}
+
+/**
+ * Charges not created through create-checkout are acknowledged so Stripe stops retrying
+ */
+function unknownPaymentResponse(paymentIntentId: string | null): Response {
+  console.log('No payment record for payment intent:', paymentIntentId);
+  return new Response(
+    JSON.stringify({ received: true, ignored: 'unknown_payment' }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
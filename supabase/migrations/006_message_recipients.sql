@@ -0,0 +1,114 @@
+-- Message Recipients
+-- One row per delivery address; each recipient has its own delivery status
+-- and delivery_logs trail. messages.delivery_email stays as the primary
+-- recipient and is mirrored into this table on insert.
+
+-- ============================================
+-- MESSAGE RECIPIENTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.message_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email) AND position('@' in email) > 1),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (message_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_recipients_message
+  ON public.message_recipients(message_id);
+
+CREATE TRIGGER update_message_recipients_updated_at
+  BEFORE UPDATE ON public.message_recipients
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- DELIVERY LOGS: per-recipient trail
+-- ============================================
+ALTER TABLE public.delivery_logs
+  ADD COLUMN IF NOT EXISTS recipient_id UUID REFERENCES public.message_recipients(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_delivery_logs_recipient
+  ON public.delivery_logs(recipient_id);
+
+-- ============================================
+-- BACKFILL: existing messages get their delivery_email as sole recipient
+-- ============================================
+INSERT INTO public.message_recipients (message_id, email, status, delivered_at)
+SELECT id, lower(delivery_email), status, delivered_at
+FROM public.messages
+ON CONFLICT (message_id, email) DO NOTHING;
+
+UPDATE public.delivery_logs dl
+SET recipient_id = mr.id
+FROM public.message_recipients mr
+WHERE mr.message_id = dl.message_id
+  AND dl.recipient_id IS NULL;
+
+-- ============================================
+-- FUNCTION: Mirror Primary Recipient
+-- Every message always has at least its delivery_email as a recipient
+-- ============================================
+CREATE OR REPLACE FUNCTION public.insert_primary_recipient()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.message_recipients (message_id, email)
+  VALUES (NEW.id, lower(NEW.delivery_email))
+  ON CONFLICT (message_id, email) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER insert_primary_recipient_trigger
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.insert_primary_recipient();
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE public.message_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Users can view recipients of their own messages
+CREATE POLICY "Users can view own message recipients"
+  ON public.message_recipients
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_recipients.message_id
+      AND messages.user_id = auth.uid()
+    )
+  );
+
+-- Users can add recipients to their own pending messages
+CREATE POLICY "Users can insert own pending message recipients"
+  ON public.message_recipients
+  FOR INSERT
+  WITH CHECK (
+    status = 'pending' AND
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_recipients.message_id
+      AND messages.user_id = auth.uid()
+      AND messages.status = 'pending'
+    )
+  );
+
+-- Users can remove recipients from their own pending messages
+CREATE POLICY "Users can delete own pending message recipients"
+  ON public.message_recipients
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_recipients.message_id
+      AND messages.user_id = auth.uid()
+      AND messages.status = 'pending'
+    )
+  );
@@ -0,0 +1,46 @@
+-- Exact Delivery Timestamp
+-- Replaces date-only scheduling with a single delivery instant plus the
+-- sender's IANA time zone. scheduled_date is kept as derived state (the
+-- local calendar date in the sender's time zone) for display and sorting.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS deliver_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Backfill: existing messages keep their previous 8 AM UTC delivery time
+UPDATE public.messages
+SET deliver_at = (scheduled_date::timestamp + INTERVAL '8 hours') AT TIME ZONE 'UTC'
+WHERE deliver_at IS NULL;
+
+ALTER TABLE public.messages ALTER COLUMN deliver_at SET NOT NULL;
+
+-- Delivery query now filters on deliver_at
+DROP INDEX IF EXISTS public.idx_messages_pending_delivery;
+CREATE INDEX IF NOT EXISTS idx_messages_pending_delivery
+  ON public.messages(deliver_at, status)
+  WHERE status = 'pending';
+
+-- ============================================
+-- FUNCTION: Sync Scheduled Date
+-- Derives scheduled_date from deliver_at in the sender's time zone.
+-- Rows written with only scheduled_date (legacy clients, seed script)
+-- get deliver_at at 8 AM UTC on that date.
+-- Invalid time zone names raise an error here.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.sync_scheduled_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.deliver_at IS NULL THEN
+    NEW.deliver_at := (NEW.scheduled_date::timestamp + INTERVAL '8 hours') AT TIME ZONE 'UTC';
+  END IF;
+
+  NEW.scheduled_date := (NEW.deliver_at AT TIME ZONE NEW.timezone)::date;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_scheduled_date_trigger
+  BEFORE INSERT OR UPDATE OF deliver_at, timezone, scheduled_date ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.sync_scheduled_date();
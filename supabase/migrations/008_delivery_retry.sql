@@ -0,0 +1,11 @@
+-- Delivery Retry
+-- Failed sends are retried with exponential backoff. next_attempt_at holds
+-- the earliest time process-delivery may pick the message up again; NULL
+-- means "due as soon as deliver_at has passed".
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_messages_next_attempt
+  ON public.messages(next_attempt_at)
+  WHERE status = 'pending' AND next_attempt_at IS NOT NULL;
@@ -0,0 +1,29 @@
+-- Delivery Events
+-- Resend webhook events (delivered, bounced, complained, opened) update
+-- delivery_logs, message_recipients and messages. Post-send states are
+-- ranked so out-of-order events never move a row backwards.
+
+-- ============================================
+-- DELIVERY LOGS: provider event states
+-- ============================================
+ALTER TABLE public.delivery_logs DROP CONSTRAINT IF EXISTS delivery_logs_status_check;
+ALTER TABLE public.delivery_logs ADD CONSTRAINT delivery_logs_status_check
+  CHECK (status IN ('pending', 'delivered', 'sent', 'bounced', 'complained', 'opened', 'failed'));
+
+ALTER TABLE public.delivery_logs
+  ADD COLUMN IF NOT EXISTS provider_event_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_delivery_logs_email_provider_id
+  ON public.delivery_logs(email_provider_id)
+  WHERE email_provider_id IS NOT NULL;
+
+-- ============================================
+-- RECIPIENTS + MESSAGES: surface bounces and opens
+-- ============================================
+ALTER TABLE public.message_recipients DROP CONSTRAINT IF EXISTS message_recipients_status_check;
+ALTER TABLE public.message_recipients ADD CONSTRAINT message_recipients_status_check
+  CHECK (status IN ('pending', 'delivered', 'opened', 'bounced', 'complained', 'failed'));
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_status_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_status_check
+  CHECK (status IN ('pending', 'delivered', 'opened', 'bounced', 'failed'));
@@ -0,0 +1,47 @@
+-- Storage Add-on Purchases
+-- Raises storage_limit_bytes by payments.storage_bytes_added exactly once per
+-- checkout session. Profile increment and payment completion happen in one
+-- transaction, so Stripe webhook retries can never double-apply a pack.
+
+CREATE OR REPLACE FUNCTION public.apply_storage_addon(
+  p_checkout_session_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_checkout_session_id = p_checkout_session_id
+    AND product_type = 'storage_addon'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Storage add-on payment not found for session %', p_checkout_session_id;
+  END IF;
+
+  -- Already applied: idempotent no-op
+  IF v_payment.status = 'completed' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    storage_limit_bytes = storage_limit_bytes + v_payment.storage_bytes_added,
+    updated_at = NOW()
+  WHERE id = v_payment.user_id;
+
+  UPDATE public.payments
+  SET status = 'completed', error_message = NULL
+  WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+-- Webhook-only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.apply_storage_addon(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,138 @@
+-- Payment Reversals
+-- Refunds and disputes revoke what a payment granted. A Pro refund reverts the
+-- profile to free (storage_limit_bytes = 0); a storage pack refund removes its
+-- bytes. A dispute revokes immediately and is restored if the dispute is won.
+--
+-- Over-quota policy: existing pending messages and their videos are kept and
+-- still delivered. New uploads are blocked until usage is back under the limit
+-- (client-side quota/tier checks); removing videos is always allowed.
+
+-- ============================================
+-- PAYMENTS: disputed state
+-- ============================================
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'refunded', 'disputed'));
+
+-- ============================================
+-- FUNCTION: Revoke Payment
+-- Marks payment refunded/disputed and reverts its entitlement exactly once.
+-- Returns true when the profile was changed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.revoke_payment(
+  p_payment_intent_id TEXT,
+  p_status TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('refunded', 'disputed') THEN
+    RAISE EXCEPTION 'Invalid revoke status %', p_status;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found for payment intent %', p_payment_intent_id;
+  END IF;
+
+  -- Entitlement only exists for completed payments; anything else is a status change
+  IF v_payment.status <> 'completed' THEN
+    -- Lost dispute (or refund during dispute) finalizes as refunded; never downgrade refunded
+    IF v_payment.status <> 'refunded' THEN
+      UPDATE public.payments SET status = p_status WHERE id = v_payment.id;
+    END IF;
+    RETURN false;
+  END IF;
+
+  IF v_payment.product_type = 'pro_upgrade' THEN
+    UPDATE public.profiles
+    SET
+      tier = 'free',
+      storage_limit_bytes = 0,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSE
+    UPDATE public.profiles
+    SET
+      storage_limit_bytes = GREATEST(0, storage_limit_bytes - v_payment.storage_bytes_added),
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  END IF;
+
+  UPDATE public.payments SET status = p_status WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Restore Payment
+-- Re-grants a disputed payment after the dispute is won.
+-- Restoring Pro also restores storage packs that are still completed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.restore_payment(
+  p_payment_intent_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_addon_bytes BIGINT;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found for payment intent %', p_payment_intent_id;
+  END IF;
+
+  IF v_payment.status <> 'disputed' THEN
+    RETURN false;
+  END IF;
+
+  IF v_payment.product_type = 'pro_upgrade' THEN
+    SELECT COALESCE(SUM(storage_bytes_added), 0) INTO v_addon_bytes
+    FROM public.payments
+    WHERE user_id = v_payment.user_id
+      AND product_type = 'storage_addon'
+      AND status = 'completed';
+
+    UPDATE public.profiles
+    SET
+      tier = 'pro',
+      storage_limit_bytes = 2147483648 + v_addon_bytes,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSE
+    -- Storage packs only count toward a Pro quota
+    UPDATE public.profiles
+    SET
+      storage_limit_bytes = storage_limit_bytes + v_payment.storage_bytes_added,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id
+      AND tier = 'pro';
+  END IF;
+
+  UPDATE public.payments SET status = 'completed' WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+-- Webhook-only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.revoke_payment(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_payment(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,231 @@
+-- Server-side Tier and Free-message Enforcement
+-- Message creation moves into the create_message RPC: tier check, free-message
+-- lock, insert, recipients and storage accounting run in one transaction.
+-- Storage usage follows messages.video_size_bytes by trigger, and clients can
+-- no longer write profiles or insert messages directly.
+
+-- ============================================
+-- FUNCTION: Enforce Message Video Rules
+-- Video requires Pro and must fit in remaining quota. Runs only for client
+-- requests (auth.uid() set); service role writes skip the checks.
+-- Locks the profile row so concurrent writes cannot overshoot the quota.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_message_video_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_old_bytes BIGINT := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old_bytes := OLD.video_size_bytes;
+
+    -- Unchanged video (e.g. text edit by a downgraded user) is always allowed
+    IF NEW.video_storage_path IS NOT DISTINCT FROM OLD.video_storage_path
+      AND NEW.video_size_bytes = OLD.video_size_bytes THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.video_storage_path IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+  END IF;
+
+  IF NEW.video_storage_path NOT LIKE NEW.user_id::text || '/%' THEN
+    RAISE EXCEPTION 'Invalid video path';
+  END IF;
+
+  IF NEW.video_size_bytes > v_old_bytes
+    AND v_profile.storage_used_bytes + NEW.video_size_bytes - v_old_bytes > v_profile.storage_limit_bytes THEN
+    RAISE EXCEPTION 'Not enough storage remaining for this video.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_message_video_rules_trigger
+  BEFORE INSERT OR UPDATE OF video_storage_path, video_size_bytes ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_message_video_rules();
+
+-- ============================================
+-- FUNCTION: Sync Storage Used
+-- Applies the video_size_bytes delta to profiles.storage_used_bytes in the
+-- same transaction as the message write (replaces client-side accounting).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.sync_storage_used()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delta BIGINT;
+  v_user_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_delta := NEW.video_size_bytes;
+    v_user_id := NEW.user_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_delta := -OLD.video_size_bytes;
+    v_user_id := OLD.user_id;
+  ELSE
+    v_delta := NEW.video_size_bytes - OLD.video_size_bytes;
+    v_user_id := NEW.user_id;
+  END IF;
+
+  IF v_delta <> 0 THEN
+    PERFORM public.update_storage_used(v_user_id, v_delta);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_storage_used_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF video_size_bytes ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.sync_storage_used();
+
+-- ============================================
+-- FUNCTION: Create Message
+-- Single entry point for client message creation. Raises with a
+-- user-facing message on any rule violation; nothing is written.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    UPDATE public.profiles
+    SET free_message_used = true
+    WHERE id = v_user_id;
+  END IF;
+
+  -- Video tier/path/quota checks and storage accounting run in message triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds
+  )
+  VALUES (
+    v_user_id,
+    trim(p_message_text),
+    p_deliver_at,
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER) TO authenticated;
+
+-- Storage accounting is trigger-only now; any user could pass any delta
+REVOKE EXECUTE ON FUNCTION public.update_storage_used(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- PROFILES: service role only
+-- tier, free_message_used and storage_* are written by webhooks, RPCs and
+-- triggers. The old policy comment claimed tier was protected; it was not.
+-- ============================================
+DROP POLICY IF EXISTS "Users can update own profile" ON public.profiles;
+REVOKE INSERT, UPDATE, DELETE ON public.profiles FROM anon, authenticated;
+
+-- ============================================
+-- MESSAGES: inserts via create_message only; edits limited to content
+-- ============================================
+DROP POLICY IF EXISTS "Users can insert own messages" ON public.messages;
+REVOKE INSERT ON public.messages FROM anon, authenticated;
+
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+GRANT UPDATE (
+  message_text,
+  deliver_at,
+  timezone,
+  delivery_email,
+  video_storage_path,
+  video_size_bytes,
+  video_duration_seconds
+) ON public.messages TO authenticated;
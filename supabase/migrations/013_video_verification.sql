@@ -0,0 +1,173 @@
+-- Server-verified Video Metadata
+-- verify-video (Database Webhook on storage.objects INSERT) reads the real
+-- object size and container duration and records them here. Message writes
+-- use the verified values instead of what the client reports; if the message
+-- row already exists, verification corrects it (or strips a rejected video).
+
+-- ============================================
+-- VIDEO VERIFICATIONS TABLE
+-- One row per uploaded object in message-videos
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.video_verifications (
+  storage_path TEXT PRIMARY KEY,
+  size_bytes BIGINT NOT NULL,
+  duration_seconds INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('verified', 'rejected')),
+  error TEXT,
+  verified_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.video_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Users can see why their own uploads were rejected
+CREATE POLICY "Users can view own video verifications"
+  ON public.video_verifications
+  FOR SELECT
+  USING (split_part(storage_path, '/', 1) = auth.uid()::text);
+
+-- ============================================
+-- FUNCTION: Enforce Message Video Rules (replaces 012)
+-- Adds: verified size/duration override client values; rejected videos
+-- cannot be attached.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_message_video_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_verification public.video_verifications%ROWTYPE;
+  v_old_bytes BIGINT := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old_bytes := OLD.video_size_bytes;
+
+    -- Unchanged video (e.g. text edit by a downgraded user) is always allowed
+    IF NEW.video_storage_path IS NOT DISTINCT FROM OLD.video_storage_path
+      AND NEW.video_size_bytes = OLD.video_size_bytes THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.video_storage_path IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+  END IF;
+
+  IF NEW.video_storage_path NOT LIKE NEW.user_id::text || '/%' THEN
+    RAISE EXCEPTION 'Invalid video path';
+  END IF;
+
+  SELECT * INTO v_verification
+  FROM public.video_verifications
+  WHERE storage_path = NEW.video_storage_path;
+
+  IF FOUND THEN
+    IF v_verification.status = 'rejected' THEN
+      RAISE EXCEPTION 'Video was rejected: %', v_verification.error;
+    END IF;
+
+    NEW.video_size_bytes := v_verification.size_bytes;
+    NEW.video_duration_seconds := v_verification.duration_seconds;
+  END IF;
+
+  IF NEW.video_size_bytes > v_old_bytes
+    AND v_profile.storage_used_bytes + NEW.video_size_bytes - v_old_bytes > v_profile.storage_limit_bytes THEN
+    RAISE EXCEPTION 'Not enough storage remaining for this video.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Apply Video Verification
+-- Called by verify-video. Records the result and updates any message that
+-- already references the object. A verified size that no longer fits the
+-- owner's quota is treated as rejected. Returns the final status.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_video_verification(
+  p_storage_path TEXT,
+  p_size_bytes BIGINT,
+  p_duration_seconds INTEGER,
+  p_error TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT := CASE WHEN p_error IS NULL THEN 'verified' ELSE 'rejected' END;
+  v_error TEXT := p_error;
+  v_message public.messages%ROWTYPE;
+  v_has_message BOOLEAN;
+  v_profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE video_storage_path = p_storage_path
+  FOR UPDATE;
+
+  v_has_message := FOUND;
+
+  -- Client under-reported size: re-check quota with the real size
+  IF v_has_message AND v_status = 'verified' AND p_size_bytes > v_message.video_size_bytes THEN
+    SELECT * INTO v_profile
+    FROM public.profiles
+    WHERE id = v_message.user_id
+    FOR UPDATE;
+
+    IF v_profile.storage_used_bytes + p_size_bytes - v_message.video_size_bytes > v_profile.storage_limit_bytes THEN
+      v_status := 'rejected';
+      v_error := 'Video exceeds remaining storage';
+    END IF;
+  END IF;
+
+  INSERT INTO public.video_verifications (storage_path, size_bytes, duration_seconds, status, error, verified_at)
+  VALUES (p_storage_path, p_size_bytes, p_duration_seconds, v_status, v_error, NOW())
+  ON CONFLICT (storage_path) DO UPDATE SET
+    size_bytes = EXCLUDED.size_bytes,
+    duration_seconds = EXCLUDED.duration_seconds,
+    status = EXCLUDED.status,
+    error = EXCLUDED.error,
+    verified_at = EXCLUDED.verified_at;
+
+  -- storage_used_bytes follows via sync_storage_used trigger
+  IF v_has_message THEN
+    IF v_status = 'verified' THEN
+      UPDATE public.messages
+      SET
+        video_size_bytes = p_size_bytes,
+        video_duration_seconds = p_duration_seconds
+      WHERE id = v_message.id;
+    ELSE
+      UPDATE public.messages
+      SET
+        video_storage_path = NULL,
+        video_size_bytes = 0,
+        video_duration_seconds = 0
+      WHERE id = v_message.id;
+    END IF;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.apply_video_verification(TEXT, BIGINT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
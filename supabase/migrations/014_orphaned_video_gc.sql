@@ -0,0 +1,118 @@
+-- Orphaned Video Garbage Collection
+-- Videos are uploaded before the message exists, so abandoned forms, "Send
+-- Free" and failed compensations leave objects no message references.
+-- gc-videos (cron) lists them here, deletes them through the Storage API and
+-- reconciles the affected users' storage_used_bytes.
+
+-- ============================================
+-- FUNCTION: List Orphaned Videos
+-- Objects in message-videos older than p_older_than that no
+-- messages.video_storage_path references
+-- ============================================
+CREATE OR REPLACE FUNCTION public.list_orphaned_videos(
+  p_older_than TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (
+  storage_path TEXT,
+  user_id UUID,
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    -- Path is {user_id}/{file}; anything else has no owner to charge
+    CASE
+      WHEN split_part(o.name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(o.name, '/', 1)::uuid
+    END,
+    COALESCE((o.metadata->>'size')::bigint, 0),
+    o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'message-videos'
+    AND o.created_at < p_older_than
+    AND NOT EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.video_storage_path = o.name
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+$$;
+
+-- ============================================
+-- FUNCTION: Compute Storage Used
+-- Sum of video sizes a user's messages reference, using the real object
+-- size when the object exists and the recorded size otherwise
+-- ============================================
+CREATE OR REPLACE FUNCTION public.compute_storage_used(p_user_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(COALESCE((o.metadata->>'size')::bigint, m.video_size_bytes)), 0)::bigint
+  FROM public.messages m
+  LEFT JOIN storage.objects o
+    ON o.bucket_id = 'message-videos' AND o.name = m.video_storage_path
+  WHERE m.user_id = p_user_id
+    AND m.video_storage_path IS NOT NULL;
+$$;
+
+-- ============================================
+-- FUNCTION: Reconcile Storage Used
+-- Reports recorded vs computed usage, then (unless p_dry_run) corrects
+-- messages whose recorded size differs from the object, so later trigger
+-- deltas stay consistent, and sets storage_used_bytes to the computed value
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reconcile_storage_used(
+  p_user_ids UUID[],
+  p_dry_run BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  user_id UUID,
+  recorded_bytes BIGINT,
+  actual_bytes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Report first: recorded values before any correction
+  RETURN QUERY
+  SELECT p.id, p.storage_used_bytes, public.compute_storage_used(p.id)
+  FROM public.profiles p
+  WHERE p.id = ANY(p_user_ids);
+
+  IF p_dry_run THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.messages m
+  SET video_size_bytes = (o.metadata->>'size')::bigint
+  FROM storage.objects o
+  WHERE o.bucket_id = 'message-videos'
+    AND o.name = m.video_storage_path
+    AND m.user_id = ANY(p_user_ids)
+    AND o.metadata->>'size' IS NOT NULL
+    AND m.video_size_bytes <> (o.metadata->>'size')::bigint;
+
+  -- Absolute value last; overrides the deltas applied by the updates above
+  UPDATE public.profiles p
+  SET
+    storage_used_bytes = public.compute_storage_used(p.id),
+    updated_at = NOW()
+  WHERE p.id = ANY(p_user_ids);
+END;
+$$;
+
+-- Cron Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.list_orphaned_videos(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_storage_used(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_storage_used(UUID[], BOOLEAN) FROM PUBLIC, anon, authenticated;
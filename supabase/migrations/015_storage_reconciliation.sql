@@ -0,0 +1,108 @@
+-- Storage Usage Reconciliation
+-- storage_used_bytes is maintained by deltas (sync_storage_used), so a missed
+-- or double-applied delta drifts forever. reconcile-storage (cron) audits every
+-- profile against messages.video_size_bytes and the real object sizes, records
+-- discrepancies here and optionally corrects them.
+
+-- ============================================
+-- STORAGE USAGE AUDITS TABLE
+-- One row per user with a discrepancy, per run
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.storage_usage_audits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  recorded_bytes BIGINT NOT NULL,
+  message_bytes BIGINT NOT NULL,
+  object_bytes BIGINT NOT NULL,
+  missing_objects INTEGER NOT NULL DEFAULT 0,
+  corrected BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_usage_audits_run_id ON public.storage_usage_audits(run_id);
+CREATE INDEX IF NOT EXISTS idx_storage_usage_audits_user_id ON public.storage_usage_audits(user_id, created_at DESC);
+
+-- Internal report: no client policies, service role only
+ALTER TABLE public.storage_usage_audits ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- FUNCTION: Audit Storage Usage
+-- Compares, per profile:
+--   recorded_bytes  profiles.storage_used_bytes
+--   message_bytes   sum of messages.video_size_bytes
+--   object_bytes    compute_storage_used (real object size, recorded size
+--                   for messages whose object is missing)
+-- Writes a row for every mismatch or missing object. With p_auto_correct,
+-- mismatched users go through reconcile_storage_used. Returns this run's rows
+-- and prunes reports older than 90 days.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.audit_storage_usage(p_auto_correct BOOLEAN DEFAULT false)
+RETURNS SETOF public.storage_usage_audits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id UUID := gen_random_uuid();
+  v_user_ids UUID[];
+BEGIN
+  -- Same 90-day retention as delivery_logs
+  DELETE FROM public.storage_usage_audits
+  WHERE created_at < NOW() - INTERVAL '90 days';
+
+  INSERT INTO public.storage_usage_audits (
+    run_id, user_id, recorded_bytes, message_bytes, object_bytes, missing_objects
+  )
+  SELECT
+    v_run_id,
+    usage.user_id,
+    usage.recorded_bytes,
+    usage.message_bytes,
+    usage.object_bytes,
+    usage.missing_objects
+  FROM (
+    SELECT
+      p.id AS user_id,
+      p.storage_used_bytes AS recorded_bytes,
+      COALESCE(SUM(m.video_size_bytes), 0)::bigint AS message_bytes,
+      COALESCE(SUM(COALESCE((o.metadata->>'size')::bigint, m.video_size_bytes)), 0)::bigint AS object_bytes,
+      COUNT(m.id) FILTER (WHERE o.id IS NULL)::integer AS missing_objects
+    FROM public.profiles p
+    LEFT JOIN public.messages m
+      ON m.user_id = p.id AND m.video_storage_path IS NOT NULL
+    LEFT JOIN storage.objects o
+      ON o.bucket_id = 'message-videos' AND o.name = m.video_storage_path
+    GROUP BY p.id, p.storage_used_bytes
+  ) usage
+  WHERE usage.recorded_bytes <> usage.object_bytes
+    OR usage.message_bytes <> usage.object_bytes
+    OR usage.missing_objects > 0;
+
+  IF p_auto_correct THEN
+    -- Missing objects alone are reported, not corrected: the message still
+    -- references the path and usage falls back to the recorded size
+    SELECT array_agg(a.user_id) INTO v_user_ids
+    FROM public.storage_usage_audits a
+    WHERE a.run_id = v_run_id
+      AND (a.recorded_bytes <> a.object_bytes OR a.message_bytes <> a.object_bytes);
+
+    IF v_user_ids IS NOT NULL THEN
+      PERFORM * FROM public.reconcile_storage_used(v_user_ids, false);
+
+      UPDATE public.storage_usage_audits
+      SET corrected = true
+      WHERE run_id = v_run_id
+        AND user_id = ANY(v_user_ids);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.storage_usage_audits
+  WHERE run_id = v_run_id
+  ORDER BY ABS(recorded_bytes - object_bytes) DESC;
+END;
+$$;
+
+-- Cron Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.audit_storage_usage(BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,323 @@
+-- Voice-note (Audio) Attachments
+-- A message attachment is now a video or an audio voice note. The video_*
+-- columns hold either kind; messages.media_kind says which. Audio (WebM/Opus,
+-- M4A, MP3) is also open to free users within a small allowance.
+
+-- ============================================
+-- MESSAGES + VERIFICATIONS: media kind
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS media_kind TEXT CHECK (media_kind IN ('video', 'audio'));
+
+UPDATE public.messages
+SET media_kind = 'video'
+WHERE video_storage_path IS NOT NULL AND media_kind IS NULL;
+
+-- Derived from the object's content type by verify-video
+ALTER TABLE public.video_verifications
+  ADD COLUMN IF NOT EXISTS media_kind TEXT NOT NULL DEFAULT 'video' CHECK (media_kind IN ('video', 'audio'));
+
+-- ============================================
+-- STORAGE BUCKET: accept audio types
+-- ============================================
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'video/webm', 'video/mp4', 'video/quicktime',
+  'audio/webm', 'audio/mp4', 'audio/x-m4a', 'audio/mpeg'
+]
+WHERE id = 'message-videos';
+
+-- ============================================
+-- FUNCTION: Effective Storage Limit
+-- Free users get a voice-note allowance (10MB) instead of storage_limit_bytes
+-- (0). Mirrors FREE_AUDIO_LIMIT_BYTES in src/utils/video-duration.ts.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.effective_storage_limit(p_tier TEXT, p_limit_bytes BIGINT)
+RETURNS BIGINT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN p_tier = 'pro' THEN p_limit_bytes ELSE GREATEST(p_limit_bytes, 10485760) END;
+$$;
+
+-- ============================================
+-- FUNCTION: Enforce Message Video Rules (replaces 013)
+-- Adds: media_kind follows the attachment (NULL without one, verified kind
+-- wins); free users may attach audio only, within effective_storage_limit.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_message_video_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_verification public.video_verifications%ROWTYPE;
+  v_old_bytes BIGINT := 0;
+BEGIN
+  -- Kind is meaningless without an attachment; older clients omit it for video
+  IF NEW.video_storage_path IS NULL THEN
+    NEW.media_kind := NULL;
+  ELSIF NEW.media_kind IS NULL THEN
+    NEW.media_kind := 'video';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old_bytes := OLD.video_size_bytes;
+
+    -- Unchanged attachment (e.g. text edit by a downgraded user) is always allowed
+    IF NEW.video_storage_path IS NOT DISTINCT FROM OLD.video_storage_path
+      AND NEW.video_size_bytes = OLD.video_size_bytes
+      AND NEW.media_kind IS NOT DISTINCT FROM OLD.media_kind THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.video_storage_path IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  IF NEW.video_storage_path NOT LIKE NEW.user_id::text || '/%' THEN
+    RAISE EXCEPTION 'Invalid video path';
+  END IF;
+
+  SELECT * INTO v_verification
+  FROM public.video_verifications
+  WHERE storage_path = NEW.video_storage_path;
+
+  IF FOUND THEN
+    IF v_verification.status = 'rejected' THEN
+      RAISE EXCEPTION 'Attachment was rejected: %', v_verification.error;
+    END IF;
+
+    NEW.video_size_bytes := v_verification.size_bytes;
+    NEW.video_duration_seconds := v_verification.duration_seconds;
+    NEW.media_kind := v_verification.media_kind;
+  END IF;
+
+  IF v_profile.tier <> 'pro' AND NEW.media_kind <> 'audio' THEN
+    RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+  END IF;
+
+  IF NEW.video_size_bytes > v_old_bytes
+    AND v_profile.storage_used_bytes + NEW.video_size_bytes - v_old_bytes
+      > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+    RAISE EXCEPTION 'Not enough storage remaining for this attachment.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_message_video_rules_trigger ON public.messages;
+CREATE TRIGGER enforce_message_video_rules_trigger
+  BEFORE INSERT OR UPDATE OF video_storage_path, video_size_bytes, media_kind ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_message_video_rules();
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 012)
+-- Adds p_media_kind; free users may attach a voice note
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video'
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    UPDATE public.profiles
+    SET free_message_used = true
+    WHERE id = v_user_id;
+  END IF;
+
+  -- Attachment tier/path/quota checks and storage accounting run in message triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind
+  )
+  VALUES (
+    v_user_id,
+    trim(p_message_text),
+    p_deliver_at,
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Apply Video Verification (replaces 013)
+-- Adds p_media_kind: recorded with the result and copied to the message.
+-- A video on a free user's message is rejected like an over-quota upload.
+-- ============================================
+DROP FUNCTION IF EXISTS public.apply_video_verification(TEXT, BIGINT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.apply_video_verification(
+  p_storage_path TEXT,
+  p_size_bytes BIGINT,
+  p_duration_seconds INTEGER,
+  p_error TEXT,
+  p_media_kind TEXT DEFAULT 'video'
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT := CASE WHEN p_error IS NULL THEN 'verified' ELSE 'rejected' END;
+  v_error TEXT := p_error;
+  v_message public.messages%ROWTYPE;
+  v_has_message BOOLEAN;
+  v_profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE video_storage_path = p_storage_path
+  FOR UPDATE;
+
+  v_has_message := FOUND;
+
+  IF v_has_message AND v_status = 'verified' THEN
+    SELECT * INTO v_profile
+    FROM public.profiles
+    WHERE id = v_message.user_id
+    FOR UPDATE;
+
+    -- Client claimed audio for what is really a video
+    IF v_profile.tier <> 'pro' AND p_media_kind <> 'audio' THEN
+      v_status := 'rejected';
+      v_error := 'Video attachments are only available for Pro users';
+    -- Client under-reported size: re-check quota with the real size
+    ELSIF p_size_bytes > v_message.video_size_bytes
+      AND v_profile.storage_used_bytes + p_size_bytes - v_message.video_size_bytes
+        > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+      v_status := 'rejected';
+      v_error := 'Attachment exceeds remaining storage';
+    END IF;
+  END IF;
+
+  INSERT INTO public.video_verifications (storage_path, size_bytes, duration_seconds, media_kind, status, error, verified_at)
+  VALUES (p_storage_path, p_size_bytes, p_duration_seconds, p_media_kind, v_status, v_error, NOW())
+  ON CONFLICT (storage_path) DO UPDATE SET
+    size_bytes = EXCLUDED.size_bytes,
+    duration_seconds = EXCLUDED.duration_seconds,
+    media_kind = EXCLUDED.media_kind,
+    status = EXCLUDED.status,
+    error = EXCLUDED.error,
+    verified_at = EXCLUDED.verified_at;
+
+  -- storage_used_bytes follows via sync_storage_used trigger
+  IF v_has_message THEN
+    IF v_status = 'verified' THEN
+      UPDATE public.messages
+      SET
+        video_size_bytes = p_size_bytes,
+        video_duration_seconds = p_duration_seconds,
+        media_kind = p_media_kind
+      WHERE id = v_message.id;
+    ELSE
+      UPDATE public.messages
+      SET
+        video_storage_path = NULL,
+        video_size_bytes = 0,
+        video_duration_seconds = 0,
+        media_kind = NULL
+      WHERE id = v_message.id;
+    END IF;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.apply_video_verification(TEXT, BIGINT, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- MESSAGES: media_kind is client-writable with the other attachment columns
+-- ============================================
+GRANT UPDATE (media_kind) ON public.messages TO authenticated;
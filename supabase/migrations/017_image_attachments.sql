@@ -0,0 +1,561 @@
+-- Image Attachments
+-- Pro messages can carry up to 10 photos in addition to the video/voice note.
+-- Each photo is stored with a client-generated JPEG thumbnail in the private
+-- message-images bucket. Sizes are read from storage.objects (never trusted
+-- from the client) and counted against storage_used_bytes.
+
+-- ============================================
+-- STORAGE BUCKET
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-images',
+  'message-images',
+  false,  -- Private bucket - requires signed URLs
+  20971520,  -- 20MB max file size
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO UPDATE SET
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Users can upload images to their own folder
+CREATE POLICY "Users can upload images to own folder"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'message-images' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+-- Users can read their own images
+CREATE POLICY "Users can read own images"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'message-images' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+-- Users can delete their own images
+CREATE POLICY "Users can delete own images"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'message-images' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+-- ============================================
+-- MESSAGE IMAGES TABLE
+-- size_bytes covers the original plus its thumbnail
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.message_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  thumbnail_path TEXT NOT NULL UNIQUE,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  width INTEGER,
+  height INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_images_message
+  ON public.message_images(message_id, position);
+
+-- ============================================
+-- FUNCTION: Enforce Message Image Rules
+-- Owner and size come from the message and storage.objects. Client inserts
+-- also need Pro, a pending message, at most 10 photos and remaining quota.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_message_image_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_image_bytes BIGINT;
+  v_thumbnail_bytes BIGINT;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  NEW.user_id := v_message.user_id;
+
+  SELECT (metadata->>'size')::bigint INTO v_image_bytes
+  FROM storage.objects
+  WHERE bucket_id = 'message-images' AND name = NEW.storage_path;
+
+  SELECT (metadata->>'size')::bigint INTO v_thumbnail_bytes
+  FROM storage.objects
+  WHERE bucket_id = 'message-images' AND name = NEW.thumbnail_path;
+
+  IF auth.uid() IS NULL THEN
+    NEW.size_bytes := COALESCE(v_image_bytes + v_thumbnail_bytes, NEW.size_bytes);
+    RETURN NEW;
+  END IF;
+
+  IF v_message.status <> 'pending' THEN
+    RAISE EXCEPTION 'Photos can only be added to pending messages.';
+  END IF;
+
+  IF NEW.storage_path NOT LIKE NEW.user_id::text || '/%'
+    OR NEW.thumbnail_path NOT LIKE NEW.user_id::text || '/%' THEN
+    RAISE EXCEPTION 'Invalid image path';
+  END IF;
+
+  IF v_image_bytes IS NULL OR v_thumbnail_bytes IS NULL THEN
+    RAISE EXCEPTION 'Photo upload not found. Please upload it again.';
+  END IF;
+
+  NEW.size_bytes := v_image_bytes + v_thumbnail_bytes;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.message_images
+  WHERE message_id = NEW.message_id;
+
+  IF v_count >= 10 THEN
+    RAISE EXCEPTION 'A message can have at most 10 photos.';
+  END IF;
+
+  IF v_profile.storage_used_bytes + NEW.size_bytes
+    > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+    RAISE EXCEPTION 'Not enough storage remaining for these photos.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_message_image_rules_trigger
+  BEFORE INSERT ON public.message_images
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_message_image_rules();
+
+-- ============================================
+-- FUNCTION: Sync Image Storage Used
+-- Same accounting as sync_storage_used for messages
+-- ============================================
+CREATE OR REPLACE FUNCTION public.sync_image_storage_used()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.update_storage_used(NEW.user_id, NEW.size_bytes);
+  ELSE
+    PERFORM public.update_storage_used(OLD.user_id, -OLD.size_bytes);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_image_storage_used_trigger
+  AFTER INSERT OR DELETE ON public.message_images
+  FOR EACH ROW EXECUTE FUNCTION public.sync_image_storage_used();
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE public.message_images ENABLE ROW LEVEL SECURITY;
+
+-- Users can view images of their own messages
+CREATE POLICY "Users can view own message images"
+  ON public.message_images
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_images.message_id
+      AND messages.user_id = auth.uid()
+    )
+  );
+
+-- Users can add images to their own pending messages
+CREATE POLICY "Users can insert own pending message images"
+  ON public.message_images
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_images.message_id
+      AND messages.user_id = auth.uid()
+      AND messages.status = 'pending'
+    )
+  );
+
+-- Users can remove images from their own pending messages
+CREATE POLICY "Users can delete own pending message images"
+  ON public.message_images
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_images.message_id
+      AND messages.user_id = auth.uid()
+      AND messages.status = 'pending'
+    )
+  );
+
+-- Rows are written once; size and owner are set by trigger
+REVOKE UPDATE ON public.message_images FROM anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 016)
+-- Adds p_images: [{ storage_path, thumbnail_path, width, height }]
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video',
+  p_images JSONB DEFAULT '[]'::jsonb
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_images, '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    UPDATE public.profiles
+    SET free_message_used = true
+    WHERE id = v_user_id;
+  END IF;
+
+  -- Attachment tier/path/quota checks and storage accounting run in triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind
+  )
+  VALUES (
+    v_user_id,
+    trim(p_message_text),
+    p_deliver_at,
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Compute Storage Used (replaces 014)
+-- Adds message_images (original + thumbnail object sizes)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.compute_storage_used(p_user_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT COALESCE(SUM(COALESCE((o.metadata->>'size')::bigint, m.video_size_bytes)), 0)
+      FROM public.messages m
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-videos' AND o.name = m.video_storage_path
+      WHERE m.user_id = p_user_id
+        AND m.video_storage_path IS NOT NULL
+    )::bigint
+    +
+    (
+      SELECT COALESCE(SUM(COALESCE((o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint, i.size_bytes)), 0)
+      FROM public.message_images i
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-images' AND o.name = i.storage_path
+      LEFT JOIN storage.objects t
+        ON t.bucket_id = 'message-images' AND t.name = i.thumbnail_path
+      WHERE i.user_id = p_user_id
+    )::bigint;
+$$;
+
+-- ============================================
+-- FUNCTION: Reconcile Storage Used (replaces 014)
+-- Adds correction of message_images.size_bytes
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reconcile_storage_used(
+  p_user_ids UUID[],
+  p_dry_run BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  user_id UUID,
+  recorded_bytes BIGINT,
+  actual_bytes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Report first: recorded values before any correction
+  RETURN QUERY
+  SELECT p.id, p.storage_used_bytes, public.compute_storage_used(p.id)
+  FROM public.profiles p
+  WHERE p.id = ANY(p_user_ids);
+
+  IF p_dry_run THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.messages m
+  SET video_size_bytes = (o.metadata->>'size')::bigint
+  FROM storage.objects o
+  WHERE o.bucket_id = 'message-videos'
+    AND o.name = m.video_storage_path
+    AND m.user_id = ANY(p_user_ids)
+    AND o.metadata->>'size' IS NOT NULL
+    AND m.video_size_bytes <> (o.metadata->>'size')::bigint;
+
+  UPDATE public.message_images i
+  SET size_bytes = (o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint
+  FROM storage.objects o, storage.objects t
+  WHERE o.bucket_id = 'message-images'
+    AND o.name = i.storage_path
+    AND t.bucket_id = 'message-images'
+    AND t.name = i.thumbnail_path
+    AND i.user_id = ANY(p_user_ids)
+    AND i.size_bytes <> (o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint;
+
+  -- Absolute value last; overrides the deltas applied by the updates above
+  UPDATE public.profiles p
+  SET
+    storage_used_bytes = public.compute_storage_used(p.id),
+    updated_at = NOW()
+  WHERE p.id = ANY(p_user_ids);
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Audit Storage Usage (replaces 015)
+-- message_bytes / object_bytes / missing_objects now include photos
+-- ============================================
+CREATE OR REPLACE FUNCTION public.audit_storage_usage(p_auto_correct BOOLEAN DEFAULT false)
+RETURNS SETOF public.storage_usage_audits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id UUID := gen_random_uuid();
+  v_user_ids UUID[];
+BEGIN
+  -- Same 90-day retention as delivery_logs
+  DELETE FROM public.storage_usage_audits
+  WHERE created_at < NOW() - INTERVAL '90 days';
+
+  INSERT INTO public.storage_usage_audits (
+    run_id, user_id, recorded_bytes, message_bytes, object_bytes, missing_objects
+  )
+  SELECT
+    v_run_id,
+    usage.user_id,
+    usage.recorded_bytes,
+    usage.message_bytes,
+    usage.object_bytes,
+    usage.missing_objects
+  FROM (
+    SELECT
+      p.id AS user_id,
+      p.storage_used_bytes AS recorded_bytes,
+      (COALESCE(v.message_bytes, 0) + COALESCE(i.message_bytes, 0))::bigint AS message_bytes,
+      (COALESCE(v.object_bytes, 0) + COALESCE(i.object_bytes, 0))::bigint AS object_bytes,
+      (COALESCE(v.missing_objects, 0) + COALESCE(i.missing_objects, 0))::integer AS missing_objects
+    FROM public.profiles p
+    LEFT JOIN (
+      SELECT
+        m.user_id,
+        SUM(m.video_size_bytes) AS message_bytes,
+        SUM(COALESCE((o.metadata->>'size')::bigint, m.video_size_bytes)) AS object_bytes,
+        COUNT(*) FILTER (WHERE o.id IS NULL) AS missing_objects
+      FROM public.messages m
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-videos' AND o.name = m.video_storage_path
+      WHERE m.video_storage_path IS NOT NULL
+      GROUP BY m.user_id
+    ) v ON v.user_id = p.id
+    LEFT JOIN (
+      SELECT
+        img.user_id,
+        SUM(img.size_bytes) AS message_bytes,
+        SUM(COALESCE((o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint, img.size_bytes)) AS object_bytes,
+        COUNT(*) FILTER (WHERE o.id IS NULL OR t.id IS NULL) AS missing_objects
+      FROM public.message_images img
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-images' AND o.name = img.storage_path
+      LEFT JOIN storage.objects t
+        ON t.bucket_id = 'message-images' AND t.name = img.thumbnail_path
+      GROUP BY img.user_id
+    ) i ON i.user_id = p.id
+  ) usage
+  WHERE usage.recorded_bytes <> usage.object_bytes
+    OR usage.message_bytes <> usage.object_bytes
+    OR usage.missing_objects > 0;
+
+  IF p_auto_correct THEN
+    -- Missing objects alone are reported, not corrected: the row still
+    -- references the path and usage falls back to the recorded size
+    SELECT array_agg(a.user_id) INTO v_user_ids
+    FROM public.storage_usage_audits a
+    WHERE a.run_id = v_run_id
+      AND (a.recorded_bytes <> a.object_bytes OR a.message_bytes <> a.object_bytes);
+
+    IF v_user_ids IS NOT NULL THEN
+      PERFORM * FROM public.reconcile_storage_used(v_user_ids, false);
+
+      UPDATE public.storage_usage_audits
+      SET corrected = true
+      WHERE run_id = v_run_id
+        AND user_id = ANY(v_user_ids);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.storage_usage_audits
+  WHERE run_id = v_run_id
+  ORDER BY ABS(recorded_bytes - object_bytes) DESC;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: List Orphaned Images
+-- Same contract as list_orphaned_videos, for message-images
+-- ============================================
+CREATE OR REPLACE FUNCTION public.list_orphaned_images(
+  p_older_than TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (
+  storage_path TEXT,
+  user_id UUID,
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    CASE
+      WHEN split_part(o.name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(o.name, '/', 1)::uuid
+    END,
+    COALESCE((o.metadata->>'size')::bigint, 0),
+    o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'message-images'
+    AND o.created_at < p_older_than
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_images i
+      WHERE i.storage_path = o.name OR i.thumbnail_path = o.name
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+$$;
+
+-- Cron Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.list_orphaned_images(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,166 @@
+-- End-to-end Encrypted Messages
+-- Opt-in: the browser encrypts message text, attachments and photos with
+-- AES-GCM before they are stored. The key lives only in the #k= fragment of
+-- the private link (and in the sender's browser); the server stores and
+-- serves ciphertext and never sees plaintext or key.
+
+-- ============================================
+-- MESSAGES: encrypted flag
+-- Ciphertext (base64url) of 4000 characters needs up to ~21.4k characters
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS encrypted BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_text_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_text_check
+  CHECK (char_length(message_text) <= CASE WHEN encrypted THEN 22000 ELSE 4000 END);
+
+-- Set once by create_message; not part of the client UPDATE grant (012), so
+-- edits of an encrypted message must re-encrypt with the same key
+
+-- ============================================
+-- STORAGE BUCKETS: encrypted uploads are opaque
+-- ============================================
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'video/webm', 'video/mp4', 'video/quicktime',
+  'audio/webm', 'audio/mp4', 'audio/x-m4a', 'audio/mpeg',
+  'application/octet-stream'
+]
+WHERE id = 'message-videos';
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+  'application/octet-stream'
+]
+WHERE id = 'message-images';
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 017)
+-- Adds p_encrypted. Encrypted text is only checked for presence; encrypted
+-- attachments need Pro because their kind and duration cannot be verified.
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video',
+  p_images JSONB DEFAULT '[]'::jsonb,
+  p_encrypted BOOLEAN DEFAULT false
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_images, '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF p_encrypted AND p_video_storage_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    UPDATE public.profiles
+    SET free_message_used = true
+    WHERE id = v_user_id;
+  END IF;
+
+  -- Attachment tier/path/quota checks and storage accounting run in triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted
+  )
+  VALUES (
+    v_user_id,
+    CASE WHEN p_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    p_deliver_at,
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind,
+    COALESCE(p_encrypted, false)
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN) TO authenticated;
@@ -0,0 +1,323 @@
+-- Passphrase-protected Capsules
+-- A message can require a passphrase once it unlocks (a riddle for a child,
+-- a secret shared with a partner). Only a salted bcrypt hash (pgcrypto) is
+-- stored, next to an optional hint. view-message and the owner's unlocked view
+-- check guesses through verify_message_passphrase, which allows five wrong
+-- guesses per message per 15 minutes.
+-- Passphrases are compared case-insensitively, ignoring surrounding spaces.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================
+-- MESSAGES: passphrase columns
+-- Written by create_message / set_message_passphrase only; not part of the
+-- client UPDATE grant (012). The owner can read the hash of their own
+-- message like the rest of the row.
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS passphrase_hash TEXT,
+  ADD COLUMN IF NOT EXISTS passphrase_hint TEXT CHECK (char_length(passphrase_hint) <= 200);
+
+-- ============================================
+-- PASSPHRASE ATTEMPTS TABLE
+-- One row per checked guess; failures inside the window count toward the limit
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.passphrase_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  succeeded BOOLEAN NOT NULL,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_passphrase_attempts_message
+  ON public.passphrase_attempts(message_id, attempted_at DESC);
+
+-- No policies: written and read by verify_message_passphrase only
+ALTER TABLE public.passphrase_attempts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- FUNCTION: Hash Message Passphrase
+-- Normalizes (trim, lower case) and hashes with a per-call bcrypt salt
+-- ============================================
+CREATE OR REPLACE FUNCTION public.hash_message_passphrase(p_passphrase TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_passphrase TEXT := lower(trim(COALESCE(p_passphrase, '')));
+BEGIN
+  IF char_length(v_passphrase) = 0 THEN
+    RAISE EXCEPTION 'Passphrase cannot be empty';
+  END IF;
+
+  IF char_length(v_passphrase) > 200 THEN
+    RAISE EXCEPTION 'Passphrase must be at most 200 characters';
+  END IF;
+
+  RETURN extensions.crypt(v_passphrase, extensions.gen_salt('bf'));
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 018)
+-- Adds p_passphrase / p_passphrase_hint; the hint is dropped without a passphrase
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video',
+  p_images JSONB DEFAULT '[]'::jsonb,
+  p_encrypted BOOLEAN DEFAULT false,
+  p_passphrase TEXT DEFAULT NULL,
+  p_passphrase_hint TEXT DEFAULT NULL
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+  v_passphrase_hash TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_passphrase, '')), '') IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_passphrase);
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_images, '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF p_encrypted AND p_video_storage_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    UPDATE public.profiles
+    SET free_message_used = true
+    WHERE id = v_user_id;
+  END IF;
+
+  -- Attachment tier/path/quota checks and storage accounting run in triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted,
+    passphrase_hash,
+    passphrase_hint
+  )
+  VALUES (
+    v_user_id,
+    CASE WHEN p_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    p_deliver_at,
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind,
+    COALESCE(p_encrypted, false),
+    v_passphrase_hash,
+    CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_passphrase_hint), '') END
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Set Message Passphrase
+-- Owner edits of a pending message. p_passphrase NULL keeps the current
+-- passphrase (hint-only change); p_remove clears passphrase and hint.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.set_message_passphrase(
+  p_message_id UUID,
+  p_passphrase TEXT DEFAULT NULL,
+  p_passphrase_hint TEXT DEFAULT NULL,
+  p_remove BOOLEAN DEFAULT false
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_message public.messages%ROWTYPE;
+  v_passphrase_hash TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id
+    AND user_id = v_user_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found or can no longer be edited';
+  END IF;
+
+  IF p_remove THEN
+    v_passphrase_hash := NULL;
+  ELSIF p_passphrase IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_passphrase);
+  ELSE
+    v_passphrase_hash := v_message.passphrase_hash;
+  END IF;
+
+  UPDATE public.messages
+  SET
+    passphrase_hash = v_passphrase_hash,
+    passphrase_hint = CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_passphrase_hint), '') END
+  WHERE id = p_message_id;
+
+  -- A new passphrase starts with a clean attempt history
+  IF v_passphrase_hash IS DISTINCT FROM v_message.passphrase_hash THEN
+    DELETE FROM public.passphrase_attempts WHERE message_id = p_message_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_message_passphrase(UUID, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_message_passphrase(UUID, TEXT, TEXT, BOOLEAN) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Verify Message Passphrase
+-- Returns 'ok', 'incorrect' or 'rate_limited' (5 failures in 15 minutes).
+-- Messages without a passphrase are always 'ok'. Clients may only check
+-- their own messages; view-message calls it with the service role.
+-- The message row is locked so parallel guesses cannot overshoot the limit.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.verify_message_passphrase(
+  p_message_id UUID,
+  p_passphrase TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_failures INTEGER;
+  v_succeeded BOOLEAN;
+BEGIN
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (auth.uid() IS NOT NULL AND v_message.user_id <> auth.uid()) THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.passphrase_hash IS NULL THEN
+    RETURN 'ok';
+  END IF;
+
+  DELETE FROM public.passphrase_attempts
+  WHERE message_id = p_message_id
+    AND attempted_at < NOW() - INTERVAL '1 day';
+
+  SELECT count(*) INTO v_failures
+  FROM public.passphrase_attempts
+  WHERE message_id = p_message_id
+    AND NOT succeeded
+    AND attempted_at > NOW() - INTERVAL '15 minutes';
+
+  IF v_failures >= 5 THEN
+    RETURN 'rate_limited';
+  END IF;
+
+  v_succeeded := v_message.passphrase_hash =
+    extensions.crypt(lower(trim(COALESCE(p_passphrase, ''))), v_message.passphrase_hash);
+
+  INSERT INTO public.passphrase_attempts (message_id, succeeded)
+  VALUES (p_message_id, v_succeeded);
+
+  RETURN CASE WHEN v_succeeded THEN 'ok' ELSE 'incorrect' END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_message_passphrase(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_message_passphrase(UUID, TEXT) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.hash_message_passphrase(TEXT) FROM PUBLIC, anon, authenticated;
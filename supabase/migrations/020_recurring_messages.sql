@@ -0,0 +1,300 @@
+-- Recurring Messages
+-- A message can repeat every N months (yearly birthdays are N = 12), either
+-- until it is deleted or for a fixed number of deliveries (each anniversary
+-- for K years). The series is a single messages row: deliver_at is always
+-- the current occurrence, and process-delivery calls
+-- complete_message_occurrence after each send, which records the
+-- occurrence and moves the row on to the next one. Every occurrence keeps
+-- its own message_occurrences record and delivery_logs trail.
+-- Occurrences are counted in the sender's time zone from the first delivery,
+-- so a series started on the 31st lands on the last day of shorter months
+-- without drifting.
+
+-- ============================================
+-- MESSAGES: recurrence rule and current occurrence
+-- recurrence_months / recurrence_count are client-editable like the rest of
+-- a pending message; occurrence is advanced by the scheduler only.
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS recurrence_months INTEGER CHECK (recurrence_months BETWEEN 1 AND 120),
+  ADD COLUMN IF NOT EXISTS recurrence_count INTEGER CHECK (recurrence_count BETWEEN 2 AND 100),
+  ADD COLUMN IF NOT EXISTS occurrence INTEGER NOT NULL DEFAULT 1 CHECK (occurrence >= 1);
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_recurrence_count_check
+  CHECK (recurrence_count IS NULL OR (recurrence_months IS NOT NULL AND recurrence_count >= occurrence));
+
+GRANT UPDATE (recurrence_months, recurrence_count) ON public.messages TO authenticated;
+
+-- ============================================
+-- DELIVERY LOGS: occurrence each attempt belongs to
+-- Idempotency and attempt numbers are per recipient per occurrence
+-- ============================================
+ALTER TABLE public.delivery_logs
+  ADD COLUMN IF NOT EXISTS occurrence INTEGER NOT NULL DEFAULT 1;
+
+DROP INDEX IF EXISTS public.idx_delivery_logs_recipient;
+CREATE INDEX IF NOT EXISTS idx_delivery_logs_recipient
+  ON public.delivery_logs(recipient_id, occurrence);
+
+-- ============================================
+-- MESSAGE OCCURRENCES TABLE
+-- One row per finished occurrence of a recurring message. The occurrence in
+-- progress lives on the messages row until it finishes.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.message_occurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  occurrence INTEGER NOT NULL CHECK (occurrence >= 1),
+  deliver_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('delivered', 'failed')),
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (message_id, occurrence)
+);
+
+ALTER TABLE public.message_occurrences ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the delivery history of their own messages
+CREATE POLICY "Users can view own message occurrences"
+  ON public.message_occurrences
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_occurrences.message_id
+      AND messages.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 019)
+-- Adds p_recurrence_months / p_recurrence_count; the count is dropped for
+-- one-off messages
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video',
+  p_images JSONB DEFAULT '[]'::jsonb,
+  p_encrypted BOOLEAN DEFAULT false,
+  p_passphrase TEXT DEFAULT NULL,
+  p_passphrase_hint TEXT DEFAULT NULL,
+  p_recurrence_months INTEGER DEFAULT NULL,
+  p_recurrence_count INTEGER DEFAULT NULL
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+  v_passphrase_hash TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_months NOT BETWEEN 1 AND 120 THEN
+    RAISE EXCEPTION 'A message can repeat every 1 to 120 months';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_count IS NOT NULL AND p_recurrence_count NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'A repeating message can be delivered 2 to 100 times';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_passphrase, '')), '') IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_passphrase);
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_images, '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF p_encrypted AND p_video_storage_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    UPDATE public.profiles
+    SET free_message_used = true
+    WHERE id = v_user_id;
+  END IF;
+
+  -- Attachment tier/path/quota checks and storage accounting run in triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted,
+    passphrase_hash,
+    passphrase_hint,
+    recurrence_months,
+    recurrence_count
+  )
+  VALUES (
+    v_user_id,
+    CASE WHEN p_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    p_deliver_at,
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind,
+    COALESCE(p_encrypted, false),
+    v_passphrase_hash,
+    CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_passphrase_hint), '') END,
+    p_recurrence_months,
+    CASE WHEN p_recurrence_months IS NULL THEN NULL ELSE p_recurrence_count END
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Complete Message Occurrence
+-- Called by process-delivery once a message's status is final. Records the
+-- occurrence of a recurring message and, if it was sent and the series is
+-- not finished, reschedules the row: next deliver_at, occurrence + 1,
+-- status and every recipient back to pending. A failed occurrence ends the
+-- series. Returns the next deliver_at, or NULL when nothing follows.
+-- Safe to call twice: the occurrence is recorded once and a row that is
+-- already pending again is left alone.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.complete_message_occurrence(p_message_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_first_deliver_at TIMESTAMPTZ;
+  v_next_deliver_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  -- One-off messages (never repeated) and occurrences still in progress
+  IF NOT FOUND
+    OR v_message.status = 'pending'
+    OR (v_message.recurrence_months IS NULL AND v_message.occurrence = 1) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.message_occurrences (message_id, occurrence, deliver_at, status, delivered_at)
+  VALUES (
+    p_message_id,
+    v_message.occurrence,
+    v_message.deliver_at,
+    CASE WHEN v_message.status = 'failed' THEN 'failed' ELSE 'delivered' END,
+    CASE WHEN v_message.status = 'failed' THEN NULL ELSE v_message.delivered_at END
+  )
+  ON CONFLICT (message_id, occurrence) DO NOTHING;
+
+  IF v_message.status = 'failed'
+    OR v_message.recurrence_months IS NULL
+    OR v_message.occurrence >= COALESCE(v_message.recurrence_count, 2147483647) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT deliver_at INTO v_first_deliver_at
+  FROM public.message_occurrences
+  WHERE message_id = p_message_id
+    AND occurrence = 1;
+
+  -- Wall-clock time in the sender's zone, so DST changes do not shift the hour
+  v_next_deliver_at := (
+    (COALESCE(v_first_deliver_at, v_message.deliver_at) AT TIME ZONE v_message.timezone)
+    + make_interval(months => v_message.recurrence_months * v_message.occurrence)
+  ) AT TIME ZONE v_message.timezone;
+
+  UPDATE public.messages
+  SET
+    status = 'pending',
+    deliver_at = v_next_deliver_at,
+    occurrence = occurrence + 1,
+    next_attempt_at = NULL
+  WHERE id = p_message_id;
+
+  UPDATE public.message_recipients
+  SET status = 'pending', delivered_at = NULL
+  WHERE message_id = p_message_id;
+
+  RETURN v_next_deliver_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_message_occurrence(UUID) FROM PUBLIC, anon, authenticated;
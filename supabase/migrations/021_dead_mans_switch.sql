@@ -0,0 +1,307 @@
+-- Dead Man's Switch
+-- A message can be delivered when its sender stops checking in instead of on
+-- a date. The sender checks in every checkin_interval_days (from the emailed
+-- reminder link or the dashboard); if a check-in is missed by more than
+-- checkin_grace_days, evaluate-checkins fires the switch and process-delivery
+-- sends the message like any other due message.
+-- deliver_at of an armed switch is kept at its deadline
+-- (last_checkin_at + interval + grace) by trigger, so the countdown and
+-- sorting work unchanged. process-delivery only picks a check-in message up
+-- once switch_triggered_at is set.
+
+-- ============================================
+-- MESSAGES: delivery mode and check-in state
+-- The interval and grace period are client-editable like the rest of a
+-- pending message; last_checkin_at, reminders and the trigger time are
+-- written by check_in and evaluate-checkins only.
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS delivery_mode TEXT NOT NULL DEFAULT 'date' CHECK (delivery_mode IN ('date', 'checkin')),
+  ADD COLUMN IF NOT EXISTS checkin_interval_days INTEGER CHECK (checkin_interval_days BETWEEN 1 AND 365),
+  ADD COLUMN IF NOT EXISTS checkin_grace_days INTEGER CHECK (checkin_grace_days BETWEEN 1 AND 90),
+  ADD COLUMN IF NOT EXISTS checkin_token UUID NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN IF NOT EXISTS last_checkin_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS checkin_due_at TIMESTAMPTZ,
+  -- 0 = none since the last check-in, 1 = check-in due, 2 = final warning
+  ADD COLUMN IF NOT EXISTS checkin_reminders_sent SMALLINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS switch_triggered_at TIMESTAMPTZ;
+
+-- A switch is one delivery; it cannot also repeat
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_checkin_check
+  CHECK (
+    delivery_mode = 'date'
+    OR (
+      checkin_interval_days IS NOT NULL
+      AND checkin_grace_days IS NOT NULL
+      AND last_checkin_at IS NOT NULL
+      AND recurrence_months IS NULL
+    )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_checkin_token
+  ON public.messages(checkin_token);
+
+-- evaluate-checkins scans armed switches only
+CREATE INDEX IF NOT EXISTS idx_messages_armed_checkins
+  ON public.messages(checkin_due_at)
+  WHERE delivery_mode = 'checkin' AND status = 'pending' AND switch_triggered_at IS NULL;
+
+GRANT UPDATE (checkin_interval_days, checkin_grace_days) ON public.messages TO authenticated;
+
+-- ============================================
+-- FUNCTION: Sync Check-in Deadline
+-- While a switch is armed, checkin_due_at and deliver_at follow
+-- last_checkin_at and the interval/grace period; a client-written deliver_at
+-- is overwritten. Once fired, deliver_at stays at the deadline that passed.
+-- scheduled_date is derived here as well because sync_scheduled_date only
+-- runs when deliver_at is in the UPDATE column list.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.sync_checkin_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.delivery_mode <> 'checkin' OR NEW.switch_triggered_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.checkin_due_at := NEW.last_checkin_at + make_interval(days => NEW.checkin_interval_days);
+  NEW.deliver_at := NEW.checkin_due_at + make_interval(days => NEW.checkin_grace_days);
+  NEW.scheduled_date := (NEW.deliver_at AT TIME ZONE NEW.timezone)::date;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_checkin_deadline_trigger
+  BEFORE INSERT OR UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.sync_checkin_deadline();
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 020)
+-- Adds p_checkin_interval_days / p_checkin_grace_days. With both set the
+-- message is a dead man's switch: p_deliver_at is ignored (the deadline is
+-- derived from the first check-in, now) and it cannot repeat.
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video',
+  p_images JSONB DEFAULT '[]'::jsonb,
+  p_encrypted BOOLEAN DEFAULT false,
+  p_passphrase TEXT DEFAULT NULL,
+  p_passphrase_hint TEXT DEFAULT NULL,
+  p_recurrence_months INTEGER DEFAULT NULL,
+  p_recurrence_count INTEGER DEFAULT NULL,
+  p_checkin_interval_days INTEGER DEFAULT NULL,
+  p_checkin_grace_days INTEGER DEFAULT NULL
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+  v_passphrase_hash TEXT;
+  v_is_checkin BOOLEAN := p_checkin_interval_days IS NOT NULL OR p_checkin_grace_days IS NOT NULL;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF v_is_checkin THEN
+    IF p_checkin_interval_days IS NULL OR p_checkin_interval_days NOT BETWEEN 1 AND 365 THEN
+      RAISE EXCEPTION 'Check in every 1 to 365 days';
+    END IF;
+
+    IF p_checkin_grace_days IS NULL OR p_checkin_grace_days NOT BETWEEN 1 AND 90 THEN
+      RAISE EXCEPTION 'The grace period must be 1 to 90 days';
+    END IF;
+
+    IF p_recurrence_months IS NOT NULL THEN
+      RAISE EXCEPTION 'A check-in message cannot repeat';
+    END IF;
+  ELSIF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_months NOT BETWEEN 1 AND 120 THEN
+    RAISE EXCEPTION 'A message can repeat every 1 to 120 months';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_count IS NOT NULL AND p_recurrence_count NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'A repeating message can be delivered 2 to 100 times';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_passphrase, '')), '') IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_passphrase);
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_images, '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF p_encrypted AND p_video_storage_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    UPDATE public.profiles
+    SET free_message_used = true
+    WHERE id = v_user_id;
+  END IF;
+
+  -- Attachment tier/path/quota checks, storage accounting and the check-in
+  -- deadline (deliver_at) are handled by triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted,
+    passphrase_hash,
+    passphrase_hint,
+    recurrence_months,
+    recurrence_count,
+    delivery_mode,
+    checkin_interval_days,
+    checkin_grace_days,
+    last_checkin_at
+  )
+  VALUES (
+    v_user_id,
+    CASE WHEN p_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    COALESCE(p_deliver_at, NOW()),
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind,
+    COALESCE(p_encrypted, false),
+    v_passphrase_hash,
+    CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_passphrase_hint), '') END,
+    p_recurrence_months,
+    CASE WHEN p_recurrence_months IS NULL THEN NULL ELSE p_recurrence_count END,
+    CASE WHEN v_is_checkin THEN 'checkin' ELSE 'date' END,
+    p_checkin_interval_days,
+    p_checkin_grace_days,
+    CASE WHEN v_is_checkin THEN NOW() ELSE NULL END
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Check In
+-- Confirms the sender is alive: every armed switch of theirs restarts its
+-- interval from now and its reminders reset. Logged-in users check in as
+-- themselves (p_token is ignored); the check-in Edge Function passes the
+-- checkin_token from a reminder email with the service role. Switches that
+-- already fired are not affected. Returns the number of switches reset.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.check_in(p_token UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    IF p_token IS NULL THEN
+      RAISE EXCEPTION 'You must be logged in';
+    END IF;
+
+    SELECT user_id INTO v_user_id
+    FROM public.messages
+    WHERE checkin_token = p_token
+      AND delivery_mode = 'checkin';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Check-in link not found';
+    END IF;
+  END IF;
+
+  UPDATE public.messages
+  SET
+    last_checkin_at = NOW(),
+    checkin_reminders_sent = 0
+  WHERE user_id = v_user_id
+    AND delivery_mode = 'checkin'
+    AND status = 'pending'
+    AND switch_triggered_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in(UUID) TO authenticated;
@@ -0,0 +1,541 @@
+-- Gift Capsules
+-- A user can pay for a capsule addressed to someone else. Each gift_capsule
+-- purchase adds one gift credit to the buyer's profile; create_message with
+-- p_gift spends it (instead of the free message) and gives the message a
+-- gift_token. The claim link (APP_URL/gift/<gift_token>) is in the delivery
+-- email; the signed-in user who claims it becomes gift_recipient_id and sees
+-- the capsule in their own dashboard once it has unlocked. The sender keeps
+-- authorship (user_id, storage, editing while pending).
+
+-- ============================================
+-- PAYMENTS: gift_capsule product
+-- ============================================
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_product_type_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_product_type_check
+  CHECK (product_type IN ('pro_upgrade', 'storage_addon', 'gift_capsule'));
+
+-- ============================================
+-- PROFILES: unused gift credits
+-- Written by apply_gift_purchase, revoke/restore_payment and create_message only
+-- ============================================
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS gift_credits INTEGER NOT NULL DEFAULT 0 CHECK (gift_credits >= 0);
+
+-- ============================================
+-- MESSAGES: gift claim state
+-- Not client-writable; set by create_message and claim_gift
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS gift_token UUID,
+  ADD COLUMN IF NOT EXISTS gift_recipient_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS gift_claimed_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_gift_token
+  ON public.messages(gift_token)
+  WHERE gift_token IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_gift_recipient
+  ON public.messages(gift_recipient_id)
+  WHERE gift_recipient_id IS NOT NULL;
+
+-- ============================================
+-- FUNCTION: Apply Gift Purchase
+-- Adds one gift credit exactly once per checkout session (same pattern as
+-- apply_storage_addon: credit and payment completion in one transaction).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_gift_purchase(
+  p_checkout_session_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_checkout_session_id = p_checkout_session_id
+    AND product_type = 'gift_capsule'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift capsule payment not found for session %', p_checkout_session_id;
+  END IF;
+
+  -- Already applied: idempotent no-op
+  IF v_payment.status = 'completed' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    gift_credits = gift_credits + 1,
+    updated_at = NOW()
+  WHERE id = v_payment.user_id;
+
+  UPDATE public.payments
+  SET status = 'completed', error_message = NULL
+  WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+-- Webhook-only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.apply_gift_purchase(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Revoke Payment (replaces 011)
+-- A refunded or disputed gift removes an unused gift credit. A gift that was
+-- already sent is kept, like messages of a revoked Pro upgrade.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.revoke_payment(
+  p_payment_intent_id TEXT,
+  p_status TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('refunded', 'disputed') THEN
+    RAISE EXCEPTION 'Invalid revoke status %', p_status;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found for payment intent %', p_payment_intent_id;
+  END IF;
+
+  -- Entitlement only exists for completed payments; anything else is a status change
+  IF v_payment.status <> 'completed' THEN
+    -- Lost dispute (or refund during dispute) finalizes as refunded; never downgrade refunded
+    IF v_payment.status <> 'refunded' THEN
+      UPDATE public.payments SET status = p_status WHERE id = v_payment.id;
+    END IF;
+    RETURN false;
+  END IF;
+
+  IF v_payment.product_type = 'pro_upgrade' THEN
+    UPDATE public.profiles
+    SET
+      tier = 'free',
+      storage_limit_bytes = 0,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSIF v_payment.product_type = 'gift_capsule' THEN
+    UPDATE public.profiles
+    SET
+      gift_credits = GREATEST(0, gift_credits - 1),
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSE
+    UPDATE public.profiles
+    SET
+      storage_limit_bytes = GREATEST(0, storage_limit_bytes - v_payment.storage_bytes_added),
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  END IF;
+
+  UPDATE public.payments SET status = p_status WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Restore Payment (replaces 011)
+-- A won dispute on a gift gives the credit back.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.restore_payment(
+  p_payment_intent_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_addon_bytes BIGINT;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found for payment intent %', p_payment_intent_id;
+  END IF;
+
+  IF v_payment.status <> 'disputed' THEN
+    RETURN false;
+  END IF;
+
+  IF v_payment.product_type = 'pro_upgrade' THEN
+    SELECT COALESCE(SUM(storage_bytes_added), 0) INTO v_addon_bytes
+    FROM public.payments
+    WHERE user_id = v_payment.user_id
+      AND product_type = 'storage_addon'
+      AND status = 'completed';
+
+    UPDATE public.profiles
+    SET
+      tier = 'pro',
+      storage_limit_bytes = 2147483648 + v_addon_bytes,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSIF v_payment.product_type = 'gift_capsule' THEN
+    UPDATE public.profiles
+    SET
+      gift_credits = gift_credits + 1,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSE
+    -- Storage packs only count toward a Pro quota
+    UPDATE public.profiles
+    SET
+      storage_limit_bytes = storage_limit_bytes + v_payment.storage_bytes_added,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id
+      AND tier = 'pro';
+  END IF;
+
+  UPDATE public.payments SET status = 'completed' WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_payment(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_payment(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 021)
+-- Adds p_gift: spends one gift credit (required, any tier) instead of the
+-- free message and generates the gift_token. Attachment rules still follow
+-- the sender's tier.
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video',
+  p_images JSONB DEFAULT '[]'::jsonb,
+  p_encrypted BOOLEAN DEFAULT false,
+  p_passphrase TEXT DEFAULT NULL,
+  p_passphrase_hint TEXT DEFAULT NULL,
+  p_recurrence_months INTEGER DEFAULT NULL,
+  p_recurrence_count INTEGER DEFAULT NULL,
+  p_checkin_interval_days INTEGER DEFAULT NULL,
+  p_checkin_grace_days INTEGER DEFAULT NULL,
+  p_gift BOOLEAN DEFAULT false
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+  v_passphrase_hash TEXT;
+  v_is_checkin BOOLEAN := p_checkin_interval_days IS NOT NULL OR p_checkin_grace_days IS NOT NULL;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF v_is_checkin THEN
+    IF p_checkin_interval_days IS NULL OR p_checkin_interval_days NOT BETWEEN 1 AND 365 THEN
+      RAISE EXCEPTION 'Check in every 1 to 365 days';
+    END IF;
+
+    IF p_checkin_grace_days IS NULL OR p_checkin_grace_days NOT BETWEEN 1 AND 90 THEN
+      RAISE EXCEPTION 'The grace period must be 1 to 90 days';
+    END IF;
+
+    IF p_recurrence_months IS NOT NULL THEN
+      RAISE EXCEPTION 'A check-in message cannot repeat';
+    END IF;
+  ELSIF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_months NOT BETWEEN 1 AND 120 THEN
+    RAISE EXCEPTION 'A message can repeat every 1 to 120 months';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_count IS NOT NULL AND p_recurrence_count NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'A repeating message can be delivered 2 to 100 times';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_passphrase, '')), '') IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_passphrase);
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  -- A gift is paid for with a gift credit instead of the free message
+  IF p_gift THEN
+    IF v_profile.gift_credits < 1 THEN
+      RAISE EXCEPTION 'You have no gift capsules left. Buy one to send this message as a gift.';
+    END IF;
+
+    UPDATE public.profiles
+    SET gift_credits = gift_credits - 1
+    WHERE id = v_user_id;
+  END IF;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF NOT p_gift AND v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_images, '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF p_encrypted AND p_video_storage_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    IF NOT p_gift THEN
+      UPDATE public.profiles
+      SET free_message_used = true
+      WHERE id = v_user_id;
+    END IF;
+  END IF;
+
+  -- Attachment tier/path/quota checks, storage accounting and the check-in
+  -- deadline (deliver_at) are handled by triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted,
+    passphrase_hash,
+    passphrase_hint,
+    recurrence_months,
+    recurrence_count,
+    delivery_mode,
+    checkin_interval_days,
+    checkin_grace_days,
+    last_checkin_at,
+    gift_token
+  )
+  VALUES (
+    v_user_id,
+    CASE WHEN p_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    COALESCE(p_deliver_at, NOW()),
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind,
+    COALESCE(p_encrypted, false),
+    v_passphrase_hash,
+    CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_passphrase_hint), '') END,
+    p_recurrence_months,
+    CASE WHEN p_recurrence_months IS NULL THEN NULL ELSE p_recurrence_count END,
+    CASE WHEN v_is_checkin THEN 'checkin' ELSE 'date' END,
+    p_checkin_interval_days,
+    p_checkin_grace_days,
+    CASE WHEN v_is_checkin THEN NOW() ELSE NULL END,
+    CASE WHEN p_gift THEN gen_random_uuid() ELSE NULL END
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, BOOLEAN) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Refund Unsent Gift
+-- Deleting a gift before its first delivery gives the credit back
+-- ============================================
+CREATE OR REPLACE FUNCTION public.refund_unsent_gift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET gift_credits = gift_credits + 1
+  WHERE id = OLD.user_id;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER refund_unsent_gift_trigger
+  AFTER DELETE ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.gift_token IS NOT NULL AND OLD.status = 'pending' AND OLD.occurrence = 1)
+  EXECUTE FUNCTION public.refund_unsent_gift();
+
+-- ============================================
+-- FUNCTION: Is Message Unlocked
+-- Same rule as view-message: sent, a series past its first delivery, a
+-- fired switch, or (date mode) deliver_at has passed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.is_message_unlocked(p_message public.messages)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_message.status IN ('delivered', 'opened', 'bounced')
+    OR CASE
+      WHEN p_message.delivery_mode = 'checkin' THEN p_message.switch_triggered_at IS NOT NULL
+      ELSE p_message.deliver_at <= NOW() OR p_message.occurrence > 1
+    END;
+$$;
+
+-- ============================================
+-- FUNCTION: Claim Gift
+-- Makes the caller the owner-side recipient of the gift behind p_token.
+-- The first claim wins; claiming again as the same user is a no-op. The
+-- sender cannot claim their own gift. Returns the message id.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.claim_gift(p_token UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_message public.messages%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to claim a gift';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE gift_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift not found';
+  END IF;
+
+  IF v_message.user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot claim a gift you sent';
+  END IF;
+
+  IF v_message.gift_recipient_id IS NOT NULL THEN
+    IF v_message.gift_recipient_id <> v_user_id THEN
+      RAISE EXCEPTION 'This gift has already been claimed';
+    END IF;
+    RETURN v_message.id;
+  END IF;
+
+  UPDATE public.messages
+  SET
+    gift_recipient_id = v_user_id,
+    gift_claimed_at = NOW()
+  WHERE id = v_message.id;
+
+  RETURN v_message.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_gift(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_gift(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: List Received Gifts
+-- Gifts claimed by the caller that have unlocked. Only what the dashboard
+-- card needs plus delivery_token, which opens the recipient view; content
+-- stays behind view-message (passphrase, encryption).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.list_received_gifts()
+RETURNS TABLE (
+  id UUID,
+  sender_email TEXT,
+  deliver_at TIMESTAMPTZ,
+  timezone TEXT,
+  delivery_token UUID,
+  claimed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, p.email, m.deliver_at, m.timezone, m.delivery_token, m.gift_claimed_at
+  FROM public.messages m
+  JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.gift_recipient_id = auth.uid()
+    AND public.is_message_unlocked(m)
+  ORDER BY m.deliver_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_received_gifts() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_received_gifts() TO authenticated;
@@ -0,0 +1,1091 @@
+-- Shared Capsules
+-- A message can be opened to other people before it locks (class capsules,
+-- wedding guestbooks). The owner (messages.user_id) invites people by email;
+-- an invitation link (APP_URL/join/<token>) makes the signed-in user with
+-- that email a capsule member. Members add their own entries (a note plus an
+-- optional video or voice note) until the lock date (deliver_at). Each entry
+-- is charged to its author's storage, not the owner's. At delivery, the
+-- message and every entry go out as one email and one unlocked view.
+--
+-- Roles: the owner can do everything; organizers can invite contributors and
+-- remove entries; contributors can only manage their own entries. Shared
+-- capsules cannot be end-to-end encrypted (entries are stored in the clear)
+-- or use check-in delivery (there is no lock date to contribute toward).
+
+-- ============================================
+-- CAPSULE MEMBERS TABLE
+-- The owner is implicit and has no row. Written by the RPCs below only.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.capsule_members (
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'contributor' CHECK (role IN ('organizer', 'contributor')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_capsule_members_user
+  ON public.capsule_members(user_id);
+
+-- ============================================
+-- CAPSULE INVITATIONS TABLE
+-- One pending invitation per capsule and email; inviting again changes the
+-- role and keeps the link. Accepting requires signing in with that email.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.capsule_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'contributor' CHECK (role IN ('organizer', 'contributor')),
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  accepted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_capsule_invitations_pending
+  ON public.capsule_invitations(message_id, email)
+  WHERE status = 'pending';
+
+-- ============================================
+-- CAPSULE ENTRIES TABLE
+-- Attachment columns mirror messages (video_* names cover voice notes too)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.capsule_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  author_name TEXT NOT NULL CHECK (char_length(btrim(author_name)) BETWEEN 1 AND 80),
+  entry_text TEXT NOT NULL DEFAULT '' CHECK (char_length(entry_text) <= 4000),
+  video_storage_path TEXT UNIQUE,
+  video_size_bytes BIGINT NOT NULL DEFAULT 0,
+  video_duration_seconds INTEGER NOT NULL DEFAULT 0,
+  media_kind TEXT CHECK (media_kind IN ('video', 'audio')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (btrim(entry_text) <> '' OR video_storage_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_capsule_entries_message
+  ON public.capsule_entries(message_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_capsule_entries_user
+  ON public.capsule_entries(user_id);
+
+-- ============================================
+-- FUNCTION: Capsule Role
+-- The caller's role in a capsule: 'owner', 'organizer', 'contributor' or
+-- NULL. SECURITY DEFINER so policies can use it without recursing.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.capsule_role(p_message_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.id = p_message_id AND m.user_id = auth.uid()
+    ) THEN 'owner'
+    ELSE (
+      SELECT cm.role FROM public.capsule_members cm
+      WHERE cm.message_id = p_message_id AND cm.user_id = auth.uid()
+    )
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.capsule_role(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.capsule_role(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Is Capsule Open
+-- Entries can change while the message is pending and not yet unlocked
+-- (is_message_unlocked, 022): for date-mode messages, until deliver_at.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.is_capsule_open(p_message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = p_message_id
+      AND m.status = 'pending'
+      AND NOT public.is_message_unlocked(m)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_capsule_open(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_capsule_open(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Can View Capsule Entries
+-- Owner and organizers see every entry at any time; contributors see the
+-- others' entries once the capsule has unlocked (their own via RLS).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.can_view_capsule_entries(p_message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE public.capsule_role(p_message_id)
+    WHEN 'owner' THEN true
+    WHEN 'organizer' THEN true
+    WHEN 'contributor' THEN EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.id = p_message_id AND public.is_message_unlocked(m)
+    )
+    ELSE false
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_capsule_entries(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_capsule_entries(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Can View Capsule Entry Media
+-- Storage policy helper: the object is an entry attachment the caller may see
+-- ============================================
+CREATE OR REPLACE FUNCTION public.can_view_capsule_entry_media(p_storage_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.capsule_entries e
+    WHERE e.video_storage_path = p_storage_path
+      AND public.can_view_capsule_entries(e.message_id)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_capsule_entry_media(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_capsule_entry_media(TEXT) TO authenticated;
+
+-- Entry attachments live in their authors' folders
+CREATE POLICY "Capsule members can read entry attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-videos' AND
+    public.can_view_capsule_entry_media(name)
+  );
+
+-- ============================================
+-- FUNCTION: Enforce Capsule Entry Rules
+-- Same attachment rules as enforce_message_video_rules (016), checked against
+-- the entry author's tier and quota. Client writes also need an open capsule.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_capsule_entry_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_verification public.video_verifications%ROWTYPE;
+  v_old_bytes BIGINT := 0;
+BEGIN
+  IF NEW.video_storage_path IS NULL THEN
+    NEW.media_kind := NULL;
+  ELSIF NEW.media_kind IS NULL THEN
+    NEW.media_kind := 'video';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := NOW();
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  IF v_message.encrypted OR v_message.delivery_mode = 'checkin' THEN
+    RAISE EXCEPTION 'Shared capsules cannot be end-to-end encrypted or use check-in delivery.';
+  END IF;
+
+  IF NOT public.is_capsule_open(NEW.message_id) THEN
+    RAISE EXCEPTION 'This capsule is locked. Entries can no longer be added or changed.';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old_bytes := OLD.video_size_bytes;
+
+    IF NEW.video_storage_path IS NOT DISTINCT FROM OLD.video_storage_path
+      AND NEW.video_size_bytes = OLD.video_size_bytes
+      AND NEW.media_kind IS NOT DISTINCT FROM OLD.media_kind THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.video_storage_path IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- An object is charged once: it cannot also be a message attachment
+  IF NEW.video_storage_path NOT LIKE NEW.user_id::text || '/%'
+    OR EXISTS (SELECT 1 FROM public.messages WHERE video_storage_path = NEW.video_storage_path) THEN
+    RAISE EXCEPTION 'Invalid video path';
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  SELECT * INTO v_verification
+  FROM public.video_verifications
+  WHERE storage_path = NEW.video_storage_path;
+
+  IF FOUND THEN
+    IF v_verification.status = 'rejected' THEN
+      RAISE EXCEPTION 'Attachment was rejected: %', v_verification.error;
+    END IF;
+
+    NEW.video_size_bytes := v_verification.size_bytes;
+    NEW.video_duration_seconds := v_verification.duration_seconds;
+    NEW.media_kind := v_verification.media_kind;
+  END IF;
+
+  IF v_profile.tier <> 'pro' AND NEW.media_kind <> 'audio' THEN
+    RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+  END IF;
+
+  IF NEW.video_size_bytes > v_old_bytes
+    AND v_profile.storage_used_bytes + NEW.video_size_bytes - v_old_bytes
+      > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+    RAISE EXCEPTION 'Not enough storage remaining for this attachment.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_capsule_entry_rules_trigger
+  BEFORE INSERT OR UPDATE ON public.capsule_entries
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_capsule_entry_rules();
+
+-- ============================================
+-- FUNCTION: Sync Entry Storage Used
+-- Same accounting as sync_storage_used (012), charged to the entry author
+-- ============================================
+CREATE OR REPLACE FUNCTION public.sync_entry_storage_used()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delta BIGINT;
+  v_user_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_delta := NEW.video_size_bytes;
+    v_user_id := NEW.user_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_delta := -OLD.video_size_bytes;
+    v_user_id := OLD.user_id;
+  ELSE
+    v_delta := NEW.video_size_bytes - OLD.video_size_bytes;
+    v_user_id := NEW.user_id;
+  END IF;
+
+  IF v_delta <> 0 THEN
+    PERFORM public.update_storage_used(v_user_id, v_delta);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_entry_storage_used_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF video_size_bytes ON public.capsule_entries
+  FOR EACH ROW EXECUTE FUNCTION public.sync_entry_storage_used();
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE public.capsule_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.capsule_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.capsule_entries ENABLE ROW LEVEL SECURITY;
+
+-- Members (and the owner) can see who else is in the capsule
+CREATE POLICY "Members can view capsule members"
+  ON public.capsule_members
+  FOR SELECT
+  USING (public.capsule_role(message_id) IS NOT NULL);
+
+-- Owner and organizers can see invitations
+CREATE POLICY "Organizers can view capsule invitations"
+  ON public.capsule_invitations
+  FOR SELECT
+  USING (public.capsule_role(message_id) IN ('owner', 'organizer'));
+
+-- Membership and invitations change through the RPCs below only
+REVOKE INSERT, UPDATE, DELETE ON public.capsule_members FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.capsule_invitations FROM anon, authenticated;
+
+CREATE POLICY "Members can view capsule entries"
+  ON public.capsule_entries
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR public.can_view_capsule_entries(message_id)
+  );
+
+CREATE POLICY "Members can add entries to open capsules"
+  ON public.capsule_entries
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND public.capsule_role(message_id) IS NOT NULL
+    AND public.is_capsule_open(message_id)
+  );
+
+CREATE POLICY "Members can edit own entries in open capsules"
+  ON public.capsule_entries
+  FOR UPDATE
+  USING (
+    user_id = auth.uid()
+    AND public.is_capsule_open(message_id)
+  );
+
+-- Owner and organizers can remove any entry, e.g. to moderate
+CREATE POLICY "Members can delete entries from open capsules"
+  ON public.capsule_entries
+  FOR DELETE
+  USING (
+    (user_id = auth.uid() OR public.capsule_role(message_id) IN ('owner', 'organizer'))
+    AND public.is_capsule_open(message_id)
+  );
+
+-- Author and capsule are fixed; sizes are overwritten by trigger
+REVOKE UPDATE ON public.capsule_entries FROM anon, authenticated;
+GRANT UPDATE (
+  author_name,
+  entry_text,
+  video_storage_path,
+  video_size_bytes,
+  video_duration_seconds,
+  media_kind
+) ON public.capsule_entries TO authenticated;
+
+-- ============================================
+-- FUNCTION: Invite Capsule Member
+-- Creates (or re-roles) the pending invitation for p_email and returns its
+-- token. Owner invites either role; organizers invite contributors only.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.invite_capsule_member(
+  p_message_id UUID,
+  p_email TEXT,
+  p_role TEXT DEFAULT 'contributor'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_caller_role TEXT := public.capsule_role(p_message_id);
+  v_email TEXT := lower(btrim(p_email));
+  v_message public.messages%ROWTYPE;
+  v_count INTEGER;
+  v_token UUID;
+BEGIN
+  IF v_caller_role IS NULL OR v_caller_role = 'contributor' THEN
+    RAISE EXCEPTION 'Only the capsule owner and organizers can invite people';
+  END IF;
+
+  IF p_role NOT IN ('organizer', 'contributor') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  IF p_role = 'organizer' AND v_caller_role <> 'owner' THEN
+    RAISE EXCEPTION 'Only the capsule owner can invite organizers';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  IF v_message.encrypted OR v_message.delivery_mode = 'checkin' THEN
+    RAISE EXCEPTION 'Shared capsules cannot be end-to-end encrypted or use check-in delivery.';
+  END IF;
+
+  IF NOT public.is_capsule_open(p_message_id) THEN
+    RAISE EXCEPTION 'This capsule is locked. No one else can be invited.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE lower(p.email) = v_email
+      AND (
+        p.id = v_message.user_id
+        OR EXISTS (
+          SELECT 1 FROM public.capsule_members cm
+          WHERE cm.message_id = p_message_id AND cm.user_id = p.id
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'This person is already part of the capsule';
+  END IF;
+
+  SELECT
+    (SELECT COUNT(*) FROM public.capsule_members WHERE message_id = p_message_id)
+    + (SELECT COUNT(*) FROM public.capsule_invitations WHERE message_id = p_message_id AND status = 'pending')
+  INTO v_count;
+
+  IF v_count >= 100 THEN
+    RAISE EXCEPTION 'A capsule can have at most 100 members and pending invitations.';
+  END IF;
+
+  INSERT INTO public.capsule_invitations (message_id, email, role, invited_by)
+  VALUES (p_message_id, v_email, p_role, v_user_id)
+  ON CONFLICT (message_id, email) WHERE status = 'pending'
+  DO UPDATE SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invite_capsule_member(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.invite_capsule_member(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Revoke Capsule Invitation
+-- Withdraws a pending invitation; its link stops working
+-- ============================================
+CREATE OR REPLACE FUNCTION public.revoke_capsule_invitation(p_invitation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.capsule_invitations%ROWTYPE;
+  v_caller_role TEXT;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.capsule_invitations
+  WHERE id = p_invitation_id
+  FOR UPDATE;
+
+  v_caller_role := public.capsule_role(v_invitation.message_id);
+
+  IF v_invitation.id IS NULL OR v_caller_role IS NULL OR v_caller_role = 'contributor' THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.role = 'organizer' AND v_caller_role <> 'owner' THEN
+    RAISE EXCEPTION 'Only the capsule owner can withdraw organizer invitations';
+  END IF;
+
+  UPDATE public.capsule_invitations
+  SET status = 'revoked'
+  WHERE id = p_invitation_id
+    AND status = 'pending';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_capsule_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_capsule_invitation(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Accept Capsule Invitation
+-- Makes the caller a member with the invitation's role. The caller must be
+-- signed in with the invited email. Accepting again is a no-op. Returns the
+-- message id.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.accept_capsule_invitation(p_token UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_invitation public.capsule_invitations%ROWTYPE;
+  v_email TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to join a capsule';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM public.capsule_invitations
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.status = 'revoked' THEN
+    RAISE EXCEPTION 'This invitation has been withdrawn';
+  END IF;
+
+  IF v_invitation.status = 'accepted' THEN
+    IF v_invitation.accepted_by IS DISTINCT FROM v_user_id THEN
+      RAISE EXCEPTION 'This invitation has already been used';
+    END IF;
+    RETURN v_invitation.message_id;
+  END IF;
+
+  SELECT email INTO v_email
+  FROM public.profiles
+  WHERE id = v_user_id;
+
+  IF lower(v_email) IS DISTINCT FROM v_invitation.email THEN
+    RAISE EXCEPTION 'This invitation was sent to %. Sign in with that email to accept it.', v_invitation.email;
+  END IF;
+
+  IF public.capsule_role(v_invitation.message_id) = 'owner' THEN
+    RAISE EXCEPTION 'You already own this capsule';
+  END IF;
+
+  IF NOT public.is_capsule_open(v_invitation.message_id) THEN
+    RAISE EXCEPTION 'This capsule is already locked';
+  END IF;
+
+  -- The latest invitation decides the role
+  INSERT INTO public.capsule_members (message_id, user_id, role)
+  VALUES (v_invitation.message_id, v_user_id, v_invitation.role)
+  ON CONFLICT (message_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE public.capsule_invitations
+  SET
+    status = 'accepted',
+    accepted_by = v_user_id,
+    accepted_at = NOW()
+  WHERE id = v_invitation.id;
+
+  RETURN v_invitation.message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_capsule_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_capsule_invitation(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Remove Capsule Member
+-- Members can leave; the owner can remove anyone and organizers can remove
+-- contributors. Only while the capsule is open. The member's entries are
+-- deleted with them (storage released by trigger; gc-videos collects the
+-- objects).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.remove_capsule_member(p_message_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_role TEXT := public.capsule_role(p_message_id);
+  v_member public.capsule_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_member
+  FROM public.capsule_members
+  WHERE message_id = p_message_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_caller_role IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF p_user_id <> auth.uid()
+    AND v_caller_role <> 'owner'
+    AND NOT (v_caller_role = 'organizer' AND v_member.role = 'contributor') THEN
+    RAISE EXCEPTION 'You cannot remove this member';
+  END IF;
+
+  IF NOT public.is_capsule_open(p_message_id) THEN
+    RAISE EXCEPTION 'This capsule is locked. Members can no longer be removed.';
+  END IF;
+
+  DELETE FROM public.capsule_entries
+  WHERE message_id = p_message_id AND user_id = p_user_id;
+
+  DELETE FROM public.capsule_members
+  WHERE message_id = p_message_id AND user_id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.remove_capsule_member(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_capsule_member(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: List Capsule Members
+-- Owner first (role 'owner'), then members by join date. Emails come from
+-- profiles, which members cannot read directly.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.list_capsule_members(p_message_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  role TEXT,
+  joined_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT member.user_id, member.email, member.role, member.joined_at
+  FROM (
+    SELECT m.user_id, p.email, 'owner'::text AS role, m.created_at AS joined_at, 0 AS sort_order
+    FROM public.messages m
+    JOIN public.profiles p ON p.id = m.user_id
+    WHERE m.id = p_message_id
+    UNION ALL
+    SELECT cm.user_id, p.email, cm.role, cm.created_at, 1
+    FROM public.capsule_members cm
+    JOIN public.profiles p ON p.id = cm.user_id
+    WHERE cm.message_id = p_message_id
+  ) member
+  WHERE public.capsule_role(p_message_id) IS NOT NULL
+  ORDER BY member.sort_order, member.joined_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_capsule_members(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_capsule_members(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: List Shared Capsules
+-- Capsules the caller is a member of (not their own). delivery_token, which
+-- opens the combined recipient view, is returned only once unlocked.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.list_shared_capsules()
+RETURNS TABLE (
+  id UUID,
+  owner_email TEXT,
+  role TEXT,
+  deliver_at TIMESTAMPTZ,
+  timezone TEXT,
+  status TEXT,
+  unlocked BOOLEAN,
+  delivery_token UUID,
+  entry_count INTEGER,
+  joined_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    p.email,
+    cm.role,
+    m.deliver_at,
+    m.timezone,
+    m.status,
+    public.is_message_unlocked(m),
+    CASE WHEN public.is_message_unlocked(m) THEN m.delivery_token END,
+    (
+      SELECT COUNT(*)::integer FROM public.capsule_entries e
+      WHERE e.message_id = m.id AND e.user_id = cm.user_id
+    ),
+    cm.created_at
+  FROM public.capsule_members cm
+  JOIN public.messages m ON m.id = cm.message_id
+  JOIN public.profiles p ON p.id = m.user_id
+  WHERE cm.user_id = auth.uid()
+  ORDER BY m.deliver_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_shared_capsules() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_shared_capsules() TO authenticated;
+
+-- ============================================
+-- FUNCTION: Apply Video Verification (replaces 016)
+-- Adds capsule entries: a path no message uses is looked up in
+-- capsule_entries and checked against the entry author's tier and quota.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_video_verification(
+  p_storage_path TEXT,
+  p_size_bytes BIGINT,
+  p_duration_seconds INTEGER,
+  p_error TEXT,
+  p_media_kind TEXT DEFAULT 'video'
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT := CASE WHEN p_error IS NULL THEN 'verified' ELSE 'rejected' END;
+  v_error TEXT := p_error;
+  v_message_id UUID;
+  v_entry_id UUID;
+  v_owner_id UUID;
+  v_recorded_bytes BIGINT;
+  v_profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT id, user_id, video_size_bytes INTO v_message_id, v_owner_id, v_recorded_bytes
+  FROM public.messages
+  WHERE video_storage_path = p_storage_path
+  FOR UPDATE;
+
+  IF v_message_id IS NULL THEN
+    SELECT id, user_id, video_size_bytes INTO v_entry_id, v_owner_id, v_recorded_bytes
+    FROM public.capsule_entries
+    WHERE video_storage_path = p_storage_path
+    FOR UPDATE;
+  END IF;
+
+  IF v_owner_id IS NOT NULL AND v_status = 'verified' THEN
+    SELECT * INTO v_profile
+    FROM public.profiles
+    WHERE id = v_owner_id
+    FOR UPDATE;
+
+    -- Client claimed audio for what is really a video
+    IF v_profile.tier <> 'pro' AND p_media_kind <> 'audio' THEN
+      v_status := 'rejected';
+      v_error := 'Video attachments are only available for Pro users';
+    -- Client under-reported size: re-check quota with the real size
+    ELSIF p_size_bytes > v_recorded_bytes
+      AND v_profile.storage_used_bytes + p_size_bytes - v_recorded_bytes
+        > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+      v_status := 'rejected';
+      v_error := 'Attachment exceeds remaining storage';
+    END IF;
+  END IF;
+
+  INSERT INTO public.video_verifications (storage_path, size_bytes, duration_seconds, media_kind, status, error, verified_at)
+  VALUES (p_storage_path, p_size_bytes, p_duration_seconds, p_media_kind, v_status, v_error, NOW())
+  ON CONFLICT (storage_path) DO UPDATE SET
+    size_bytes = EXCLUDED.size_bytes,
+    duration_seconds = EXCLUDED.duration_seconds,
+    media_kind = EXCLUDED.media_kind,
+    status = EXCLUDED.status,
+    error = EXCLUDED.error,
+    verified_at = EXCLUDED.verified_at;
+
+  -- storage_used_bytes follows via sync_storage_used / sync_entry_storage_used
+  IF v_message_id IS NOT NULL THEN
+    IF v_status = 'verified' THEN
+      UPDATE public.messages
+      SET
+        video_size_bytes = p_size_bytes,
+        video_duration_seconds = p_duration_seconds,
+        media_kind = p_media_kind
+      WHERE id = v_message_id;
+    ELSE
+      UPDATE public.messages
+      SET
+        video_storage_path = NULL,
+        video_size_bytes = 0,
+        video_duration_seconds = 0,
+        media_kind = NULL
+      WHERE id = v_message_id;
+    END IF;
+  ELSIF v_entry_id IS NOT NULL THEN
+    IF v_status = 'verified' THEN
+      UPDATE public.capsule_entries
+      SET
+        video_size_bytes = p_size_bytes,
+        video_duration_seconds = p_duration_seconds,
+        media_kind = p_media_kind
+      WHERE id = v_entry_id;
+    ELSE
+      -- A rejected attachment on a text-less entry removes the entry
+      DELETE FROM public.capsule_entries
+      WHERE id = v_entry_id
+        AND btrim(entry_text) = '';
+
+      UPDATE public.capsule_entries
+      SET
+        video_storage_path = NULL,
+        video_size_bytes = 0,
+        video_duration_seconds = 0,
+        media_kind = NULL
+      WHERE id = v_entry_id;
+    END IF;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.apply_video_verification(TEXT, BIGINT, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: List Orphaned Videos (replaces 014)
+-- Entry attachments count as referenced
+-- ============================================
+CREATE OR REPLACE FUNCTION public.list_orphaned_videos(
+  p_older_than TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (
+  storage_path TEXT,
+  user_id UUID,
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    -- Path is {user_id}/{file}; anything else has no owner to charge
+    CASE
+      WHEN split_part(o.name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(o.name, '/', 1)::uuid
+    END,
+    COALESCE((o.metadata->>'size')::bigint, 0),
+    o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'message-videos'
+    AND o.created_at < p_older_than
+    AND NOT EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.video_storage_path = o.name
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.capsule_entries e
+      WHERE e.video_storage_path = o.name
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+$$;
+
+-- Cron Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.list_orphaned_videos(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Compute Storage Used (replaces 017)
+-- Adds the attachments of the user's capsule entries
+-- ============================================
+CREATE OR REPLACE FUNCTION public.compute_storage_used(p_user_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT COALESCE(SUM(COALESCE((o.metadata->>'size')::bigint, m.video_size_bytes)), 0)
+      FROM public.messages m
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-videos' AND o.name = m.video_storage_path
+      WHERE m.user_id = p_user_id
+        AND m.video_storage_path IS NOT NULL
+    )::bigint
+    +
+    (
+      SELECT COALESCE(SUM(COALESCE((o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint, i.size_bytes)), 0)
+      FROM public.message_images i
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-images' AND o.name = i.storage_path
+      LEFT JOIN storage.objects t
+        ON t.bucket_id = 'message-images' AND t.name = i.thumbnail_path
+      WHERE i.user_id = p_user_id
+    )::bigint
+    +
+    (
+      SELECT COALESCE(SUM(COALESCE((o.metadata->>'size')::bigint, e.video_size_bytes)), 0)
+      FROM public.capsule_entries e
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-videos' AND o.name = e.video_storage_path
+      WHERE e.user_id = p_user_id
+        AND e.video_storage_path IS NOT NULL
+    )::bigint;
+$$;
+
+-- ============================================
+-- FUNCTION: Reconcile Storage Used (replaces 017)
+-- Adds correction of capsule_entries.video_size_bytes
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reconcile_storage_used(
+  p_user_ids UUID[],
+  p_dry_run BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  user_id UUID,
+  recorded_bytes BIGINT,
+  actual_bytes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Report first: recorded values before any correction
+  RETURN QUERY
+  SELECT p.id, p.storage_used_bytes, public.compute_storage_used(p.id)
+  FROM public.profiles p
+  WHERE p.id = ANY(p_user_ids);
+
+  IF p_dry_run THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.messages m
+  SET video_size_bytes = (o.metadata->>'size')::bigint
+  FROM storage.objects o
+  WHERE o.bucket_id = 'message-videos'
+    AND o.name = m.video_storage_path
+    AND m.user_id = ANY(p_user_ids)
+    AND o.metadata->>'size' IS NOT NULL
+    AND m.video_size_bytes <> (o.metadata->>'size')::bigint;
+
+  UPDATE public.message_images i
+  SET size_bytes = (o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint
+  FROM storage.objects o, storage.objects t
+  WHERE o.bucket_id = 'message-images'
+    AND o.name = i.storage_path
+    AND t.bucket_id = 'message-images'
+    AND t.name = i.thumbnail_path
+    AND i.user_id = ANY(p_user_ids)
+    AND i.size_bytes <> (o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint;
+
+  UPDATE public.capsule_entries e
+  SET video_size_bytes = (o.metadata->>'size')::bigint
+  FROM storage.objects o
+  WHERE o.bucket_id = 'message-videos'
+    AND o.name = e.video_storage_path
+    AND e.user_id = ANY(p_user_ids)
+    AND o.metadata->>'size' IS NOT NULL
+    AND e.video_size_bytes <> (o.metadata->>'size')::bigint;
+
+  -- Absolute value last; overrides the deltas applied by the updates above
+  UPDATE public.profiles p
+  SET
+    storage_used_bytes = public.compute_storage_used(p.id),
+    updated_at = NOW()
+  WHERE p.id = ANY(p_user_ids);
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Audit Storage Usage (replaces 017)
+-- message_bytes / object_bytes / missing_objects now include entry attachments
+-- ============================================
+CREATE OR REPLACE FUNCTION public.audit_storage_usage(p_auto_correct BOOLEAN DEFAULT false)
+RETURNS SETOF public.storage_usage_audits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id UUID := gen_random_uuid();
+  v_user_ids UUID[];
+BEGIN
+  -- Same 90-day retention as delivery_logs
+  DELETE FROM public.storage_usage_audits
+  WHERE created_at < NOW() - INTERVAL '90 days';
+
+  INSERT INTO public.storage_usage_audits (
+    run_id, user_id, recorded_bytes, message_bytes, object_bytes, missing_objects
+  )
+  SELECT
+    v_run_id,
+    usage.user_id,
+    usage.recorded_bytes,
+    usage.message_bytes,
+    usage.object_bytes,
+    usage.missing_objects
+  FROM (
+    SELECT
+      p.id AS user_id,
+      p.storage_used_bytes AS recorded_bytes,
+      (COALESCE(v.message_bytes, 0) + COALESCE(i.message_bytes, 0) + COALESCE(e.message_bytes, 0))::bigint AS message_bytes,
+      (COALESCE(v.object_bytes, 0) + COALESCE(i.object_bytes, 0) + COALESCE(e.object_bytes, 0))::bigint AS object_bytes,
+      (COALESCE(v.missing_objects, 0) + COALESCE(i.missing_objects, 0) + COALESCE(e.missing_objects, 0))::integer AS missing_objects
+    FROM public.profiles p
+    LEFT JOIN (
+      SELECT
+        m.user_id,
+        SUM(m.video_size_bytes) AS message_bytes,
+        SUM(COALESCE((o.metadata->>'size')::bigint, m.video_size_bytes)) AS object_bytes,
+        COUNT(*) FILTER (WHERE o.id IS NULL) AS missing_objects
+      FROM public.messages m
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-videos' AND o.name = m.video_storage_path
+      WHERE m.video_storage_path IS NOT NULL
+      GROUP BY m.user_id
+    ) v ON v.user_id = p.id
+    LEFT JOIN (
+      SELECT
+        img.user_id,
+        SUM(img.size_bytes) AS message_bytes,
+        SUM(COALESCE((o.metadata->>'size')::bigint + (t.metadata->>'size')::bigint, img.size_bytes)) AS object_bytes,
+        COUNT(*) FILTER (WHERE o.id IS NULL OR t.id IS NULL) AS missing_objects
+      FROM public.message_images img
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-images' AND o.name = img.storage_path
+      LEFT JOIN storage.objects t
+        ON t.bucket_id = 'message-images' AND t.name = img.thumbnail_path
+      GROUP BY img.user_id
+    ) i ON i.user_id = p.id
+    LEFT JOIN (
+      SELECT
+        ent.user_id,
+        SUM(ent.video_size_bytes) AS message_bytes,
+        SUM(COALESCE((o.metadata->>'size')::bigint, ent.video_size_bytes)) AS object_bytes,
+        COUNT(*) FILTER (WHERE o.id IS NULL) AS missing_objects
+      FROM public.capsule_entries ent
+      LEFT JOIN storage.objects o
+        ON o.bucket_id = 'message-videos' AND o.name = ent.video_storage_path
+      WHERE ent.video_storage_path IS NOT NULL
+      GROUP BY ent.user_id
+    ) e ON e.user_id = p.id
+  ) usage
+  WHERE usage.recorded_bytes <> usage.object_bytes
+    OR usage.message_bytes <> usage.object_bytes
+    OR usage.missing_objects > 0;
+
+  IF p_auto_correct THEN
+    -- Missing objects alone are reported, not corrected: the row still
+    -- references the path and usage falls back to the recorded size
+    SELECT array_agg(a.user_id) INTO v_user_ids
+    FROM public.storage_usage_audits a
+    WHERE a.run_id = v_run_id
+      AND (a.recorded_bytes <> a.object_bytes OR a.message_bytes <> a.object_bytes);
+
+    IF v_user_ids IS NOT NULL THEN
+      PERFORM * FROM public.reconcile_storage_used(v_user_ids, false);
+
+      UPDATE public.storage_usage_audits
+      SET corrected = true
+      WHERE run_id = v_run_id
+        AND user_id = ANY(v_user_ids);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.storage_usage_audits
+  WHERE run_id = v_run_id
+  ORDER BY ABS(recorded_bytes - object_bytes) DESC;
+END;
+$$;
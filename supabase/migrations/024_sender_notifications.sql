@@ -0,0 +1,176 @@
+-- Sender Notifications
+-- Emails to the sender about their own messages: a confirmation when a
+-- message is scheduled, a receipt once it was delivered, an alert when
+-- delivery failed, and a reminder shortly before it unlocks. Each kind can
+-- be turned off on the profile.
+-- Notifications are queued in sender_notifications (by trigger, or by
+-- queue_upcoming_notifications for reminders) and sent by the
+-- send-notifications function. A message gets at most one notification of
+-- each kind per occurrence, so a recurring message confirms once and gets a
+-- receipt and reminder for every delivery.
+-- The failure alert used to be sent by process-delivery directly; it now
+-- goes through the queue like the others.
+
+-- ============================================
+-- PROFILES: notification preferences
+-- Not client-writable; changed through set_notification_preferences.
+-- ============================================
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS notify_scheduled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS notify_delivered BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS notify_failed BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS notify_upcoming BOOLEAN NOT NULL DEFAULT true;
+
+-- ============================================
+-- SENDER NOTIFICATIONS TABLE
+-- recipients is captured for 'delivered' and 'failed' (the addresses the
+-- notification is about); the other kinds read the current recipients when
+-- sending. Deleting a message drops its unsent notifications.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.sender_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('scheduled', 'delivered', 'failed', 'upcoming')),
+  occurrence INTEGER NOT NULL DEFAULT 1,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  -- 'skipped': the sender turned this kind off, or the message moved on
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  UNIQUE (message_id, kind, occurrence)
+);
+
+-- send-notifications scans the queue oldest first
+CREATE INDEX IF NOT EXISTS idx_sender_notifications_pending
+  ON public.sender_notifications(created_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_sender_notifications_user
+  ON public.sender_notifications(user_id);
+
+ALTER TABLE public.sender_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users can view notifications about their own messages
+CREATE POLICY "Users can view own notifications"
+  ON public.sender_notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.sender_notifications FROM anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Queue Sender Notifications
+-- 'scheduled' when a message is created; 'delivered' or 'failed' when
+-- process-delivery moves it out of pending (the status='pending' guard
+-- there makes each transition happen once). A failed message lists only
+-- its failed recipients; a delivered one every recipient.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.queue_sender_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.sender_notifications (user_id, message_id, kind, occurrence)
+    VALUES (NEW.user_id, NEW.id, 'scheduled', NEW.occurrence)
+    ON CONFLICT (message_id, kind, occurrence) DO NOTHING;
+  ELSIF OLD.status = 'pending' AND NEW.status IN ('delivered', 'failed') THEN
+    INSERT INTO public.sender_notifications (user_id, message_id, kind, occurrence, recipients)
+    VALUES (
+      NEW.user_id,
+      NEW.id,
+      NEW.status,
+      NEW.occurrence,
+      ARRAY(
+        SELECT email
+        FROM public.message_recipients
+        WHERE message_id = NEW.id
+          AND (status = 'failed') = (NEW.status = 'failed')
+        ORDER BY created_at
+      )
+    )
+    ON CONFLICT (message_id, kind, occurrence) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_sender_notifications_trigger
+  AFTER INSERT OR UPDATE OF status ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.queue_sender_notifications();
+
+-- ============================================
+-- FUNCTION: Queue Upcoming Notifications
+-- Called by send-notifications before each run. Queues the reminder for
+-- date-based messages unlocking within p_within_hours. Messages scheduled
+-- closer than that to their date get no reminder (the confirmation is
+-- enough); later occurrences of a series always do. Check-in messages have
+-- their own reminders from evaluate-checkins. Returns the number queued.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.queue_upcoming_notifications(p_within_hours INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window INTERVAL := make_interval(hours => p_within_hours);
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.sender_notifications (user_id, message_id, kind, occurrence)
+  SELECT m.user_id, m.id, 'upcoming', m.occurrence
+  FROM public.messages m
+  WHERE m.status = 'pending'
+    AND m.delivery_mode = 'date'
+    AND m.deliver_at > NOW()
+    AND m.deliver_at <= NOW() + v_window
+    AND (m.occurrence > 1 OR m.created_at <= m.deliver_at - v_window)
+  ON CONFLICT (message_id, kind, occurrence) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_upcoming_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Set Notification Preferences
+-- Turns each kind of sender notification on or off for the caller.
+-- Notifications already queued are skipped when sent if their kind is off.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.set_notification_preferences(
+  p_scheduled BOOLEAN,
+  p_delivered BOOLEAN,
+  p_failed BOOLEAN,
+  p_upcoming BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in';
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    notify_scheduled = COALESCE(p_scheduled, notify_scheduled),
+    notify_delivered = COALESCE(p_delivered, notify_delivered),
+    notify_failed = COALESCE(p_failed, notify_failed),
+    notify_upcoming = COALESCE(p_upcoming, notify_upcoming),
+    updated_at = NOW()
+  WHERE id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_notification_preferences(BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_notification_preferences(BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
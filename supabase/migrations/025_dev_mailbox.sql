@@ -0,0 +1,24 @@
+-- Development Mailbox
+-- Sink for EMAIL_TRANSPORT=mailbox: every email an edge function would send
+-- is stored here instead of leaving the machine, so local development and
+-- tests can read what was rendered (Studio or SQL) without a mail provider.
+-- Nothing reads this table in production; it stays empty there.
+
+-- ============================================
+-- DEV MAILBOX TABLE
+-- id is the provider id recorded on delivery_logs ('mailbox_<id>').
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.dev_mailbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_email TEXT NOT NULL,
+  to_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dev_mailbox_to_email
+  ON public.dev_mailbox(to_email, created_at DESC);
+
+-- Service role only: the emails contain delivery links
+ALTER TABLE public.dev_mailbox ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,231 @@
+-- Delivery Email Customization
+-- The sender can set the delivery email's subject line, a sign-off shown
+-- under the message, and the language of the email's own wording
+-- (messages.email_locale). process-delivery renders the email from
+-- _shared/delivery-email.ts: escaped HTML, a plaintext alternative and an
+-- inbox preheader. Subject and sign-off are stored in the clear, also for
+-- end-to-end encrypted messages.
+
+-- ============================================
+-- MESSAGES: delivery email wording
+-- Client-editable like the rest of a pending message. A subject is a mail
+-- header, so it is a single line.
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS email_subject TEXT
+    CHECK (char_length(email_subject) BETWEEN 1 AND 150 AND email_subject !~ '[\r\n]'),
+  ADD COLUMN IF NOT EXISTS email_sign_off TEXT
+    CHECK (char_length(email_sign_off) BETWEEN 1 AND 200),
+  ADD COLUMN IF NOT EXISTS email_locale TEXT NOT NULL DEFAULT 'en'
+    CHECK (email_locale IN ('en', 'es', 'fr', 'de'));
+
+GRANT UPDATE (email_subject, email_sign_off, email_locale) ON public.messages TO authenticated;
+
+-- ============================================
+-- DEV MAILBOX: plaintext part
+-- ============================================
+ALTER TABLE public.dev_mailbox
+  ADD COLUMN IF NOT EXISTS text TEXT;
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 022)
+-- Adds p_email_subject, p_email_sign_off and p_email_locale. Blank subject
+-- and sign-off are stored as NULL (the localized defaults).
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_video_storage_path TEXT DEFAULT NULL,
+  p_video_size_bytes BIGINT DEFAULT 0,
+  p_video_duration_seconds INTEGER DEFAULT 0,
+  p_media_kind TEXT DEFAULT 'video',
+  p_images JSONB DEFAULT '[]'::jsonb,
+  p_encrypted BOOLEAN DEFAULT false,
+  p_passphrase TEXT DEFAULT NULL,
+  p_passphrase_hint TEXT DEFAULT NULL,
+  p_recurrence_months INTEGER DEFAULT NULL,
+  p_recurrence_count INTEGER DEFAULT NULL,
+  p_checkin_interval_days INTEGER DEFAULT NULL,
+  p_checkin_grace_days INTEGER DEFAULT NULL,
+  p_gift BOOLEAN DEFAULT false,
+  p_email_subject TEXT DEFAULT NULL,
+  p_email_sign_off TEXT DEFAULT NULL,
+  p_email_locale TEXT DEFAULT 'en'
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+  v_passphrase_hash TEXT;
+  v_is_checkin BOOLEAN := p_checkin_interval_days IS NOT NULL OR p_checkin_grace_days IS NOT NULL;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF v_is_checkin THEN
+    IF p_checkin_interval_days IS NULL OR p_checkin_interval_days NOT BETWEEN 1 AND 365 THEN
+      RAISE EXCEPTION 'Check in every 1 to 365 days';
+    END IF;
+
+    IF p_checkin_grace_days IS NULL OR p_checkin_grace_days NOT BETWEEN 1 AND 90 THEN
+      RAISE EXCEPTION 'The grace period must be 1 to 90 days';
+    END IF;
+
+    IF p_recurrence_months IS NOT NULL THEN
+      RAISE EXCEPTION 'A check-in message cannot repeat';
+    END IF;
+  ELSIF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_months NOT BETWEEN 1 AND 120 THEN
+    RAISE EXCEPTION 'A message can repeat every 1 to 120 months';
+  END IF;
+
+  IF p_recurrence_months IS NOT NULL AND p_recurrence_count IS NOT NULL AND p_recurrence_count NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'A repeating message can be delivered 2 to 100 times';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_passphrase, '')), '') IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_passphrase);
+  END IF;
+
+  -- Serializes concurrent creates for this user (free-message race)
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  -- A gift is paid for with a gift credit instead of the free message
+  IF p_gift THEN
+    IF v_profile.gift_credits < 1 THEN
+      RAISE EXCEPTION 'You have no gift capsules left. Buy one to send this message as a gift.';
+    END IF;
+
+    UPDATE public.profiles
+    SET gift_credits = gift_credits - 1
+    WHERE id = v_user_id;
+  END IF;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF NOT p_gift AND v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF p_video_storage_path IS NOT NULL AND p_media_kind IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_images, '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF p_encrypted AND p_video_storage_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    IF NOT p_gift THEN
+      UPDATE public.profiles
+      SET free_message_used = true
+      WHERE id = v_user_id;
+    END IF;
+  END IF;
+
+  -- Attachment tier/path/quota checks, storage accounting and the check-in
+  -- deadline (deliver_at) are handled by triggers
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted,
+    passphrase_hash,
+    passphrase_hint,
+    recurrence_months,
+    recurrence_count,
+    delivery_mode,
+    checkin_interval_days,
+    checkin_grace_days,
+    last_checkin_at,
+    gift_token,
+    email_subject,
+    email_sign_off,
+    email_locale
+  )
+  VALUES (
+    v_user_id,
+    CASE WHEN p_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    COALESCE(p_deliver_at, NOW()),
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    p_video_storage_path,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_size_bytes, 0) END,
+    CASE WHEN p_video_storage_path IS NULL THEN 0 ELSE COALESCE(p_video_duration_seconds, 0) END,
+    p_media_kind,
+    COALESCE(p_encrypted, false),
+    v_passphrase_hash,
+    CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_passphrase_hint), '') END,
+    p_recurrence_months,
+    CASE WHEN p_recurrence_months IS NULL THEN NULL ELSE p_recurrence_count END,
+    CASE WHEN v_is_checkin THEN 'checkin' ELSE 'date' END,
+    p_checkin_interval_days,
+    p_checkin_grace_days,
+    CASE WHEN v_is_checkin THEN NOW() ELSE NULL END,
+    CASE WHEN p_gift THEN gen_random_uuid() ELSE NULL END,
+    NULLIF(trim(p_email_subject), ''),
+    NULLIF(trim(p_email_sign_off), ''),
+    COALESCE(p_email_locale, 'en')
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, BOOLEAN, TEXT, TEXT, TEXT) TO authenticated;
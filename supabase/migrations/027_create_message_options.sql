@@ -0,0 +1,279 @@
+-- Create Message Options
+-- create_message had grown to 20 positional parameters, and every feature
+-- since 016 dropped and re-created the whole function. It now takes the
+-- required fields plus one JSONB p_options object, and delegates to three
+-- helpers a feature can replace on its own:
+--   check_message_rules    validation that needs no profile
+--   charge_message_sender  profile lock, gift credit, free message, tier rules
+--   insert_message         messages row, recipients and photos
+-- p_options keys (all optional): video_storage_path, video_size_bytes,
+-- video_duration_seconds, media_kind, images, encrypted, passphrase,
+-- passphrase_hint, recurrence_months, recurrence_count,
+-- checkin_interval_days, checkin_grace_days, gift, email_subject,
+-- email_sign_off, email_locale. Unknown keys are ignored.
+
+DROP FUNCTION IF EXISTS public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], TEXT, BIGINT, INTEGER, TEXT, JSONB, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, BOOLEAN, TEXT, TEXT, TEXT);
+
+-- ============================================
+-- FUNCTION: Check Message Rules
+-- Rules that depend on the request only. Raises the user-facing message.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.check_message_rules(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_delivery_emails TEXT[],
+  p_options JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recurrence_months INTEGER := (p_options->>'recurrence_months')::integer;
+  v_recurrence_count INTEGER := (p_options->>'recurrence_count')::integer;
+  v_interval_days INTEGER := (p_options->>'checkin_interval_days')::integer;
+  v_grace_days INTEGER := (p_options->>'checkin_grace_days')::integer;
+BEGIN
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF v_interval_days IS NOT NULL OR v_grace_days IS NOT NULL THEN
+    IF v_interval_days IS NULL OR v_interval_days NOT BETWEEN 1 AND 365 THEN
+      RAISE EXCEPTION 'Check in every 1 to 365 days';
+    END IF;
+
+    IF v_grace_days IS NULL OR v_grace_days NOT BETWEEN 1 AND 90 THEN
+      RAISE EXCEPTION 'The grace period must be 1 to 90 days';
+    END IF;
+
+    IF v_recurrence_months IS NOT NULL THEN
+      RAISE EXCEPTION 'A check-in message cannot repeat';
+    END IF;
+  ELSIF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  IF v_recurrence_months IS NOT NULL AND v_recurrence_months NOT BETWEEN 1 AND 120 THEN
+    RAISE EXCEPTION 'A message can repeat every 1 to 120 months';
+  END IF;
+
+  IF v_recurrence_months IS NOT NULL AND v_recurrence_count IS NOT NULL AND v_recurrence_count NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'A repeating message can be delivered 2 to 100 times';
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Charge Message Sender
+-- Locks the profile (serializes concurrent creates, free-message race),
+-- spends a gift credit or the free message and applies the tier's
+-- attachment rules. Must run in the caller's transaction.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.charge_message_sender(
+  p_user_id UUID,
+  p_options JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_gift BOOLEAN := COALESCE((p_options->>'gift')::boolean, false);
+  v_video_path TEXT := p_options->>'video_storage_path';
+BEGIN
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  -- A gift is paid for with a gift credit instead of the free message
+  IF v_gift THEN
+    IF v_profile.gift_credits < 1 THEN
+      RAISE EXCEPTION 'You have no gift capsules left. Buy one to send this message as a gift.';
+    END IF;
+
+    UPDATE public.profiles
+    SET gift_credits = gift_credits - 1
+    WHERE id = p_user_id;
+  END IF;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF NOT v_gift AND v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF v_video_path IS NOT NULL AND (p_options->>'media_kind') IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_options->'images', '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF COALESCE((p_options->>'encrypted')::boolean, false) AND v_video_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    IF NOT v_gift THEN
+      UPDATE public.profiles
+      SET free_message_used = true
+      WHERE id = p_user_id;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Insert Message
+-- Inserts the message, its recipients and photos. Attachment tier/path/quota
+-- checks, storage accounting and the check-in deadline (deliver_at) are
+-- handled by triggers.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.insert_message(
+  p_user_id UUID,
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_options JSONB
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_encrypted BOOLEAN := COALESCE((p_options->>'encrypted')::boolean, false);
+  v_video_path TEXT := p_options->>'video_storage_path';
+  v_recurrence_months INTEGER := (p_options->>'recurrence_months')::integer;
+  v_is_checkin BOOLEAN := p_options ? 'checkin_interval_days' OR p_options ? 'checkin_grace_days';
+  v_passphrase_hash TEXT;
+BEGIN
+  IF NULLIF(trim(COALESCE(p_options->>'passphrase', '')), '') IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_options->>'passphrase');
+  END IF;
+
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted,
+    passphrase_hash,
+    passphrase_hint,
+    recurrence_months,
+    recurrence_count,
+    delivery_mode,
+    checkin_interval_days,
+    checkin_grace_days,
+    last_checkin_at,
+    gift_token,
+    email_subject,
+    email_sign_off,
+    email_locale
+  )
+  VALUES (
+    p_user_id,
+    CASE WHEN v_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    COALESCE(p_deliver_at, NOW()),
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    v_video_path,
+    CASE WHEN v_video_path IS NULL THEN 0 ELSE COALESCE((p_options->>'video_size_bytes')::bigint, 0) END,
+    CASE WHEN v_video_path IS NULL THEN 0 ELSE COALESCE((p_options->>'video_duration_seconds')::integer, 0) END,
+    COALESCE(p_options->>'media_kind', 'video'),
+    v_encrypted,
+    v_passphrase_hash,
+    CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_options->>'passphrase_hint'), '') END,
+    v_recurrence_months,
+    CASE WHEN v_recurrence_months IS NULL THEN NULL ELSE (p_options->>'recurrence_count')::integer END,
+    CASE WHEN v_is_checkin THEN 'checkin' ELSE 'date' END,
+    (p_options->>'checkin_interval_days')::integer,
+    (p_options->>'checkin_grace_days')::integer,
+    CASE WHEN v_is_checkin THEN NOW() ELSE NULL END,
+    CASE WHEN COALESCE((p_options->>'gift')::boolean, false) THEN gen_random_uuid() ELSE NULL END,
+    NULLIF(trim(p_options->>'email_subject'), ''),
+    NULLIF(trim(p_options->>'email_sign_off'), ''),
+    COALESCE(p_options->>'email_locale', 'en')
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    p_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_options->'images', '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+-- Internal: only reachable through create_message
+REVOKE EXECUTE ON FUNCTION public.check_message_rules(TEXT, TIMESTAMPTZ, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.charge_message_sender(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.insert_message(UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 026)
+-- Rules, charge and insert in one transaction. New message options are
+-- added as p_options keys and handled in the helper they concern.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_options JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_options JSONB := jsonb_strip_nulls(COALESCE(p_options, '{}'::jsonb));
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  PERFORM public.check_message_rules(p_message_text, p_deliver_at, p_delivery_emails, v_options);
+  PERFORM public.charge_message_sender(v_user_id, v_options);
+
+  RETURN public.insert_message(v_user_id, p_message_text, p_deliver_at, p_timezone, p_delivery_emails, v_options);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_message(TEXT, TIMESTAMPTZ, TEXT, TEXT[], JSONB) TO authenticated;
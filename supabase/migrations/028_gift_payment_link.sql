@@ -0,0 +1,415 @@
+-- Gift Payment Link
+-- Each gift message now records the gift_capsule payment that paid for it.
+-- Before, a refund of a payment whose credit was already spent still took a
+-- credit (floored at 0) and deleting the unsent gift gave one back, so
+-- buy → gift → refund → delete returned a free credit every time. Now:
+--   create_message        spends the oldest completed, unused gift payment
+--   revoke/restore        only move a credit the payment still holds
+--   refund_unsent_gift    only refunds while the funding payment is completed
+
+-- ============================================
+-- MESSAGES: funding payment of a gift
+-- Not client-writable; set by create_message only
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS gift_payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_gift_payment
+  ON public.messages(gift_payment_id)
+  WHERE gift_payment_id IS NOT NULL;
+
+-- Existing gifts: pair each user's gifts with their gift payments in order
+WITH gifts AS (
+  SELECT id, user_id, row_number() OVER (PARTITION BY user_id ORDER BY created_at, id) AS n
+  FROM public.messages
+  WHERE gift_token IS NOT NULL
+),
+gift_payments AS (
+  SELECT id, user_id, row_number() OVER (PARTITION BY user_id ORDER BY created_at, id) AS n
+  FROM public.payments
+  WHERE product_type = 'gift_capsule'
+    AND status IN ('completed', 'disputed', 'refunded')
+)
+UPDATE public.messages m
+SET gift_payment_id = gift_payments.id
+FROM gifts
+JOIN gift_payments ON gift_payments.user_id = gifts.user_id AND gift_payments.n = gifts.n
+WHERE m.id = gifts.id;
+
+-- ============================================
+-- FUNCTION: Charge Message Sender (replaces 027)
+-- Returns the gift payment the message spends (NULL when not a gift).
+-- ============================================
+DROP FUNCTION IF EXISTS public.charge_message_sender(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.charge_message_sender(
+  p_user_id UUID,
+  p_options JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_gift BOOLEAN := COALESCE((p_options->>'gift')::boolean, false);
+  v_video_path TEXT := p_options->>'video_storage_path';
+  v_gift_payment_id UUID;
+BEGIN
+  -- Also serializes the choice of gift payment for this user
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  -- A gift is paid for with a gift credit instead of the free message. The
+  -- credit belongs to the oldest completed gift payment not yet spent.
+  IF v_gift THEN
+    SELECT p.id INTO v_gift_payment_id
+    FROM public.payments p
+    WHERE p.user_id = p_user_id
+      AND p.product_type = 'gift_capsule'
+      AND p.status = 'completed'
+      AND NOT EXISTS (SELECT 1 FROM public.messages m WHERE m.gift_payment_id = p.id)
+    ORDER BY p.created_at, p.id
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_profile.gift_credits < 1 OR v_gift_payment_id IS NULL THEN
+      RAISE EXCEPTION 'You have no gift capsules left. Buy one to send this message as a gift.';
+    END IF;
+
+    UPDATE public.profiles
+    SET gift_credits = gift_credits - 1
+    WHERE id = p_user_id;
+  END IF;
+
+  IF v_profile.tier <> 'pro' THEN
+    IF NOT v_gift AND v_profile.free_message_used THEN
+      RAISE EXCEPTION 'You have already used your free message. Upgrade to Pro for unlimited messages.';
+    END IF;
+
+    IF v_video_path IS NOT NULL AND (p_options->>'media_kind') IS DISTINCT FROM 'audio' THEN
+      RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_options->'images', '[]'::jsonb)) > 0 THEN
+      RAISE EXCEPTION 'Photo attachments are only available for Pro users.';
+    END IF;
+
+    IF COALESCE((p_options->>'encrypted')::boolean, false) AND v_video_path IS NOT NULL THEN
+      RAISE EXCEPTION 'Encrypted attachments are only available for Pro users.';
+    END IF;
+
+    IF NOT v_gift THEN
+      UPDATE public.profiles
+      SET free_message_used = true
+      WHERE id = p_user_id;
+    END IF;
+  END IF;
+
+  RETURN v_gift_payment_id;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Insert Message (replaces 027)
+-- Adds p_gift_payment_id; a gift_token is generated when it is set.
+-- ============================================
+DROP FUNCTION IF EXISTS public.insert_message(UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT[], JSONB);
+
+CREATE OR REPLACE FUNCTION public.insert_message(
+  p_user_id UUID,
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_options JSONB,
+  p_gift_payment_id UUID
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_encrypted BOOLEAN := COALESCE((p_options->>'encrypted')::boolean, false);
+  v_video_path TEXT := p_options->>'video_storage_path';
+  v_recurrence_months INTEGER := (p_options->>'recurrence_months')::integer;
+  v_is_checkin BOOLEAN := p_options ? 'checkin_interval_days' OR p_options ? 'checkin_grace_days';
+  v_passphrase_hash TEXT;
+BEGIN
+  IF NULLIF(trim(COALESCE(p_options->>'passphrase', '')), '') IS NOT NULL THEN
+    v_passphrase_hash := public.hash_message_passphrase(p_options->>'passphrase');
+  END IF;
+
+  INSERT INTO public.messages (
+    user_id,
+    message_text,
+    deliver_at,
+    timezone,
+    delivery_email,
+    video_storage_path,
+    video_size_bytes,
+    video_duration_seconds,
+    media_kind,
+    encrypted,
+    passphrase_hash,
+    passphrase_hint,
+    recurrence_months,
+    recurrence_count,
+    delivery_mode,
+    checkin_interval_days,
+    checkin_grace_days,
+    last_checkin_at,
+    gift_token,
+    gift_payment_id,
+    email_subject,
+    email_sign_off,
+    email_locale
+  )
+  VALUES (
+    p_user_id,
+    CASE WHEN v_encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    COALESCE(p_deliver_at, NOW()),
+    COALESCE(p_timezone, 'UTC'),
+    p_delivery_emails[1],
+    v_video_path,
+    CASE WHEN v_video_path IS NULL THEN 0 ELSE COALESCE((p_options->>'video_size_bytes')::bigint, 0) END,
+    CASE WHEN v_video_path IS NULL THEN 0 ELSE COALESCE((p_options->>'video_duration_seconds')::integer, 0) END,
+    COALESCE(p_options->>'media_kind', 'video'),
+    v_encrypted,
+    v_passphrase_hash,
+    CASE WHEN v_passphrase_hash IS NULL THEN NULL ELSE NULLIF(trim(p_options->>'passphrase_hint'), '') END,
+    v_recurrence_months,
+    CASE WHEN v_recurrence_months IS NULL THEN NULL ELSE (p_options->>'recurrence_count')::integer END,
+    CASE WHEN v_is_checkin THEN 'checkin' ELSE 'date' END,
+    (p_options->>'checkin_interval_days')::integer,
+    (p_options->>'checkin_grace_days')::integer,
+    CASE WHEN v_is_checkin THEN NOW() ELSE NULL END,
+    CASE WHEN p_gift_payment_id IS NOT NULL THEN gen_random_uuid() ELSE NULL END,
+    p_gift_payment_id,
+    NULLIF(trim(p_options->>'email_subject'), ''),
+    NULLIF(trim(p_options->>'email_sign_off'), ''),
+    COALESCE(p_options->>'email_locale', 'en')
+  )
+  RETURNING * INTO v_message;
+
+  -- Primary recipient is inserted by trigger; add the rest
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT v_message.id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    v_message.id,
+    p_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_options->'images', '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.charge_message_sender(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.insert_message(UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT[], JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Create Message (replaces 027)
+-- Passes the spent gift payment from the charge to the insert.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.create_message(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_options JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_options JSONB := jsonb_strip_nulls(COALESCE(p_options, '{}'::jsonb));
+  v_gift_payment_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to send a message';
+  END IF;
+
+  PERFORM public.check_message_rules(p_message_text, p_deliver_at, p_delivery_emails, v_options);
+  v_gift_payment_id := public.charge_message_sender(v_user_id, v_options);
+
+  RETURN public.insert_message(v_user_id, p_message_text, p_deliver_at, p_timezone, p_delivery_emails, v_options, v_gift_payment_id);
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Revoke Payment (replaces 022)
+-- A refunded or disputed gift payment only loses its credit while unspent.
+-- Once a message is linked to it the gift is kept, like messages of a
+-- revoked Pro upgrade, and deleting it no longer refunds.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.revoke_payment(
+  p_payment_intent_id TEXT,
+  p_status TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('refunded', 'disputed') THEN
+    RAISE EXCEPTION 'Invalid revoke status %', p_status;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found for payment intent %', p_payment_intent_id;
+  END IF;
+
+  -- Entitlement only exists for completed payments; anything else is a status change
+  IF v_payment.status <> 'completed' THEN
+    -- Lost dispute (or refund during dispute) finalizes as refunded; never downgrade refunded
+    IF v_payment.status <> 'refunded' THEN
+      UPDATE public.payments SET status = p_status WHERE id = v_payment.id;
+    END IF;
+    RETURN false;
+  END IF;
+
+  IF v_payment.product_type = 'pro_upgrade' THEN
+    UPDATE public.profiles
+    SET
+      tier = 'free',
+      storage_limit_bytes = 0,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSIF v_payment.product_type = 'gift_capsule' THEN
+    UPDATE public.profiles
+    SET
+      gift_credits = GREATEST(0, gift_credits - 1),
+      updated_at = NOW()
+    WHERE id = v_payment.user_id
+      AND NOT EXISTS (SELECT 1 FROM public.messages WHERE gift_payment_id = v_payment.id);
+  ELSE
+    UPDATE public.profiles
+    SET
+      storage_limit_bytes = GREATEST(0, storage_limit_bytes - v_payment.storage_bytes_added),
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  END IF;
+
+  UPDATE public.payments SET status = p_status WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Restore Payment (replaces 022)
+-- A won dispute gives a gift credit back only if it was taken (no message
+-- is linked to the payment).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.restore_payment(
+  p_payment_intent_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_addon_bytes BIGINT;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found for payment intent %', p_payment_intent_id;
+  END IF;
+
+  IF v_payment.status <> 'disputed' THEN
+    RETURN false;
+  END IF;
+
+  IF v_payment.product_type = 'pro_upgrade' THEN
+    SELECT COALESCE(SUM(storage_bytes_added), 0) INTO v_addon_bytes
+    FROM public.payments
+    WHERE user_id = v_payment.user_id
+      AND product_type = 'storage_addon'
+      AND status = 'completed';
+
+    UPDATE public.profiles
+    SET
+      tier = 'pro',
+      storage_limit_bytes = 2147483648 + v_addon_bytes,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id;
+  ELSIF v_payment.product_type = 'gift_capsule' THEN
+    UPDATE public.profiles
+    SET
+      gift_credits = gift_credits + 1,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id
+      AND NOT EXISTS (SELECT 1 FROM public.messages WHERE gift_payment_id = v_payment.id);
+  ELSE
+    -- Storage packs only count toward a Pro quota
+    UPDATE public.profiles
+    SET
+      storage_limit_bytes = storage_limit_bytes + v_payment.storage_bytes_added,
+      updated_at = NOW()
+    WHERE id = v_payment.user_id
+      AND tier = 'pro';
+  END IF;
+
+  UPDATE public.payments SET status = 'completed' WHERE id = v_payment.id;
+
+  RETURN true;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Refund Unsent Gift (replaces 022)
+-- Deleting a gift before its first delivery gives the credit back, unless
+-- its payment was refunded or is disputed (the credit is gone with it)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.refund_unsent_gift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET gift_credits = gift_credits + 1
+  WHERE id = OLD.user_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.payments
+      WHERE id = OLD.gift_payment_id
+        AND status = 'completed'
+    );
+
+  RETURN OLD;
+END;
+$$;
@@ -0,0 +1,23 @@
+-- Lock Pending Occurrences
+-- A recurring message is one row whose content may be edited while the next
+-- occurrence is pending. It used to stay unlocked after its first delivery,
+-- so recipients (old delivery link), claimed gift recipients and capsule
+-- contributors could read the next occurrence before it was delivered. A
+-- pending row is now locked until its current deliver_at, like a one-off.
+
+-- ============================================
+-- FUNCTION: Is Message Unlocked (replaces 022)
+-- Same rule as view-message: sent, a fired switch, or (date mode)
+-- deliver_at has passed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.is_message_unlocked(p_message public.messages)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_message.status IN ('delivered', 'opened', 'bounced')
+    OR CASE
+      WHEN p_message.delivery_mode = 'checkin' THEN p_message.switch_triggered_at IS NOT NULL
+      ELSE p_message.deliver_at <= NOW()
+    END;
+$$;
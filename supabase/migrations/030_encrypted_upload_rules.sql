@@ -0,0 +1,323 @@
+-- Encrypted Upload Rules
+-- End-to-end encrypted attachments are stored as application/octet-stream
+-- (018) and verify-video cannot read their kind or duration. Any Pro user
+-- could upload a long plain video with that content type and attach it to a
+-- normal message, skipping the 3-minute check. Opaque uploads are now
+-- recorded as such and only accepted on messages with encrypted = true.
+-- Shared capsule entries are never encrypted, so they never accept them.
+
+-- ============================================
+-- VIDEO VERIFICATIONS: opaque (encrypted) upload
+-- ============================================
+ALTER TABLE public.video_verifications
+  ADD COLUMN IF NOT EXISTS encrypted BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================
+-- FUNCTION: Enforce Message Video Rules (replaces 016)
+-- Adds: an encrypted upload can only be attached to an encrypted message.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_message_video_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_verification public.video_verifications%ROWTYPE;
+  v_old_bytes BIGINT := 0;
+BEGIN
+  -- Kind is meaningless without an attachment; older clients omit it for video
+  IF NEW.video_storage_path IS NULL THEN
+    NEW.media_kind := NULL;
+  ELSIF NEW.media_kind IS NULL THEN
+    NEW.media_kind := 'video';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old_bytes := OLD.video_size_bytes;
+
+    -- Unchanged attachment (e.g. text edit by a downgraded user) is always allowed
+    IF NEW.video_storage_path IS NOT DISTINCT FROM OLD.video_storage_path
+      AND NEW.video_size_bytes = OLD.video_size_bytes
+      AND NEW.media_kind IS NOT DISTINCT FROM OLD.media_kind THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.video_storage_path IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  IF NEW.video_storage_path NOT LIKE NEW.user_id::text || '/%' THEN
+    RAISE EXCEPTION 'Invalid video path';
+  END IF;
+
+  SELECT * INTO v_verification
+  FROM public.video_verifications
+  WHERE storage_path = NEW.video_storage_path;
+
+  IF FOUND THEN
+    IF v_verification.status = 'rejected' THEN
+      RAISE EXCEPTION 'Attachment was rejected: %', v_verification.error;
+    END IF;
+
+    IF v_verification.encrypted AND NOT NEW.encrypted THEN
+      RAISE EXCEPTION 'Encrypted attachments can only be added to end-to-end encrypted messages.';
+    END IF;
+
+    NEW.video_size_bytes := v_verification.size_bytes;
+    NEW.video_duration_seconds := v_verification.duration_seconds;
+    NEW.media_kind := v_verification.media_kind;
+  END IF;
+
+  IF v_profile.tier <> 'pro' AND NEW.media_kind <> 'audio' THEN
+    RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+  END IF;
+
+  IF NEW.video_size_bytes > v_old_bytes
+    AND v_profile.storage_used_bytes + NEW.video_size_bytes - v_old_bytes
+      > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+    RAISE EXCEPTION 'Not enough storage remaining for this attachment.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Enforce Capsule Entry Rules (replaces 023)
+-- Adds: encrypted uploads are rejected (capsules are never encrypted).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_capsule_entry_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_verification public.video_verifications%ROWTYPE;
+  v_old_bytes BIGINT := 0;
+BEGIN
+  IF NEW.video_storage_path IS NULL THEN
+    NEW.media_kind := NULL;
+  ELSIF NEW.media_kind IS NULL THEN
+    NEW.media_kind := 'video';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := NOW();
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  IF v_message.encrypted OR v_message.delivery_mode = 'checkin' THEN
+    RAISE EXCEPTION 'Shared capsules cannot be end-to-end encrypted or use check-in delivery.';
+  END IF;
+
+  IF NOT public.is_capsule_open(NEW.message_id) THEN
+    RAISE EXCEPTION 'This capsule is locked. Entries can no longer be added or changed.';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old_bytes := OLD.video_size_bytes;
+
+    IF NEW.video_storage_path IS NOT DISTINCT FROM OLD.video_storage_path
+      AND NEW.video_size_bytes = OLD.video_size_bytes
+      AND NEW.media_kind IS NOT DISTINCT FROM OLD.media_kind THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.video_storage_path IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- An object is charged once: it cannot also be a message attachment
+  IF NEW.video_storage_path NOT LIKE NEW.user_id::text || '/%'
+    OR EXISTS (SELECT 1 FROM public.messages WHERE video_storage_path = NEW.video_storage_path) THEN
+    RAISE EXCEPTION 'Invalid video path';
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  SELECT * INTO v_verification
+  FROM public.video_verifications
+  WHERE storage_path = NEW.video_storage_path;
+
+  IF FOUND THEN
+    IF v_verification.status = 'rejected' THEN
+      RAISE EXCEPTION 'Attachment was rejected: %', v_verification.error;
+    END IF;
+
+    IF v_verification.encrypted THEN
+      RAISE EXCEPTION 'Encrypted attachments can only be added to end-to-end encrypted messages.';
+    END IF;
+
+    NEW.video_size_bytes := v_verification.size_bytes;
+    NEW.video_duration_seconds := v_verification.duration_seconds;
+    NEW.media_kind := v_verification.media_kind;
+  END IF;
+
+  IF v_profile.tier <> 'pro' AND NEW.media_kind <> 'audio' THEN
+    RAISE EXCEPTION 'Video attachments are only available for Pro users.';
+  END IF;
+
+  IF NEW.video_size_bytes > v_old_bytes
+    AND v_profile.storage_used_bytes + NEW.video_size_bytes - v_old_bytes
+      > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+    RAISE EXCEPTION 'Not enough storage remaining for this attachment.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Apply Video Verification (replaces 023)
+-- Adds p_encrypted: an opaque upload already attached to a message that is
+-- not encrypted, or to a capsule entry, is rejected and stripped.
+-- ============================================
+DROP FUNCTION IF EXISTS public.apply_video_verification(TEXT, BIGINT, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.apply_video_verification(
+  p_storage_path TEXT,
+  p_size_bytes BIGINT,
+  p_duration_seconds INTEGER,
+  p_error TEXT,
+  p_media_kind TEXT DEFAULT 'video',
+  p_encrypted BOOLEAN DEFAULT false
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT := CASE WHEN p_error IS NULL THEN 'verified' ELSE 'rejected' END;
+  v_error TEXT := p_error;
+  v_message_id UUID;
+  v_message_encrypted BOOLEAN;
+  v_entry_id UUID;
+  v_owner_id UUID;
+  v_recorded_bytes BIGINT;
+  v_profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT id, user_id, video_size_bytes, encrypted
+  INTO v_message_id, v_owner_id, v_recorded_bytes, v_message_encrypted
+  FROM public.messages
+  WHERE video_storage_path = p_storage_path
+  FOR UPDATE;
+
+  IF v_message_id IS NULL THEN
+    SELECT id, user_id, video_size_bytes INTO v_entry_id, v_owner_id, v_recorded_bytes
+    FROM public.capsule_entries
+    WHERE video_storage_path = p_storage_path
+    FOR UPDATE;
+  END IF;
+
+  -- Unverifiable content is only allowed where it is actually ciphertext
+  IF v_status = 'verified' AND p_encrypted
+    AND (v_entry_id IS NOT NULL OR (v_message_id IS NOT NULL AND NOT v_message_encrypted)) THEN
+    v_status := 'rejected';
+    v_error := 'Encrypted attachments can only be added to end-to-end encrypted messages';
+  END IF;
+
+  IF v_owner_id IS NOT NULL AND v_status = 'verified' THEN
+    SELECT * INTO v_profile
+    FROM public.profiles
+    WHERE id = v_owner_id
+    FOR UPDATE;
+
+    -- Client claimed audio for what is really a video
+    IF v_profile.tier <> 'pro' AND p_media_kind <> 'audio' THEN
+      v_status := 'rejected';
+      v_error := 'Video attachments are only available for Pro users';
+    -- Client under-reported size: re-check quota with the real size
+    ELSIF p_size_bytes > v_recorded_bytes
+      AND v_profile.storage_used_bytes + p_size_bytes - v_recorded_bytes
+        > public.effective_storage_limit(v_profile.tier, v_profile.storage_limit_bytes) THEN
+      v_status := 'rejected';
+      v_error := 'Attachment exceeds remaining storage';
+    END IF;
+  END IF;
+
+  INSERT INTO public.video_verifications (storage_path, size_bytes, duration_seconds, media_kind, encrypted, status, error, verified_at)
+  VALUES (p_storage_path, p_size_bytes, p_duration_seconds, p_media_kind, p_encrypted, v_status, v_error, NOW())
+  ON CONFLICT (storage_path) DO UPDATE SET
+    size_bytes = EXCLUDED.size_bytes,
+    duration_seconds = EXCLUDED.duration_seconds,
+    media_kind = EXCLUDED.media_kind,
+    encrypted = EXCLUDED.encrypted,
+    status = EXCLUDED.status,
+    error = EXCLUDED.error,
+    verified_at = EXCLUDED.verified_at;
+
+  -- storage_used_bytes follows via sync_storage_used / sync_entry_storage_used
+  IF v_message_id IS NOT NULL THEN
+    IF v_status = 'verified' THEN
+      UPDATE public.messages
+      SET
+        video_size_bytes = p_size_bytes,
+        video_duration_seconds = p_duration_seconds,
+        media_kind = p_media_kind
+      WHERE id = v_message_id;
+    ELSE
+      UPDATE public.messages
+      SET
+        video_storage_path = NULL,
+        video_size_bytes = 0,
+        video_duration_seconds = 0,
+        media_kind = NULL
+      WHERE id = v_message_id;
+    END IF;
+  ELSIF v_entry_id IS NOT NULL THEN
+    IF v_status = 'verified' THEN
+      UPDATE public.capsule_entries
+      SET
+        video_size_bytes = p_size_bytes,
+        video_duration_seconds = p_duration_seconds,
+        media_kind = p_media_kind
+      WHERE id = v_entry_id;
+    ELSE
+      -- A rejected attachment on a text-less entry removes the entry
+      DELETE FROM public.capsule_entries
+      WHERE id = v_entry_id
+        AND btrim(entry_text) = '';
+
+      UPDATE public.capsule_entries
+      SET
+        video_storage_path = NULL,
+        video_size_bytes = 0,
+        video_duration_seconds = 0,
+        media_kind = NULL
+      WHERE id = v_entry_id;
+    END IF;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Edge Function only: callable by the service role, never by clients
+REVOKE EXECUTE ON FUNCTION public.apply_video_verification(TEXT, BIGINT, INTEGER, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
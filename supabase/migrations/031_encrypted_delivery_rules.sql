@@ -0,0 +1,70 @@
+-- Encrypted Delivery Rules
+-- The key of an end-to-end encrypted message is only in the private link the
+-- sender shares (018); the delivery email cannot carry it without the server
+-- seeing it. Deliveries the sender cannot hand a link to are therefore
+-- refused: gifts (recipient unknown until claimed) and check-in messages
+-- (sent when the sender can no longer act). Existing messages are unchanged.
+
+-- ============================================
+-- FUNCTION: Check Message Rules (replaces 027)
+-- Adds: no encryption for gifts or check-in delivery.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.check_message_rules(
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_delivery_emails TEXT[],
+  p_options JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recurrence_months INTEGER := (p_options->>'recurrence_months')::integer;
+  v_recurrence_count INTEGER := (p_options->>'recurrence_count')::integer;
+  v_interval_days INTEGER := (p_options->>'checkin_interval_days')::integer;
+  v_grace_days INTEGER := (p_options->>'checkin_grace_days')::integer;
+  v_encrypted BOOLEAN := COALESCE((p_options->>'encrypted')::boolean, false);
+BEGIN
+  IF char_length(trim(COALESCE(p_message_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF v_interval_days IS NOT NULL OR v_grace_days IS NOT NULL THEN
+    IF v_interval_days IS NULL OR v_interval_days NOT BETWEEN 1 AND 365 THEN
+      RAISE EXCEPTION 'Check in every 1 to 365 days';
+    END IF;
+
+    IF v_grace_days IS NULL OR v_grace_days NOT BETWEEN 1 AND 90 THEN
+      RAISE EXCEPTION 'The grace period must be 1 to 90 days';
+    END IF;
+
+    IF v_recurrence_months IS NOT NULL THEN
+      RAISE EXCEPTION 'A check-in message cannot repeat';
+    END IF;
+  ELSIF p_deliver_at IS NULL OR p_deliver_at <= NOW() THEN
+    RAISE EXCEPTION 'Delivery time must be in the future';
+  END IF;
+
+  IF COALESCE(array_length(p_delivery_emails, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one delivery email is required';
+  END IF;
+
+  IF array_length(p_delivery_emails, 1) > 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  IF v_recurrence_months IS NOT NULL AND v_recurrence_months NOT BETWEEN 1 AND 120 THEN
+    RAISE EXCEPTION 'A message can repeat every 1 to 120 months';
+  END IF;
+
+  IF v_recurrence_months IS NOT NULL AND v_recurrence_count IS NOT NULL AND v_recurrence_count NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'A repeating message can be delivered 2 to 100 times';
+  END IF;
+
+  IF v_encrypted AND (v_interval_days IS NOT NULL OR v_grace_days IS NOT NULL OR COALESCE((p_options->>'gift')::boolean, false)) THEN
+    RAISE EXCEPTION 'Encrypted messages cannot be gifts or use check-in delivery: the delivery email cannot carry the private link.';
+  END IF;
+END;
+$$;
@@ -0,0 +1,41 @@
+-- Recipient Limit
+-- create_message caps a message at 10 recipients, but editing adds rows to
+-- message_recipients directly (RLS policy from 006), so the cap could be
+-- bypassed. It is now enforced on every insert.
+
+-- ============================================
+-- FUNCTION: Enforce Recipient Limit
+-- Locks the message so concurrent inserts are counted one after another.
+-- A row that already exists is left to ON CONFLICT and never counted.
+-- Mirrors MAX_RECIPIENTS in src/utils/validation.ts.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_recipient_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM public.messages
+  WHERE id = NEW.message_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.message_recipients
+    WHERE message_id = NEW.message_id AND email = NEW.email
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.message_recipients WHERE message_id = NEW.message_id) >= 10 THEN
+    RAISE EXCEPTION 'You can send to at most 10 recipients';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_recipient_limit_trigger
+  BEFORE INSERT ON public.message_recipients
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_recipient_limit();
@@ -0,0 +1,178 @@
+-- Update Message
+-- Editing a pending message used to be several client calls: the passphrase
+-- RPC, a direct messages UPDATE, a delete and an upsert of recipients, then
+-- photo rows. A failure part way (e.g. the recipient cap from 032) left the
+-- earlier steps applied. update_message now does the whole edit in one
+-- transaction, and the direct write paths are closed like inserts in 012.
+-- p_options keys (all optional): a missing key keeps the current value, a
+-- null one clears it where that is allowed:
+--   video_storage_path (null removes the attachment), video_size_bytes,
+--   video_duration_seconds, media_kind, recurrence_months (null stops
+--   repeating), recurrence_count, checkin_interval_days, checkin_grace_days,
+--   email_subject, email_sign_off, email_locale, passphrase,
+--   passphrase_hint, remove_passphrase, remove_image_ids, images.
+
+-- ============================================
+-- FUNCTION: Update Message
+-- Same request rules as create_message, checked on the edited values.
+-- Attachment tier/path/quota, the check-in deadline and storage accounting
+-- are handled by the same triggers as before.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.update_message(
+  p_message_id UUID,
+  p_message_text TEXT,
+  p_deliver_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_delivery_emails TEXT[],
+  p_options JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_options JSONB := COALESCE(p_options, '{}'::jsonb);
+  v_message public.messages%ROWTYPE;
+  v_video_changed BOOLEAN := v_options ? 'video_storage_path';
+  v_video_path TEXT := v_options->>'video_storage_path';
+  v_recurrence_months INTEGER;
+  v_recurrence_count INTEGER;
+  v_interval_days INTEGER;
+  v_grace_days INTEGER;
+  v_next_position INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id
+    AND user_id = v_user_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found or can no longer be edited';
+  END IF;
+
+  IF v_options ? 'recurrence_months' THEN
+    v_recurrence_months := (v_options->>'recurrence_months')::integer;
+    v_recurrence_count := CASE WHEN v_recurrence_months IS NULL THEN NULL ELSE (v_options->>'recurrence_count')::integer END;
+  ELSE
+    v_recurrence_months := v_message.recurrence_months;
+    v_recurrence_count := v_message.recurrence_count;
+  END IF;
+
+  -- Interval and grace period only apply to check-in messages
+  IF v_message.delivery_mode = 'checkin' THEN
+    v_interval_days := COALESCE((v_options->>'checkin_interval_days')::integer, v_message.checkin_interval_days);
+    v_grace_days := COALESCE((v_options->>'checkin_grace_days')::integer, v_message.checkin_grace_days);
+  END IF;
+
+  PERFORM public.check_message_rules(
+    p_message_text,
+    p_deliver_at,
+    p_delivery_emails,
+    jsonb_strip_nulls(jsonb_build_object(
+      'recurrence_months', v_recurrence_months,
+      'recurrence_count', v_recurrence_count,
+      'checkin_interval_days', v_interval_days,
+      'checkin_grace_days', v_grace_days,
+      'encrypted', v_message.encrypted,
+      'gift', v_message.gift_token IS NOT NULL
+    ))
+  );
+
+  IF v_options ? 'passphrase' OR v_options ? 'passphrase_hint' OR v_options ? 'remove_passphrase' THEN
+    PERFORM public.set_message_passphrase(
+      p_message_id,
+      NULLIF(trim(COALESCE(v_options->>'passphrase', '')), ''),
+      v_options->>'passphrase_hint',
+      COALESCE((v_options->>'remove_passphrase')::boolean, false)
+    );
+  END IF;
+
+  UPDATE public.messages
+  SET
+    message_text = CASE WHEN encrypted THEN p_message_text ELSE trim(p_message_text) END,
+    deliver_at = p_deliver_at,
+    timezone = COALESCE(p_timezone, timezone),
+    delivery_email = p_delivery_emails[1],
+    video_storage_path = CASE WHEN v_video_changed THEN v_video_path ELSE video_storage_path END,
+    video_size_bytes = CASE
+      WHEN NOT v_video_changed THEN video_size_bytes
+      WHEN v_video_path IS NULL THEN 0
+      ELSE COALESCE((v_options->>'video_size_bytes')::bigint, 0)
+    END,
+    video_duration_seconds = CASE
+      WHEN NOT v_video_changed THEN video_duration_seconds
+      WHEN v_video_path IS NULL THEN 0
+      ELSE COALESCE((v_options->>'video_duration_seconds')::integer, 0)
+    END,
+    media_kind = CASE WHEN v_video_changed THEN v_options->>'media_kind' ELSE media_kind END,
+    recurrence_months = v_recurrence_months,
+    recurrence_count = v_recurrence_count,
+    checkin_interval_days = COALESCE(v_interval_days, checkin_interval_days),
+    checkin_grace_days = COALESCE(v_grace_days, checkin_grace_days),
+    email_subject = CASE WHEN v_options ? 'email_subject' THEN NULLIF(trim(v_options->>'email_subject'), '') ELSE email_subject END,
+    email_sign_off = CASE WHEN v_options ? 'email_sign_off' THEN NULLIF(trim(v_options->>'email_sign_off'), '') ELSE email_sign_off END,
+    email_locale = COALESCE(v_options->>'email_locale', email_locale)
+  WHERE id = p_message_id;
+
+  -- Removed recipients go first so a full list can be swapped within the cap
+  DELETE FROM public.message_recipients
+  WHERE message_id = p_message_id
+    AND email <> ALL (ARRAY(SELECT lower(email) FROM unnest(p_delivery_emails) AS email));
+
+  INSERT INTO public.message_recipients (message_id, email)
+  SELECT p_message_id, lower(email)
+  FROM unnest(p_delivery_emails) AS email
+  ON CONFLICT (message_id, email) DO NOTHING;
+
+  -- Photo rows; the caller removes the objects of deleted rows afterwards
+  DELETE FROM public.message_images
+  WHERE message_id = p_message_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(v_options->'remove_image_ids', '[]'::jsonb))::uuid);
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO v_next_position
+  FROM public.message_images
+  WHERE message_id = p_message_id;
+
+  -- Owner, size, count and quota are checked per row by enforce_message_image_rules
+  INSERT INTO public.message_images (message_id, user_id, storage_path, thumbnail_path, width, height, position)
+  SELECT
+    p_message_id,
+    v_user_id,
+    image->>'storage_path',
+    image->>'thumbnail_path',
+    (image->>'width')::integer,
+    (image->>'height')::integer,
+    (v_next_position + ordinality - 1)::integer
+  FROM jsonb_array_elements(COALESCE(v_options->'images', '[]'::jsonb)) WITH ORDINALITY AS t(image, ordinality);
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id;
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_message(UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT[], JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_message(UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT[], JSONB) TO authenticated;
+
+-- ============================================
+-- MESSAGES, RECIPIENTS, PHOTOS: edits via update_message only
+-- ============================================
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own pending message recipients" ON public.message_recipients;
+DROP POLICY IF EXISTS "Users can delete own pending message recipients" ON public.message_recipients;
+REVOKE INSERT, UPDATE, DELETE ON public.message_recipients FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own pending message images" ON public.message_images;
+DROP POLICY IF EXISTS "Users can delete own pending message images" ON public.message_images;
+REVOKE INSERT, DELETE ON public.message_images FROM anon, authenticated;
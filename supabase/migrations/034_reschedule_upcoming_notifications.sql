@@ -0,0 +1,36 @@
+-- Reschedule Upcoming Notifications
+-- A queued 'upcoming' reminder kept its slot (UNIQUE message_id, kind,
+-- occurrence from 024) when the sender moved deliver_at, so a message
+-- pushed months out still got "unlocks soon" with the far-off date, and no
+-- reminder was queued for the new date. Unsent reminders are now dropped
+-- whenever deliver_at changes; queue_upcoming_notifications queues a new
+-- one once the new date is within the window. send-notifications also
+-- skips a reminder whose message is no longer within the window.
+
+-- ============================================
+-- FUNCTION: Drop Unsent Upcoming Notifications
+-- Runs on every deliver_at change: edits (update_message), the next
+-- occurrence of a series (complete_message_occurrence) and check-ins.
+-- Reminders already sent stay as the record of what the sender got.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.drop_unsent_upcoming_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.sender_notifications
+  WHERE message_id = NEW.id
+    AND kind = 'upcoming'
+    AND status <> 'sent';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER drop_unsent_upcoming_notifications_trigger
+  AFTER UPDATE ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.deliver_at IS DISTINCT FROM NEW.deliver_at)
+  EXECUTE FUNCTION public.drop_unsent_upcoming_notifications();